@@ -2,11 +2,25 @@ import { NextResponse } from 'next/server';
 import { getDefaultProvider, getProvider } from '@/lib/ai';
 import sharp from 'sharp';
 import { PromptBuilder } from '@/lib/ai/prompts';
+import type { AIEditResultPayload, AIEditStreamEvent, AIEditVariantPayload } from '@/lib/ai/events';
 
 export const maxDuration = 60; // Max execution time for Vercel/Next.js
 
 type OutputFormat = 'png' | 'jpeg' | 'webp';
 type RegionBounds = { x: number; y: number; width: number; height: number };
+type EmitEvent = (event: AIEditStreamEvent) => void;
+
+const MAX_VARIANTS = 8;
+const MAX_VARIANT_CONCURRENCY = Math.max(1, Number(process.env.AI_EDIT_MAX_CONCURRENCY) || 2);
+const ATTEMPT_TIMEOUT_MS = 30_000;
+// Generation stops this long before `maxDuration`, leaving time to composite and send what is done
+// instead of being cut off by the platform.
+const DEADLINE_MARGIN_MS = 5_000;
+
+class AIEditRequestError extends Error {
+    status = 400;
+}
+
 
 const decodeBase64Image = (value: string, fieldName: string): Buffer => {
     if (typeof value !== 'string' || value.length === 0) {
@@ -27,15 +41,31 @@ const decodeBase64Image = (value: string, fieldName: string): Buffer => {
     }
 };
 
-const withTimeout = async <T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> => {
+const withTimeout = async <T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    parentSignal?: AbortSignal
+): Promise<T> => {
+    const controller = new AbortController();
+    const abortFromParent = () => controller.abort(parentSignal?.reason);
+    if (parentSignal?.aborted) abortFromParent();
+    parentSignal?.addEventListener('abort', abortFromParent, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-        const timer = setTimeout(() => {
-            clearTimeout(timer);
-            reject(new Error(`AI provider timed out after ${timeoutMs}ms`));
+        timer = setTimeout(() => {
+            const error = new Error(`AI provider timed out after ${timeoutMs}ms`);
+            controller.abort(error);
+            reject(error);
         }, timeoutMs);
     });
 
-    return Promise.race([fn(), timeoutPromise]);
+    try {
+        return await Promise.race([fn(controller.signal), timeoutPromise]);
+    } finally {
+        clearTimeout(timer);
+        parentSignal?.removeEventListener('abort', abortFromParent);
+    }
 };
 
 const withRetry = async <T>(fn: (attempt: number) => Promise<T>, retries: number): Promise<T> => {
@@ -55,6 +85,48 @@ const withRetry = async <T>(fn: (attempt: number) => Promise<T>, retries: number
     throw lastError;
 };
 
+// Runs every item but never more than `limit` at once; results keep input order.
+const mapWithConcurrency = async <T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next;
+            next += 1;
+            try {
+                results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+};
+
+// One entry per requested variant. Explicit seeds win; extra variants get random seeds so they differ.
+const resolveVariantSeeds = (variants: unknown, seeds: unknown): Array<number | undefined> => {
+    const explicit = Array.isArray(seeds)
+        ? seeds.map(Number).filter((seed) => Number.isInteger(seed) && seed >= 0)
+        : [];
+    const requested = Number(variants);
+    const count = Math.max(
+        1,
+        Math.min(MAX_VARIANTS, Number.isInteger(requested) && requested > 0 ? requested : explicit.length || 1)
+    );
+
+    return Array.from({ length: count }, (_, index) => {
+        if (explicit[index] !== undefined) return explicit[index];
+        return count > 1 ? Math.floor(Math.random() * 2 ** 32) : undefined;
+    });
+};
+
 const clampRegionBounds = (bounds: RegionBounds, imageWidth: number, imageHeight: number): RegionBounds => {
     const x = Math.max(0, Math.min(bounds.x, Math.max(0, imageWidth - 1)));
     const y = Math.max(0, Math.min(bounds.y, Math.max(0, imageHeight - 1)));
@@ -63,117 +135,152 @@ const clampRegionBounds = (bounds: RegionBounds, imageWidth: number, imageHeight
     return { x, y, width, height };
 };
 
-export async function POST(req: Request) {
-    const requestId = crypto.randomUUID();
+const runAIEdit = async (
+    body: any,
+    requestId: string,
+    signal: AbortSignal,
+    emit: EmitEvent
+): Promise<AIEditResultPayload> => {
     const startedAt = Date.now();
+    const { image, mask, prompt, metadata, providerName } = body ?? {};
 
-    try {
-        const body = await req.json();
-        const { image, mask, prompt, metadata, providerName } = body;
+    if (!image || !mask || !prompt || typeof prompt !== 'string' || !prompt.trim()) {
+        throw new AIEditRequestError('Missing required fields (image, mask, prompt)');
+    }
 
-        if (!image || !mask || !prompt || typeof prompt !== 'string' || !prompt.trim()) {
-            return NextResponse.json({ error: 'Missing required fields (image, mask, prompt)' }, { status: 400 });
-        }
+    emit({ type: 'phase', phase: 'decode' });
+    const imageBuffer = decodeBase64Image(image, 'image');
+    const maskBuffer = decodeBase64Image(mask, 'mask');
 
-        const imageBuffer = decodeBase64Image(image, 'image');
-        const maskBuffer = decodeBase64Image(mask, 'mask');
+    // Determine provider with fallback
+    let provider = providerName ? getProvider(providerName) : getDefaultProvider();
+    if (!provider) {
+        console.warn(`Provider ${providerName} not found, falling back to default.`);
+        provider = getDefaultProvider();
+    }
 
-        // Determine provider with fallback
-        let provider = providerName ? getProvider(providerName) : getDefaultProvider();
-        if (!provider) {
-            console.warn(`Provider ${providerName} not found, falling back to default.`);
-            provider = getDefaultProvider();
-        }
+    const imageMeta = await sharp(imageBuffer).metadata();
+    const imageWidth = Number(imageMeta.width ?? 0);
+    const imageHeight = Number(imageMeta.height ?? 0);
+    const width = Number(metadata?.regionBounds?.width ?? imageWidth);
+    const height = Number(metadata?.regionBounds?.height ?? imageHeight);
+    const outputFormat: OutputFormat = metadata?.outputFormat ?? 'png';
+    const featherAmount = Number(metadata?.featherAmount ?? 0);
 
-        const imageMeta = await sharp(imageBuffer).metadata();
-        const imageWidth = Number(imageMeta.width ?? 0);
-        const imageHeight = Number(imageMeta.height ?? 0);
-        const width = Number(metadata?.regionBounds?.width ?? imageWidth);
-        const height = Number(metadata?.regionBounds?.height ?? imageHeight);
-        const outputFormat: OutputFormat = metadata?.outputFormat ?? 'png';
-        const featherAmount = Number(metadata?.featherAmount ?? 0);
+    if (!imageWidth || !imageHeight || !width || !height) {
+        throw new AIEditRequestError('Invalid image dimensions for AI edit request');
+    }
 
-        if (!imageWidth || !imageHeight || !width || !height) {
-            return NextResponse.json({ error: 'Invalid image dimensions for AI edit request' }, { status: 400 });
-        }
+    const requestedBounds: RegionBounds = {
+        x: Number(metadata?.regionBounds?.x ?? 0),
+        y: Number(metadata?.regionBounds?.y ?? 0),
+        width,
+        height
+    };
+    const regionBounds = clampRegionBounds(requestedBounds, imageWidth, imageHeight);
 
-        const requestedBounds: RegionBounds = {
-            x: Number(metadata?.regionBounds?.x ?? 0),
-            y: Number(metadata?.regionBounds?.y ?? 0),
-            width,
-            height
-        };
-        const regionBounds = clampRegionBounds(requestedBounds, imageWidth, imageHeight);
-
-        const constraints = {
-            regionBounds,
-            featherAmount,
-            outputFormat
-        } as const;
-
-        const croppedImage = await sharp(imageBuffer)
-            .extract({
-                left: regionBounds.x,
-                top: regionBounds.y,
-                width: regionBounds.width,
-                height: regionBounds.height
-            })
-            .png()
-            .toBuffer();
+    const constraints = {
+        regionBounds,
+        featherAmount,
+        outputFormat
+    } as const;
 
-        const croppedMask = await sharp(maskBuffer)
-            .extract({
-                left: regionBounds.x,
-                top: regionBounds.y,
-                width: regionBounds.width,
-                height: regionBounds.height
-            })
-            .greyscale()
-            .threshold(16)
-            .png()
-            .toBuffer();
+    emit({ type: 'phase', phase: 'crop' });
+    const croppedImage = await sharp(imageBuffer)
+        .extract({
+            left: regionBounds.x,
+            top: regionBounds.y,
+            width: regionBounds.width,
+            height: regionBounds.height
+        })
+        .png()
+        .toBuffer();
 
-        const context = await PromptBuilder.extractContext(imageBuffer);
-        const finalPrompt = PromptBuilder.build(prompt.trim(), context, {
-            width: constraints.regionBounds.width,
-            height: constraints.regionBounds.height,
-            outputFormat: constraints.outputFormat,
-            featherAmount: constraints.featherAmount
-        });
-
-        console.info('[AI-Edit] Request started', {
-            requestId,
-            provider: provider.name,
-            width: constraints.regionBounds.width,
-            height: constraints.regionBounds.height
-        });
+    const croppedMask = await sharp(maskBuffer)
+        .extract({
+            left: regionBounds.x,
+            top: regionBounds.y,
+            width: regionBounds.width,
+            height: regionBounds.height
+        })
+        .greyscale()
+        .threshold(16)
+        .png()
+        .toBuffer();
+
+    emit({ type: 'phase', phase: 'context' });
+    const context = await PromptBuilder.extractContext(imageBuffer);
+    const finalPrompt = PromptBuilder.build(prompt.trim(), context, {
+        width: constraints.regionBounds.width,
+        height: constraints.regionBounds.height,
+        outputFormat: constraints.outputFormat,
+        featherAmount: constraints.featherAmount
+    });
 
+    console.info('[AI-Edit] Request started', {
+        requestId,
+        provider: provider.name,
+        width: constraints.regionBounds.width,
+        height: constraints.regionBounds.height
+    });
+
+    const variantSeeds = resolveVariantSeeds(body?.variants, body?.seeds);
+
+    // Past the deadline no attempt starts and running ones are aborted; the variants finished by
+    // then are returned as a partial result.
+    const deadlineAt = startedAt + maxDuration * 1000 - DEADLINE_MARGIN_MS;
+    const deadline = new AbortController();
+    const abortFromRequest = () => deadline.abort(signal.reason);
+    if (signal.aborted) abortFromRequest();
+    signal.addEventListener('abort', abortFromRequest, { once: true });
+    const deadlineTimer = setTimeout(
+        () => deadline.abort(new Error(`AI edit ran out of time after ${Math.round((Date.now() - startedAt) / 1000)}s`)),
+        Math.max(0, deadlineAt - Date.now())
+    );
+
+    const generateVariant = async (seed: number | undefined, variant: number): Promise<AIEditVariantPayload> => {
         const result = await withRetry(
-            async (attempt) =>
-                withTimeout(
-                    () =>
+            async (attempt) => {
+                deadline.signal.throwIfAborted();
+                emit({ type: 'phase', phase: 'attempt', attempt, variant, provider: provider.name });
+                return withTimeout(
+                    (attemptSignal) =>
                         provider.editImage({
                             image: croppedImage,
                             mask: croppedMask,
                             prompt: prompt.trim(),
                             finalPrompt,
+                            seed,
                             context: {
                                 style: context.artStyle,
                                 lighting: context.lighting,
                                 dominantColors: context.dominantColors
                             },
-                            constraints
+                            constraints,
+                            signal: attemptSignal,
+                            onProgress: ({ progress, preview }) => {
+                                emit({
+                                    type: 'progress',
+                                    attempt,
+                                    variant,
+                                    progress,
+                                    preview: preview ? `data:image/png;base64,${preview.toString('base64')}` : undefined
+                                });
+                            }
                         }),
-                    30_000
+                    Math.min(ATTEMPT_TIMEOUT_MS, deadlineAt - Date.now()),
+                    deadline.signal
                 ).catch((error) => {
                     console.warn('[AI-Edit] Provider attempt failed', {
                         requestId,
                         provider: provider.name,
+                        variant,
                         attempt,
                         error: error instanceof Error ? error.message : String(error)
                     });
                     throw error;
-                }),
+                });
+            },
             2
         );
 
@@ -184,30 +291,110 @@ export async function POST(req: Request) {
             .png()
             .toBuffer();
 
-        const outBase64 = `data:image/png;base64,${maskedRegionBuffer.toString('base64')}`;
-
-        console.info('[AI-Edit] Request finished', {
-            requestId,
-            provider: provider.name,
-            durationMs: Date.now() - startedAt
-        });
-
-        return NextResponse.json({
-            image: outBase64,
-            regionBounds,
-            seed: result.seed,
-            provider: provider.name,
-            context,
-            requestId,
-            metadata: {
-                ...(result.metadata || {}),
-                generationTime: Date.now() - startedAt,
-                prompt: finalPrompt
+        return {
+            image: `data:image/png;base64,${maskedRegionBuffer.toString('base64')}`,
+            seed: result.seed ?? seed,
+            metadata: result.metadata || {}
+        };
+    };
+
+    let settled: PromiseSettledResult<AIEditVariantPayload>[];
+    try {
+        settled = await mapWithConcurrency(variantSeeds, MAX_VARIANT_CONCURRENCY, generateVariant);
+    } finally {
+        clearTimeout(deadlineTimer);
+        signal.removeEventListener('abort', abortFromRequest);
+    }
+    const outOfTime = deadline.signal.aborted && !signal.aborted;
+    const variants = settled.filter((entry): entry is PromiseFulfilledResult<AIEditVariantPayload> => entry.status === 'fulfilled')
+        .map((entry) => entry.value);
+    if (variants.length === 0) {
+        const firstFailure = settled.find((entry): entry is PromiseRejectedResult => entry.status === 'rejected');
+        throw (outOfTime ? deadline.signal.reason : firstFailure?.reason) ?? new Error('AI provider returned no variants');
+    }
+    const partial = outOfTime && variants.length < settled.length;
+
+    emit({ type: 'phase', phase: 'finalize' });
+
+    console.info('[AI-Edit] Request finished', {
+        requestId,
+        provider: provider.name,
+        variants: variants.length,
+        failedVariants: settled.length - variants.length,
+        partial,
+        durationMs: Date.now() - startedAt
+    });
+
+    const [primary] = variants;
+    return {
+        image: primary.image,
+        regionBounds,
+        seed: primary.seed,
+        provider: provider.name,
+        context,
+        requestId,
+        variants,
+        ...(partial ? { partial: true } : {}),
+        metadata: {
+            ...primary.metadata,
+            generationTime: Date.now() - startedAt,
+            prompt: finalPrompt
+        }
+    };
+};
+
+const streamAIEdit = (body: any, requestId: string, signal: AbortSignal): Response => {
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const emit: EmitEvent = (event) => {
+                if (signal.aborted) return;
+                controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+            };
+
+            try {
+                const result = await runAIEdit(body, requestId, signal, emit);
+                emit({ type: 'result', result });
+            } catch (error: unknown) {
+                const message = error instanceof Error ? error.message : 'Internal Server Error';
+                console.error('[AI-Edit API Error]', { requestId, error: message, aborted: signal.aborted });
+                emit({ type: 'error', error: message, requestId });
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed because the client went away.
+                }
             }
-        });
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            'X-Request-Id': requestId
+        }
+    });
+};
+
+export async function POST(req: Request) {
+    const requestId = crypto.randomUUID();
+
+    try {
+        const body = await req.json();
+
+        if (body?.stream === true) {
+            return streamAIEdit(body, requestId, req.signal);
+        }
+
+        const result = await runAIEdit(body, requestId, req.signal, () => { });
+        return NextResponse.json(result);
     } catch (error: unknown) {
         const message = error instanceof Error ? error.message : 'Internal Server Error';
+        const status = error instanceof AIEditRequestError ? error.status : 500;
         console.error('[AI-Edit API Error]', { requestId, error: message });
-        return NextResponse.json({ error: message, requestId }, { status: 500 });
+        return NextResponse.json({ error: message, requestId }, { status });
     }
 }
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getStorageEngine, isValidAssetId, sniffMimeType } from '@/lib/storage';
+import { SERVABLE_IMAGE_TYPES } from '@/lib/storage/asset-refs';
+
+// Content-addressed, so a given id can never change.
+const IMMUTABLE_CACHE = 'public, max-age=31536000, immutable';
+
+export async function GET(_req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  if (!isValidAssetId(id)) {
+    return NextResponse.json({ error: 'Invalid asset id' }, { status: 400 });
+  }
+
+  try {
+    const buffer = await getStorageEngine().getAsset(id);
+    if (!buffer) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+    // Only plain raster images render inline; anything else (SVG, HTML, ...) is a download, so
+    // an uploaded file can never run script on this origin.
+    const mimeType = sniffMimeType(buffer);
+    const servable = SERVABLE_IMAGE_TYPES.has(mimeType);
+    return new Response(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': servable ? mimeType : 'application/octet-stream',
+        ...(servable ? {} : { 'Content-Disposition': `attachment; filename="${id}"` }),
+        'Content-Length': String(buffer.length),
+        'Cache-Control': IMMUTABLE_CACHE,
+        'X-Content-Type-Options': 'nosniff',
+        ETag: `"${id}"`
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to load asset';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Lets clients skip uploads for assets the store already has.
+export async function HEAD(_req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  if (!isValidAssetId(id)) return new Response(null, { status: 400 });
+  const exists = await getStorageEngine().hasAsset(id).catch(() => false);
+  return new Response(null, { status: exists ? 200 : 404, headers: exists ? { 'Cache-Control': IMMUTABLE_CACHE } : {} });
+}
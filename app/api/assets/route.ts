@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { bearerToken, sessionUser, verifyRoomToken } from '@/lib/collab/tokens';
+import { BodyTooLargeError, MAX_ASSET_BYTES, getStorageEngine, readRequestBody, sniffMimeType } from '@/lib/storage';
+import { SERVABLE_IMAGE_TYPES } from '@/lib/storage/asset-refs';
+
+class AssetUploadError extends Error {
+  status = 401;
+}
+
+// Uploads come from signed-in users saving projects, or editors of a collaboration room.
+const assertCanUpload = (req: Request) => {
+  if (sessionUser(req)) return;
+  if (verifyRoomToken(bearerToken(req))?.role === 'editor') return;
+  throw new AssetUploadError('Sign in or join a room as an editor to upload assets');
+};
+
+// Raw bytes in, content hash out. Re-uploading the same bytes is cheap and returns the same id.
+export async function POST(req: Request) {
+  try {
+    assertCanUpload(req);
+    const buffer = await readRequestBody(req, MAX_ASSET_BYTES);
+    if (!buffer.length) {
+      return NextResponse.json({ error: 'Empty asset body' }, { status: 400 });
+    }
+    // Stored with the type the bytes actually are, not the one the client claims.
+    const sniffed = sniffMimeType(buffer);
+    const mimeType = SERVABLE_IMAGE_TYPES.has(sniffed) ? sniffed : 'application/octet-stream';
+    const assetId = await getStorageEngine().uploadAsset(buffer, mimeType);
+    return NextResponse.json({ assetId, size: buffer.length });
+  } catch (error) {
+    if (error instanceof AssetUploadError || error instanceof BodyTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to upload asset';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, signSessionToken } from '@/lib/collab/tokens';
 
 type LocalUser = {
   id: string;
@@ -19,6 +20,15 @@ export async function POST(req: Request) {
     email
   };
   users.set(user.id, user);
-  return NextResponse.json({ user });
+  // The server reads who is signed in from this cookie, never from ids in request bodies.
+  const response = NextResponse.json({ user });
+  response.cookies.set(SESSION_COOKIE, signSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS
+  });
+  return response;
 }
 
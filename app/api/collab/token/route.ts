@@ -1,18 +1,50 @@
 import { NextResponse } from 'next/server';
+import { CollabRole, sessionUser, signRoomToken } from '@/lib/collab/tokens';
+import { getStorageEngine, isValidProjectId } from '@/lib/storage';
 
+// The role is decided here, never by the client: a share link grants its mode, otherwise the
+// signed-in owner of a saved project edits and everyone else views.
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
-  const roomId = typeof body?.roomId === 'string' && body.roomId ? body.roomId : 'default-room';
-  const userName = typeof body?.userName === 'string' && body.userName ? body.userName : 'Anonymous';
+  const session = sessionUser(req);
+  const userName = session?.name ?? (typeof body?.userName === 'string' && body.userName ? body.userName : 'Anonymous');
+  const userId = session?.id ?? crypto.randomUUID();
 
-  return NextResponse.json({
-    roomId,
-    user: {
-      id: crypto.randomUUID(),
-      name: userName,
-      color: `hsl(${Math.floor(Math.random() * 360)} 80% 55%)`
-    },
-    token: Buffer.from(`${roomId}:${Date.now()}`).toString('base64')
-  });
-}
+  try {
+    const storage = getStorageEngine();
+    let roomId: string;
+    let role: CollabRole;
+
+    if (typeof body?.shareId === 'string' && body.shareId) {
+      const share = isValidProjectId(body.shareId) ? await storage.getShareLink(body.shareId) : null;
+      if (!share) {
+        return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+      }
+      roomId = share.projectId;
+      role = share.mode === 'edit' ? 'editor' : 'viewer';
+    } else {
+      roomId = typeof body?.roomId === 'string' && body.roomId ? body.roomId : 'default-room';
+      if (!isValidProjectId(roomId)) {
+        return NextResponse.json({ error: 'Invalid room id' }, { status: 400 });
+      }
+      const project = await storage.getProject(roomId);
+      role = project && session && project.ownerId === session.id ? 'editor' : 'viewer';
+    }
 
+    const { token, expiresAt } = signRoomToken({ roomId, userId, name: userName, role });
+    return NextResponse.json({
+      roomId,
+      user: {
+        id: userId,
+        name: userName,
+        color: `hsl(${Math.floor(Math.random() * 360)} 80% 55%)`,
+        role
+      },
+      token,
+      expiresAt
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to issue room token';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
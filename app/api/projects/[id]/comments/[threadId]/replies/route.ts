@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { CommentReply, MAX_COMMENT_LENGTH, MAX_REPLIES_PER_THREAD, extractMentions, sanitizeAuthor } from '@/lib/comments';
+import { requestIdentity } from '@/lib/collab/tokens';
+import { getStorageEngine, isValidProjectId } from '@/lib/storage';
+
+class ReplyLimitError extends Error {
+  status = 409;
+}
+
+export async function POST(req: Request, context: { params: Promise<{ id: string; threadId: string }> }) {
+  const { id, threadId } = await context.params;
+  if (!isValidProjectId(id) || !isValidProjectId(threadId)) {
+    return NextResponse.json({ error: 'Invalid comment id' }, { status: 400 });
+  }
+
+  const identity = requestIdentity(req, id);
+  if (!identity) {
+    return NextResponse.json({ error: 'Sign in or join the project to reply' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const text = typeof body?.text === 'string' ? body.text.trim() : '';
+  if (!text || text.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json({ error: `Reply text must be 1-${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+  }
+
+  const now = new Date().toISOString();
+  const reply: CommentReply = {
+    id: crypto.randomUUID(),
+    author: sanitizeAuthor({ id: identity.userId, name: identity.name }),
+    text,
+    mentions: extractMentions(text),
+    createdAt: now
+  };
+
+  try {
+    // Appended under the thread's lock, so concurrent replies all land.
+    const thread = await getStorageEngine().updateComment(id, threadId, (current) => {
+      if (current.replies.length >= MAX_REPLIES_PER_THREAD) throw new ReplyLimitError('Thread has too many replies');
+      return { ...current, replies: [...current.replies, reply], updatedAt: now };
+    });
+    if (!thread) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+    return NextResponse.json({ thread, reply });
+  } catch (error) {
+    if (error instanceof ReplyLimitError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to save reply';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { CommentThread, MAX_COMMENT_LENGTH, extractMentions, sanitizeAnchor, sanitizeAuthor } from '@/lib/comments';
+import { requestIdentity } from '@/lib/collab/tokens';
+import { getStorageEngine, isValidProjectId } from '@/lib/storage';
+
+type Params = { params: Promise<{ id: string; threadId: string }> };
+
+class CommentForbiddenError extends Error {
+  status = 403;
+}
+
+// Changing or removing a thread takes an editor token for the project's room, or being its author.
+const assertCanModify = (req: Request, projectId: string, thread: CommentThread) => {
+  const identity = requestIdentity(req, projectId);
+  if (!identity || (identity.role !== 'editor' && identity.userId !== thread.author.id)) {
+    throw new CommentForbiddenError('Only editors and the comment author can change this comment');
+  }
+  return identity;
+};
+
+// Resolves/unresolves (`resolved`, recorded as the caller), re-anchors (`anchor`) or edits (`text`) a thread.
+export async function PATCH(req: Request, context: Params) {
+  const { id, threadId } = await context.params;
+  if (!isValidProjectId(id) || !isValidProjectId(threadId)) {
+    return NextResponse.json({ error: 'Invalid comment id' }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const anchor = body?.anchor !== undefined ? sanitizeAnchor(body.anchor) : undefined;
+  if (anchor === null) {
+    return NextResponse.json({ error: 'Invalid anchor' }, { status: 400 });
+  }
+  const text = typeof body?.text === 'string' ? body.text.trim() : undefined;
+  if (text !== undefined && (!text || text.length > MAX_COMMENT_LENGTH)) {
+    return NextResponse.json({ error: `Comment text must be 1-${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+  }
+
+  try {
+    // Applied under the thread's lock, so a concurrent reply or edit is not overwritten.
+    const thread = await getStorageEngine().updateComment(id, threadId, (current) => {
+      const identity = assertCanModify(req, id, current);
+      const now = new Date().toISOString();
+      const next = { ...current, updatedAt: now };
+      if (anchor) next.anchor = anchor;
+      if (text !== undefined) {
+        next.text = text;
+        next.mentions = extractMentions(text);
+      }
+      if (typeof body?.resolved === 'boolean' && body.resolved !== current.resolved) {
+        next.resolved = body.resolved;
+        next.resolvedBy = body.resolved ? sanitizeAuthor({ id: identity.userId, name: identity.name }) : undefined;
+        next.resolvedAt = body.resolved ? now : undefined;
+      }
+      return next;
+    });
+    if (!thread) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+    return NextResponse.json({ thread });
+  } catch (error) {
+    if (error instanceof CommentForbiddenError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to update comment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, context: Params) {
+  const { id, threadId } = await context.params;
+  if (!isValidProjectId(id) || !isValidProjectId(threadId)) {
+    return NextResponse.json({ error: 'Invalid comment id' }, { status: 400 });
+  }
+
+  try {
+    const storage = getStorageEngine();
+    const thread = await storage.getComment(id, threadId);
+    if (!thread) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+    assertCanModify(req, id, thread);
+    await storage.deleteComment(id, threadId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof CommentForbiddenError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to delete comment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
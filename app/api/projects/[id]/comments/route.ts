@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { CommentThread, MAX_COMMENT_LENGTH, extractMentions, sanitizeAnchor, sanitizeAuthor } from '@/lib/comments';
+import { requestIdentity } from '@/lib/collab/tokens';
+import { getStorageEngine, isValidProjectId } from '@/lib/storage';
+
+export async function GET(_req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  if (!isValidProjectId(id)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  try {
+    const threads = await getStorageEngine().listComments(id);
+    return NextResponse.json({ threads });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list comments';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  if (!isValidProjectId(id)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  // The author is whoever the session or room token says is calling, never a name in the body.
+  const identity = requestIdentity(req, id);
+  if (!identity) {
+    return NextResponse.json({ error: 'Sign in or join the project to comment' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const text = typeof body?.text === 'string' ? body.text.trim() : '';
+  if (!text || text.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json({ error: `Comment text must be 1-${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+  }
+  const anchor = sanitizeAnchor(body?.anchor);
+  if (!anchor) {
+    return NextResponse.json({ error: 'Comment needs a point, rect or layer anchor' }, { status: 400 });
+  }
+
+  const now = new Date().toISOString();
+  const thread: CommentThread = {
+    id: crypto.randomUUID(),
+    projectId: id,
+    anchor,
+    author: sanitizeAuthor({ id: identity.userId, name: identity.name }),
+    text,
+    mentions: extractMentions(text),
+    resolved: false,
+    replies: [],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    await getStorageEngine().saveComment(thread);
+    return NextResponse.json({ thread });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save comment';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,40 +1,81 @@
 import { NextResponse } from 'next/server';
+import { canEditProject, sessionUser } from '@/lib/collab/tokens';
+import { CloudProject, assetKey, getStorageEngine, isValidAssetId, isValidProjectId } from '@/lib/storage';
+import { assetIdFromRef, isAssetRef } from '@/lib/storage/asset-refs';
 
-type ProjectDoc = {
-  id: string;
-  name: string;
-  ownerId: string;
-  createdAt: string;
-  updatedAt: string;
-  payload?: unknown;
+// Payloads carry the flattened canvas as `preview`; store it alongside as the project thumbnail.
+const decodePreview = (payload: any): Buffer | undefined => {
+  const preview = payload?.preview;
+  if (typeof preview !== 'string' || !preview.startsWith('data:image/')) return undefined;
+  const [, raw] = preview.split(',');
+  return raw ? Buffer.from(raw, 'base64') : undefined;
 };
 
-const projectDocs = new Map<string, ProjectDoc>();
+// Externalized payloads reference the preview as an asset, which already is the thumbnail.
+const previewAssetKey = (payload: any): string | undefined => {
+  const preview = payload?.preview;
+  if (!isAssetRef(preview)) return undefined;
+  const assetId = assetIdFromRef(preview);
+  return isValidAssetId(assetId) ? assetKey(assetId) : undefined;
+};
 
 export async function GET(_req: Request, context: { params: Promise<{ id: string }> }) {
   const { id } = await context.params;
-  const project = projectDocs.get(id);
-  if (!project) {
-    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+  if (!isValidProjectId(id)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  try {
+    const storage = getStorageEngine();
+    const project = await storage.getProject(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    const payload = await storage.loadProject(id);
+    return NextResponse.json({ project: { ...project, payload: payload ?? undefined } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to load project';
+    return NextResponse.json({ error: message }, { status: 500 });
   }
-  return NextResponse.json({ project });
 }
 
 export async function PUT(req: Request, context: { params: Promise<{ id: string }> }) {
   const { id } = await context.params;
+  if (!isValidProjectId(id)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
   const body = await req.json().catch(() => ({}));
   const now = new Date().toISOString();
-  const existing = projectDocs.get(id);
-
-  const updated: ProjectDoc = {
-    id,
-    name: typeof body?.name === 'string' ? body.name : existing?.name || 'Untitled Project',
-    ownerId: typeof body?.ownerId === 'string' ? body.ownerId : existing?.ownerId || 'local-user',
-    createdAt: existing?.createdAt || now,
-    updatedAt: now,
-    payload: body?.payload ?? existing?.payload
-  };
-  projectDocs.set(id, updated);
-  return NextResponse.json({ project: updated });
-}
 
+  try {
+    const storage = getStorageEngine();
+    const existing = await storage.getProject(id);
+    // Saving over a project takes an editor token for its room or owning it; a new one belongs
+    // to whoever is signed in, so it needs a session to be saved again later.
+    const ownerId = existing ? existing.ownerId : sessionUser(req)?.id;
+    if (existing && !canEditProject(req, existing)) {
+      return NextResponse.json({ error: 'Only editors and the project owner can save this project' }, { status: 403 });
+    }
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Sign in to save projects to the cloud' }, { status: 401 });
+    }
+    const project: CloudProject = {
+      id,
+      name: typeof body?.name === 'string' ? body.name : existing?.name || 'Untitled Project',
+      ownerId,
+      layersUrl: existing?.layersUrl || '',
+      thumbnailUrl: previewAssetKey(body?.payload) || existing?.thumbnailUrl || '',
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    const updated = body?.payload !== undefined
+      ? await storage.saveProjectSnapshot(project, body.payload, decodePreview(body.payload))
+      : await storage.saveProject(project);
+    return NextResponse.json({ project: updated });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save project';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
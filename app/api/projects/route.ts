@@ -1,33 +1,39 @@
 import { NextResponse } from 'next/server';
-
-type ProjectRecord = {
-  id: string;
-  name: string;
-  ownerId: string;
-  createdAt: string;
-  updatedAt: string;
-};
-
-const projects = new Map<string, ProjectRecord>();
+import { sessionUser } from '@/lib/collab/tokens';
+import { CloudProject, getStorageEngine } from '@/lib/storage';
 
 export async function GET() {
-  return NextResponse.json({ projects: Array.from(projects.values()) });
+  try {
+    const projects = await getStorageEngine().listProjects();
+    return NextResponse.json({ projects });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list projects';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 }
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
   const name = typeof body?.name === 'string' && body.name ? body.name : 'Untitled Project';
-  const ownerId = typeof body?.ownerId === 'string' && body.ownerId ? body.ownerId : 'local-user';
+  // Projects created without signing in belong to no one who can claim them.
+  const ownerId = sessionUser(req)?.id ?? 'local-user';
 
   const now = new Date().toISOString();
-  const project: ProjectRecord = {
+  const project: CloudProject = {
     id: crypto.randomUUID(),
     name,
     ownerId,
+    layersUrl: '',
+    thumbnailUrl: '',
     createdAt: now,
     updatedAt: now
   };
-  projects.set(project.id, project);
-  return NextResponse.json({ project });
-}
 
+  try {
+    await getStorageEngine().saveProject(project);
+    return NextResponse.json({ project });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create project';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
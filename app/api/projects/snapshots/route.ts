@@ -1,38 +1,45 @@
 import { NextResponse } from 'next/server';
-
-type Snapshot = {
-  id: string;
-  projectId: string;
-  name: string;
-  createdAt: string;
-  payload: unknown;
-};
-
-const snapshotsStore = new Map<string, Snapshot[]>();
+import { canEditProject } from '@/lib/collab/tokens';
+import { getStorageEngine, isValidProjectId } from '@/lib/storage';
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const projectId = searchParams.get('projectId') || 'default';
-  const snapshots = snapshotsStore.get(projectId) || [];
-  return NextResponse.json({ snapshots });
+  if (!isValidProjectId(projectId)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  try {
+    const snapshots = await getStorageEngine().listSnapshots(projectId);
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list snapshots';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 }
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
-  const projectId = typeof body?.projectId === 'string' ? body.projectId : 'default';
+  const projectId = typeof body?.projectId === 'string' && body.projectId ? body.projectId : 'default';
+  if (!isValidProjectId(projectId)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
   const name = typeof body?.name === 'string' && body.name ? body.name : `Snapshot ${new Date().toISOString()}`;
   const payload = body?.payload ?? {};
 
-  const entry: Snapshot = {
-    id: crypto.randomUUID(),
-    projectId,
-    name,
-    createdAt: new Date().toISOString(),
-    payload
-  };
-
-  const prev = snapshotsStore.get(projectId) || [];
-  snapshotsStore.set(projectId, [entry, ...prev].slice(0, 50));
-  return NextResponse.json({ snapshot: entry });
+  try {
+    const storage = getStorageEngine();
+    const project = await storage.getProject(projectId);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!canEditProject(req, project)) {
+      return NextResponse.json({ error: 'Only editors and the project owner can save snapshots' }, { status: 403 });
+    }
+    const snapshot = await storage.createSnapshot(projectId, name, payload);
+    return NextResponse.json({ snapshot });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save snapshot';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 }
-
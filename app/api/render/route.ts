@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { canViewProject } from '@/lib/collab/tokens';
+import { BodyTooLargeError, getStorageEngine, isValidAssetId, isValidProjectId, readRequestBody } from '@/lib/storage';
+import { RENDER_FORMATS, RenderFormat, RenderLimitError, RenderRegion, renderProject } from '@/lib/render';
+import { ProjectFileLimits, ProjectFormatError, ProjectPayload, bytesZipSource, openProjectFile, parseProjectPayload } from '@/lib/project';
+
+export const maxDuration = 60;
+
+// Request bodies (a JSON payload or a `.zlayer` file) and what an uploaded archive may unpack to.
+const MAX_BODY_BYTES = 128 * 1024 * 1024;
+const ARCHIVE_LIMITS: ProjectFileLimits = { maxEntries: 4096, maxTotalSize: 512 * 1024 * 1024 };
+
+class RenderRequestError extends Error {
+  status = 400;
+}
+
+const parseRegion = (value: any): RenderRegion | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') {
+    const [x, y, width, height] = value.split(',');
+    value = { x, y, width, height };
+  }
+  const region = {
+    x: Number(value.x ?? 0),
+    y: Number(value.y ?? 0),
+    width: Number(value.width),
+    height: Number(value.height)
+  };
+  if (!Object.values(region).every(Number.isFinite) || region.width <= 0 || region.height <= 0) {
+    throw new RenderRequestError('Invalid region: expected { x, y, width, height } in document pixels');
+  }
+  return region;
+};
+
+// Options from the query string, for requests whose body is a `.zlayer` file.
+const queryOptions = (url: string) => {
+  const params = new URL(url).searchParams;
+  const option = (name: string) => params.get(name) ?? undefined;
+  return {
+    format: option('format'),
+    quality: option('quality'),
+    scale: option('scale'),
+    region: option('region'),
+    background: option('background')
+  };
+};
+
+/**
+ * Renders a project on the server and returns the image.
+ * JSON body: `{ project }` (a `.zlayer` payload) or `{ projectId }` (a saved project), plus
+ * optional `format` (png | jpeg | webp | avif), `quality` (1-100), `scale`, `region` and
+ * `background`. Any other body is read as a `.zlayer` file (zipped or JSON), with the options in
+ * the query string (`region=x,y,width,height`).
+ */
+export async function POST(req: Request) {
+  try {
+    const storage = getStorageEngine();
+    let body: any;
+    let raw: unknown;
+    const bytes = await readRequestBody(req, MAX_BODY_BYTES);
+    if ((req.headers.get('content-type') || '').includes('application/json')) {
+      try {
+        body = JSON.parse(bytes.toString('utf8'));
+      } catch {
+        body = null;
+      }
+      raw = body?.project;
+    } else {
+      if (bytes.length === 0) throw new RenderRequestError('Missing request body: a .zlayer file or JSON');
+      raw = await (await openProjectFile(bytesZipSource(new Uint8Array(bytes)), ARCHIVE_LIMITS)).payload();
+      body = queryOptions(req.url);
+    }
+
+    if (!raw && typeof body?.projectId === 'string') {
+      if (!isValidProjectId(body.projectId)) throw new RenderRequestError('Invalid project id');
+      const saved = await storage.getProject(body.projectId);
+      const payload = saved ? await storage.loadProject(body.projectId) : null;
+      if (!saved || !payload) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+      // Saved projects render for their owner and for anyone holding a room token for them.
+      if (!canViewProject(req, saved)) {
+        return NextResponse.json({ error: 'Only the project owner and its collaborators can render it' }, { status: 403 });
+      }
+      raw = payload;
+    }
+    if (!raw) {
+      throw new RenderRequestError('Missing required field: project (a .zlayer payload) or projectId');
+    }
+    const project: ProjectPayload = parseProjectPayload(raw);
+
+    const format: RenderFormat = body.format ?? 'png';
+    if (!RENDER_FORMATS.includes(format)) {
+      throw new RenderRequestError(`Invalid format: expected one of ${RENDER_FORMATS.join(', ')}`);
+    }
+    const scale = body.scale === undefined ? 1 : Number(body.scale);
+    if (!Number.isFinite(scale) || scale <= 0 || scale > 8) {
+      throw new RenderRequestError('Invalid scale: expected a number above 0 and at most 8');
+    }
+    const quality = body.quality === undefined ? undefined : Number(body.quality);
+    if (quality !== undefined && !Number.isFinite(quality)) {
+      throw new RenderRequestError('Invalid quality: expected 1-100');
+    }
+
+    const result = await renderProject(project, {
+      format,
+      scale,
+      quality,
+      region: parseRegion(body.region),
+      background: typeof body.background === 'string' ? body.background : undefined,
+      resolveAsset: (assetId) => (isValidAssetId(assetId) ? storage.getAsset(assetId) : Promise.resolve(null))
+    }).catch((error: unknown) => {
+      // Too large to render is a problem with the request, not the server.
+      throw error instanceof RenderLimitError ? new RenderRequestError(error.message) : error;
+    });
+
+    return new Response(new Uint8Array(result.buffer), {
+      headers: {
+        'Content-Type': result.mimeType,
+        'Content-Length': String(result.buffer.length),
+        'Content-Disposition': `inline; filename="zerothlayer-render.${format === 'jpeg' ? 'jpg' : format}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof ProjectFormatError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to render project';
+    const status = error instanceof RenderRequestError || error instanceof BodyTooLargeError ? error.status : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
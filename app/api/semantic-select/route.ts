@@ -1,8 +1,12 @@
 import { NextResponse } from 'next/server';
 import sharp from 'sharp';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { RegionBounds, planeToDataUrl, segmentRegions } from '@/lib/segmentation';
+import { getDefaultVisionProvider, getVisionProvider } from '@/lib/vision';
 
-type RegionBounds = { x: number; y: number; width: number; height: number };
+const MAX_INSTANCES = 8;
+
+// "all faces", "every person", "each car"... ask for one box per instance.
+const wantsInstances = (query: string) => /\b(all|every|each)\b/i.test(query);
 
 const decodeBase64Image = (value: string): Buffer => {
   const [, raw] = value.split(',');
@@ -17,94 +21,29 @@ const clampBounds = (b: RegionBounds, width: number, height: number): RegionBoun
   return { x, y, width: w, height: h };
 };
 
-const heuristicBounds = (query: string, width: number, height: number, regionHint?: RegionBounds | null): RegionBounds => {
+// Last resort when no vision backend answers: the centre of the frame (or of the hint box).
+const fallbackBounds = (width: number, height: number, regionHint?: RegionBounds | null): RegionBounds => {
   const baseWidth = regionHint?.width || width;
   const baseHeight = regionHint?.height || height;
   const offsetX = regionHint?.x || 0;
   const offsetY = regionHint?.y || 0;
-  const q = query.toLowerCase();
-  if (q.includes('background')) return { x: offsetX, y: offsetY, width: baseWidth, height: baseHeight };
-  if (q.includes('sky')) return { x: offsetX, y: offsetY, width: baseWidth, height: Math.round(baseHeight * 0.45) };
-  if (q.includes('beard')) {
-    const w = Math.round(baseWidth * 0.22);
-    const h = Math.round(baseHeight * 0.16);
-    return { x: offsetX + Math.round((baseWidth - w) / 2), y: offsetY + Math.round(baseHeight * 0.62), width: w, height: h };
-  }
   const w = Math.round(baseWidth * 0.4);
   const h = Math.round(baseHeight * 0.45);
   return { x: offsetX + Math.round((baseWidth - w) / 2), y: offsetY + Math.round((baseHeight - h) / 2), width: w, height: h };
 };
 
-const buildMask = async (bounds: RegionBounds, width: number, height: number): Promise<Buffer> => {
-  const mask = Buffer.alloc(width * height, 0);
-  for (let y = bounds.y; y < bounds.y + bounds.height; y += 1) {
-    for (let x = bounds.x; x < bounds.x + bounds.width; x += 1) {
-      mask[y * width + x] = 255;
-    }
-  }
-
-  return sharp(mask, { raw: { width, height, channels: 1 } })
-    .png()
-    .toBuffer();
-};
-
-const tryVisionBounds = async (
-  imageBuffer: Buffer,
-  query: string,
-  width: number,
-  height: number,
-  regionHint?: RegionBounds | null
-): Promise<RegionBounds | null> => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) return null;
-
-  try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-    const regionHintLine = regionHint
-      ? `Focus your search inside this hint box first: x=${regionHint.x}, y=${regionHint.y}, width=${regionHint.width}, height=${regionHint.height}.`
-      : '';
-    const prompt = `
-Return ONLY valid JSON with keys x,y,width,height (pixel integers).
-Find the region matching this phrase in the image: "${query}".
-Image size is ${width}x${height}. If uncertain, return central subject bounds.
-${regionHintLine}
-`;
-
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          mimeType: 'image/png',
-          data: imageBuffer.toString('base64')
-        }
-      }
-    ]);
-
-    const text = result.response.text().trim();
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    if (jsonStart < 0 || jsonEnd < 0 || jsonEnd <= jsonStart) return null;
-    const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1));
-    if (
-      typeof parsed?.x === 'number' &&
-      typeof parsed?.y === 'number' &&
-      typeof parsed?.width === 'number' &&
-      typeof parsed?.height === 'number'
-    ) {
-      return clampBounds(parsed as RegionBounds, width, height);
-    }
-  } catch (error) {
-    console.warn('[Semantic Select] Vision API fallback to heuristic', error);
-  }
-
-  return null;
+const unionBounds = (boxes: RegionBounds[]): RegionBounds => {
+  const x0 = Math.min(...boxes.map((b) => b.x));
+  const y0 = Math.min(...boxes.map((b) => b.y));
+  const x1 = Math.max(...boxes.map((b) => b.x + b.width));
+  const y1 = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
 };
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    const { image, query, regionHint } = body ?? {};
+    const { image, query, regionHint, provider: providerName } = body ?? {};
     if (!image || !query || typeof query !== 'string') {
       return NextResponse.json({ error: 'Missing required fields: image, query' }, { status: 400 });
     }
@@ -130,15 +69,38 @@ export async function POST(req: Request) {
       )
       : null;
 
-    const vision = await tryVisionBounds(imageBuffer, query, width, height, parsedHint);
-    const bounds = clampBounds(vision ?? heuristicBounds(query, width, height, parsedHint), width, height);
-    const maskBuffer = await buildMask(bounds, width, height);
+    // "background" is everything that is not the subject, so segment the subject and invert.
+    const invert = /\bbackground\b/i.test(query);
+    const target = invert ? 'main subject' : query;
+    const multiple = wantsInstances(query);
+
+    const params = { image: imageBuffer, query: target, width, height, regionHint: parsedHint, multiple, limit: MAX_INSTANCES };
+    let provider = (typeof providerName === 'string' && getVisionProvider(providerName)) || getDefaultVisionProvider();
+    let located = await provider.locate(params);
+    // A remote backend that cannot answer should not break selection offline.
+    const heuristic = getVisionProvider('heuristic');
+    if (!located && heuristic && provider !== heuristic) {
+      provider = heuristic;
+      located = await heuristic.locate(params);
+    }
+    const boxes = located?.length
+      ? located.map((box) => clampBounds(box, width, height))
+      : [clampBounds(fallbackBounds(width, height, parsedHint), width, height)];
+
+    const segmentation = await segmentRegions(imageBuffer, boxes, { invert });
+    const instances = segmentation.instances;
+    const regionBounds = invert
+      ? { x: 0, y: 0, width, height }
+      : clampBounds(unionBounds(instances.length ? instances.map((instance) => instance.bounds) : boxes), width, height);
 
     return NextResponse.json({
       query,
-      regionBounds: bounds,
-      mask: `data:image/png;base64,${maskBuffer.toString('base64')}`,
-      source: vision ? 'vision' : 'heuristic'
+      regionBounds,
+      mask: await planeToDataUrl(segmentation.mask, width, height),
+      confidence: await planeToDataUrl(segmentation.confidence, width, height),
+      outlines: segmentation.outlines,
+      instances,
+      source: located?.length ? provider.name : 'fallback'
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to generate semantic selection';
@@ -1,40 +1,46 @@
 import { NextResponse } from 'next/server';
+import { bearerToken, verifyRoomToken } from '@/lib/collab/tokens';
+import { ShareLink, getStorageEngine, isValidProjectId } from '@/lib/storage';
 
-type ShareRecord = {
-  id: string;
-  projectId: string;
-  mode: 'view' | 'edit';
-  createdAt: string;
-};
-
-const shareLinks = new Map<string, ShareRecord>();
-
+// Creating a link hands out a role, so it takes an editor token for the project's room.
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
   const projectId = typeof body?.projectId === 'string' && body.projectId ? body.projectId : 'default';
-  const mode: 'view' | 'edit' = body?.mode === 'edit' ? 'edit' : 'view';
+  const mode: ShareLink['mode'] = body?.mode === 'edit' ? 'edit' : 'view';
 
-  const id = crypto.randomUUID();
-  const record: ShareRecord = {
-    id,
+  if (!isValidProjectId(projectId)) {
+    return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+  }
+  const claims = verifyRoomToken(bearerToken(req), projectId);
+  if (!claims || claims.role !== 'editor') {
+    return NextResponse.json({ error: 'An editor token for this project is required' }, { status: 403 });
+  }
+
+  const record: ShareLink = {
+    id: crypto.randomUUID(),
     projectId,
     mode,
     createdAt: new Date().toISOString()
   };
-  shareLinks.set(id, record);
 
-  return NextResponse.json({
-    share: record,
-    url: `/share/${id}`
-  });
+  try {
+    await getStorageEngine().saveShareLink(record);
+    return NextResponse.json({
+      share: record,
+      url: `/?share=${record.id}`
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create share link';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
 }
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const id = searchParams.get('id');
-  if (!id || !shareLinks.has(id)) {
+  const share = id && isValidProjectId(id) ? await getStorageEngine().getShareLink(id).catch(() => null) : null;
+  if (!share) {
     return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
   }
-  return NextResponse.json({ share: shareLinks.get(id) });
+  return NextResponse.json({ share });
 }
-
@@ -26,31 +26,19 @@ type NewLibraryAsset =
   | Omit<Extract<LibraryAsset, { type: "gradient" }>, "id">
   | Omit<Extract<LibraryAsset, { type: "textStyle" }>, "id">
   | Omit<Extract<LibraryAsset, { type: "brushPreset" }>, "id">;
-import PromptBar from "@/components/PromptBar";
+import PromptBar, { GenerationStatus } from "@/components/PromptBar";
+import { AI_EDIT_PHASE_LABELS, AIEditResultPayload, AIEditStreamEvent } from "@/lib/ai/events";
 import { useLayerStore } from "@/lib/store";
+import { externalizeAssets, resolveAssetUrl } from "@/lib/storage/asset-refs";
+import { projectPayloadFromPsd, readPsd } from "@/lib/psd";
+import { bezierPathData, shapeLayerNodes, textFontStack, textLetterAdvance } from "@/lib/vector";
+import { PROJECT_CONTAINER_MIME_TYPE, ProjectArtboard, ProjectDocument, ProjectFormatError, ProjectNote, ProjectPayload, ProjectSlice, blobZipSource, openProjectFile, packProjectContainer, parseProjectPayload } from "@/lib/project";
+import { ACTIONS_STORAGE_KEY, BatchReport, BatchReportFile, DROPLETS_STORAGE_KEY, applyDropletFilters, batchOutputName, buildBatchReport, fitMaxSide, parseDropletPresets, parseMacroActions } from "@/lib/automation";
 import { Move, MousePointer2, Crop, RotateCcw, RotateCw, Upload, Download, Scan, PanelRightOpen, PanelRightClose, Sparkles, SlidersHorizontal, X, PenTool, Wand2, Brush, Brain, History, Navigation, Palette, UserCircle2, Scissors } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { CollaborationEngine, CollaborativeUser } from "@/lib/collab";
-
-type CommentThread = {
-  id: string;
-  text: string;
-  x: number;
-  y: number;
-  selection?: { x: number; y: number; width: number; height: number };
-  resolved: boolean;
-  replies: Array<{ id: string; text: string; createdAt: string }>;
-  createdAt: string;
-};
-
-type ArtboardItem = {
-  id: string;
-  name: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-};
+import { CollaborationEngine, CollaborativeUser, CollabStatus, LayerContentChange, LayerStoreBinding, bindLayerStore } from "@/lib/collab";
+import { CommentAnchor, CommentThread, rebaseAnchor, splitMentions } from "@/lib/comments";
+import { DEFAULT_HISTORY_BUDGET_BYTES, HistoryMemoryUsage, HistoryTree, diffHistoryPreviews } from "@/lib/history";
 
 type ArtboardPreset = {
   id: "iphone" | "android" | "tablet" | "desktop" | "story";
@@ -59,23 +47,6 @@ type ArtboardPreset = {
   height: number;
 };
 
-type SliceItem = {
-  id: string;
-  name: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-};
-
-type NoteItem = {
-  id: string;
-  text: string;
-  x: number;
-  y: number;
-  createdAt: string;
-};
-
 const ARTBOARD_PRESETS: ArtboardPreset[] = [
   { id: "iphone", label: "iPhone 15", width: 1179, height: 2556 },
   { id: "android", label: "Android", width: 1080, height: 2400 },
@@ -84,25 +55,8 @@ const ARTBOARD_PRESETS: ArtboardPreset[] = [
   { id: "story", label: "Story", width: 1080, height: 1920 }
 ];
 
-const ACTIONS_STORAGE_KEY = "zerothlayer.actions.v1";
-const DROPLETS_STORAGE_KEY = "zerothlayer.droplets.v1";
-
-const isMacroCommand = (value: unknown): value is MacroCommand =>
-  value === "run-droplet" ||
-  value === "run-brush" ||
-  value === "run-pencil" ||
-  value === "run-mixer" ||
-  value === "run-gradient" ||
-  value === "run-paint-bucket" ||
-  value === "export-timeline";
-
-const isDropletPresetRecord = (value: unknown): value is Omit<DropletPreset, "runCount"> & { runCount?: number } => {
-  if (!value || typeof value !== "object") return false;
-  const row = value as Record<string, unknown>;
-  if (typeof row.id !== "string" || typeof row.name !== "string") return false;
-  if (!row.filters || typeof row.filters !== "object" || Array.isArray(row.filters)) return false;
-  return true;
-};
+const HISTORY_BUDGET_STORAGE_KEY = "zerothlayer.historyBudget.v1";
+const HISTORY_BUDGET_OPTIONS_MB = [64, 128, 256, 512, 1024];
 
 export default function Home() {
   const canvasRef = useRef<CanvasHandle>(null);
@@ -153,23 +107,37 @@ export default function Home() {
   const [semanticQuery, setSemanticQuery] = useState("");
   const [semanticSource, setSemanticSource] = useState<string | null>(null);
   const [collabEnabled, setCollabEnabled] = useState(false);
+  // Granted by the server in the room token; stays 'editor' while working alone.
   const [collabRole, setCollabRole] = useState<'viewer' | 'editor'>('editor');
   const [collabUsers, setCollabUsers] = useState<CollaborativeUser[]>([]);
   const [localUser, setLocalUser] = useState<CollaborativeUser | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>('disconnected');
   const collabRef = useRef<CollaborationEngine | null>(null);
-  const channelRef = useRef<BroadcastChannel | null>(null);
+  const collabBindingRef = useRef<LayerStoreBinding | null>(null);
   const [currentProjectId, setCurrentProjectId] = useState<string>("default");
   const [projects, setProjects] = useState<any[]>([]);
   const [shareUrl, setShareUrl] = useState<string>("");
   const [embedSnippet, setEmbedSnippet] = useState<string>("");
+  const [shareId, setShareId] = useState<string | null>(null);
   const [snapshots, setSnapshots] = useState<any[]>([]);
   const [comparePreview, setComparePreview] = useState<string | null>(null);
   const [showCompare, setShowCompare] = useState(false);
+  const [projectLoad, setProjectLoad] = useState<{ preview: string | null; progress: number } | null>(null);
   const [snapshotName, setSnapshotName] = useState("");
   const [newComment, setNewComment] = useState("");
   const [comments, setComments] = useState<CommentThread[]>([]);
+  const [commentAnchorKind, setCommentAnchorKind] = useState<CommentAnchor["kind"]>("point");
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  // Layer-anchored pins are read from the canvas while rendering; bumped when a layer moves.
+  const [, setAnchorVersion] = useState(0);
+  const lastCanvasPointRef = useRef<{ x: number; y: number } | null>(null);
   const [authUser, setAuthUser] = useState<{ id: string; name: string } | null>(null);
-  const [historyInfo, setHistoryInfo] = useState<{ undo: string[]; redo: string[]; canUndo: boolean; canRedo: boolean }>({ undo: [], redo: [], canUndo: false, canRedo: false });
+  const [historyInfo, setHistoryInfo] = useState<{ undo: string[]; redo: string[]; canUndo: boolean; canRedo: boolean; tree: HistoryTree | null; memory: HistoryMemoryUsage | null }>({ undo: [], redo: [], canUndo: false, canRedo: false, tree: null, memory: null });
+  const [historyBudgetMb, setHistoryBudgetMb] = useState(DEFAULT_HISTORY_BUDGET_BYTES / (1024 * 1024));
+  const [checkpointName, setCheckpointName] = useState("");
+  const [historyDiff, setHistoryDiff] = useState<{ a: string | null; b: string | null }>({ a: null, b: null });
+  const [historyDiffImage, setHistoryDiffImage] = useState<string | null>(null);
   const [viewState, setViewState] = useState<{ zoom: number; panX: number; panY: number }>({ zoom: 1, panX: 0, panY: 0 });
   const [canvasDims, setCanvasDims] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
   const [swatches, setSwatches] = useState<string[]>(["#111827", "#ef4444", "#f59e0b", "#22c55e", "#3b82f6", "#8b5cf6"]);
@@ -254,9 +222,9 @@ export default function Home() {
   const [activeDropletId, setActiveDropletId] = useState<string | null>(null);
   const [actionNameDraft, setActionNameDraft] = useState("My Action");
   const [recordedCommands, setRecordedCommands] = useState<MacroCommand[]>([]);
-  const [artboards, setArtboards] = useState<ArtboardItem[]>([]);
-  const [slices, setSlices] = useState<SliceItem[]>([]);
-  const [notes, setNotes] = useState<NoteItem[]>([]);
+  const [artboards, setArtboards] = useState<ProjectArtboard[]>([]);
+  const [slices, setSlices] = useState<ProjectSlice[]>([]);
+  const [notes, setNotes] = useState<ProjectNote[]>([]);
   const [counts, setCounts] = useState<Array<{ id: string; x: number; y: number }>>([]);
   const [sampledColor, setSampledColor] = useState<{ hex: string; r: number; g: number; b: number; a: number } | null>(null);
   const [textDraft, setTextDraft] = useState("Zerothlayer");
@@ -383,12 +351,7 @@ export default function Home() {
     currentFile: null,
     lastSummary: null
   });
-  const [lastBatchReport, setLastBatchReport] = useState<{
-    createdAt: string;
-    options: BatchOptions;
-    totals: { total: number; success: number; failed: number };
-    files: Array<{ name: string; status: "success" | "failed"; outputWidth?: number; outputHeight?: number; error?: string }>;
-  } | null>(null);
+  const [lastBatchReport, setLastBatchReport] = useState<BatchReport | null>(null);
   const [sliceExportFormat, setSliceExportFormat] = useState<"png" | "jpeg" | "webp">("webp");
   const [sliceExportQuality, setSliceExportQuality] = useState(84);
   const [sliceExportScales, setSliceExportScales] = useState<Array<1 | 2 | 3>>([1, 2]);
@@ -432,7 +395,11 @@ export default function Home() {
     if (target === 'active-layer') {
       canvasRef.current?.exportActiveLayer(format, quality);
     } else {
-      canvasRef.current?.exportCanvas(format, quality);
+      // Shape paths are already in the SVG as their shape layers.
+      const svgPaths = paths
+        .filter((path) => path.visible && path.kind !== "shape" && path.nodes && path.nodes.length > 1)
+        .map((path) => ({ name: path.name, nodes: path.nodes!, closed: Boolean(path.closed) }));
+      canvasRef.current?.exportCanvas(format, quality, svgPaths);
     }
     setShowExportMenu(false);
   };
@@ -719,7 +686,7 @@ export default function Home() {
     const mimeType = format === "jpeg" ? "image/jpeg" : format === "webp" ? "image/webp" : "image/png";
     let successCount = 0;
     let failedCount = 0;
-    const reportFiles: Array<{ name: string; status: "success" | "failed"; outputWidth?: number; outputHeight?: number; error?: string }> = [];
+    const reportFiles: BatchReportFile[] = [];
     setBatchStatus({
       running: true,
       total: files.length,
@@ -738,14 +705,7 @@ export default function Home() {
       }));
       try {
         const img = await loadImageFromFile(file);
-        let outW = img.naturalWidth;
-        let outH = img.naturalHeight;
-
-        if (maxSide > 0 && (outW > maxSide || outH > maxSide)) {
-          const scale = Math.min(maxSide / outW, maxSide / outH);
-          outW = Math.max(1, Math.round(outW * scale));
-          outH = Math.max(1, Math.round(outH * scale));
-        }
+        const { width: outW, height: outH } = fitMaxSide(img.naturalWidth, img.naturalHeight, maxSide);
 
         const canvas = document.createElement("canvas");
         canvas.width = outW;
@@ -758,8 +718,7 @@ export default function Home() {
         if (batchOptions.autoDownload) {
           const url = URL.createObjectURL(blob);
           const link = document.createElement("a");
-          const baseName = file.name.replace(/\.[^.]+$/, "");
-          link.download = `${baseName}.${format === "jpeg" ? "jpg" : format}`;
+          link.download = batchOutputName(file.name, format);
           link.href = url;
           document.body.appendChild(link);
           link.click();
@@ -800,13 +759,7 @@ export default function Home() {
     }
 
     const summary = `Batch complete: ${successCount}/${files.length} processed${failedCount > 0 ? `, ${failedCount} failed` : ""}.`;
-    const report = {
-      createdAt: new Date().toISOString(),
-      options: { ...batchOptions },
-      totals: { total: files.length, success: successCount, failed: failedCount },
-      files: reportFiles
-    };
-    setLastBatchReport(report);
+    setLastBatchReport(buildBatchReport(batchOptions, reportFiles));
     setBatchStatus((prev) => ({
       ...prev,
       running: false,
@@ -838,37 +791,108 @@ export default function Home() {
     projectFileInputRef.current?.click();
   };
 
+  // Everything a project holds besides the layer stack and history, which the canvas saves itself.
+  const getProjectDocument = (): ProjectDocument => ({
+    paths,
+    artboards,
+    slices,
+    notes,
+    comments,
+    timeline: {
+      frame: timelineFrame,
+      fps: timelineFps,
+      durationFrames: timelineDurationFrames,
+      keyframes: timelineKeyframes,
+      animationFrames: frameAnimationFrames,
+      videoEdit: {
+        inFrame: videoEditInFrame,
+        outFrame: videoEditOutFrame,
+        speed: videoEditSpeed,
+        loop: videoEditLoop,
+        transition: videoEditTransition
+      }
+    },
+    libraries: libraryAssets
+  });
+
+  // Validates and migrates a saved project, then loads it; throws `ProjectFormatError` for damaged
+  // or newer files. Saved comments are shown only for files opened from disk: cloud projects read
+  // their live threads from the server. Library assets are merged into the open libraries.
+  const openProjectPayload = async (raw: unknown, options: { comments?: boolean } = {}) => {
+    if (!canvasRef.current) return;
+    const project: ProjectPayload = parseProjectPayload(raw);
+    await canvasRef.current.loadProjectPayload(project);
+    setPaths(project.paths.length > 0 ? project.paths : [{ id: crypto.randomUUID(), name: "Work Path", visible: true, kind: "work" }]);
+    setActivePathId(null);
+    setArtboards(project.artboards);
+    setSlices(project.slices);
+    setNotes(project.notes);
+    if (project.timeline) {
+      setTimelineFrame(project.timeline.frame);
+      setTimelineFps(project.timeline.fps);
+      setTimelineDurationFrames(project.timeline.durationFrames);
+      setTimelineKeyframes(project.timeline.keyframes);
+      setFrameAnimationFrames(project.timeline.animationFrames);
+      setVideoEditInFrame(project.timeline.videoEdit.inFrame);
+      setVideoEditOutFrame(project.timeline.videoEdit.outFrame);
+      setVideoEditSpeed(project.timeline.videoEdit.speed);
+      setVideoEditLoop(project.timeline.videoEdit.loop);
+      setVideoEditTransition(project.timeline.videoEdit.transition);
+    }
+    setLibraryAssets((prev) => [...prev, ...project.libraries.filter((asset) => !prev.some((item) => item.id === asset.id))]);
+    if (options.comments) setComments(project.comments);
+  };
+
+  const projectErrorMessage = (error: unknown) =>
+    error instanceof ProjectFormatError ? `Unable to open project. ${error.message}` : "Unable to open project.";
+
   const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !canvasRef.current) return;
     try {
       const lower = file.name.toLowerCase();
       const isProjectFile = lower.endsWith('.zlayer') || lower.endsWith('.json');
+      const isPsdFile = lower.endsWith('.psd');
       const isImageFile = file.type.startsWith('image/');
 
+      if (isPsdFile) {
+        const doc = readPsd(new Uint8Array(await file.arrayBuffer()));
+        await openProjectPayload(projectPayloadFromPsd(doc));
+        return;
+      }
+
       if (isImageFile && !isProjectFile) {
         canvasRef.current.uploadImage(file);
         return;
       }
 
-      const text = await file.text();
-      const payload = JSON.parse(text);
-      await canvasRef.current.loadProjectPayload(payload);
+      // The preview is shown while the layers are decoded.
+      const projectFile = await openProjectFile(blobZipSource(file));
+      setProjectLoad({ preview: await projectFile.preview(), progress: 0 });
+      const payload = await projectFile.payload((done, total) => {
+        setProjectLoad((prev) => prev && { ...prev, progress: total > 0 ? done / total : 1 });
+      });
+      await openProjectPayload(payload, { comments: true });
     } catch (error) {
       console.error(error);
-      alert("Unable to open file. Use .zlayer/.json project files, or image files.");
+      alert(error instanceof ProjectFormatError
+        ? projectErrorMessage(error)
+        : error instanceof Error && file.name.toLowerCase().endsWith('.psd')
+          ? `Unable to open PSD: ${error.message}`
+          : "Unable to open file. Use .zlayer/.json/.psd project files, or image files.");
     } finally {
+      setProjectLoad(null);
       if (projectFileInputRef.current) {
         projectFileInputRef.current.value = "";
       }
     }
   };
 
-  const handleSaveProject = () => {
+  const handleSaveProject = async () => {
     if (!canvasRef.current) return;
-    const payload = canvasRef.current.getProjectPayload();
+    const payload = await canvasRef.current.getProjectPayload(getProjectDocument());
     if (!payload) return;
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    const blob = new Blob([await packProjectContainer(payload) as BlobPart], { type: PROJECT_CONTAINER_MIME_TYPE });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.download = `zerothlayer-project-${Date.now()}.zlayer`;
@@ -903,6 +927,42 @@ export default function Home() {
   const handleUndo = () => canvasRef.current?.undo();
   const handleRedo = () => canvasRef.current?.redo();
 
+  const handleCheckoutHistory = (nodeId: string) => {
+    if (!canvasRef.current) return;
+    canvasRef.current.checkoutHistory(nodeId);
+    setHistoryInfo(canvasRef.current.getHistoryInfo());
+  };
+
+  const handleNameCheckpoint = () => {
+    if (!canvasRef.current || !historyInfo.tree) return;
+    canvasRef.current.nameHistoryCheckpoint(historyInfo.tree.currentId, checkpointName);
+    setCheckpointName("");
+    setHistoryInfo(canvasRef.current.getHistoryInfo());
+  };
+
+  const handlePickHistoryDiff = (slot: "a" | "b", nodeId: string) => {
+    setHistoryDiff((prev) => ({ ...prev, [slot]: prev[slot] === nodeId ? null : nodeId }));
+  };
+
+  const historyDiffPreviewA = historyInfo.tree?.nodes.find((n) => n.id === historyDiff.a)?.preview ?? null;
+  const historyDiffPreviewB = historyInfo.tree?.nodes.find((n) => n.id === historyDiff.b)?.preview ?? null;
+
+  useEffect(() => {
+    if (!historyDiffPreviewA || !historyDiffPreviewB) {
+      setHistoryDiffImage(null);
+      return;
+    }
+    let cancelled = false;
+    diffHistoryPreviews(historyDiffPreviewA, historyDiffPreviewB)
+      .then((image) => {
+        if (!cancelled) setHistoryDiffImage(image);
+      })
+      .catch((error) => console.error('Failed to diff history previews', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [historyDiffPreviewA, historyDiffPreviewB]);
+
   const refreshViewState = () => {
     if (!canvasRef.current) return;
     setViewState(canvasRef.current.getViewState());
@@ -1043,7 +1103,7 @@ export default function Home() {
         throw new Error(data.error || 'Semantic selection failed');
       }
       if (data.mask) {
-        canvasRef.current.applySemanticMask(data.mask);
+        canvasRef.current.applySemanticMask(data.mask, data.outlines);
         setSemanticSource(data.source || null);
       } else {
         canvasRef.current.applySemanticSelection(query.trim());
@@ -1244,7 +1304,7 @@ export default function Home() {
     canvasRef.current.clearSelection();
   };
 
-  const createArtboard = (name: string, x: number, y: number, width: number, height: number): ArtboardItem => ({
+  const createArtboard = (name: string, x: number, y: number, width: number, height: number): ProjectArtboard => ({
     id: crypto.randomUUID(),
     name,
     x: Math.round(x),
@@ -1253,7 +1313,7 @@ export default function Home() {
     height: Math.max(1, Math.round(height))
   });
 
-  const handleFocusArtboard = (artboard: ArtboardItem) => {
+  const handleFocusArtboard = (artboard: ProjectArtboard) => {
     canvasRef.current?.setSelectionRect({
       x: artboard.x,
       y: artboard.y,
@@ -1400,12 +1460,12 @@ export default function Home() {
     document.body.removeChild(link);
   };
 
-  const exportSlice = async (slice: SliceItem) =>
+  const exportSlice = async (slice: ProjectSlice) =>
     exportRegion(slice, slice.name, { format: sliceExportFormat, quality: sliceExportQuality, scale: 1 });
 
-  const exportArtboard = async (artboard: ArtboardItem) => exportRegion(artboard, artboard.name);
+  const exportArtboard = async (artboard: ProjectArtboard) => exportRegion(artboard, artboard.name);
 
-  const getSliceWebBaseName = (slice: SliceItem) => {
+  const getSliceWebBaseName = (slice: ProjectSlice) => {
     const raw = slice.name.trim();
     if (sliceWebNaming === "preserve") return raw;
     return raw
@@ -1414,7 +1474,7 @@ export default function Home() {
       .replace(/^-+|-+$/g, "") || `slice-${slice.id.slice(0, 6)}`;
   };
 
-  const buildSliceWebFilename = (slice: SliceItem, scale: 1 | 2 | 3, format: "png" | "jpeg" | "webp") => {
+  const buildSliceWebFilename = (slice: ProjectSlice, scale: 1 | 2 | 3, format: "png" | "jpeg" | "webp") => {
     const base = getSliceWebBaseName(slice);
     const ext = format === "jpeg" ? "jpg" : format;
     return `${base}${scale === 1 ? "" : `@${scale}x`}.${ext}`;
@@ -1432,7 +1492,7 @@ export default function Home() {
     URL.revokeObjectURL(url);
   };
 
-  const exportSliceForWeb = async (slice: SliceItem) => {
+  const exportSliceForWeb = async (slice: ProjectSlice) => {
     for (const scale of sliceExportScales) {
       const base = buildSliceWebFilename(slice, scale as 1 | 2 | 3, sliceExportFormat).replace(/\.(png|jpg|jpeg|webp)$/i, "");
       await exportRegion(slice, base, {
@@ -1762,6 +1822,7 @@ export default function Home() {
     opts?: { requireSelection?: boolean; meta?: Record<string, unknown> }
   ) => {
     if (!canvasRef.current || collabRole === "viewer") return;
+    if (activeLayerId) collabRef.current?.touchLayers([activeLayerId]);
     const loaded = await loadSnapshotImage();
     if (!loaded) return;
     const bounds = getWorkingBounds(loaded.fullCanvas.width, loaded.fullCanvas.height, opts?.requireSelection ?? true);
@@ -3205,6 +3266,7 @@ export default function Home() {
     paragraphIndent,
     textAlign,
     textDirection,
+    color: activeColor,
     openType: {
       liga: openTypeLiga,
       discretionaryLiga: openTypeDiscretionaryLiga,
@@ -3221,12 +3283,8 @@ export default function Home() {
     const ctx = layer.getContext("2d");
     if (!ctx) return null;
 
-    const resolveFamily = () => {
-      if (payload.fontFamily === "serif") return `"Times New Roman", "Georgia", serif`;
-      if (payload.fontFamily === "mono") return `"Cascadia Mono", "Consolas", monospace`;
-      return `"Segoe UI", "Arial", sans-serif`;
-    };
-    const buildFont = () => `${payload.textItalic ? "italic " : ""}${payload.fontWeight} ${payload.fontSize}px ${resolveFamily()}`;
+    const color = payload.color ?? activeColor;
+    const buildFont = () => `${payload.textItalic ? "italic " : ""}${payload.fontWeight} ${payload.fontSize}px ${textFontStack(payload.fontFamily)}`;
 
     const openTypeGlyphs = (value: string) => {
       const glyphs: string[] = [];
@@ -3270,19 +3328,19 @@ export default function Home() {
         ctx.moveTo(x, underlineY);
         ctx.lineTo(x + width, underlineY);
         ctx.lineWidth = Math.max(1, payload.fontSize * 0.05);
-        ctx.strokeStyle = activeColor;
+        ctx.strokeStyle = color;
         ctx.stroke();
       }
       return adjusted;
     };
 
     (ctx as CanvasRenderingContext2D & { fontKerning?: "auto" | "normal" | "none" }).fontKerning = payload.openType.kerning ? "normal" : "none";
-    ctx.fillStyle = activeColor;
+    ctx.fillStyle = color;
     ctx.textAlign = payload.textAlign;
     ctx.textBaseline = "top";
     ctx.font = buildFont();
     const lines = payload.text.split("\n");
-    const letterAdvanceAdjust = payload.tracking * 0.05 + (payload.openType.kerning ? 0 : 0.8) + (payload.openType.liga ? 0 : 0.6);
+    const letterAdvanceAdjust = textLetterAdvance(payload);
     const measureLine = (line: string) => {
       let width = 0;
       let count = 0;
@@ -3357,105 +3415,10 @@ export default function Home() {
     layer.height = payload.height;
     const ctx = layer.getContext("2d");
     if (!ctx) return null;
+    // The same outline the SVG export writes, so the pixels and the vector agree.
+    const nodes: NonNullable<PathItem["nodes"]> = shapeLayerNodes(payload);
     ctx.fillStyle = payload.fill;
-    ctx.strokeStyle = payload.fill;
-    ctx.lineWidth = 2;
-
-    const pointNodes = (points: Array<{ x: number; y: number }>): NonNullable<PathItem["nodes"]> =>
-      points.map((point) => ({
-        x: point.x,
-        y: point.y,
-        inX: point.x,
-        inY: point.y,
-        outX: point.x,
-        outY: point.y,
-        corner: true
-      }));
-
-    const drawClosedPoints = (points: Array<{ x: number; y: number }>) => {
-      ctx.beginPath();
-      points.forEach((point, index) => {
-        if (index === 0) ctx.moveTo(point.x, point.y);
-        else ctx.lineTo(point.x, point.y);
-      });
-      ctx.closePath();
-      ctx.fill();
-    };
-
-    let nodes: NonNullable<PathItem["nodes"]>;
-    if (payload.shape === "rectangle") {
-      ctx.fillRect(0, 0, payload.width, payload.height);
-      nodes = pointNodes([
-        { x: 0, y: 0 },
-        { x: payload.width, y: 0 },
-        { x: payload.width, y: payload.height },
-        { x: 0, y: payload.height }
-      ]);
-    } else if (payload.shape === "ellipse") {
-      const rx = payload.width / 2;
-      const ry = payload.height / 2;
-      const cx = rx;
-      const cy = ry;
-      const k = 0.5522847498;
-      ctx.beginPath();
-      ctx.ellipse(cx, cy, rx, ry, 0, 0, Math.PI * 2);
-      ctx.fill();
-      nodes = [
-        { x: cx, y: 0, inX: cx - rx * k, inY: 0, outX: cx + rx * k, outY: 0, corner: false },
-        { x: payload.width, y: cy, inX: payload.width, inY: cy - ry * k, outX: payload.width, outY: cy + ry * k, corner: false },
-        { x: cx, y: payload.height, inX: cx + rx * k, inY: payload.height, outX: cx - rx * k, outY: payload.height, corner: false },
-        { x: 0, y: cy, inX: 0, inY: cy + ry * k, outX: 0, outY: cy - ry * k, corner: false }
-      ];
-    } else {
-      const cx = payload.width / 2;
-      const cy = payload.height / 2;
-      const radius = Math.min(payload.width, payload.height) / 2;
-      let points: Array<{ x: number; y: number }> = [];
-      if (payload.shape === "polygon") {
-        for (let i = 0; i < payload.sides; i += 1) {
-          const angle = (-Math.PI / 2) + (Math.PI * 2 * i) / payload.sides;
-          points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
-        }
-      } else if (payload.customShape === "star") {
-        const spikes = 5;
-        const inner = radius * 0.45;
-        for (let i = 0; i < spikes * 2; i += 1) {
-          const angle = (-Math.PI / 2) + (Math.PI * i) / spikes;
-          const r = i % 2 === 0 ? radius : inner;
-          points.push({ x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) });
-        }
-      } else if (payload.customShape === "diamond") {
-        points = [
-          { x: cx, y: 0 },
-          { x: payload.width, y: cy },
-          { x: cx, y: payload.height },
-          { x: 0, y: cy }
-        ];
-      } else if (payload.customShape === "arrow") {
-        points = [
-          { x: payload.width * 0.08, y: cy - payload.height * 0.18 },
-          { x: payload.width * 0.5, y: cy - payload.height * 0.18 },
-          { x: payload.width * 0.5, y: payload.height * 0.08 },
-          { x: payload.width * 0.94, y: cy },
-          { x: payload.width * 0.5, y: payload.height * 0.92 },
-          { x: payload.width * 0.5, y: cy + payload.height * 0.18 },
-          { x: payload.width * 0.08, y: cy + payload.height * 0.18 }
-        ];
-      } else {
-        points = [
-          { x: payload.width * 0.1, y: payload.height * 0.1 },
-          { x: payload.width * 0.9, y: payload.height * 0.1 },
-          { x: payload.width * 0.9, y: payload.height * 0.72 },
-          { x: payload.width * 0.58, y: payload.height * 0.72 },
-          { x: payload.width * 0.42, y: payload.height * 0.94 },
-          { x: payload.width * 0.42, y: payload.height * 0.72 },
-          { x: payload.width * 0.1, y: payload.height * 0.72 }
-        ];
-      }
-      drawClosedPoints(points);
-      nodes = pointNodes(points);
-    }
-
+    ctx.fill(new Path2D(bezierPathData(nodes, true)));
     return { layer, nodes };
   };
 
@@ -3974,33 +3937,31 @@ export default function Home() {
     });
   };
 
-  const handleCreateAdjustmentLayer = async (
+  const handleCreateAdjustmentLayer = (
     preset: 'brightness-contrast' | 'cinematic' | 'black-white' | 'vibrance-pop' | 'teal-orange' = adjustmentLayerPreset,
     source: 'merged' | 'active' = adjustmentLayerSource,
     strengthPercent: number = adjustmentLayerStrength
   ) => {
-    if (!canvasRef.current || collabRole === 'viewer') return;
+    if (collabRole === 'viewer') return;
     const activeLayer = activeLayerId ? layers.find((layer) => layer.id === activeLayerId) : null;
-    const mergedSnapshot = canvasRef.current.getCanvasSnapshot();
-    const sourceSnapshot = source === 'active' ? (activeLayer?.thumbnail || mergedSnapshot) : mergedSnapshot;
-    if (!sourceSnapshot) return;
+    // An adjustment layer has no pixels: it grades everything below it, or with `active` only
+    // the active layer, by sitting directly above it as a clipped layer.
+    const clipped = source === 'active' && Boolean(activeLayer) && activeLayer!.type !== 'group';
     const stamp = Date.now().toString().slice(-5);
-    const name = `Adjustment ${preset} ${stamp}`;
-    canvasRef.current.addImageLayer(
-      sourceSnapshot,
-      name,
-      { adjustment: true, preset, source, strength: strengthPercent },
-      { addToHistory: true, layerType: 'adjustment', smartObject: true }
+    useLayerStore.getState().insertLayer(
+      {
+        id: crypto.randomUUID(),
+        type: 'adjustment',
+        name: `Adjustment ${preset} ${stamp}`,
+        visible: true,
+        locked: false,
+        opacity: 1,
+        blendMode: 'normal',
+        filters: buildAdjustmentFilters(preset, strengthPercent),
+        ...(clipped ? { clippingMask: true, parentId: activeLayer!.parentId } : {}),
+      },
+      clipped ? Math.max(0, layers.indexOf(activeLayer!)) : 0
     );
-
-    queueMicrotask(() => {
-      const state = useLayerStore.getState();
-      const createdId = state.activeLayerId;
-      if (!createdId) return;
-      const created = state.layers.find((layer) => layer.id === createdId);
-      if (!created || created.type !== 'adjustment') return;
-      applyAdjustmentPresetToLayer(createdId, preset, strengthPercent);
-    });
   };
 
   const handleApplyAdjustmentPresetToActive = () => {
@@ -5947,10 +5908,7 @@ export default function Home() {
     const target = layers.find((layer) => layer.id === layerId);
     if (!target) return false;
     updateLayer(layerId, {
-      filters: {
-        ...(target.filters || {}),
-        ...preset.filters
-      },
+      filters: applyDropletFilters(target.filters, preset),
       aiData: {
         ...(target.aiData as any),
         droplet: {
@@ -6792,7 +6750,7 @@ export default function Home() {
     const res = await fetch('/api/projects', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name, ownerId: authUser?.id || 'local-user' })
+      body: JSON.stringify({ name })
     });
     const data = await res.json();
     if (res.ok && data.project) {
@@ -6804,22 +6762,34 @@ export default function Home() {
 
   const handleSaveCloudProject = async () => {
     if (!canvasRef.current) return;
-    const payload = canvasRef.current.getProjectPayload();
-    if (!payload) return;
+    const rawPayload = await canvasRef.current.getProjectPayload(getProjectDocument());
+    if (!rawPayload) return;
 
     const targetId = currentProjectId || crypto.randomUUID();
+    let token: string;
+    let payload: typeof rawPayload;
+    try {
+      // Upload layer pixels once by content hash; the saved JSON only carries asset refs.
+      // The room token lets editors who are not signed in (edit share links) save.
+      ({ token } = await requestCollabToken(targetId));
+      payload = await externalizeAssets(rawPayload, token);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to upload project assets');
+      return;
+    }
     const res = await fetch(`/api/projects/${targetId}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
       body: JSON.stringify({
         name: projects.find((p) => p.id === targetId)?.name || 'Untitled Project',
-        ownerId: authUser?.id || 'local-user',
         payload
       })
     });
     if (res.ok) {
       setCurrentProjectId(targetId);
       await refreshProjects();
+    } else {
+      alert((await res.json().catch(() => null))?.error || 'Failed to save project');
     }
   };
 
@@ -6827,7 +6797,13 @@ export default function Home() {
     const res = await fetch(`/api/projects/${projectId}`);
     const data = await res.json();
     if (res.ok && data?.project?.payload && canvasRef.current) {
-      await canvasRef.current.loadProjectPayload(data.project.payload);
+      try {
+        await openProjectPayload(data.project.payload);
+      } catch (error) {
+        console.error(error);
+        alert(projectErrorMessage(error));
+        return;
+      }
       setCurrentProjectId(projectId);
       await refreshSnapshots(projectId);
     }
@@ -6835,12 +6811,21 @@ export default function Home() {
 
   const handleSaveSnapshot = async () => {
     if (!canvasRef.current) return;
-    const payload = canvasRef.current.getProjectPayload();
-    if (!payload) return;
+    const rawPayload = await canvasRef.current.getProjectPayload(getProjectDocument());
+    if (!rawPayload) return;
+    let token: string;
+    let payload: typeof rawPayload;
+    try {
+      ({ token } = await requestCollabToken(currentProjectId));
+      payload = await externalizeAssets(rawPayload, token);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to upload snapshot assets');
+      return;
+    }
 
     const res = await fetch('/api/projects/snapshots', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
       body: JSON.stringify({
         projectId: currentProjectId,
         name: snapshotName.trim() || undefined,
@@ -6850,77 +6835,264 @@ export default function Home() {
     if (res.ok) {
       setSnapshotName("");
       await refreshSnapshots();
+    } else {
+      alert((await res.json().catch(() => null))?.error || 'Failed to save snapshot');
     }
   };
 
   const handleRestoreSnapshot = async (snapshot: any) => {
     if (!canvasRef.current || !snapshot?.payload) return;
-    await canvasRef.current.loadProjectPayload(snapshot.payload);
+    try {
+      await openProjectPayload(snapshot.payload);
+    } catch (error) {
+      console.error(error);
+      alert(projectErrorMessage(error));
+    }
   };
 
   const handleCompareSnapshot = (snapshot: any) => {
-    setComparePreview(snapshot?.payload?.preview || null);
+    const preview = snapshot?.payload?.preview;
+    setComparePreview(typeof preview === 'string' ? resolveAssetUrl(preview) : null);
     setShowCompare(Boolean(snapshot?.payload?.preview));
   };
 
+  // Roles are decided by the server: through the share link we arrived with, or project ownership
+  // (the signed-in user comes from the session cookie).
+  const requestCollabToken = async (roomId: string, viaShare: string | null = shareId) => {
+    const res = await fetch('/api/collab/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        roomId,
+        userName: authUser?.name || `User-${Math.floor(Math.random() * 1000)}`,
+        shareId: viaShare || undefined
+      })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to get a room token');
+    return data as { roomId: string; user: CollaborativeUser; token: string; expiresAt: string };
+  };
+
   const handleCreateShare = async (mode: 'view' | 'edit') => {
+    let token: string;
+    try {
+      ({ token } = await requestCollabToken(currentProjectId, null));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create share link');
+      return;
+    }
     const res = await fetch('/api/share-links', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
       body: JSON.stringify({ projectId: currentProjectId, mode })
     });
     const data = await res.json();
-    if (res.ok) {
-      const absolute = `${window.location.origin}${data.url}`;
-      setShareUrl(absolute);
-      setEmbedSnippet(`<iframe src="${absolute}" width="960" height="540" style="border:0;" loading="lazy"></iframe>`);
+    if (!res.ok) {
+      alert(data.error || 'Failed to create share link');
+      return;
     }
+    const absolute = `${window.location.origin}${data.url}`;
+    setShareUrl(absolute);
+    setEmbedSnippet(`<iframe src="${absolute}" width="960" height="540" style="border:0;" loading="lazy"></iframe>`);
   };
 
-  const handleAddComment = () => {
-    if (!newComment.trim()) return;
-    const thread: CommentThread = {
-      id: crypto.randomUUID(),
-      text: newComment.trim(),
-      x: selection?.x ?? 0,
-      y: selection?.y ?? 0,
-      selection: selection ? { x: selection.x, y: selection.y, width: selection.width, height: selection.height } : undefined,
-      resolved: false,
-      replies: [],
-      createdAt: new Date().toISOString()
-    };
-    setComments((prev) => [thread, ...prev]);
-    setNewComment("");
+  const loadComments = async (projectId: string) => {
+    const res = await fetch(`/api/projects/${encodeURIComponent(projectId)}/comments`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to load comments');
+    return data.threads as CommentThread[];
+  };
+
+  const upsertComment = (thread: CommentThread) => {
+    setComments((prev) => prev.some((t) => t.id === thread.id) ? prev.map((t) => t.id === thread.id ? thread : t) : [thread, ...prev]);
+  };
+
+  // Every successful write pings the room so other collaborators refetch the thread list.
+  // Writes carry a room token: the server takes the author from it, and lets only editors and the
+  // author change or delete a thread.
+  const sendCommentRequest = async (path: string, method: string, body?: unknown) => {
+    const headers: Record<string, string> = body === undefined ? {} : { 'Content-Type': 'application/json' };
+    headers.Authorization = `Bearer ${(await requestCollabToken(currentProjectId)).token}`;
+    const res = await fetch(`/api/projects/${encodeURIComponent(currentProjectId)}/comments${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Comment request failed');
+    collabRef.current?.notify('comments');
+    return data;
+  };
+
+  const buildCommentAnchor = (): CommentAnchor | null => {
+    const point = lastCanvasPointRef.current
+      ?? (selection
+        ? { x: selection.x + selection.width / 2, y: selection.y + selection.height / 2 }
+        : { x: canvasDims.width / 2, y: canvasDims.height / 2 });
+    if (commentAnchorKind === 'rect') {
+      return selection ? { kind: 'rect', x: selection.x, y: selection.y, width: selection.width, height: selection.height } : null;
+    }
+    if (commentAnchorKind === 'layer') {
+      if (!activeLayerId) return null;
+      const local = canvasRef.current?.documentToLayerPoint(activeLayerId, point);
+      return { kind: 'layer', layerId: activeLayerId, x: local?.x ?? 0, y: local?.y ?? 0 };
+    }
+    return { kind: 'point', x: point.x, y: point.y };
+  };
+
+  const resolveCommentAnchor = (anchor: CommentAnchor): { x: number; y: number; width?: number; height?: number } | null => {
+    if (anchor.kind === 'layer') return canvasRef.current?.layerToDocumentPoint(anchor.layerId, anchor) ?? null;
+    return anchor;
   };
 
-  const handleReply = (id: string) => {
-    const text = prompt('Reply')?.trim();
+  const handleAddComment = async () => {
+    const text = newComment.trim();
     if (!text) return;
-    setComments((prev) =>
-      prev.map((thread) =>
-        thread.id === id
-          ? {
-            ...thread,
-            replies: [...thread.replies, { id: crypto.randomUUID(), text, createdAt: new Date().toISOString() }]
-          }
-          : thread
-      )
-    );
+    const anchor = buildCommentAnchor();
+    if (!anchor) {
+      alert(commentAnchorKind === 'rect' ? 'Make a selection to pin the comment to' : 'Select a layer to pin the comment to');
+      return;
+    }
+    try {
+      const data = await sendCommentRequest('', 'POST', { text, anchor });
+      upsertComment(data.thread);
+      setActiveCommentId(data.thread.id);
+      setNewComment("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to add comment');
+    }
+  };
+
+  const handleReply = async (id: string) => {
+    const text = replyDrafts[id]?.trim();
+    if (!text) return;
+    try {
+      const data = await sendCommentRequest(`/${id}/replies`, 'POST', { text });
+      upsertComment(data.thread);
+      setReplyDrafts((prev) => ({ ...prev, [id]: "" }));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to reply');
+    }
+  };
+
+  const handleToggleResolve = async (thread: CommentThread) => {
+    try {
+      const data = await sendCommentRequest(`/${thread.id}`, 'PATCH', { resolved: !thread.resolved });
+      upsertComment(data.thread);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update comment');
+    }
+  };
+
+  const handleDeleteComment = async (id: string) => {
+    try {
+      await sendCommentRequest(`/${id}`, 'DELETE');
+      setComments((prev) => prev.filter((t) => t.id !== id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete comment');
+    }
   };
 
+  // Crops re-rasterize a layer into a new frame; carry its pinned comments along.
+  const handleLayerFrameChange = (layerId: string, remap: (point: { x: number; y: number }) => { x: number; y: number }) => {
+    comments.forEach((thread) => {
+      if (thread.anchor.kind !== 'layer' || thread.anchor.layerId !== layerId) return;
+      const anchor = rebaseAnchor(thread.anchor, layerId, remap);
+      upsertComment({ ...thread, anchor });
+      sendCommentRequest(`/${thread.id}`, 'PATCH', { anchor }).catch((error) => console.error('Failed to re-anchor comment', error));
+    });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setComments([]);
+    loadComments(currentProjectId)
+      .then((threads) => {
+        if (!cancelled) setComments(threads);
+      })
+      .catch((error) => console.error('Failed to load comments', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentProjectId]);
+
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationStatus, setGenerationStatus] = useState<GenerationStatus | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [providerName, setProviderName] = useState<string>('gemini');
+  const [variantCount, setVariantCount] = useState(1);
+  // Shown after a generation that ran out of time and kept only the variants that finished.
+  const [generationNotice, setGenerationNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!generationNotice) return;
+    const timer = setTimeout(() => setGenerationNotice(null), 8000);
+    return () => clearTimeout(timer);
+  }, [generationNotice]);
+
+  const readAIEditStream = async (response: Response): Promise<AIEditResultPayload> => {
+    if (!response.body) throw new Error('Streaming response has no body');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    const handleEvent = (event: AIEditStreamEvent): AIEditResultPayload | null => {
+      if (event.type === 'phase') {
+        const variantLabel = event.variant !== undefined && variantCount > 1 ? `variant ${event.variant + 1}/${variantCount}, ` : '';
+        const label = event.phase === 'attempt'
+          ? `${AI_EDIT_PHASE_LABELS.attempt} (${event.provider ?? providerName}, ${variantLabel}attempt ${event.attempt ?? 1})`
+          : AI_EDIT_PHASE_LABELS[event.phase];
+        setGenerationStatus({ label });
+      } else if (event.type === 'progress') {
+        setGenerationStatus((prev) => ({
+          label: prev?.label ?? AI_EDIT_PHASE_LABELS.attempt,
+          progress: event.progress ?? prev?.progress,
+          preview: event.preview ?? prev?.preview
+        }));
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      } else if (event.type === 'result') {
+        return event.result;
+      }
+      return null;
+    };
+
+    while (true) {
+      const { value, done } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const result = handleEvent(JSON.parse(line) as AIEditStreamEvent);
+        if (result) return result;
+      }
+      if (done) break;
+    }
+
+    throw new Error('Generation stream ended without a result');
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
 
   const handleGenerate = async (prompt: string) => {
     if (collabRole === 'viewer') return;
     if (!selection || !canvasRef.current) return;
 
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    // Generations can take a while; keep the source layer leased until this one settles.
+    const releaseLayerLock = activeLayerId ? collabRef.current?.holdLayers([activeLayerId]) : undefined;
+    const requestedVariants = variantCount;
     setIsGenerating(true);
+    setGenerationNotice(null);
+    setGenerationStatus({ label: 'Capturing selection' });
     try {
       const genData = await canvasRef.current.getGenerationData();
       if (!genData) {
         alert("Failed to capture canvas data");
-        setIsGenerating(false);
         return;
       }
 
@@ -6929,6 +7101,7 @@ export default function Home() {
       const response = await fetch('/api/ai-edit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        signal: abortController.signal,
         body: JSON.stringify({
           image: genData.image,
           mask: genData.mask,
@@ -6943,17 +7116,23 @@ export default function Home() {
             featherAmount: 0,
             outputFormat: 'png',
           },
-          providerName
+          providerName,
+          variants: requestedVariants,
+          stream: true
         })
       });
 
-      const data = await response.json();
-
       if (!response.ok) {
-        throw new Error(data.error || 'Generation failed');
+        const failure = await response.json().catch(() => ({}));
+        throw new Error(failure.error || 'Generation failed');
       }
 
+      const data = await readAIEditStream(response);
+
       console.log("Generation successful");
+      if (data.partial) {
+        setGenerationNotice(`${data.variants.length} of ${requestedVariants} variants finished in time`);
+      }
 
       // Add the result as a new layer
       if (data.image) {
@@ -6964,13 +7143,15 @@ export default function Home() {
           height: Math.round(selection.height),
         };
 
+        const variants = (data.variants || []).map((variant) => ({ image: variant.image, seed: variant.seed }));
         canvasRef.current.addImageLayer(data.image, `AI: ${prompt}`, {
           prompt,
           seed: data.seed,
           provider: data.provider,
           context: data.context,
           originalMask: genData.mask,
-          regionBounds: resultBounds
+          regionBounds: resultBounds,
+          ...(variants.length > 1 ? { variants, activeVariant: 0 } : {})
         }, {
           left: Number(resultBounds.x) || 0,
           top: Number(resultBounds.y) || 0,
@@ -6982,13 +7163,42 @@ export default function Home() {
       }
 
     } catch (error) {
+      if (abortController.signal.aborted) {
+        console.info("Generation cancelled");
+        return;
+      }
       console.error(error);
       alert("Error generating image. Check console for details.");
     } finally {
+      if (generationAbortRef.current === abortController) {
+        generationAbortRef.current = null;
+      }
+      releaseLayerLock?.();
       setIsGenerating(false);
+      setGenerationStatus(null);
     }
   };
 
+  const handleSelectAIVariant = async (index: number) => {
+    if (collabRole === 'viewer' || !canvasRef.current || !selectedLayer?.aiData?.variants) return;
+    const variant = selectedLayer.aiData.variants[index];
+    if (!variant || selectedLayer.aiData.activeVariant === index) return;
+    await canvasRef.current.replaceActiveLayerContents(variant.image);
+    updateLayer(selectedLayer.id, {
+      aiData: {
+        ...selectedLayer.aiData,
+        seed: variant.seed ?? selectedLayer.aiData.seed,
+        activeVariant: index
+      }
+    });
+  };
+
+  const handleCommitAIVariant = () => {
+    if (collabRole === 'viewer' || !selectedLayer?.aiData?.variants) return;
+    const { variants, activeVariant, ...rest } = selectedLayer.aiData;
+    updateLayer(selectedLayer.id, { aiData: rest });
+  };
+
   const addLibraryAsset = (asset: NewLibraryAsset) => {
     const id = crypto.randomUUID();
     setLibraryAssets((prev) => [{ id, ...asset } as LibraryAsset, ...prev]);
@@ -7389,25 +7599,7 @@ export default function Home() {
     try {
       const raw = window.localStorage.getItem(ACTIONS_STORAGE_KEY);
       if (!raw) return;
-      const parsed = JSON.parse(raw) as unknown;
-      if (!Array.isArray(parsed)) return;
-      const restored = parsed
-        .map((item) => {
-          if (!item || typeof item !== "object") return null;
-          const row = item as Record<string, unknown>;
-          if (typeof row.id !== "string" || typeof row.name !== "string" || !Array.isArray(row.commands)) return null;
-          const commands = row.commands.filter(isMacroCommand);
-          if (commands.length === 0) return null;
-          return {
-            id: row.id,
-            name: row.name,
-            steps: typeof row.steps === "number" ? row.steps : commands.length,
-            commands,
-            runCount: typeof row.runCount === "number" ? Math.max(0, Math.floor(row.runCount)) : 0,
-            lastRunAt: typeof row.lastRunAt === "string" ? row.lastRunAt : undefined
-          } satisfies MacroAction;
-        })
-        .filter((item): item is NonNullable<typeof item> => item !== null);
+      const restored = parseMacroActions(JSON.parse(raw));
       if (restored.length > 0) {
         setActions(restored);
       }
@@ -7438,23 +7630,7 @@ export default function Home() {
     try {
       const raw = window.localStorage.getItem(DROPLETS_STORAGE_KEY);
       if (!raw) return;
-      const parsed = JSON.parse(raw) as unknown;
-      if (!Array.isArray(parsed)) return;
-      const restored: DropletPreset[] = parsed
-        .filter(isDropletPresetRecord)
-        .map((item) => {
-          const filters = Object.fromEntries(
-            Object.entries(item.filters).filter((entry): entry is [string, number] => typeof entry[1] === "number")
-          );
-          return {
-            id: item.id,
-            name: item.name,
-            filters,
-            runCount: typeof item.runCount === "number" ? Math.max(0, Math.floor(item.runCount)) : 0,
-            lastRunAt: typeof (item as any).lastRunAt === "string" ? (item as any).lastRunAt : undefined
-          };
-        })
-        .filter((item) => Object.keys(item.filters).length > 0);
+      const restored = parseDropletPresets(JSON.parse(raw));
       if (restored.length > 0) {
         setDropletPresets(restored);
       }
@@ -7472,72 +7648,114 @@ export default function Home() {
   }, [dropletPresets]);
 
   useEffect(() => {
-    if (!collabEnabled) {
-      collabRef.current?.disconnect();
-      collabRef.current = null;
-      channelRef.current?.close();
-      channelRef.current = null;
-      setCollabUsers([]);
-      return;
+    try {
+      const stored = Number(window.localStorage.getItem(HISTORY_BUDGET_STORAGE_KEY));
+      if (HISTORY_BUDGET_OPTIONS_MB.includes(stored)) setHistoryBudgetMb(stored);
+    } catch {
+      // ignore unavailable local storage
     }
+  }, []);
 
-    const user: CollaborativeUser = {
-      id: crypto.randomUUID(),
-      name: authUser?.name || `User-${Math.floor(Math.random() * 1000)}`,
-      color: `hsl(${Math.floor(Math.random() * 360)} 80% 55%)`,
-      role: collabRole
-    };
-    setLocalUser(user);
+  useEffect(() => {
+    canvasRef.current?.setHistoryMemoryBudget(historyBudgetMb * 1024 * 1024);
+    try {
+      window.localStorage.setItem(HISTORY_BUDGET_STORAGE_KEY, String(historyBudgetMb));
+    } catch {
+      // ignore storage quota / privacy mode failures
+    }
+  }, [historyBudgetMb]);
 
-    const engine = new CollaborationEngine(currentProjectId, user.id);
-    engine.setLocalUser(user);
-    const unsub = engine.subscribe((users) => setCollabUsers(users));
-    engine.connect();
-    collabRef.current = engine;
+  // Opening `/?share=<id>` joins that project's room with the role the link grants.
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('share');
+    if (!id) return;
+    fetch(`/api/share-links?id=${encodeURIComponent(id)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok || !data.share) throw new Error(data.error || 'Share link not found');
+        setShareId(data.share.id);
+        setCurrentProjectId(data.share.projectId);
+        setCollabEnabled(true);
+      })
+      .catch((error) => alert(error instanceof Error ? error.message : 'Failed to open share link'));
+  }, []);
 
-    const bc = new BroadcastChannel(`zerothlayer-room-${currentProjectId}`);
-    channelRef.current = bc;
+  useEffect(() => {
+    if (!collabEnabled) {
+      setCollabUsers([]);
+      setCollabStatus('disconnected');
+      setCollabRole('editor');
+      return;
+    }
 
-    const publishPresence = () => {
-      bc.postMessage({ type: 'presence', user });
-    };
-    publishPresence();
+    let cancelled = false;
+    let cleanup: (() => void) | null = null;
 
-    const interval = window.setInterval(publishPresence, 5000);
+    const join = async () => {
+      const data = await requestCollabToken(currentProjectId);
+      if (cancelled) return;
 
-    bc.onmessage = async (event) => {
-      const msg = event.data;
-      if (!msg || !canvasRef.current) return;
+      const user: CollaborativeUser = data.user;
+      setLocalUser(user);
+      setCollabRole(user.role === 'editor' ? 'editor' : 'viewer');
 
-      if (msg.type === 'presence' && msg.user?.id !== user.id) {
-        engine.upsertRemoteUser(msg.user);
-      } else if (msg.type === 'cursor' && msg.userId !== user.id) {
-        const existing = collabUsers.find((u) => u.id === msg.userId);
-        if (existing) {
-          engine.upsertRemoteUser({ ...existing, cursor: msg.cursor });
+      const engine = new CollaborationEngine(data.roomId, data.token, {
+        user,
+        refreshToken: async () => (await requestCollabToken(data.roomId)).token
+      });
+      const binding = bindLayerStore(engine, {
+        getLayerImage: (layerId) => canvasRef.current?.getLayerImage(layerId) ?? null,
+        getLayerTransform: (layerId) => canvasRef.current?.getLayerTransform(layerId) ?? null,
+        applyLayerContent: async (layerId, content) => {
+          await canvasRef.current?.applyLayerContent(layerId, content);
         }
-      } else if (msg.type === 'payload' && msg.userId !== user.id && msg.payload) {
-        await canvasRef.current.loadProjectPayload(msg.payload);
-      } else if (msg.type === 'layers' && msg.userId !== user.id && Array.isArray(msg.layers)) {
-        // metadata hint channel, full payload handles actual pixels
-      }
+      });
+      const unsubUsers = engine.subscribe((users) => setCollabUsers(users));
+      const unsubStatus = engine.onStatus((status) => setCollabStatus(status));
+      const unsubNotify = engine.onNotify((topic) => {
+        if (topic !== 'comments') return;
+        loadComments(data.roomId)
+          .then((threads) => {
+            if (!cancelled) setComments(threads);
+          })
+          .catch((error) => console.error('Failed to load comments', error));
+      });
+      collabRef.current = engine;
+      collabBindingRef.current = binding;
+      engine.connect();
+
+      cleanup = () => {
+        unsubUsers();
+        unsubStatus();
+        unsubNotify();
+        binding.unbind();
+        engine.disconnect();
+        if (collabRef.current === engine) collabRef.current = null;
+        if (collabBindingRef.current === binding) collabBindingRef.current = null;
+      };
     };
 
+    join().catch((error) => {
+      console.error('Collaboration error', error);
+      setCollabStatus('disconnected');
+    });
+
     return () => {
-      window.clearInterval(interval);
-      unsub();
-      bc.close();
-      engine.disconnect();
+      cancelled = true;
+      cleanup?.();
     };
-  }, [collabEnabled, currentProjectId, authUser?.name, collabRole]);
+  }, [collabEnabled, currentProjectId, authUser?.name, authUser?.id, shareId]);
 
-  useEffect(() => {
-    if (!collabEnabled || !channelRef.current || !canvasRef.current || !localUser) return;
-    const payload = canvasRef.current.getProjectPayload();
-    if (!payload) return;
-    channelRef.current.postMessage({ type: 'layers', userId: localUser.id, layers });
-    channelRef.current.postMessage({ type: 'payload', userId: localUser.id, payload });
-  }, [layers, collabEnabled, localUser?.id]);
+  const handleLayerContentChange = (layerId: string, change: LayerContentChange) => {
+    collabBindingRef.current?.notifyLayerContent(layerId, change);
+    if (change === 'transform' && comments.some((t) => t.anchor.kind === 'layer' && t.anchor.layerId === layerId)) {
+      setAnchorVersion((v) => v + 1);
+    }
+  };
+
+  const handleLayerEditing = (layerIds: string[]) => {
+    collabRef.current?.touchLayers(layerIds);
+  };
 
   const getContextToolbarPosition = () => {
     if (!selection || selection.screenX === undefined || selection.screenY === undefined) return null;
@@ -7582,7 +7800,7 @@ export default function Home() {
       <input
         ref={projectFileInputRef}
         type="file"
-        accept=".zlayer,.json,image/png,image/jpeg,image/jpg,image/webp"
+        accept=".zlayer,.json,.psd,image/png,image/jpeg,image/jpg,image/webp"
         className="hidden"
         onChange={handleProjectFileChange}
       />
@@ -7794,13 +8012,22 @@ export default function Home() {
                     <div className="my-1 border-t border-zinc-200 dark:border-zinc-800" />
                     <button
                       onClick={() => {
-                        canvasRef.current?.exportProjectWithLayers();
+                        canvasRef.current?.exportProjectWithLayers(getProjectDocument());
                         setShowExportMenu(false);
                       }}
                       className="w-full px-4 py-2 text-left text-xs font-medium text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 hover:text-foreground transition-colors"
                     >
                       Export layered (.zlayer)
                     </button>
+                    <button
+                      onClick={() => {
+                        void canvasRef.current?.exportProjectPsd();
+                        setShowExportMenu(false);
+                      }}
+                      className="w-full px-4 py-2 text-left text-xs font-medium text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 hover:text-foreground transition-colors"
+                    >
+                      Export layered (.psd)
+                    </button>
                   </div>
                 )}
               </div>
@@ -7816,17 +8043,35 @@ export default function Home() {
         {/* Canvas Area */}
         <div
           className="relative flex-1 bg-zinc-100/50 dark:bg-black/20"
+          onMouseDown={(e) => {
+            if (!canvasRef.current) return;
+            // Remembered as the spot new point/layer comments are pinned to.
+            const rect = e.currentTarget.getBoundingClientRect();
+            const view = canvasRef.current.getViewState();
+            lastCanvasPointRef.current = {
+              x: (e.clientX - rect.left - view.panX) / view.zoom,
+              y: (e.clientY - rect.top - view.panY) / view.zoom
+            };
+          }}
           onMouseMove={(e) => {
-            if (!collabEnabled || !channelRef.current || !localUser) return;
-            const cursor = { x: e.clientX, y: e.clientY };
-            collabRef.current?.updateCursor(cursor.x, cursor.y);
-            channelRef.current.postMessage({ type: 'cursor', userId: localUser.id, cursor });
+            if (!collabEnabled || !collabRef.current || !canvasRef.current) return;
+            // Cursors travel in document coordinates so they line up at any zoom or pan.
+            const rect = e.currentTarget.getBoundingClientRect();
+            const view = canvasRef.current.getViewState();
+            collabRef.current.updateCursor(
+              (e.clientX - rect.left - view.panX) / view.zoom,
+              (e.clientY - rect.top - view.panY) / view.zoom
+            );
           }}
+          onMouseLeave={() => collabRef.current?.updateCursor(null)}
         >
           <Canvas
             ref={canvasRef}
             onSelectionChange={handleSelectionChange}
             onHistoryChange={handleHistoryChange}
+            onLayerContentChange={handleLayerContentChange}
+            onLayerEditing={handleLayerEditing}
+            onLayerFrameChange={handleLayerFrameChange}
           />
           {artboards.map((a) => {
             const left = a.x * viewState.zoom + viewState.panX;
@@ -7845,6 +8090,16 @@ export default function Home() {
               </div>
             );
           })}
+          {projectLoad && (
+            <div className="pointer-events-none absolute inset-0 z-40 flex items-center justify-center bg-zinc-100/60 dark:bg-zinc-950/60">
+              {projectLoad.preview && (
+                <img src={resolveAssetUrl(projectLoad.preview)} alt="Project preview" className="absolute inset-0 w-full h-full object-contain" />
+              )}
+              <div className="relative rounded-md bg-zinc-900/85 px-3 py-1.5 text-xs text-white shadow">
+                Opening project… {Math.round(projectLoad.progress * 100)}%
+              </div>
+            </div>
+          )}
           {showCompare && comparePreview && (
             <img
               src={comparePreview}
@@ -7852,11 +8107,44 @@ export default function Home() {
               className="pointer-events-none absolute inset-0 w-full h-full object-contain opacity-80"
             />
           )}
-          {collabEnabled && collabUsers.filter((u) => u.cursor).map((u) => (
+          {comments.filter((c) => !c.resolved).map((c) => {
+            const at = resolveCommentAnchor(c.anchor);
+            if (!at) return null;
+            const left = at.x * viewState.zoom + viewState.panX;
+            const top = at.y * viewState.zoom + viewState.panY;
+            return (
+              <div key={c.id}>
+                {at.width !== undefined && at.height !== undefined && (
+                  <div
+                    className={cn(
+                      "pointer-events-none absolute z-30 border-2 border-dashed",
+                      activeCommentId === c.id ? "border-amber-500 bg-amber-400/10" : "border-amber-400/70"
+                    )}
+                    style={{ left, top, width: at.width * viewState.zoom, height: at.height * viewState.zoom }}
+                  />
+                )}
+                <button
+                  onClick={() => setActiveCommentId((prev) => prev === c.id ? null : c.id)}
+                  title={`${c.author.name}: ${c.text}`}
+                  className={cn(
+                    "absolute z-40 -translate-x-1/2 -translate-y-full w-6 h-6 rounded-full rounded-bl-none text-[10px] font-semibold text-white shadow flex items-center justify-center",
+                    activeCommentId === c.id ? "bg-amber-600 ring-2 ring-white" : "bg-amber-500"
+                  )}
+                  style={{ left, top }}
+                >
+                  {c.replies.length + 1}
+                </button>
+              </div>
+            );
+          })}
+          {collabEnabled && collabUsers.filter((u) => u.cursor && u.id !== localUser?.id).map((u) => (
             <div
               key={u.id}
-              className="fixed z-[70] pointer-events-none"
-              style={{ left: (u.cursor?.x || 0) + 10, top: (u.cursor?.y || 0) + 10 }}
+              className="absolute z-[70] pointer-events-none"
+              style={{
+                left: (u.cursor?.x || 0) * viewState.zoom + viewState.panX + 10,
+                top: (u.cursor?.y || 0) * viewState.zoom + viewState.panY + 10
+              }}
             >
               <div className="flex items-center gap-1">
                 <span className="w-2 h-2 rounded-full" style={{ backgroundColor: u.color }} />
@@ -8099,6 +8387,8 @@ export default function Home() {
               <div className="flex-1 overflow-hidden">
                 <PropertiesPanel
                   className="flex-1"
+                  onSelectAIVariant={handleSelectAIVariant}
+                  onCommitAIVariant={handleCommitAIVariant}
                   onCreateMask={handleCreateMask}
                   onInvertMask={() => canvasRef.current?.invertMask()}
                   onFeatherMask={(amount) => canvasRef.current?.featherMask(amount)}
@@ -8447,10 +8737,14 @@ export default function Home() {
                 <section className="rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white/70 dark:bg-zinc-900/60 p-3 space-y-2">
                   <div className="flex items-center justify-between">
                     <h4 className="text-[11px] font-semibold uppercase tracking-wide text-zinc-600 dark:text-zinc-300">Collaboration</h4>
-                    <span className="text-[10px] text-zinc-500">{collabEnabled ? "On" : "Off"}</span>
+                    <span className="text-[10px] text-zinc-500">{collabEnabled ? (collabStatus === 'connected' ? "Connected" : collabStatus === 'connecting' ? "Connecting…" : "Offline") : "Off"}</span>
                   </div>
                   <div className="text-[11px] text-zinc-500">Room: {currentProjectId}</div>
                   <div className="text-[11px] text-zinc-500">Users: {collabUsers.length}</div>
+                  {collabEnabled && <div className="text-[11px] text-zinc-500">Role: {collabRole === 'editor' ? "Editor" : "Viewer"}</div>}
+                  <button onClick={() => setCollabEnabled((v) => !v)} className="px-2 py-1.5 text-xs rounded bg-zinc-200 dark:bg-zinc-800">
+                    {collabEnabled ? "Leave Room" : "Join Room"}
+                  </button>
                 </section>
 
                 <section className="rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white/70 dark:bg-zinc-900/60 p-3 space-y-2">
@@ -8459,28 +8753,82 @@ export default function Home() {
                     <input
                       value={newComment}
                       onChange={(e) => setNewComment(e.target.value)}
-                      placeholder="Pin comment to current selection"
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleAddComment();
+                      }}
+                      placeholder="Comment, @mention collaborators"
                       className="flex-1 text-xs px-2 py-1.5 rounded border border-zinc-200 dark:border-zinc-700 bg-white/70 dark:bg-zinc-900"
                     />
                     <button onClick={handleAddComment} className="px-2 py-1.5 text-xs rounded bg-blue-600 text-white">Add</button>
                   </div>
-                  <div className="space-y-2 max-h-40 overflow-auto">
+                  <div className="flex items-center gap-1 text-[10px] text-zinc-500">
+                    <span>Pin to</span>
+                    {([
+                      ["point", "Last click"],
+                      ["rect", "Selection"],
+                      ["layer", "Active layer"]
+                    ] as Array<[CommentAnchor["kind"], string]>).map(([kind, label]) => (
+                      <button
+                        key={kind}
+                        onClick={() => setCommentAnchorKind(kind)}
+                        className={cn(
+                          "px-1.5 py-0.5 rounded",
+                          commentAnchorKind === kind ? "bg-blue-600 text-white" : "bg-zinc-200 dark:bg-zinc-800"
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="space-y-2 max-h-60 overflow-auto">
                     {comments.map((c) => (
-                      <div key={c.id} className="text-[11px] rounded border border-zinc-200 dark:border-zinc-700 p-2">
+                      <div
+                        key={c.id}
+                        onClick={() => setActiveCommentId(c.id)}
+                        className={cn(
+                          "text-[11px] rounded border p-2 space-y-1",
+                          activeCommentId === c.id ? "border-amber-500" : "border-zinc-200 dark:border-zinc-700"
+                        )}
+                      >
                         <div className="flex items-center justify-between gap-2">
-                          <span className={cn(c.resolved && "line-through text-zinc-400")}>{c.text}</span>
+                          <span className="font-semibold">{c.author.name}</span>
                           <div className="flex gap-1">
-                            <button onClick={() => handleReply(c.id)} className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-200 dark:bg-zinc-800">Reply</button>
-                            <button onClick={() => setComments((prev) => prev.map((t) => t.id === c.id ? { ...t, resolved: !t.resolved } : t))} className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-200 dark:bg-zinc-800">{c.resolved ? "Unresolve" : "Resolve"}</button>
+                            <button onClick={() => handleToggleResolve(c)} className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-200 dark:bg-zinc-800">{c.resolved ? "Unresolve" : "Resolve"}</button>
+                            <button onClick={() => handleDeleteComment(c.id)} className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-200 dark:bg-zinc-800">Delete</button>
                           </div>
                         </div>
+                        <div className={cn(c.resolved && "line-through text-zinc-400")}>
+                          {splitMentions(c.text).map((part, i) => (
+                            <span key={i} className={cn(part.mention && "text-blue-600 font-medium")}>{part.text}</span>
+                          ))}
+                        </div>
+                        {c.resolved && c.resolvedBy && (
+                          <div className="text-[10px] text-zinc-400">Resolved by {c.resolvedBy.name}</div>
+                        )}
                         {c.replies.length > 0 && (
-                          <div className="mt-1 space-y-1">
+                          <div className="space-y-1">
                             {c.replies.map((r) => (
-                              <div key={r.id} className="text-[10px] text-zinc-500 pl-2 border-l border-zinc-300 dark:border-zinc-700">{r.text}</div>
+                              <div key={r.id} className="text-[10px] text-zinc-500 pl-2 border-l border-zinc-300 dark:border-zinc-700">
+                                <span className="font-semibold">{r.author.name}: </span>
+                                {splitMentions(r.text).map((part, i) => (
+                                  <span key={i} className={cn(part.mention && "text-blue-600 font-medium")}>{part.text}</span>
+                                ))}
+                              </div>
                             ))}
                           </div>
                         )}
+                        <div className="flex gap-1">
+                          <input
+                            value={replyDrafts[c.id] ?? ""}
+                            onChange={(e) => setReplyDrafts((prev) => ({ ...prev, [c.id]: e.target.value }))}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") handleReply(c.id);
+                            }}
+                            placeholder="Reply"
+                            className="flex-1 text-[10px] px-1.5 py-1 rounded border border-zinc-200 dark:border-zinc-700 bg-white/70 dark:bg-zinc-900"
+                          />
+                          <button onClick={() => handleReply(c.id)} className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-200 dark:bg-zinc-800">Reply</button>
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -8552,40 +8900,90 @@ export default function Home() {
                       <button onClick={handleRedo} disabled={!historyInfo.canRedo} className="px-2 py-1 text-[10px] rounded bg-zinc-200 dark:bg-zinc-800 disabled:opacity-40">Redo</button>
                     </div>
                   </div>
-                  <div className="grid grid-cols-2 gap-2 text-[10px]">
-                    <div>
-                      <div className="text-zinc-500 mb-1">Undo Stack</div>
-                      <div className="space-y-1 max-h-24 overflow-auto">
-                        {historyInfo.undo
-                          .slice(-8)
-                          .reverse()
-                          .map((h, i) => (
-                            <div
-                              key={`u-${i}`}
-                              className="px-1.5 py-0.5 rounded bg-zinc-100 dark:bg-zinc-800 truncate"
-                            >
-                              {h}
-                            </div>
-                          ))}
-                      </div>
-                    </div>
-                    <div>
-                      <div className="text-zinc-500 mb-1">Redo Stack</div>
-                      <div className="space-y-1 max-h-24 overflow-auto">
-                        {historyInfo.redo
-                          .slice(-8)
-                          .reverse()
-                          .map((h, i) => (
-                            <div
-                              key={`r-${i}`}
-                              className="px-1.5 py-0.5 rounded bg-zinc-100 dark:bg-zinc-800 truncate"
+                  <div className="flex gap-2">
+                    <input
+                      value={checkpointName}
+                      onChange={(e) => setCheckpointName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleNameCheckpoint();
+                      }}
+                      placeholder="Name current step as checkpoint"
+                      className="flex-1 text-[10px] px-2 py-1 rounded border border-zinc-200 dark:border-zinc-700 bg-white/70 dark:bg-zinc-900"
+                    />
+                    <button onClick={handleNameCheckpoint} className="px-2 py-1 text-[10px] rounded bg-zinc-200 dark:bg-zinc-800">Checkpoint</button>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-[10px] text-zinc-500">
+                    <span>
+                      Memory {((historyInfo.memory?.usedBytes ?? 0) / (1024 * 1024)).toFixed(1)} MB
+                      {historyInfo.memory && historyInfo.memory.spilledCount > 0 && ` · ${historyInfo.memory.spilledCount} on disk`}
+                    </span>
+                    <label className="flex items-center gap-1">
+                      Budget
+                      <select
+                        value={historyBudgetMb}
+                        onChange={(e) => setHistoryBudgetMb(Number(e.target.value))}
+                        className="px-1 py-0.5 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900"
+                      >
+                        {HISTORY_BUDGET_OPTIONS_MB.map((mb) => (
+                          <option key={mb} value={mb}>{mb >= 1024 ? `${mb / 1024} GB` : `${mb} MB`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                  <div className="space-y-0.5 max-h-48 overflow-auto text-[10px]">
+                    {historyInfo.tree?.nodes.map((node) => {
+                      const isCurrent = node.id === historyInfo.tree?.currentId;
+                      return (
+                        <div key={node.id} className="flex items-center gap-1" style={{ paddingLeft: Math.min(node.branchLevel, 8) * 10 }}>
+                          {node.branchLevel > 0 && node.parentId && historyInfo.tree?.nodes.find((n) => n.id === node.parentId)?.childIds[0] !== node.id && (
+                            <span className="text-zinc-400">↳</span>
+                          )}
+                          <button
+                            onClick={() => handleCheckoutHistory(node.id)}
+                            title={isCurrent ? "Current step" : "Switch to this step"}
+                            className={cn(
+                              "flex-1 text-left px-1.5 py-0.5 rounded truncate",
+                              isCurrent
+                                ? "bg-blue-600 text-white"
+                                : node.applied
+                                  ? "bg-zinc-100 dark:bg-zinc-800"
+                                  : "text-zinc-500 border border-dashed border-zinc-300 dark:border-zinc-700"
+                            )}
+                          >
+                            {node.name ? <><span className="font-semibold">{node.name}</span> · {node.label}</> : node.label}
+                            {node.spilled && <span className="opacity-60"> (on disk)</span>}
+                          </button>
+                          {node.preview && (["a", "b"] as const).map((slot) => (
+                            <button
+                              key={slot}
+                              onClick={() => handlePickHistoryDiff(slot, node.id)}
+                              title={`Compare as ${slot.toUpperCase()}`}
+                              className={cn(
+                                "px-1 py-0.5 rounded uppercase",
+                                historyDiff[slot] === node.id ? "bg-amber-500 text-white" : "bg-zinc-200 dark:bg-zinc-800"
+                              )}
                             >
-                              {h}
-                            </div>
+                              {slot}
+                            </button>
                           ))}
-                      </div>
-                    </div>
+                        </div>
+                      );
+                    })}
                   </div>
+                  {historyDiffPreviewA && historyDiffPreviewB && (
+                    <div className="grid grid-cols-3 gap-1 text-[10px] text-zinc-500">
+                      {[
+                        ["A", historyDiffPreviewA],
+                        ["B", historyDiffPreviewB],
+                        ["Changes", historyDiffImage]
+                      ].map(([caption, src]) => (
+                        <div key={caption} className="space-y-0.5">
+                          <div>{caption}</div>
+                          {src ? <img src={src} alt={`History ${caption}`} className="w-full rounded border border-zinc-200 dark:border-zinc-700" /> : <div className="aspect-square rounded bg-zinc-100 dark:bg-zinc-800" />}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </section>
 
                 <section className="rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white/70 dark:bg-zinc-900/60 p-3 space-y-3">
@@ -8604,8 +9002,8 @@ export default function Home() {
                     <label className="space-y-1">
                       <div className="text-zinc-500">Source</div>
                       <select value={adjustmentLayerSource} onChange={(e) => setAdjustmentLayerSource(e.target.value as 'merged' | 'active')} className="w-full px-2 py-1 rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900">
-                        <option value="merged">Merged Canvas</option>
-                        <option value="active">Active Layer</option>
+                        <option value="merged">Everything Below</option>
+                        <option value="active">Active Layer Only</option>
                       </select>
                     </label>
                     <label className="space-y-1">
@@ -8630,7 +9028,7 @@ export default function Home() {
                     </label>
                   </div>
                   <div className="flex flex-wrap gap-1.5">
-                    <button onClick={() => void handleCreateAdjustmentLayer()} disabled={isViewer} className="px-2 py-1 text-[10px] rounded bg-zinc-200 dark:bg-zinc-800 disabled:opacity-40">Adjustment Layer</button>
+                    <button onClick={() => handleCreateAdjustmentLayer()} disabled={isViewer} className="px-2 py-1 text-[10px] rounded bg-zinc-200 dark:bg-zinc-800 disabled:opacity-40">Adjustment Layer</button>
                     <button onClick={handleApplyAdjustmentPresetToActive} disabled={isViewer || !activeLayerId} className="px-2 py-1 text-[10px] rounded bg-zinc-200 dark:bg-zinc-800 disabled:opacity-40">Apply to Active Adj</button>
                     <button onClick={handleConvertToSmartObject} disabled={isViewer || !activeLayerId} className="px-2 py-1 text-[10px] rounded bg-zinc-200 dark:bg-zinc-800 disabled:opacity-40">Smart Object</button>
                     <button onClick={handleApplySmartFiltersToActive} disabled={isViewer || !activeLayerId} className="px-2 py-1 text-[10px] rounded bg-zinc-200 dark:bg-zinc-800 disabled:opacity-40">Apply Smart Filter</button>
@@ -10019,14 +10417,32 @@ export default function Home() {
           canvasRef.current?.clearSelection();
         }}
         isGenerating={isGenerating}
+        generationStatus={generationStatus}
+        onCancelGeneration={handleCancelGeneration}
         providerName={providerName}
         onProviderChange={setProviderName}
+        variantCount={variantCount}
+        onVariantCountChange={setVariantCount}
         position={selection?.screenX !== undefined ? {
           x: (selection.screenX || 0) + (selection.screenWidth || 0) / 2,
           y: (selection.screenY || 0) + (selection.screenHeight || 0) + 16 // 16px padding below selection
         } : undefined}
       />
 
+      {generationNotice && (
+        <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 glass px-4 py-2 rounded-xl shadow-2xl flex items-center gap-3 animate-in slide-in-from-bottom-4 fade-in duration-200" role="status">
+          <Sparkles className="w-4 h-4 text-amber-500" />
+          <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300">{generationNotice}</span>
+          <button
+            onClick={() => setGenerationNotice(null)}
+            className="p-1 rounded-md text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+            title="Dismiss"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
       {/* Crop Confirmation Overlay */}
       {activeTool === 'crop' && selection && (
         <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 glass px-4 py-3 rounded-xl shadow-2xl flex gap-3 animate-in slide-in-from-bottom-4 fade-in duration-200">
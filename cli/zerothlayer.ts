@@ -0,0 +1,273 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import sharp from 'sharp';
+import { RgbaPixels, applyLayerFilters } from '../lib/adjustments/filters';
+import {
+    BatchOptions,
+    BatchReportFile,
+    DropletPreset,
+    MacroAction,
+    applyDropletFilters,
+    buildBatchReport,
+    fitMaxSide,
+    parseDropletPresets,
+    parseMacroActions,
+    uniqueBatchOutputNames,
+} from '../lib/automation';
+import { RENDER_FORMATS, RenderFormat, RenderRegion, encodePixels, renderProject, renderProjectPixels } from '../lib/render';
+import { getStorageEngine, isValidAssetId } from '../lib/storage';
+import { ProjectFormatError, ProjectPayload, bytesZipSource, openProjectFile, parseProjectPayload } from '../lib/project';
+
+/**
+ * Command-line rendering and batch processing, without the editor. Shares the renderer with
+ * `/api/render` and the filter math and batch report with the editor's batch tools, so a folder
+ * processed here comes out as it would from "Batch process" with the same droplet.
+ *
+ * `asset:<id>` references in `.zlayer` files resolve against the configured storage
+ * (`STORAGE_DRIVER`, `STORAGE_DIR`), as the server does.
+ */
+
+const USAGE = `Usage:
+  zerothlayer render <project.zlayer> [--out <file>] [--format png|jpeg|webp|avif] [--quality 1-100]
+                     [--scale <n>] [--region x,y,width,height] [--background <color>]
+  zerothlayer batch <dir|file>... --out <dir> [--format png|jpeg|webp] [--quality 1-100] [--max-side <px>]
+                     [--droplet <droplets.json> [--droplet-name <id|name>]] [--filters <json>]
+                     [--action <actions.json> --action-name <id|name>] [--report <file>]
+  zerothlayer droplet <droplets.json> <dir|file>... --out <dir> [batch options]
+
+Inputs are images sharp can read, or .zlayer projects (rendered first). Droplet and action files
+hold one record or a list of them, as the editor saves them.`;
+
+class CliError extends Error {}
+
+const BATCH_FORMATS: BatchOptions['format'][] = ['png', 'jpeg', 'webp'];
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.avif', '.gif', '.tif', '.tiff', '.bmp']);
+const PROJECT_EXTENSION = '.zlayer';
+
+const isProjectFile = (file: string) => path.extname(file).toLowerCase() === PROJECT_EXTENSION;
+
+const resolveAsset = (assetId: string) => (isValidAssetId(assetId) ? getStorageEngine().getAsset(assetId) : Promise.resolve(null));
+
+const readJson = async (file: string): Promise<unknown> => {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        throw new CliError(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+const parseNumber = (value: string | undefined, name: string, fallback: number, min: number, max: number) => {
+    if (value === undefined) return fallback;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < min || number > max) throw new CliError(`Invalid --${name}: expected ${min}-${max}`);
+    return number;
+};
+
+const parseRegion = (value: string | undefined): RenderRegion | undefined => {
+    if (value === undefined) return undefined;
+    const [x, y, width, height] = value.split(',').map(Number);
+    if (![x, y, width, height].every(Number.isFinite) || width <= 0 || height <= 0) {
+        throw new CliError('Invalid --region: expected x,y,width,height in document pixels');
+    }
+    return { x, y, width, height };
+};
+
+// Records are picked by id or name; without a selector a file holding one record uses it.
+const pickRecord = <T extends { id: string; name: string }>(records: T[], selector: string | undefined, kind: string, file: string): T => {
+    if (records.length === 0) throw new CliError(`No valid ${kind} in ${file}`);
+    if (selector === undefined) {
+        if (records.length === 1) return records[0];
+        throw new CliError(`${file} holds ${records.length} ${kind}s; choose one with --${kind}-name (${records.map((record) => record.name).join(', ')})`);
+    }
+    const record = records.find((item) => item.id === selector) ?? records.find((item) => item.name === selector);
+    if (!record) throw new CliError(`No ${kind} "${selector}" in ${file}`);
+    return record;
+};
+
+const loadDroplet = async (file: string, selector: string | undefined): Promise<DropletPreset> => {
+    const value = await readJson(file);
+    return pickRecord(parseDropletPresets(Array.isArray(value) ? value : [value]), selector, 'droplet', file);
+};
+
+const loadAction = async (file: string, selector: string | undefined): Promise<MacroAction> => {
+    const value = await readJson(file);
+    return pickRecord(parseMacroActions(Array.isArray(value) ? value : [value]), selector, 'action', file);
+};
+
+const parseFilters = (value: string | undefined): Record<string, number> | undefined => {
+    if (value === undefined) return undefined;
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(value);
+    } catch {
+        throw new CliError('Invalid --filters: expected a JSON object such as {"contrast":0.2}');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new CliError('Invalid --filters: expected a JSON object');
+    return Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+};
+
+const collectInputs = async (paths: string[]) => {
+    const files: string[] = [];
+    for (const input of paths) {
+        const stat = await fs.stat(input).catch(() => null);
+        if (!stat) throw new CliError(`No such file or directory: ${input}`);
+        if (stat.isFile()) {
+            files.push(input);
+            continue;
+        }
+        const entries = await fs.readdir(input, { withFileTypes: true });
+        entries
+            .filter((entry) => entry.isFile())
+            .map((entry) => entry.name)
+            .filter((name) => isProjectFile(name) || IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase()))
+            .sort((a, b) => a.localeCompare(b))
+            .forEach((name) => files.push(path.join(input, name)));
+    }
+    return files;
+};
+
+// Either form of `.zlayer` (zipped or plain JSON), migrated to the current format and validated;
+// damaged files fail with every problem listed.
+const readProject = async (file: string): Promise<ProjectPayload> => {
+    const bytes = await fs.readFile(file).catch((error) => {
+        throw new CliError(`Could not read ${file}: ${error.message}`);
+    });
+    const projectFile = await openProjectFile(bytesZipSource(bytes));
+    return parseProjectPayload(await projectFile.payload());
+};
+
+const loadPixels = async (file: string): Promise<RgbaPixels> => {
+    if (isProjectFile(file)) return renderProjectPixels(await readProject(file), { resolveAsset });
+    const { data, info } = await sharp(file).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height };
+};
+
+const runRender = async (positionals: string[], values: Record<string, any>) => {
+    const [input] = positionals;
+    if (!input) throw new CliError('render needs a .zlayer file');
+    const out: string | undefined = values.out;
+    const extension = out ? path.extname(out).slice(1).toLowerCase() : '';
+    const format = (values.format ?? (extension === 'jpg' ? 'jpeg' : extension || 'png')) as RenderFormat;
+    if (!RENDER_FORMATS.includes(format)) throw new CliError(`Invalid --format: expected one of ${RENDER_FORMATS.join(', ')}`);
+
+    const project = await readProject(input);
+    const result = await renderProject(project, {
+        format,
+        quality: values.quality === undefined ? undefined : parseNumber(values.quality, 'quality', 90, 1, 100),
+        scale: parseNumber(values.scale, 'scale', 1, 0.01, 8),
+        region: parseRegion(values.region),
+        background: values.background,
+        resolveAsset,
+    });
+    const target = out ?? `${input.replace(/\.[^.]+$/, '')}.${format === 'jpeg' ? 'jpg' : format}`;
+    await fs.writeFile(target, result.buffer);
+    console.log(`${target} (${result.width}x${result.height})`);
+};
+
+const runBatch = async (inputs: string[], values: Record<string, any>, droplet: DropletPreset | null) => {
+    if (!values.out) throw new CliError('batch needs --out <dir>');
+    const format = (values.format ?? 'webp') as BatchOptions['format'];
+    if (!BATCH_FORMATS.includes(format)) throw new CliError(`Invalid --format: expected one of ${BATCH_FORMATS.join(', ')}`);
+    const options: BatchOptions = {
+        format,
+        quality: parseNumber(values.quality, 'quality', 88, 1, 100),
+        maxSide: parseNumber(values['max-side'], 'max-side', 0, 0, 16384),
+        autoDownload: true,
+    };
+
+    // An action replays its droplet steps; anything else it recorded needs the editor.
+    let dropletRuns = droplet ? 1 : 0;
+    if (values.action) {
+        const action = await loadAction(values.action, values['action-name']);
+        const unsupported = action.commands.filter((command) => command !== 'run-droplet');
+        if (unsupported.length > 0) throw new CliError(`Action "${action.name}" uses ${[...new Set(unsupported)].join(', ')}, which only run in the editor`);
+        if (!droplet) throw new CliError(`Action "${action.name}" runs a droplet; pass it with --droplet`);
+        dropletRuns = action.commands.length;
+    }
+    let filters = parseFilters(values.filters);
+    for (let run = 0; run < dropletRuns; run++) filters = applyDropletFilters(filters, droplet!);
+
+    const files = await collectInputs(inputs);
+    if (files.length === 0) throw new CliError('No images or .zlayer files to process');
+    await fs.mkdir(values.out, { recursive: true });
+
+    // Inputs can sit in the output directory; outputs are named around them and never replace one.
+    const inputPaths = new Set(files.map((file) => path.resolve(file).toLowerCase()));
+    const inputsInOut = files.filter((file) => path.dirname(path.resolve(file)).toLowerCase() === path.resolve(values.out).toLowerCase());
+    const outputNames = uniqueBatchOutputNames(files.map((file) => path.basename(file)), format, inputsInOut.map((file) => path.basename(file)));
+
+    const reportFiles: BatchReportFile[] = [];
+    for (const [index, file] of files.entries()) {
+        const name = path.basename(file);
+        const outputName = outputNames[index];
+        const target = path.join(values.out, outputName);
+        try {
+            if (inputPaths.has(path.resolve(target).toLowerCase())) {
+                throw new CliError(`${target} is one of the inputs; refusing to overwrite it`);
+            }
+            const pixels = await loadPixels(file);
+            if (filters) applyLayerFilters(pixels, filters);
+            const { width, height } = fitMaxSide(pixels.width, pixels.height, options.maxSide);
+            const buffer = await encodePixels(pixels, { format, quality: options.quality, width, height });
+            await fs.writeFile(target, buffer);
+            reportFiles.push({ name, status: 'success', outputWidth: width, outputHeight: height });
+            console.log(`ok      ${name} -> ${outputName} (${width}x${height})`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            reportFiles.push({ name, status: 'failed', error: message });
+            console.error(`failed  ${name}: ${message}`);
+        }
+    }
+
+    const report = buildBatchReport(options, reportFiles);
+    const reportPath = values.report ?? path.join(values.out, `zerothlayer-batch-report-${Date.now()}.json`);
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+    console.log(`${report.totals.success}/${report.totals.total} succeeded, report: ${reportPath}`);
+    if (report.totals.failed > 0) process.exitCode = 1;
+};
+
+const main = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string', short: 'o' },
+            format: { type: 'string', short: 'f' },
+            quality: { type: 'string', short: 'q' },
+            scale: { type: 'string' },
+            region: { type: 'string' },
+            background: { type: 'string' },
+            'max-side': { type: 'string' },
+            droplet: { type: 'string' },
+            'droplet-name': { type: 'string' },
+            filters: { type: 'string' },
+            action: { type: 'string' },
+            'action-name': { type: 'string' },
+            report: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    const [command, ...rest] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return;
+    }
+
+    if (command === 'render') return runRender(rest, values);
+    if (command === 'batch') {
+        const droplet = values.droplet ? await loadDroplet(values.droplet, values['droplet-name']) : null;
+        return runBatch(rest, values, droplet);
+    }
+    if (command === 'droplet') {
+        const [presetFile, ...inputs] = rest;
+        if (!presetFile) throw new CliError('droplet needs a droplet file');
+        return runBatch(inputs, values, await loadDroplet(presetFile, values['droplet-name']));
+    }
+    throw new CliError(`Unknown command: ${command}`);
+};
+
+main().catch((error) => {
+    if (error instanceof ProjectFormatError) console.error(error.message);
+    else console.error(error instanceof CliError || (error as any)?.code?.startsWith?.('ERR_PARSE_ARGS') ? `${error.message}\n\n${USAGE}` : error);
+    process.exitCode = 1;
+});
@@ -2,24 +2,9 @@
 
 import { Play, Plus, Radio, Square, Trash2, Wand2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { MacroAction, MacroCommand } from "@/lib/automation";
 
-export type MacroCommand =
-  | "run-droplet"
-  | "run-brush"
-  | "run-pencil"
-  | "run-mixer"
-  | "run-gradient"
-  | "run-paint-bucket"
-  | "export-timeline";
-
-export interface MacroAction {
-  id: string;
-  name: string;
-  steps: number;
-  commands: MacroCommand[];
-  runCount?: number;
-  lastRunAt?: string;
-}
+export type { MacroAction, MacroCommand };
 
 interface ActionsPanelProps {
   className?: string;
@@ -2,13 +2,9 @@
 
 import { Bot, Play, Settings2, Table2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { BatchOptions, DropletPreset } from "@/lib/automation";
 
-export interface BatchOptions {
-  format: "png" | "jpeg" | "webp";
-  quality: number;
-  maxSide: number;
-  autoDownload: boolean;
-}
+export type { BatchOptions, DropletPreset };
 
 export interface BatchStatus {
   running: boolean;
@@ -20,14 +16,6 @@ export interface BatchStatus {
   lastSummary: string | null;
 }
 
-export interface DropletPreset {
-  id: string;
-  name: string;
-  filters: Record<string, number>;
-  runCount: number;
-  lastRunAt?: string;
-}
-
 interface AutomationPanelProps {
   className?: string;
   style?: React.CSSProperties;
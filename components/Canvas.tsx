@@ -12,14 +12,36 @@ import * as fabric from "fabric"; // Import full namespace for filters
 import { Canvas as FabricCanvas, FabricImage, Rect, FabricObject, TMat2D } from "fabric";
 import {
     HistoryManager,
-    Action,
+    HistoryTree,
+    HistoryMemoryUsage,
+    DEFAULT_HISTORY_BUDGET_BYTES,
+    createIndexedDbSpillStore,
+    findHistoryObject,
     CreateSelectionAction,
     ModifySelectionAction,
     ClearSelectionAction,
     CropAction, // Import CropAction
+    AddImageLayerAction,
+    CommandReviver,
+    HISTORY_COMMAND_TYPES,
+    SerializedImage,
+    SerializedRect,
+    adoptHistoryObjectId,
+    bindLayerHistory,
+    replayHistory,
+    reviveLayerPatch,
 } from "@/lib/history";
-import { SetMaskAction } from "@/lib/history/MaskActions"; // Direct import to avoid index issues
+import { SetMaskAction, ToggleMaskAction } from "@/lib/history/MaskActions"; // Direct import to avoid index issues
+import type { ObjectPositionData } from "@/lib/history/CropAction";
 import { useLayerStore, Layer } from "@/lib/store";
+import { hydrateAssetRefs, resolveAssetUrl } from "@/lib/storage/asset-refs";
+import { isLayerShown, normalizeLayerTree } from "@/lib/groups";
+import { buildGroupCompositePlan, installGroupCompositing } from "@/lib/groups/compositing";
+import { AdjustmentLayerObject, buildLayerFilters, isAdjustmentLayer } from "@/lib/adjustments";
+import { psdFromLayers, writePsd } from "@/lib/psd";
+import { BezierPath, SvgLayerContent, buildLayeredSvg } from "@/lib/vector";
+import { PROJECT_CONTAINER_MIME_TYPE, PROJECT_FORMAT_VERSION, ProjectDocument, ProjectLayer, ProjectPayload, packProjectContainer } from "@/lib/project";
+import type { LayerContentChange, LayerTransform } from "@/lib/collab";
 
 export interface SelectionData {
     x: number;
@@ -44,13 +66,20 @@ export interface CanvasHandle {
     crop: (width: number, height: number, x: number, y: number) => void;
     getGenerationData: () => Promise<{ image: string; mask: string } | null>;
     getCanvasSnapshot: () => string | null;
-    exportCanvas: (format?: 'png' | 'jpeg' | 'webp' | 'svg', quality?: number) => void;
+    /** `paths` (the Paths panel's visible paths) are only written to SVG. */
+    exportCanvas: (format?: 'png' | 'jpeg' | 'webp' | 'svg', quality?: number, paths?: Array<BezierPath & { name: string }>) => void;
     exportActiveLayer: (format?: 'png' | 'jpeg' | 'webp' | 'svg', quality?: number) => void;
-    exportProjectWithLayers: () => void;
-    getProjectPayload: () => any;
-    loadProjectPayload: (payload: any) => Promise<void>;
+    /** `projectDocument` is the rest of the document (paths, artboards, ...), which the page holds. */
+    exportProjectWithLayers: (projectDocument: ProjectDocument) => Promise<void>;
+    exportProjectPsd: () => Promise<void>;
+    getProjectPayload: (projectDocument: ProjectDocument) => Promise<ProjectPayload | null>;
+    /** Loads the layer stack and history of a payload checked by `parseProjectPayload`. */
+    loadProjectPayload: (payload: ProjectPayload) => Promise<void>;
     clearCanvas: () => void;
-    getHistoryInfo: () => { undo: string[]; redo: string[]; canUndo: boolean; canRedo: boolean };
+    getHistoryInfo: () => { undo: string[]; redo: string[]; canUndo: boolean; canRedo: boolean; tree: HistoryTree | null; memory: HistoryMemoryUsage | null };
+    setHistoryMemoryBudget: (bytes: number) => void;
+    checkoutHistory: (nodeId: string) => void;
+    nameHistoryCheckpoint: (nodeId: string, name: string | null) => void;
     getViewState: () => { zoom: number; panX: number; panY: number };
     getCanvasDimensions: () => { width: number; height: number };
     setZoom: (zoom: number) => void;
@@ -60,7 +89,13 @@ export interface CanvasHandle {
     alignActiveLayer: (mode: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom') => void;
     replaceActiveLayerContents: (url: string, name?: string) => Promise<void>;
     applySemanticSelection: (query: string) => void;
-    applySemanticMask: (maskDataUrl: string) => void;
+    applySemanticMask: (maskDataUrl: string, outlines?: Array<Array<{ x: number; y: number }>>) => void;
+    getLayerImage: (layerId: string) => string | null;
+    getLayerTransform: (layerId: string) => LayerTransform | null;
+    applyLayerContent: (layerId: string, content: { image?: string | null; transform?: LayerTransform | null }) => Promise<void>;
+    // Layer-local <-> document coordinates, for content pinned to a layer (comment anchors)
+    documentToLayerPoint: (layerId: string, point: { x: number; y: number }) => { x: number; y: number } | null;
+    layerToDocumentPoint: (layerId: string, point: { x: number; y: number }) => { x: number; y: number } | null;
     undo: () => void;
     redo: () => void;
     canUndo: () => boolean;
@@ -83,12 +118,34 @@ export interface AddImageLayerOptions {
 interface CanvasProps {
     onSelectionChange?: (selection: SelectionData | null) => void;
     onHistoryChange?: (canUndo: boolean, canRedo: boolean) => void;
+    onLayerContentChange?: (layerId: string, change: LayerContentChange) => void;
+    // Fires continuously while layers are being moved, scaled or rotated (used for edit locks).
+    onLayerEditing?: (layerIds: string[]) => void;
+    // A layer's pixels were re-rasterized into a new frame (crops); `remap` takes old layer-local
+    // points to new ones so anything pinned to the layer stays put on the document.
+    onLayerFrameChange?: (layerId: string, remap: (point: { x: number; y: number }) => { x: number; y: number }) => void;
+}
+
+// Every pixel swap (uploads, AI results, crops, undo/redo) replaces the layer's map entry,
+// so watching `set` is enough to report content changes without touching each code path.
+class ObservedLayerMap extends Map<string, FabricImage> {
+    onReplace: ((layerId: string) => void) | null = null;
+
+    set(layerId: string, img: FabricImage) {
+        const changed = this.get(layerId) !== img;
+        super.set(layerId, img);
+        if (changed) this.onReplace?.(layerId);
+        return this;
+    }
 }
 
 type ActiveTool = 'move' | 'select' | 'crop' | 'lasso' | 'semantic' | 'magic' | 'quick' | 'slice';
 
+// Longest side, in pixels, of the per-node renderings kept for branch comparison.
+const HISTORY_PREVIEW_SIZE = 240;
+
 const Canvas = forwardRef<CanvasHandle, CanvasProps>(
-    ({ onSelectionChange, onHistoryChange }, ref) => {
+    ({ onSelectionChange, onHistoryChange, onLayerContentChange, onLayerEditing, onLayerFrameChange }, ref) => {
         const canvasRef = useRef<HTMLCanvasElement>(null);
         const fabricRef = useRef<FabricCanvas | null>(null);
         const containerRef = useRef<HTMLDivElement>(null);
@@ -96,12 +153,14 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
         const lassoPathRef = useRef<fabric.Polyline | null>(null);
         const lassoPointsRef = useRef<{ x: number; y: number }[] | null>(null);
         const selectionMaskDataRef = useRef<string | null>(null);
+        const maskOutlineRef = useRef<fabric.Path | null>(null);
         const quickSelectMaskRef = useRef<Uint8Array | null>(null);
         const quickSelectSeedRef = useRef<{ r: number; g: number; b: number } | null>(null);
         const quickSelectPixelsRef = useRef<{ width: number; height: number; data: Uint8ClampedArray } | null>(null);
         const historyRef = useRef<HistoryManager | null>(null);
+        const historyPreviewTimerRef = useRef<number | null>(null);
 
-        const { layers, addLayer, insertLayer, setLayerMask, updateLayer, activeLayerId, setActiveLayer, setLayers, activeTool, setActiveTool, maskPreviewMode, setLayerThumbnail, removeLayer } = useLayerStore();
+        const { layers, layerLocks, addLayer, insertLayer, setLayerMask, toggleLayerMask, updateLayer, activeLayerId, setActiveLayer, setLayers, activeTool, setActiveTool, maskPreviewMode, setLayerThumbnail, removeLayer } = useLayerStore();
 
         // Ref to track active layer ID for event handlers (avoiding stale closures)
         const activeLayerIdRef = useRef<string | null>(null);
@@ -132,6 +191,10 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                         lassoPathRef.current.set('strokeDashOffset', -offset);
                         needsRender = true;
                     }
+                    if (maskOutlineRef.current) {
+                        maskOutlineRef.current.set('strokeDashOffset', -offset);
+                        needsRender = true;
+                    }
 
                     // Animate drawing selection (temp rect)
                     const temp = (fabricRef.current as any)._tempSelection?.rect;
@@ -170,7 +233,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             }
 
             if (fabricRef.current) {
-                const lockedByLayerId = new Map(layers.map((layer) => [layer.id, Boolean(layer.locked)]));
+                const lockedByLayerId = new Map(layers.map((layer) => [layer.id, Boolean(layer.locked) || Boolean(layerLocks[layer.id])]));
                 layerMapRef.current.forEach((obj, layerId) => {
                     const interactive = activeTool === 'move' && !lockedByLayerId.get(layerId);
                     obj.selectable = interactive;
@@ -180,7 +243,72 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             }
         }, [activeTool, layers]);
 
-        const layerMapRef = useRef<Map<string, FabricImage>>(new Map());
+        // Layers another collaborator is editing cannot be picked up (or stay picked up) here.
+        useEffect(() => {
+            const canvas = fabricRef.current;
+            if (!canvas) return;
+            const active = canvas.getActiveObject();
+            const lockedByLayerId = new Map(layers.map((layer) => [layer.id, Boolean(layer.locked)]));
+            layerMapRef.current.forEach((obj, layerId) => {
+                if (layerLocks[layerId] && active === obj) canvas.discardActiveObject();
+                const interactive = activeToolRef.current === 'move' && !lockedByLayerId.get(layerId) && !layerLocks[layerId];
+                obj.selectable = interactive;
+                obj.evented = interactive;
+            });
+            canvas.requestRenderAll();
+        }, [layerLocks]);
+
+        const layerMapRef = useRef<Map<string, FabricImage>>(new ObservedLayerMap());
+        // Pixel-less adjustment layers, kept apart from the images so pixel code never sees them.
+        const adjustmentMapRef = useRef<Map<string, AdjustmentLayerObject>>(new Map());
+        const onLayerContentChangeRef = useRef(onLayerContentChange);
+        const onLayerEditingRef = useRef(onLayerEditing);
+        const onLayerFrameChangeRef = useRef(onLayerFrameChange);
+        const silentContentRef = useRef(false);
+        const contentVersionRef = useRef<Map<string, number>>(new Map());
+
+        useEffect(() => {
+            onLayerContentChangeRef.current = onLayerContentChange;
+        }, [onLayerContentChange]);
+
+        useEffect(() => {
+            onLayerEditingRef.current = onLayerEditing;
+        }, [onLayerEditing]);
+
+        useEffect(() => {
+            onLayerFrameChangeRef.current = onLayerFrameChange;
+        }, [onLayerFrameChange]);
+
+        useEffect(() => {
+            const map = layerMapRef.current as ObservedLayerMap;
+            map.onReplace = (layerId) => {
+                if (silentContentRef.current) return;
+                // Deferred so the caller can finish positioning the new object before it is read back.
+                setTimeout(() => onLayerContentChangeRef.current?.(layerId, 'pixels'), 0);
+            };
+            return () => {
+                map.onReplace = null;
+            };
+        }, []);
+
+        const layerIdsOf = (target?: FabricObject) => {
+            if (!target) return [];
+            const objects = target instanceof fabric.ActiveSelection ? target.getObjects() : [target];
+            const layerIds: string[] = [];
+            layerMapRef.current.forEach((img, layerId) => {
+                if (objects.includes(img)) layerIds.push(layerId);
+            });
+            return layerIds;
+        };
+
+        const notifyLayerTransformed = (target?: FabricObject) => {
+            layerIdsOf(target).forEach((layerId) => onLayerContentChangeRef.current?.(layerId, 'transform'));
+        };
+
+        const notifyLayerEditing = (target?: FabricObject) => {
+            const layerIds = layerIdsOf(target);
+            if (layerIds.length > 0) onLayerEditingRef.current?.(layerIds);
+        };
 
         const selectionBeforeModifyRef = useRef<{
             left: number;
@@ -219,200 +347,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
 
         // Helper to apply filters
         const applyFiltersToImage = (fabImg: FabricImage, filters: Record<string, number>) => {
-            const filterList: any[] = []; // Using any to avoid strict type issues with filter lists for now
-
-            if (filters.brightness !== undefined && filters.brightness !== 0) {
-                filterList.push(new fabric.filters.Brightness({ brightness: filters.brightness }));
-            }
-            if (filters.contrast !== undefined && filters.contrast !== 0) {
-                filterList.push(new fabric.filters.Contrast({ contrast: filters.contrast }));
-            }
-            if (filters.saturation !== undefined && filters.saturation !== 0) {
-                filterList.push(new fabric.filters.Saturation({ saturation: filters.saturation }));
-            }
-            if (filters.hue !== undefined && filters.hue !== 0) {
-                filterList.push(new fabric.filters.HueRotation({ rotation: filters.hue }));
-            }
-            if (filters.curves !== undefined && filters.curves !== 0) {
-                const gamma = Math.max(0.3, Math.min(2.5, 1 - filters.curves * 0.8));
-                filterList.push(new fabric.filters.Gamma({ gamma: [gamma, gamma, gamma] }));
-            }
-            if (filters.levels !== undefined && filters.levels !== 0) {
-                filterList.push(new fabric.filters.Contrast({ contrast: Math.max(-1, Math.min(1, filters.levels)) }));
-            }
-            if (filters.exposure !== undefined && filters.exposure !== 0) {
-                filterList.push(new fabric.filters.Brightness({ brightness: Math.max(-1, Math.min(1, filters.exposure * 0.65)) }));
-            }
-            if (filters.vibrance !== undefined && filters.vibrance !== 0) {
-                filterList.push(new fabric.filters.Vibrance({ vibrance: filters.vibrance }));
-            }
-            if (filters.blur !== undefined && filters.blur > 0) {
-                filterList.push(new fabric.filters.Blur({ blur: filters.blur }));
-            }
-            if (filters.noise !== undefined && filters.noise > 0) {
-                filterList.push(new fabric.filters.Noise({ noise: filters.noise }));
-            }
-            if (filters.pixelate !== undefined && filters.pixelate > 1) {
-                filterList.push(new fabric.filters.Pixelate({ blocksize: filters.pixelate }));
-            }
-            if (filters.sepia !== undefined && filters.sepia !== 0) {
-                // Fabric Sepia is boolean usually, but let's check if there's a sliding one?
-                // Standard fabric.Image.filters.Sepia is boolean. 
-                // But we can custom class or just toggle. Let's treat > 0.5 as on for now.
-                // Actually Fabric v6 has new filters. Let's stick to simple boolean-like behavior 
-                // or just instantiate it if value > 0.
-                if (filters.sepia > 0.1) filterList.push(new fabric.filters.Sepia());
-            }
-            if (filters.grayscale !== undefined && filters.grayscale !== 0) {
-                if (filters.grayscale > 0.1) filterList.push(new fabric.filters.Grayscale());
-            }
-            if (filters.invert !== undefined && filters.invert !== 0) {
-                if (filters.invert > 0.1) filterList.push(new fabric.filters.Invert());
-            }
-            if (
-                filters.redBalance !== undefined ||
-                filters.greenBalance !== undefined ||
-                filters.blueBalance !== undefined
-            ) {
-                const r = filters.redBalance ?? 0;
-                const g = filters.greenBalance ?? 0;
-                const b = filters.blueBalance ?? 0;
-                if (r !== 0 || g !== 0 || b !== 0) {
-                    const rm = 1 + r * 0.8;
-                    const gm = 1 + g * 0.8;
-                    const bm = 1 + b * 0.8;
-                    filterList.push(new fabric.filters.ColorMatrix({
-                        matrix: [
-                            rm, 0, 0, 0, 0,
-                            0, gm, 0, 0, 0,
-                            0, 0, bm, 0, 0,
-                            0, 0, 0, 1, 0
-                        ]
-                    }));
-                }
-            }
-            const redEnabled = filters.channelRedEnabled === undefined ? 1 : (filters.channelRedEnabled > 0 ? 1 : 0);
-            const greenEnabled = filters.channelGreenEnabled === undefined ? 1 : (filters.channelGreenEnabled > 0 ? 1 : 0);
-            const blueEnabled = filters.channelBlueEnabled === undefined ? 1 : (filters.channelBlueEnabled > 0 ? 1 : 0);
-            if (redEnabled !== 1 || greenEnabled !== 1 || blueEnabled !== 1) {
-                filterList.push(new fabric.filters.ColorMatrix({
-                    matrix: [
-                        redEnabled, 0, 0, 0, 0,
-                        0, greenEnabled, 0, 0, 0,
-                        0, 0, blueEnabled, 0, 0,
-                        0, 0, 0, 1, 0
-                    ]
-                }));
-            }
-            const cmykPreview = Math.round(filters.cmykPreview ?? 0);
-            if (cmykPreview > 0) {
-                let row: [number, number, number, number, number] = [-1, 0, 0, 0, 1];
-                if (cmykPreview === 2) row = [0, -1, 0, 0, 1];
-                if (cmykPreview === 3) row = [0, 0, -1, 0, 1];
-                if (cmykPreview === 4) row = [-0.333, -0.333, -0.333, 0, 1];
-                filterList.push(new fabric.filters.ColorMatrix({
-                    matrix: [
-                        row[0], row[1], row[2], row[3], row[4],
-                        row[0], row[1], row[2], row[3], row[4],
-                        row[0], row[1], row[2], row[3], row[4],
-                        0, 0, 0, 1, 0
-                    ]
-                }));
-            }
-            if (filters.shadows !== undefined && filters.shadows !== 0) {
-                const s = Math.max(-1, Math.min(1, filters.shadows));
-                const lift = s * 0.12;
-                filterList.push(new fabric.filters.ColorMatrix({
-                    matrix: [
-                        1, 0, 0, 0, lift,
-                        0, 1, 0, 0, lift,
-                        0, 0, 1, 0, lift,
-                        0, 0, 0, 1, 0
-                    ]
-                }));
-            }
-            if (filters.highlights !== undefined && filters.highlights !== 0) {
-                const h = Math.max(-1, Math.min(1, filters.highlights));
-                const contrast = -h * 0.35;
-                filterList.push(new fabric.filters.Contrast({ contrast }));
-            }
-            if (filters.selectiveColor !== undefined && filters.selectiveColor !== 0) {
-                const s = Math.max(-1, Math.min(1, filters.selectiveColor));
-                filterList.push(new fabric.filters.ColorMatrix({
-                    matrix: [
-                        1 + s * 0.1, 0, 0, 0, 0,
-                        0, 1 - s * 0.05, 0, 0, 0,
-                        0, 0, 1 + s * 0.1, 0, 0,
-                        0, 0, 0, 1, 0
-                    ]
-                }));
-            }
-            if (filters.gradientMap !== undefined && filters.gradientMap !== 0) {
-                const g = Math.max(-1, Math.min(1, filters.gradientMap));
-                filterList.push(new fabric.filters.ColorMatrix({
-                    matrix: [
-                        0.9, 0.2 * g, 0.1, 0, 0,
-                        0.2, 0.9, 0.1 * g, 0, 0,
-                        0.1 * g, 0.2, 0.9, 0, 0,
-                        0, 0, 0, 1, 0
-                    ]
-                }));
-            }
-            if (filters.photoFilter !== undefined && filters.photoFilter !== 0) {
-                const p = Math.max(-1, Math.min(1, filters.photoFilter));
-                filterList.push(new fabric.filters.ColorMatrix({
-                    matrix: [
-                        1 + p * 0.12, 0, 0, 0, 0,
-                        0, 1, 0, 0, 0,
-                        0, 0, 1 - p * 0.12, 0, 0,
-                        0, 0, 0, 1, 0
-                    ]
-                }));
-            }
-            if (filters.channelMixer !== undefined && filters.channelMixer !== 0) {
-                const m = Math.max(-1, Math.min(1, filters.channelMixer));
-                filterList.push(new fabric.filters.ColorMatrix({
-                    matrix: [
-                        1, m * 0.15, m * 0.05, 0, 0,
-                        m * 0.05, 1, m * 0.15, 0, 0,
-                        m * 0.15, m * 0.05, 1, 0, 0,
-                        0, 0, 0, 1, 0
-                    ]
-                }));
-            }
-            if (filters.lutPreset !== undefined && filters.lutPreset !== 0) {
-                const lut = Math.round(filters.lutPreset);
-                if (lut === 1) {
-                    filterList.push(new fabric.filters.ColorMatrix({
-                        matrix: [
-                            1.05, 0, 0, 0, 0.02,
-                            0, 1.03, 0, 0, 0.01,
-                            0, 0, 0.95, 0, -0.01,
-                            0, 0, 0, 1, 0
-                        ]
-                    }));
-                } else if (lut === 2) {
-                    filterList.push(new fabric.filters.ColorMatrix({
-                        matrix: [
-                            0.95, 0.05, 0, 0, 0,
-                            0, 0.96, 0.04, 0, 0,
-                            0.04, 0, 0.96, 0, 0,
-                            0, 0, 0, 1, 0
-                        ]
-                    }));
-                } else if (lut === 3) {
-                    filterList.push(new fabric.filters.ColorMatrix({
-                        matrix: [
-                            1.08, 0, 0, 0, 0,
-                            0, 0.95, 0, 0, 0,
-                            0, 0, 0.9, 0, 0,
-                            0, 0, 0, 1, 0
-                        ]
-                    }));
-                }
-            }
-
-            fabImg.filters = filterList;
+            fabImg.filters = buildLayerFilters(filters);
             fabImg.applyFilters();
         };
 
@@ -453,14 +388,30 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             });
 
             fabricRef.current = canvas;
+            installGroupCompositing(canvas, () =>
+                buildGroupCompositePlan(useLayerStore.getState().layers, (layerId) => layerMapRef.current.get(layerId) ?? adjustmentMapRef.current.get(layerId))
+            );
 
-            historyRef.current = new HistoryManager(50, () => {
+            historyRef.current = new HistoryManager(DEFAULT_HISTORY_BUDGET_BYTES, () => {
                 if (historyRef.current) {
                     onHistoryChange?.(
                         historyRef.current.canUndo(),
                         historyRef.current.canRedo()
                     );
+                    scheduleHistoryPreview();
                 }
+            }, createIndexedDbSpillStore());
+            historyRef.current.setReviver((command, state) => createCommandReviver(canvas)(command, state));
+            // Layer panel edits land on the same undo stack; a deleted layer's image is kept by its step.
+            const unbindLayerHistory = bindLayerHistory({
+                record: (action) => historyRef.current?.record(action),
+                retain: (layerId) => layerMapRef.current.get(layerId) ?? null,
+                restore: (layerId, image) => {
+                    if (layerMapRef.current.has(layerId)) return;
+                    layerMapRef.current.set(layerId, image);
+                    canvas.add(image);
+                    canvas.requestRenderAll();
+                },
             });
 
             const resizeCanvas = () => {
@@ -485,8 +436,10 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
 
             return () => {
                 resizeObserver.disconnect();
+                unbindLayerHistory();
                 // Clear layer map to prevent memory leaks
                 layerMapRef.current.clear();
+                adjustmentMapRef.current.clear();
                 canvas.dispose();
             };
         }, []);
@@ -502,14 +455,56 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                     layerMapRef.current.delete(id);
                 }
             });
+            adjustmentMapRef.current.forEach((obj, id) => {
+                if (!currentIds.has(id) || layerMapRef.current.has(id)) {
+                    canvas.remove(obj);
+                    adjustmentMapRef.current.delete(id);
+                }
+            });
+
+            // Stacked in tree order so every group's children are adjacent for the compositor.
+            const ordered = normalizeLayerTree(layers);
+
+            // A clipped layer clips to the first unclipped layer below it in the same group.
+            const clippingBaseObject = (stack: Layer[], index: number) => {
+                const parentId = stack[index].parentId ?? null;
+                for (let j = index + 1; j < stack.length; j++) {
+                    if ((stack[j].parentId ?? null) !== parentId) continue;
+                    if (stack[j].clippingMask) continue;
+                    return layerMapRef.current.get(stack[j].id) ?? null;
+                }
+                return null;
+            };
 
             const processLayers = async () => {
-                for (let i = layers.length - 1; i >= 0; i--) {
-                    const layer = layers[i];
+                for (let i = ordered.length - 1; i >= 0; i--) {
+                    const layer = ordered[i];
                     let obj = layerMapRef.current.get(layer.id);
 
+                    // Adjustment layers from before they became pixel-less keep their image and
+                    // filter it like any other layer.
+                    if (!obj && isAdjustmentLayer(layer)) {
+                        let adjustment = adjustmentMapRef.current.get(layer.id);
+                        if (!adjustment) {
+                            adjustment = new AdjustmentLayerObject();
+                            adjustmentMapRef.current.set(layer.id, adjustment);
+                            canvas.add(adjustment);
+                        }
+                        adjustment.visible = isLayerShown(ordered, layer);
+                        adjustment.opacity = (layer.opacity ?? 1) * (layer.fillOpacity ?? 1);
+                        adjustment.setAdjustment({
+                            filters: layer.filters ?? {},
+                            blendMode: layer.blendMode || 'normal',
+                            mask: layer.mask?.visible ? layer.mask.dataUrl : null,
+                            clipTo: layer.clippingMask ? clippingBaseObject(ordered, i) : null,
+                        });
+                        canvas.bringObjectToFront(adjustment);
+                        continue;
+                    }
+
                     if (obj) {
-                        if (obj.visible !== layer.visible) obj.visible = layer.visible;
+                        const shown = isLayerShown(ordered, layer);
+                        if (obj.visible !== shown) obj.visible = shown;
                         const effectiveOpacity = (layer.opacity ?? 1) * (layer.fillOpacity ?? 1);
                         if (obj.opacity !== effectiveOpacity) obj.opacity = effectiveOpacity;
                         const compositeMode = layer.clippingMask ? 'source-atop' : (layer.blendMode || 'normal');
@@ -583,7 +578,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                         }
 
                         // Ensure object follows tool mode
-                        const interactive = activeToolRef.current === 'move' && !layer.locked;
+                        const interactive = activeToolRef.current === 'move' && !layer.locked && !layerLocks[layer.id];
                         obj.selectable = interactive;
                         obj.evented = interactive;
 
@@ -606,6 +601,25 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
         }, [layers]);
 
 
+        // How a layer goes into an SVG export: live text and shape outlines from the payloads they
+        // were drawn from, everything else as its pixels (crop and filters applied).
+        const svgLayerContent = (layer: Layer): SvgLayerContent | null => {
+            const obj = layerMapRef.current.get(layer.id);
+            const element = obj?.getElement() as HTMLImageElement | HTMLCanvasElement | undefined;
+            if (!obj || !element) return null;
+            const width = obj.width || element.width || 1;
+            const height = obj.height || element.height || 1;
+            const placement = { transform: obj.calcTransformMatrix(), width, height };
+            const aiData = layer.aiData as { textLayer?: SvgLayerContent['text']; shapeLayer?: SvgLayerContent['shape'] } | undefined;
+            if (layer.type === 'text' && aiData?.textLayer) return { ...placement, text: aiData.textLayer };
+            if (layer.type === 'shape' && aiData?.shapeLayer) return { ...placement, shape: aiData.shapeLayer };
+            const off = document.createElement('canvas');
+            off.width = Math.max(1, Math.round(width));
+            off.height = Math.max(1, Math.round(height));
+            off.getContext('2d')?.drawImage(element, obj.cropX || 0, obj.cropY || 0, width, height, 0, 0, off.width, off.height);
+            return { ...placement, image: off.toDataURL('image/png') };
+        };
+
         const getActiveImageObject = (): FabricImage | null => {
             if (activeLayerIdRef.current) {
                 const activeLayer = layers.find((layer) => layer.id === activeLayerIdRef.current);
@@ -1030,9 +1044,17 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             await updateSelectionFromMaskDataUrl(maskData);
         };
 
-        const updateSelectionFromMaskDataUrl = async (maskDataUrl: string) => {
+        const clearMaskOutline = () => {
+            if (maskOutlineRef.current && fabricRef.current) {
+                fabricRef.current.remove(maskOutlineRef.current);
+            }
+            maskOutlineRef.current = null;
+        };
+
+        const updateSelectionFromMaskDataUrl = async (maskDataUrl: string, outlines?: Array<Array<{ x: number; y: number }>>) => {
             if (!fabricRef.current) return;
             const canvas = fabricRef.current;
+            clearMaskOutline();
 
             const maskImg = await loadImage(maskDataUrl);
             const width = canvas.width || 0;
@@ -1057,7 +1079,8 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             for (let y = 0; y < height; y += 1) {
                 for (let x = 0; x < width; x += 1) {
                     const idx = (y * width + x) * 4;
-                    if (data[idx] > 20 || data[idx + 3] > 20) {
+                    // Masks are opaque grayscale, so weight luminance by alpha rather than trusting alpha alone.
+                    if ((data[idx] * data[idx + 3]) / 255 > 20) {
                         minX = Math.min(minX, x);
                         minY = Math.min(minY, y);
                         maxX = Math.max(maxX, x);
@@ -1075,14 +1098,16 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 canvas.remove(selectionRectRef.current);
             }
 
+            const hasOutline = Boolean(outlines?.some((outline) => outline.length > 2));
             const rect = new Rect({
                 left: minX,
                 top: minY,
                 width: maxX - minX + 1,
                 height: maxY - minY + 1,
-                fill: "rgba(68, 138, 255, 0.1)",
-                stroke: "#448AFF",
-                strokeWidth: 2,
+                // With a real outline the box only marks the generation region.
+                fill: hasOutline ? "transparent" : "rgba(68, 138, 255, 0.1)",
+                stroke: hasOutline ? "rgba(68, 138, 255, 0.35)" : "#448AFF",
+                strokeWidth: hasOutline ? 1 : 2,
                 strokeDashArray: [5, 5],
                 selectable: true,
                 hasControls: true,
@@ -1093,6 +1118,34 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             selectionRectRef.current = rect;
             canvas.add(rect);
             canvas.bringObjectToFront(rect);
+
+            if (outlines && hasOutline) {
+                // Outlines come back in mask pixels; the mask may not match the canvas size exactly.
+                const scaleX = width / (maskImg.width || width);
+                const scaleY = height / (maskImg.height || height);
+                const pathData = outlines
+                    .filter((outline) => outline.length > 2)
+                    .map((outline) =>
+                        outline
+                            .map((point, i) => `${i === 0 ? "M" : "L"} ${(point.x * scaleX).toFixed(1)} ${(point.y * scaleY).toFixed(1)}`)
+                            .join(" ") + " Z"
+                    )
+                    .join(" ");
+                const outlinePath = new fabric.Path(pathData, {
+                    fill: "rgba(68, 138, 255, 0.12)",
+                    fillRule: "evenodd",
+                    stroke: "#448AFF",
+                    strokeWidth: 1.5,
+                    strokeDashArray: [5, 5],
+                    selectable: false,
+                    evented: false,
+                    objectCaching: false,
+                });
+                maskOutlineRef.current = outlinePath;
+                canvas.add(outlinePath);
+                canvas.bringObjectToFront(outlinePath);
+            }
+
             selectionMaskDataRef.current = maskDataUrl;
             canvas.requestRenderAll();
             onSelectionChange?.(getSelectionData());
@@ -1188,6 +1241,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                         canvas.remove(lassoPathRef.current);
                         lassoPathRef.current = null;
                     }
+                    clearMaskOutline();
                     lassoPointsRef.current = [{ x: pointer.x, y: pointer.y }];
 
                     const path = new fabric.Polyline(lassoPointsRef.current, {
@@ -1252,6 +1306,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                     selectionRectRef.current = null;
                     onSelectionChange?.(null);
                 }
+                clearMaskOutline();
 
                 const rect = new Rect({
                     left: startX,
@@ -1353,7 +1408,13 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 }
             });
 
+            canvas.on("object:moving", (options) => notifyLayerEditing(options.target));
+            canvas.on("object:scaling", (options) => notifyLayerEditing(options.target));
+            canvas.on("object:rotating", (options) => notifyLayerEditing(options.target));
+            canvas.on("object:skewing", (options) => notifyLayerEditing(options.target));
+
             canvas.on("object:modified", (options) => {
+                notifyLayerTransformed(options.target);
                 if (options.target === selectionRectRef.current && selectionBeforeModifyRef.current) {
                     const sel = selectionRectRef.current!;
                     const newState = {
@@ -1394,6 +1455,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                     fabricRef.current.remove(lassoPathRef.current);
                 }
                 lassoPathRef.current = null;
+                clearMaskOutline();
             }
             onSelectionChange?.(data);
         };
@@ -1476,6 +1538,21 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
         const undo = () => historyRef.current?.undo();
         const redo = () => historyRef.current?.redo();
 
+        // Each history node keeps a small rendering of the document as it was there, so branch
+        // tips can be compared without checking them out. Taken once the canvas has settled.
+        const scheduleHistoryPreview = () => {
+            if (historyPreviewTimerRef.current) window.clearTimeout(historyPreviewTimerRef.current);
+            historyPreviewTimerRef.current = window.setTimeout(() => {
+                historyPreviewTimerRef.current = null;
+                const canvas = fabricRef.current;
+                const history = historyRef.current;
+                if (!canvas || !history) return;
+                const longest = Math.max(canvas.width || 1, canvas.height || 1);
+                const preview = canvas.toDataURL({ format: 'png', multiplier: Math.min(1, HISTORY_PREVIEW_SIZE / longest) });
+                history.setPreview(history.getCurrentId(), preview);
+            }, 300);
+        };
+
         const getGenerationData = async (): Promise<{ image: string; mask: string } | null> => {
             if (!fabricRef.current || (!selectionRectRef.current && !lassoPointsRef.current)) return null;
             const image = fabricRef.current.toDataURL({ format: 'png', multiplier: 1 });
@@ -1575,31 +1652,26 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 // Don't remove from canvas here - CropAction.execute() does that
                 selectionRectRef.current = null;
             }
+            clearMaskOutline();
 
 
 
             // === CREATE ACTION FOR Undo/Redo ===
-            const action = new CropAction(
-                canvas,
-                oldVpt,
-                newVpt,
+            const action = createCropAction(canvas, {
+                oldViewportTransform: oldVpt,
+                newViewportTransform: newVpt,
                 oldWidth,
                 oldHeight,
-                width,
-                height,
+                newWidth: width,
+                newHeight: height,
                 oldDocOrigin,
                 newDocOrigin,
                 objectPositions,
                 cropOffsetX,
                 cropOffsetY,
-                (size: { width: number; height: number }) => setCanvasSize(size),
-                (origin: { x: number; y: number }) => { documentOriginRef.current = origin; },
                 selection,
-                handleSelectionChangeInternal,
-                getSelectionData,
-                activeLayerIdRef.current,
-                (layerId: string, img: FabricImage) => { layerMapRef.current.set(layerId, img); }
-            );
+                activeLayerId: activeLayerIdRef.current
+            });
 
             // Attach images so undo/redo will swap them as needed
             if (prevImg || newImg) {
@@ -1610,6 +1682,53 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             historyRef.current.execute(action);
         };
 
+        const createCropAction = (
+            canvas: FabricCanvas,
+            params: {
+                oldViewportTransform: TMat2D;
+                newViewportTransform: TMat2D;
+                oldWidth: number;
+                oldHeight: number;
+                newWidth: number;
+                newHeight: number;
+                oldDocOrigin: { x: number; y: number };
+                newDocOrigin: { x: number; y: number };
+                objectPositions: ObjectPositionData[];
+                cropOffsetX: number;
+                cropOffsetY: number;
+                selection: Rect;
+                activeLayerId: string | null;
+            }
+        ) => new CropAction(
+            canvas,
+            params.oldViewportTransform,
+            params.newViewportTransform,
+            params.oldWidth,
+            params.oldHeight,
+            params.newWidth,
+            params.newHeight,
+            params.oldDocOrigin,
+            params.newDocOrigin,
+            params.objectPositions,
+            params.cropOffsetX,
+            params.cropOffsetY,
+            (size: { width: number; height: number }) => setCanvasSize(size),
+            (origin: { x: number; y: number }) => { documentOriginRef.current = origin; },
+            params.selection,
+            handleSelectionChangeInternal,
+            getSelectionData,
+            params.activeLayerId,
+            (layerId: string, img: FabricImage) => { layerMapRef.current.set(layerId, img); },
+            (layerId: string, from: FabricImage, to: FabricImage) => {
+                const fromMatrix = from.calcTransformMatrix();
+                const toInverse = fabric.util.invertTransform(to.calcTransformMatrix());
+                onLayerFrameChangeRef.current?.(layerId, (point) => {
+                    const mapped = fabric.util.transformPoint(fabric.util.transformPoint(new fabric.Point(point.x, point.y), fromMatrix), toInverse);
+                    return { x: mapped.x, y: mapped.y };
+                });
+            }
+        );
+
         const applySemanticSelection = (query: string) => {
             if (!fabricRef.current) return;
             const normalized = query.trim().toLowerCase();
@@ -1710,40 +1829,165 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                     return;
                 }
 
-                const action: Action = {
-                    execute: () => {
-                        insertLayer(layerSnapshot, 0);
-                        layerMapRef.current.set(layerSnapshot.id, img);
-                        if (!canvas.getObjects().includes(img)) {
-                            canvas.add(img);
+                historyRef.current.execute(createAddImageLayerAction(canvas, layerSnapshot, img));
+            });
+        };
+
+        const createAddImageLayerAction = (canvas: FabricCanvas, layer: Layer, img: FabricImage) => new AddImageLayerAction(
+            canvas,
+            layer,
+            img,
+            (added, image) => {
+                insertLayer(added, 0);
+                layerMapRef.current.set(added.id, image);
+                setActiveLayer(added.id);
+                generateThumbnail(image, added.id);
+            },
+            (layerId) => {
+                layerMapRef.current.delete(layerId);
+                removeLayer(layerId);
+            }
+        );
+
+        // Turns history commands back into actions, for project loads and for spilled history.
+        // Objects several commands share (a selection rect, the image between two crops) are
+        // looked up by their history id while still alive; an image expected on the canvas right
+        // now is taken from the layer map; anything else is recreated from the command's assets.
+        const createCommandReviver = (canvas: FabricCanvas): CommandReviver => {
+            const reviveRect = (serialized: SerializedRect) => {
+                const existing = findHistoryObject<Rect>(serialized.id);
+                if (existing) return existing;
+                const rect = new Rect({
+                    ...serialized.props,
+                    selectable: true,
+                    hasControls: true,
+                    hasBorders: true,
+                    lockRotation: true,
+                });
+                adoptHistoryObjectId(rect, serialized.id);
+                return rect;
+            };
+
+            const reviveImage = async (serialized: SerializedImage, src: string | undefined, liveLayerId: string | null) => {
+                const existing = findHistoryObject<FabricImage>(serialized.id);
+                if (existing) return existing;
+                let img = liveLayerId ? layerMapRef.current.get(liveLayerId) : undefined;
+                if (!img) {
+                    if (!src) throw new Error('Missing image asset');
+                    img = await FabricImage.fromURL(resolveAssetUrl(src));
+                    img.set({
+                        left: serialized.left,
+                        top: serialized.top,
+                        scaleX: serialized.scaleX,
+                        scaleY: serialized.scaleY,
+                        angle: serialized.angle,
+                        originX: serialized.originX as fabric.TOriginX,
+                        originY: serialized.originY as fabric.TOriginY,
+                        selectable: activeToolRef.current === 'move',
+                        evented: activeToolRef.current === 'move'
+                    });
+                }
+                adoptHistoryObjectId(img, serialized.id);
+                return img;
+            };
+
+            return async (command, state) => {
+                const params = command.params as any;
+                const assets = command.assets ?? {};
+                switch (command.type) {
+                    case HISTORY_COMMAND_TYPES.createSelection:
+                        return new CreateSelectionAction(
+                            canvas,
+                            reviveRect(params.selection),
+                            params.previousSelection ? reviveRect(params.previousSelection) : null,
+                            handleSelectionChangeInternal,
+                            getSelectionData
+                        );
+                    case HISTORY_COMMAND_TYPES.modifySelection:
+                        return new ModifySelectionAction(
+                            canvas,
+                            reviveRect(params.selection),
+                            params.previousState,
+                            params.newState,
+                            handleSelectionChangeInternal,
+                            getSelectionData
+                        );
+                    case HISTORY_COMMAND_TYPES.clearSelection:
+                        return new ClearSelectionAction(canvas, reviveRect(params.selection), handleSelectionChangeInternal);
+                    case HISTORY_COMMAND_TYPES.setMask: {
+                        // Masks are kept inline everywhere else, so refs are fetched back to data URLs.
+                        const { assets: masks } = await hydrateAssetRefs({ assets });
+                        return new SetMaskAction(params.layerId, masks.oldMask, masks.newMask ?? null, (id, data) => setLayerMask(id, data));
+                    }
+                    case HISTORY_COMMAND_TYPES.toggleMask:
+                        return new ToggleMaskAction(params.layerId, (id) => toggleLayerMask(id));
+                    case HISTORY_COMMAND_TYPES.addImageLayer: {
+                        const layer = await hydrateAssetRefs(params.layer) as Layer;
+                        const img = await reviveImage(params.image, assets.image, state === 'applied' ? layer.id : null);
+                        return createAddImageLayerAction(canvas, layer, img);
+                    }
+                    case HISTORY_COMMAND_TYPES.crop: {
+                        const layerId: string | null = params.activeLayerId ?? null;
+                        const previousImage = params.previousImage
+                            ? await reviveImage(params.previousImage, assets.previousImage, state === 'undone' ? layerId : null)
+                            : null;
+                        const newImage = params.newImage
+                            ? await reviveImage(params.newImage, assets.newImage, state === 'applied' ? layerId : null)
+                            : null;
+                        const action = createCropAction(canvas, {
+                            oldViewportTransform: params.oldViewportTransform,
+                            newViewportTransform: params.newViewportTransform,
+                            oldWidth: params.oldWidth,
+                            oldHeight: params.oldHeight,
+                            newWidth: params.newWidth,
+                            newHeight: params.newHeight,
+                            oldDocOrigin: params.oldDocOrigin,
+                            newDocOrigin: params.newDocOrigin,
+                            objectPositions: [],
+                            cropOffsetX: params.cropOffsetX,
+                            cropOffsetY: params.cropOffsetY,
+                            selection: reviveRect(params.selection),
+                            activeLayerId: layerId
+                        });
+                        action.attachImages(previousImage, newImage);
+                        return action;
+                    }
+                    case HISTORY_COMMAND_TYPES.layerPatch: {
+                        // Images only travel for layers the patch currently holds off the canvas.
+                        const retained = new Map<string, FabricImage>();
+                        for (const [layerId, image] of Object.entries((params.images ?? {}) as Record<string, SerializedImage>)) {
+                            retained.set(layerId, await reviveImage(image, assets[layerId], null));
                         }
-                        setActiveLayer(layerSnapshot.id);
-                        generateThumbnail(img, layerSnapshot.id);
-                        canvas.requestRenderAll();
-                    },
-                    undo: () => {
-                        canvas.remove(img);
-                        layerMapRef.current.delete(layerSnapshot.id);
-                        removeLayer(layerSnapshot.id);
-                        canvas.requestRenderAll();
+                        return reviveLayerPatch(await hydrateAssetRefs(params.forward), await hydrateAssetRefs(params.inverse), retained);
                     }
-                };
+                    default:
+                        return null;
+                }
+            };
+        };
 
-                historyRef.current.execute(action);
-            });
+        // Rebuilds the history tree saved by `buildProjectPayload` against the document that was just loaded.
+        const restoreHistory = async (history: unknown) => {
+            if (!fabricRef.current || !historyRef.current) return;
+            const revivedHistory = await replayHistory(history, createCommandReviver(fabricRef.current));
+            if (revivedHistory) historyRef.current.restore(revivedHistory);
+            else historyRef.current.clear();
         };
 
-        const buildProjectPayload = () => {
+        const buildProjectPayload = async (projectDocument: ProjectDocument): Promise<ProjectPayload | null> => {
             if (!fabricRef.current) return null;
+            const history = historyRef.current ? await historyRef.current.serialize() : null;
             return {
-                version: 1,
+                ...projectDocument,
+                version: PROJECT_FORMAT_VERSION,
                 exportedAt: new Date().toISOString(),
                 canvas: {
                     width: fabricRef.current.width || 0,
                     height: fabricRef.current.height || 0
                 },
                 preview: fabricRef.current.toDataURL({ format: 'png', multiplier: 1 }),
-                layers: layers.map((layer) => {
+                history,
+                layers: layers.map((layer): ProjectLayer => {
                     const obj = layerMapRef.current.get(layer.id);
                     const element = obj?.getElement() as HTMLImageElement | HTMLCanvasElement | undefined;
                     let image: string | null = null;
@@ -1777,29 +2021,28 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             };
         };
 
-        const loadProjectPayload = async (payload: any) => {
-            if (!fabricRef.current || !payload?.layers) return;
+        const loadProjectPayload = async (payload: ProjectPayload) => {
+            if (!fabricRef.current) return;
             const canvas = fabricRef.current;
-            const parsedLayers = Array.isArray(payload.layers) ? payload.layers : [];
+            // Layer pixels stay as asset URLs and load lazily; everything else (masks, thumbnails,
+            // variants) is expected inline by the rest of the app, so hydrate those refs up front.
+            const parsedLayers: ProjectLayer[] = await Promise.all(payload.layers.map(async (layer) => {
+                const { image, ...rest } = layer;
+                const hydratedLayer = await hydrateAssetRefs(rest);
+                return { ...hydratedLayer, image: image === null ? null : resolveAssetUrl(image) };
+            }));
 
             canvas.clear();
             canvas.backgroundColor = "#f4f4f5";
             layerMapRef.current.clear();
+            adjustmentMapRef.current.clear();
             selectionRectRef.current = null;
             lassoPathRef.current = null;
+            maskOutlineRef.current = null;
             lassoPointsRef.current = null;
             selectionMaskDataRef.current = null;
 
-            const storeLayers: Layer[] = parsedLayers.map((layer: any) => {
-                const { image, transform, ...rest } = layer || {};
-                return {
-                    visible: true,
-                    locked: false,
-                    opacity: 1,
-                    blendMode: 'normal',
-                    ...rest
-                } as Layer;
-            });
+            const storeLayers: Layer[] = parsedLayers.map(({ image, transform, ...layer }) => layer);
 
             setLayers(storeLayers);
             if (storeLayers.length > 0) {
@@ -1810,24 +2053,30 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
 
             for (let i = parsedLayers.length - 1; i >= 0; i -= 1) {
                 const layer = parsedLayers[i];
-                if (!layer?.id || !layer?.image) continue;
+                if (!layer.image) continue;
                 try {
                     const img = await FabricImage.fromURL(layer.image);
                     img.set({
-                        left: Number(layer?.transform?.left ?? 0),
-                        top: Number(layer?.transform?.top ?? 0),
-                        scaleX: Number(layer?.transform?.scaleX ?? 1),
-                        scaleY: Number(layer?.transform?.scaleY ?? 1),
-                        angle: Number(layer?.transform?.angle ?? 0),
+                        left: layer.transform?.left ?? 0,
+                        top: layer.transform?.top ?? 0,
+                        scaleX: layer.transform?.scaleX ?? 1,
+                        scaleY: layer.transform?.scaleY ?? 1,
+                        angle: layer.transform?.angle ?? 0,
                         originX: 'left',
                         originY: 'top',
                         selectable: activeToolRef.current === 'move',
                         evented: activeToolRef.current === 'move',
-                        opacity: Number(layer?.opacity ?? 1),
-                        visible: layer?.visible !== false
+                        opacity: layer.opacity,
+                        visible: layer.visible
                     });
                     layerMapRef.current.set(layer.id, img);
                     canvas.add(img);
+                    // A saved adjustment layer with pixels is an image after all.
+                    const placeholder = adjustmentMapRef.current.get(layer.id);
+                    if (placeholder) {
+                        canvas.remove(placeholder);
+                        adjustmentMapRef.current.delete(layer.id);
+                    }
                 } catch (error) {
                     console.warn('[Canvas] Failed to load layer image from payload', error);
                 }
@@ -1835,6 +2084,126 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
 
             canvas.requestRenderAll();
             onSelectionChange?.(null);
+            await restoreHistory(payload.history);
+        };
+
+        const getLayerImage = (layerId: string): string | null => {
+            const obj = layerMapRef.current.get(layerId);
+            const element = obj?.getElement() as HTMLImageElement | HTMLCanvasElement | undefined;
+            if (!obj || !element) return null;
+            const width = Math.max(1, Math.round(obj.width || element.width || 1));
+            const height = Math.max(1, Math.round(obj.height || element.height || 1));
+            const off = document.createElement('canvas');
+            off.width = width;
+            off.height = height;
+            const ctx = off.getContext('2d');
+            if (!ctx) return null;
+            ctx.drawImage(element, obj.cropX || 0, obj.cropY || 0, width, height, 0, 0, width, height);
+            return off.toDataURL('image/png');
+        };
+
+        // Transforms are exchanged as the decomposed object matrix around the object's center,
+        // which stays correct for objects inside an active selection and for any origin setting.
+        const getLayerTransform = (layerId: string): LayerTransform | null => {
+            const obj = layerMapRef.current.get(layerId);
+            if (!obj) return null;
+            const decomposed = fabric.util.qrDecompose(obj.calcTransformMatrix());
+            return {
+                left: decomposed.translateX,
+                top: decomposed.translateY,
+                scaleX: decomposed.scaleX,
+                scaleY: decomposed.scaleY,
+                angle: decomposed.angle,
+                skewX: decomposed.skewX,
+                skewY: decomposed.skewY,
+                originX: 'center',
+                originY: 'center'
+            };
+        };
+
+        const documentToLayerPoint = (layerId: string, point: { x: number; y: number }) => {
+            const obj = layerMapRef.current.get(layerId);
+            if (!obj) return null;
+            const local = fabric.util.transformPoint(new fabric.Point(point.x, point.y), fabric.util.invertTransform(obj.calcTransformMatrix()));
+            return { x: local.x, y: local.y };
+        };
+
+        const layerToDocumentPoint = (layerId: string, point: { x: number; y: number }) => {
+            const obj = layerMapRef.current.get(layerId);
+            if (!obj) return null;
+            const doc = fabric.util.transformPoint(new fabric.Point(point.x, point.y), obj.calcTransformMatrix());
+            return { x: doc.x, y: doc.y };
+        };
+
+        const applyLayerTransform = (obj: FabricImage, transform: LayerTransform) => {
+            obj.set({
+                scaleX: transform.scaleX,
+                scaleY: transform.scaleY,
+                angle: transform.angle,
+                skewX: transform.skewX ?? 0,
+                skewY: transform.skewY ?? 0,
+                flipX: transform.flipX ?? false,
+                flipY: transform.flipY ?? false
+            });
+            if (transform.originX === 'center' && transform.originY === 'center') {
+                obj.setPositionByOrigin(new fabric.Point(transform.left, transform.top), 'center', 'center');
+            } else {
+                obj.set({
+                    left: transform.left,
+                    top: transform.top,
+                    originX: (transform.originX as fabric.TOriginX) ?? 'left',
+                    originY: (transform.originY as fabric.TOriginY) ?? 'top'
+                });
+            }
+            obj.setCoords();
+        };
+
+        // Applies pixels/transform that arrived from a collaborator without reporting them back.
+        const applyLayerContent = async (layerId: string, content: { image?: string | null; transform?: LayerTransform | null }) => {
+            const canvas = fabricRef.current;
+            if (!canvas) return;
+            const version = (contentVersionRef.current.get(layerId) ?? 0) + 1;
+            contentVersionRef.current.set(layerId, version);
+
+            let obj = layerMapRef.current.get(layerId);
+            if (content.image) {
+                const next = await FabricImage.fromURL(resolveAssetUrl(content.image));
+                // A newer update for this layer started while this one was loading, or the layer is gone.
+                if (contentVersionRef.current.get(layerId) !== version || fabricRef.current !== canvas) return;
+                if (!useLayerStore.getState().layers.some((layer) => layer.id === layerId)) return;
+                const current = layerMapRef.current.get(layerId);
+                next.set({
+                    left: current?.left ?? 0,
+                    top: current?.top ?? 0,
+                    scaleX: current?.scaleX ?? 1,
+                    scaleY: current?.scaleY ?? 1,
+                    angle: current?.angle ?? 0,
+                    originX: current?.originX ?? 'left',
+                    originY: current?.originY ?? 'top',
+                    selectable: activeToolRef.current === 'move',
+                    evented: activeToolRef.current === 'move'
+                });
+                if (current) {
+                    const index = canvas.getObjects().indexOf(current);
+                    canvas.remove(current);
+                    canvas.insertAt(Math.max(0, index), next);
+                } else {
+                    canvas.add(next);
+                }
+                silentContentRef.current = true;
+                try {
+                    layerMapRef.current.set(layerId, next);
+                } finally {
+                    silentContentRef.current = false;
+                }
+                generateThumbnail(next, layerId);
+                obj = next;
+            }
+
+            if (obj && content.transform) applyLayerTransform(obj, content.transform);
+            canvas.requestRenderAll();
+            // Re-run the store -> canvas sync so a new object picks up opacity, blend, mask and stack order.
+            if (content.image) useLayerStore.setState((state) => ({ layers: [...state.layers] }));
         };
 
         useImperativeHandle(ref, () => ({
@@ -1854,6 +2223,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                     canvas.remove(lassoPathRef.current);
                     lassoPathRef.current = null;
                 }
+                clearMaskOutline();
 
                 const rect = new Rect({
                     left: bounds.x,
@@ -1887,7 +2257,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 if (!fabricRef.current) return null;
                 return fabricRef.current.toDataURL({ format: 'png', multiplier: 1 });
             },
-            exportCanvas: (format: 'png' | 'jpeg' | 'webp' | 'svg' = 'png', quality = 0.92) => {
+            exportCanvas: (format: 'png' | 'jpeg' | 'webp' | 'svg' = 'png', quality = 0.92, paths = []) => {
                 if (!fabricRef.current) return;
                 const canvas = fabricRef.current;
                 // Hide selection rect temporarily for clean export
@@ -1897,7 +2267,13 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
 
                 let dataUrl = '';
                 if (format === 'svg') {
-                    const svg = canvas.toSVG();
+                    const svg = buildLayeredSvg({
+                        width: Math.max(1, Math.round(canvas.width || 0)),
+                        height: Math.max(1, Math.round(canvas.height || 0)),
+                        layers: useLayerStore.getState().layers,
+                        contentOf: svgLayerContent,
+                        paths,
+                    });
                     dataUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
                 } else {
                     dataUrl = canvas.toDataURL({
@@ -1937,11 +2313,24 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 ctx.drawImage(el as CanvasImageSource, 0, 0, width, height);
 
                 const mime = format === 'jpeg' ? 'image/jpeg' : format === 'webp' ? 'image/webp' : 'image/png';
-                const dataUrl = format === 'svg'
-                    ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
-                        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><image href="${offscreen.toDataURL('image/png')}" width="${width}" height="${height}" /></svg>`
-                    )}`
-                    : offscreen.toDataURL(mime, quality);
+                let dataUrl: string;
+                if (format === 'svg') {
+                    const layerId = [...layerMapRef.current].find(([, obj]) => obj === active)?.[0];
+                    const layer = useLayerStore.getState().layers.find((entry) => entry.id === layerId);
+                    if (!layer || !fabricRef.current) return;
+                    // The layer alone, framed to its bounds on the canvas.
+                    const bounds = active.getBoundingRect();
+                    const svg = buildLayeredSvg({
+                        width: Math.max(1, Math.round(fabricRef.current.width || 0)),
+                        height: Math.max(1, Math.round(fabricRef.current.height || 0)),
+                        viewBox: { left: bounds.left, top: bounds.top, width: Math.max(1, bounds.width), height: Math.max(1, bounds.height) },
+                        layers: [{ ...layer, parentId: undefined, clippingMask: false, visible: true }],
+                        contentOf: svgLayerContent,
+                    });
+                    dataUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+                } else {
+                    dataUrl = offscreen.toDataURL(mime, quality);
+                }
                 const link = document.createElement('a');
                 link.download = `zerothlayer-layer-${activeLayerIdRef.current || 'export'}.${format}`;
                 link.href = dataUrl;
@@ -1949,11 +2338,11 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 link.click();
                 document.body.removeChild(link);
             },
-            exportProjectWithLayers: () => {
-                const payload = buildProjectPayload();
+            exportProjectWithLayers: async (projectDocument) => {
+                const payload = await buildProjectPayload(projectDocument);
                 if (!payload) return;
 
-                const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+                const blob = new Blob([await packProjectContainer(payload) as BlobPart], { type: PROJECT_CONTAINER_MIME_TYPE });
                 const url = URL.createObjectURL(blob);
                 const link = document.createElement('a');
                 link.download = `zerothlayer-project-${Date.now()}.zlayer`;
@@ -1963,8 +2352,52 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 document.body.removeChild(link);
                 URL.revokeObjectURL(url);
             },
-            getProjectPayload: () => buildProjectPayload(),
-            loadProjectPayload: async (payload: any) => {
+            exportProjectPsd: async () => {
+                if (!fabricRef.current) return;
+                const canvas = fabricRef.current;
+                const width = Math.max(1, Math.round(canvas.width || 0));
+                const height = Math.max(1, Math.round(canvas.height || 0));
+
+                // Each layer in document space, as drawn (placement, crop and filters baked in).
+                const rasterize = (layerId: string) => {
+                    const obj = layerMapRef.current.get(layerId);
+                    const element = obj?.getElement() as HTMLImageElement | HTMLCanvasElement | undefined;
+                    if (!obj || !element) return null;
+                    const off = document.createElement('canvas');
+                    off.width = width;
+                    off.height = height;
+                    const ctx = off.getContext('2d');
+                    if (!ctx) return null;
+                    const w = obj.width || element.width || 1;
+                    const h = obj.height || element.height || 1;
+                    ctx.transform(...obj.calcTransformMatrix());
+                    ctx.drawImage(element, obj.cropX || 0, obj.cropY || 0, w, h, -w / 2, -h / 2, w, h);
+                    return off;
+                };
+
+                // The composite without the view's zoom, the workspace background or selection overlays.
+                const layerObjects = new Set<FabricObject>([...layerMapRef.current.values(), ...adjustmentMapRef.current.values()]);
+                const viewport = canvas.viewportTransform.slice() as TMat2D;
+                const background = canvas.backgroundColor;
+                canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
+                canvas.backgroundColor = '';
+                const composite = canvas.toCanvasElement(1, { width, height, filter: (obj) => layerObjects.has(obj as FabricObject) });
+                canvas.viewportTransform = viewport;
+                canvas.backgroundColor = background;
+
+                const doc = await psdFromLayers(useLayerStore.getState().layers, width, height, rasterize, composite);
+                const blob = new Blob([writePsd(doc) as BlobPart], { type: 'image/vnd.adobe.photoshop' });
+                const url = URL.createObjectURL(blob);
+                const link = document.createElement('a');
+                link.download = `zerothlayer-project-${Date.now()}.psd`;
+                link.href = url;
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+                URL.revokeObjectURL(url);
+            },
+            getProjectPayload: (projectDocument) => buildProjectPayload(projectDocument),
+            loadProjectPayload: async (payload) => {
                 await loadProjectPayload(payload);
             },
             clearCanvas: () => {
@@ -1973,23 +2406,36 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 fabricRef.current.backgroundColor = "#f4f4f5";
                 fabricRef.current.requestRenderAll();
                 layerMapRef.current.clear();
+                adjustmentMapRef.current.clear();
                 setLayers([]);
                 setActiveLayer(null);
                 selectionRectRef.current = null;
                 lassoPathRef.current = null;
+                maskOutlineRef.current = null;
                 lassoPointsRef.current = null;
                 selectionMaskDataRef.current = null;
                 onSelectionChange?.(null);
             },
             getHistoryInfo: () => {
-                const entries = historyRef.current?.getEntries() || { undo: [], redo: [] };
+                const entries = historyRef.current?.getEntries() || { undo: [], redo: [], tree: null };
                 return {
                     undo: entries.undo,
                     redo: entries.redo,
                     canUndo: historyRef.current?.canUndo() ?? false,
-                    canRedo: historyRef.current?.canRedo() ?? false
+                    canRedo: historyRef.current?.canRedo() ?? false,
+                    tree: entries.tree,
+                    memory: historyRef.current?.getMemoryUsage() ?? null
                 };
             },
+            setHistoryMemoryBudget: (bytes: number) => {
+                historyRef.current?.setMemoryBudget(bytes);
+            },
+            checkoutHistory: (nodeId: string) => {
+                void historyRef.current?.checkout(nodeId);
+            },
+            nameHistoryCheckpoint: (nodeId: string, name: string | null) => {
+                historyRef.current?.nameCheckpoint(nodeId, name);
+            },
             getViewState: () => {
                 const canvas = fabricRef.current;
                 if (!canvas) return { zoom: 1, panX: 0, panY: 0 };
@@ -2041,6 +2487,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 if (opts.skewX !== undefined) active.skewX = (active.skewX || 0) + opts.skewX;
                 if (opts.skewY !== undefined) active.skewY = (active.skewY || 0) + opts.skewY;
                 active.setCoords();
+                notifyLayerTransformed(active);
                 canvas.requestRenderAll();
             },
             alignActiveLayer: (mode: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom') => {
@@ -2058,6 +2505,7 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 if (mode === 'middle') active.top = (ch - bh) / 2;
                 if (mode === 'bottom') active.top = ch - bh;
                 active.setCoords();
+                notifyLayerTransformed(active);
                 canvas.requestRenderAll();
             },
             replaceActiveLayerContents: async (url: string, name?: string) => {
@@ -2099,9 +2547,14 @@ const Canvas = forwardRef<CanvasHandle, CanvasProps>(
                 canvas.requestRenderAll();
             },
             applySemanticSelection: (query: string) => applySemanticSelection(query),
-            applySemanticMask: (maskDataUrl: string) => {
-                void updateSelectionFromMaskDataUrl(maskDataUrl);
+            applySemanticMask: (maskDataUrl: string, outlines?: Array<Array<{ x: number; y: number }>>) => {
+                void updateSelectionFromMaskDataUrl(maskDataUrl, outlines);
             },
+            getLayerImage,
+            getLayerTransform,
+            applyLayerContent,
+            documentToLayerPoint,
+            layerToDocumentPoint,
             undo: undo,
             redo: redo,
             canUndo: () => historyRef.current?.canUndo() ?? false,
@@ -1,6 +1,8 @@
 "use strict";
 import { useLayerStore, Layer } from "@/lib/store";
-import { Eye, EyeOff, Lock, Unlock, Trash2, GripVertical, Image as ImageIcon, Scissors, MousePointer2, Crop } from "lucide-react";
+import { useState } from "react";
+import { Eye, EyeOff, Lock, Unlock, Trash2, GripVertical, Image as ImageIcon, Scissors, MousePointer2, Crop, ChevronDown, ChevronRight, Folder, FolderPlus, FolderOpen, SlidersHorizontal } from "lucide-react";
+import { DEFAULT_GROUP_MODE, GroupMode, LayerPlacement, layerAncestors, normalizeLayerTree } from "@/lib/groups";
 import { clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 
@@ -22,27 +24,53 @@ export default function LayerPanel({ onCreateMask, onInvertMask, onFeatherMask,
         setActiveLayer,
         updateLayer,
         removeLayer,
-        reorderLayers,
+        moveLayer,
+        createGroup,
+        ungroupLayer,
+        setGroupCollapsed,
         setLayerMask,
         toggleLayerMask,
         maskPreviewMode,
-        setMaskPreviewMode
+        setMaskPreviewMode,
+        layerLocks
     } = useLayerStore();
 
-    const handleDragStart = (e: React.DragEvent, index: number) => {
-        e.dataTransfer.setData("text/plain", index.toString());
+    const [dropHint, setDropHint] = useState<{ layerId: string; placement: LayerPlacement } | null>(null);
+
+    // Tree order; rows inside collapsed groups are left out.
+    const ordered = normalizeLayerTree(layers);
+    const rows = ordered
+        .map((layer) => ({ layer, ancestors: layerAncestors(ordered, layer.id) }))
+        .filter(({ ancestors }) => !ancestors.some((group) => group.collapsed));
+
+    // Upper part of a row drops above it; the rest drops below it, or into it for groups.
+    const placementAt = (e: React.DragEvent, layer: Layer): LayerPlacement => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const ratio = (e.clientY - rect.top) / Math.max(1, rect.height);
+        if (layer.type === 'group') return ratio < 0.3 ? 'above' : 'inside';
+        return ratio < 0.5 ? 'above' : 'below';
     };
 
-    const handleDragOver = (e: React.DragEvent) => {
+    const handleDragStart = (e: React.DragEvent, layerId: string) => {
+        e.dataTransfer.setData("text/plain", layerId);
+    };
+
+    const handleDragOver = (e: React.DragEvent, layer: Layer) => {
         e.preventDefault();
+        const placement = placementAt(e, layer);
+        if (dropHint?.layerId !== layer.id || dropHint.placement !== placement) setDropHint({ layerId: layer.id, placement });
     };
 
-    const handleDrop = (e: React.DragEvent, targetIndex: number) => {
+    const handleDrop = (e: React.DragEvent, target: Layer) => {
         e.preventDefault();
-        const sourceIndex = parseInt(e.dataTransfer.getData("text/plain"), 10);
-        if (isNaN(sourceIndex)) return;
-        if (sourceIndex === targetIndex) return;
-        reorderLayers(sourceIndex, targetIndex);
+        setDropHint(null);
+        const sourceId = e.dataTransfer.getData("text/plain");
+        if (!sourceId || sourceId === target.id) return;
+        moveLayer(sourceId, target.id, placementAt(e, target));
+    };
+
+    const handleGroup = () => {
+        createGroup(activeLayerId ? [activeLayerId] : []);
     };
 
     return (
@@ -57,6 +85,13 @@ export default function LayerPanel({ onCreateMask, onInvertMask, onFeatherMask,
                     >
                         <Scissors className="h-3.5 w-3.5 text-zinc-500 dark:text-zinc-400" />
                     </button>
+                    <button
+                        onClick={handleGroup}
+                        title={activeLayerId ? "Group Layer" : "New Group"}
+                        className="rounded-full p-1.5 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                    >
+                        <FolderPlus className="h-3.5 w-3.5 text-zinc-500 dark:text-zinc-400" />
+                    </button>
                     <button
                         onClick={onCrop}
                         title="Crop to Selection"
@@ -78,146 +113,217 @@ export default function LayerPanel({ onCreateMask, onInvertMask, onFeatherMask,
                     </div>
                 ) : (
                     <div className="flex flex-col gap-0.5">
-                        {layers.map((layer, index) => (
-                            <div key={layer.id} className="space-y-2">
-                                <div
-                                    draggable={!layer.locked}
-                                    onDragStart={(e: React.DragEvent) => handleDragStart(e, index)}
-                                    onDragOver={handleDragOver}
-                                    onDrop={(e) => handleDrop(e, index)}
-                                    onClick={() => setActiveLayer(layer.id)}
-                                    className={cn(
-                                        "group flex items-center gap-2 rounded-lg px-2 py-2 text-sm transition-all duration-200 border border-transparent",
-                                        activeLayerId === layer.id
-                                            ? "bg-blue-50/50 dark:bg-blue-500/10 border-blue-200/50 dark:border-blue-500/20"
-                                            : "hover:bg-zinc-100 dark:hover:bg-zinc-800/50 border-transparent"
-                                    )}
-                                >
-                                    <GripVertical className={cn("h-3.5 w-3.5 text-zinc-300 opacity-0 transition-opacity group-hover:opacity-100 dark:text-zinc-600", layer.locked ? "cursor-not-allowed" : "cursor-move")} />
-
-                                    <button
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            updateLayer(layer.id, { visible: !layer.visible });
-                                        }}
-                                        className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 transition-colors"
-                                    >
-                                        {layer.visible ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5 text-zinc-300" />}
-                                    </button>
-
-                                    <div className="flex flex-1 items-center gap-2 overflow-hidden min-w-0">
-                                        <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-white shadow-sm border border-zinc-200 dark:bg-zinc-800 dark:border-zinc-700/50 overflow-hidden">
-                                            {layer.thumbnail ? (
-                                                <img src={layer.thumbnail} alt={layer.name} className="w-full h-full object-cover" />
-                                            ) : (
-                                                <ImageIcon className="h-3 w-3 text-zinc-400" />
-                                            )}
-                                        </div>
-
-                                        {layer.mask && (
-                                            <div className="flex h-6 w-6 shrink-0 items-center justify-center rounded-md border border-zinc-200 bg-black dark:border-zinc-700/50 overflow-hidden relative">
-                                                <div className="absolute inset-0 bg-white rounded-sm m-0.5" />
-                                            </div>
+                        {rows.map(({ layer, ancestors }) => {
+                            // Someone else's edit lock makes the row read-only, like a manual lock.
+                            const heldBy = layerLocks[layer.id];
+                            const locked = layer.locked || Boolean(heldBy);
+                            const isGroup = layer.type === 'group';
+                            const hint = dropHint?.layerId === layer.id ? dropHint.placement : null;
+                            return (
+                                <div key={layer.id} className="space-y-2" style={{ paddingLeft: ancestors.length * 12 }}>
+                                    <div
+                                        draggable={!locked}
+                                        onDragStart={(e: React.DragEvent) => handleDragStart(e, layer.id)}
+                                        onDragOver={(e) => handleDragOver(e, layer)}
+                                        onDragLeave={() => setDropHint(null)}
+                                        onDrop={(e) => handleDrop(e, layer)}
+                                        onClick={() => setActiveLayer(layer.id)}
+                                        className={cn(
+                                            "group flex items-center gap-2 rounded-lg px-2 py-2 text-sm transition-all duration-200 border border-transparent",
+                                            activeLayerId === layer.id
+                                                ? "bg-blue-50/50 dark:bg-blue-500/10 border-blue-200/50 dark:border-blue-500/20"
+                                                : "hover:bg-zinc-100 dark:hover:bg-zinc-800/50 border-transparent",
+                                            hint === 'above' && "border-t-blue-500",
+                                            hint === 'below' && "border-b-blue-500",
+                                            hint === 'inside' && "border-blue-500"
                                         )}
+                                    >
+                                        <GripVertical className={cn("h-3.5 w-3.5 text-zinc-300 opacity-0 transition-opacity group-hover:opacity-100 dark:text-zinc-600", locked ? "cursor-not-allowed" : "cursor-move")} />
 
-                                        <span className={cn(
-                                            "truncate text-xs font-medium",
-                                            !layer.visible && "text-zinc-400 line-through decoration-zinc-300"
-                                        )}>
-                                            {layer.name}
-                                        </span>
-                                        <span className="shrink-0 rounded px-1.5 py-0.5 text-[9px] uppercase tracking-wide bg-zinc-100 dark:bg-zinc-800 text-zinc-500">
-                                            {layer.type}
-                                        </span>
-                                    </div>
-
-                                    <div className="flex items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
-                                        {layer.mask && (
+                                        {isGroup && (
                                             <button
                                                 onClick={(e) => {
                                                     e.stopPropagation();
-                                                    if (layer.locked) return;
-                                                    toggleLayerMask(layer.id);
+                                                    setGroupCollapsed(layer.id, !layer.collapsed);
                                                 }}
-                                                disabled={layer.locked}
-                                                title={layer.mask.visible ? "Disable Mask" : "Enable Mask"}
-                                                className={cn(
-                                                    "rounded p-1 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-40 disabled:cursor-not-allowed",
-                                                    !layer.mask.visible && "text-red-500"
-                                                )}
+                                                title={layer.collapsed ? "Expand Group" : "Collapse Group"}
+                                                className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 transition-colors"
                                             >
-                                                <MousePointer2 className="h-3 w-3" />
+                                                {layer.collapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
                                             </button>
                                         )}
 
                                         <button
                                             onClick={(e) => {
                                                 e.stopPropagation();
-                                                updateLayer(layer.id, { locked: !layer.locked });
+                                                updateLayer(layer.id, { visible: !layer.visible });
                                             }}
-                                            className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 p-1"
+                                            className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 transition-colors"
                                         >
-                                            {layer.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                                            {layer.visible ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5 text-zinc-300" />}
                                         </button>
 
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                if (layer.locked) return;
-                                                removeLayer(layer.id);
-                                            }}
-                                            disabled={layer.locked}
-                                            className="text-zinc-400 hover:text-red-500 p-1 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-zinc-400"
-                                        >
-                                            <Trash2 className="h-3 w-3" />
-                                        </button>
-                                    </div>
-                                </div>
-                                {activeLayerId === layer.id && (
-                                    <div className="px-2 pb-1">
-                                        <div className="space-y-2 rounded-md bg-zinc-100/80 dark:bg-zinc-800/60 px-2 py-1.5">
-                                            <div className="flex items-center gap-2">
-                                                <span className="text-[10px] uppercase tracking-wide text-zinc-500">Opacity</span>
-                                                <input
-                                                    type="range"
-                                                    min={0}
-                                                    max={1}
-                                                    step={0.01}
-                                                    value={layer.opacity}
-                                                    onChange={(e) => updateLayer(layer.id, { opacity: Number(e.target.value) })}
-                                                    disabled={layer.locked}
-                                                    className="flex-1 h-1.5 cursor-pointer appearance-none rounded-full bg-zinc-200 accent-blue-500 dark:bg-zinc-700 disabled:cursor-not-allowed disabled:opacity-50"
-                                                />
-                                                <span className="text-[10px] font-mono text-zinc-500 w-8 text-right">{Math.round(layer.opacity * 100)}</span>
-                                            </div>
-                                            <div className="flex items-center gap-2">
-                                                <span className="text-[10px] uppercase tracking-wide text-zinc-500">Fill</span>
-                                                <input
-                                                    type="range"
-                                                    min={0}
-                                                    max={1}
-                                                    step={0.01}
-                                                    value={layer.fillOpacity ?? 1}
-                                                    onChange={(e) => updateLayer(layer.id, { fillOpacity: Number(e.target.value) })}
-                                                    disabled={layer.locked}
-                                                    className="flex-1 h-1.5 cursor-pointer appearance-none rounded-full bg-zinc-200 accent-blue-500 dark:bg-zinc-700 disabled:cursor-not-allowed disabled:opacity-50"
-                                                />
-                                                <span className="text-[10px] font-mono text-zinc-500 w-8 text-right">{Math.round((layer.fillOpacity ?? 1) * 100)}</span>
+                                        <div className="flex flex-1 items-center gap-2 overflow-hidden min-w-0">
+                                            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-white shadow-sm border border-zinc-200 dark:bg-zinc-800 dark:border-zinc-700/50 overflow-hidden">
+                                                {isGroup ? (
+                                                    layer.collapsed ? <Folder className="h-3.5 w-3.5 text-zinc-500" /> : <FolderOpen className="h-3.5 w-3.5 text-zinc-500" />
+                                                ) : layer.type === 'adjustment' && !layer.thumbnail ? (
+                                                    <SlidersHorizontal className="h-3.5 w-3.5 text-zinc-500" />
+                                                ) : layer.thumbnail ? (
+                                                    <img src={layer.thumbnail} alt={layer.name} className="w-full h-full object-cover" />
+                                                ) : (
+                                                    <ImageIcon className="h-3 w-3 text-zinc-400" />
+                                                )}
                                             </div>
-                                            <label className="flex items-center justify-between text-[10px] text-zinc-500">
-                                                <span>Clipping Mask</span>
-                                                <input
-                                                    type="checkbox"
-                                                    checked={Boolean(layer.clippingMask)}
-                                                    disabled={layer.locked}
-                                                    onChange={(e) => updateLayer(layer.id, { clippingMask: e.target.checked })}
-                                                />
-                                            </label>
+
+                                            {layer.mask && (
+                                                <div className="flex h-6 w-6 shrink-0 items-center justify-center rounded-md border border-zinc-200 bg-black dark:border-zinc-700/50 overflow-hidden relative">
+                                                    <div className="absolute inset-0 bg-white rounded-sm m-0.5" />
+                                                </div>
+                                            )}
+
+                                            <span className={cn(
+                                                "truncate text-xs font-medium",
+                                                !layer.visible && "text-zinc-400 line-through decoration-zinc-300"
+                                            )}>
+                                                {layer.name}
+                                            </span>
+                                            <span className="shrink-0 rounded px-1.5 py-0.5 text-[9px] uppercase tracking-wide bg-zinc-100 dark:bg-zinc-800 text-zinc-500">
+                                                {layer.type}
+                                            </span>
+                                            {heldBy && (
+                                                <span
+                                                    title={`${heldBy.name} is editing this layer`}
+                                                    style={{ backgroundColor: heldBy.color }}
+                                                    className="flex shrink-0 items-center gap-1 max-w-[6rem] rounded px-1.5 py-0.5 text-[9px] font-medium text-white"
+                                                >
+                                                    <Lock className="h-2.5 w-2.5 shrink-0" />
+                                                    <span className="truncate">{heldBy.name}</span>
+                                                </span>
+                                            )}
+                                        </div>
+
+                                        <div className="flex items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+                                            {layer.mask && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        if (locked) return;
+                                                        toggleLayerMask(layer.id);
+                                                    }}
+                                                    disabled={locked}
+                                                    title={layer.mask.visible ? "Disable Mask" : "Enable Mask"}
+                                                    className={cn(
+                                                        "rounded p-1 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-40 disabled:cursor-not-allowed",
+                                                        !layer.mask.visible && "text-red-500"
+                                                    )}
+                                                >
+                                                    <MousePointer2 className="h-3 w-3" />
+                                                </button>
+                                            )}
+
+                                            {isGroup && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        if (locked) return;
+                                                        ungroupLayer(layer.id);
+                                                    }}
+                                                    disabled={locked}
+                                                    title="Ungroup"
+                                                    className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 p-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                                                >
+                                                    <Folder className="h-3 w-3" />
+                                                </button>
+                                            )}
+
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    updateLayer(layer.id, { locked: !layer.locked });
+                                                }}
+                                                className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 p-1"
+                                            >
+                                                {layer.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                                            </button>
+
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    if (locked) return;
+                                                    removeLayer(layer.id);
+                                                }}
+                                                disabled={locked}
+                                                className="text-zinc-400 hover:text-red-500 p-1 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-zinc-400"
+                                            >
+                                                <Trash2 className="h-3 w-3" />
+                                            </button>
                                         </div>
                                     </div>
-                                )}
-                            </div>
-                        ))}
+                                    {activeLayerId === layer.id && (
+                                        <div className="px-2 pb-1">
+                                            <div className="space-y-2 rounded-md bg-zinc-100/80 dark:bg-zinc-800/60 px-2 py-1.5">
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-[10px] uppercase tracking-wide text-zinc-500">Opacity</span>
+                                                    <input
+                                                        type="range"
+                                                        min={0}
+                                                        max={1}
+                                                        step={0.01}
+                                                        value={layer.opacity}
+                                                        onChange={(e) => updateLayer(layer.id, { opacity: Number(e.target.value) })}
+                                                        disabled={locked}
+                                                        className="flex-1 h-1.5 cursor-pointer appearance-none rounded-full bg-zinc-200 accent-blue-500 dark:bg-zinc-700 disabled:cursor-not-allowed disabled:opacity-50"
+                                                    />
+                                                    <span className="text-[10px] font-mono text-zinc-500 w-8 text-right">{Math.round(layer.opacity * 100)}</span>
+                                                </div>
+                                                {isGroup ? (
+                                                    <label className="flex items-center justify-between gap-2 text-[10px] text-zinc-500">
+                                                        <span className="uppercase tracking-wide">Mode</span>
+                                                        <select
+                                                            value={layer.groupMode ?? DEFAULT_GROUP_MODE}
+                                                            disabled={locked}
+                                                            onChange={(e) => updateLayer(layer.id, { groupMode: e.target.value as GroupMode })}
+                                                            title="Pass Through blends children straight into the layers below; Isolated composites them first, then applies the group blend mode"
+                                                            className="rounded bg-white px-1 py-0.5 text-[10px] dark:bg-zinc-900 disabled:opacity-50"
+                                                        >
+                                                            <option value="pass-through">Pass Through</option>
+                                                            <option value="isolated">Isolated</option>
+                                                        </select>
+                                                    </label>
+                                                ) : (
+                                                    <>
+                                                        <div className="flex items-center gap-2">
+                                                            <span className="text-[10px] uppercase tracking-wide text-zinc-500">Fill</span>
+                                                            <input
+                                                                type="range"
+                                                                min={0}
+                                                                max={1}
+                                                                step={0.01}
+                                                                value={layer.fillOpacity ?? 1}
+                                                                onChange={(e) => updateLayer(layer.id, { fillOpacity: Number(e.target.value) })}
+                                                                disabled={locked}
+                                                                className="flex-1 h-1.5 cursor-pointer appearance-none rounded-full bg-zinc-200 accent-blue-500 dark:bg-zinc-700 disabled:cursor-not-allowed disabled:opacity-50"
+                                                            />
+                                                            <span className="text-[10px] font-mono text-zinc-500 w-8 text-right">{Math.round((layer.fillOpacity ?? 1) * 100)}</span>
+                                                        </div>
+                                                        <label className="flex items-center justify-between text-[10px] text-zinc-500">
+                                                            <span>Clipping Mask</span>
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={Boolean(layer.clippingMask)}
+                                                                disabled={locked}
+                                                                onChange={(e) => updateLayer(layer.id, { clippingMask: e.target.checked })}
+                                                            />
+                                                        </label>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
                     </div>
                 )}
             </div>
@@ -227,6 +333,7 @@ export default function LayerPanel({ onCreateMask, onInvertMask, onFeatherMask,
                     {(() => {
                         const activeLayer = layers.find(l => l.id === activeLayerId);
                         if (!activeLayer) return null;
+                        const locked = activeLayer.locked || Boolean(layerLocks[activeLayer.id]);
 
                         return (
                             <div className="space-y-4">
@@ -248,10 +355,10 @@ export default function LayerPanel({ onCreateMask, onInvertMask, onFeatherMask,
                                                 </button>
                                                 <button
                                                     onClick={() => {
-                                                        if (activeLayer.locked) return;
+                                                        if (locked) return;
                                                         setLayerMask(activeLayer.id, null);
                                                     }}
-                                                    disabled={activeLayer.locked}
+                                                    disabled={locked}
                                                     className="text-[10px] uppercase font-medium tracking-wide text-zinc-400 hover:text-red-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                                                 >
                                                     Delete
@@ -262,7 +369,7 @@ export default function LayerPanel({ onCreateMask, onInvertMask, onFeatherMask,
                                         <div className="flex gap-2">
                                             <button
                                                 onClick={onInvertMask}
-                                                disabled={activeLayer.locked}
+                                                disabled={locked}
                                                 className="flex-1 rounded-md bg-zinc-100 py-1.5 text-xs font-medium text-zinc-600 transition-colors hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 disabled:opacity-40 disabled:cursor-not-allowed"
                                             >
                                                 Invert
@@ -272,7 +379,7 @@ export default function LayerPanel({ onCreateMask, onInvertMask, onFeatherMask,
                                                 <input
                                                     type="number"
                                                     defaultValue={0}
-                                                    disabled={activeLayer.locked}
+                                                    disabled={locked}
                                                     onKeyDown={(e) => {
                                                         if (e.key === 'Enter') {
                                                             onFeatherMask?.(parseInt(e.currentTarget.value) || 0);
@@ -2,44 +2,9 @@
 
 import { Archive, Brush, Palette, Type, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { LibraryAsset } from "@/lib/project";
 
-export type LibraryAsset =
-  | { id: string; name: string; type: "color"; color: string }
-  | { id: string; name: string; type: "gradient"; a: string; b: string }
-  | {
-      id: string;
-      name: string;
-      type: "textStyle";
-      fontSize: number;
-      fontFamily: "sans" | "serif" | "mono";
-      fontWeight: 300 | 400 | 500 | 600 | 700;
-      italic: boolean;
-      underline: boolean;
-      lineHeight: number;
-      tracking: number;
-      paragraphSpacing: number;
-      paragraphIndent: number;
-      textAlign: "left" | "center" | "right";
-      textDirection: "horizontal" | "vertical";
-      liga: boolean;
-      discretionaryLiga: boolean;
-      kerning: boolean;
-      oldStyleFigures: boolean;
-      smallCaps: boolean;
-    }
-  | {
-      id: string;
-      name: string;
-      type: "brushPreset";
-      size: number;
-      hardness: number;
-      spacing: number;
-      shape: "round" | "square" | "chalk";
-      flow: number;
-      jitter: number;
-      texture: number;
-      textureScale: number;
-    };
+export type { LibraryAsset };
 
 interface LibrariesPanelProps {
   className?: string;
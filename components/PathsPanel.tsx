@@ -2,28 +2,12 @@
 
 import { Link2, PenTool, Plus, Shapes, Type, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { ProjectPath } from "@/lib/project";
 
 export type PathMode = "add" | "subtract" | "intersect";
 
-export interface PathNode {
-  x: number;
-  y: number;
-  inX: number;
-  inY: number;
-  outX: number;
-  outY: number;
-  corner: boolean;
-}
-
-export interface PathItem {
-  id: string;
-  name: string;
-  visible: boolean;
-  kind: "work" | "selection" | "shape" | "pen" | "curvature";
-  bounds?: { x: number; y: number; width: number; height: number };
-  closed?: boolean;
-  nodes?: PathNode[];
-}
+// Saved with the project; see `lib/project`.
+export type PathItem = ProjectPath;
 
 interface PathsPanelProps {
   className?: string;
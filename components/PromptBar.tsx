@@ -7,6 +7,12 @@ import { cn } from "@/lib/utils";
 import { SelectionData } from "./Canvas";
 import { useLayerStore } from "@/lib/store";
 
+export interface GenerationStatus {
+    label: string;
+    progress?: number;
+    preview?: string;
+}
+
 interface PromptBarProps {
     selection: SelectionData | null;
     open: boolean;
@@ -14,13 +20,17 @@ interface PromptBarProps {
     onStyleTransfer?: () => void;
     onCancel: () => void;
     isGenerating: boolean;
+    generationStatus?: GenerationStatus | null;
+    onCancelGeneration?: () => void;
     position?: { x: number, y: number };
     providerName: string;
     onProviderChange: (name: string) => void;
+    variantCount?: number;
+    onVariantCountChange?: (count: number) => void;
 }
 
 export default function PromptBar(props: PromptBarProps) {
-    const { selection, open, onGenerate, onStyleTransfer, onCancel, isGenerating, providerName, onProviderChange } = props;
+    const { selection, open, onGenerate, onStyleTransfer, onCancel, isGenerating, generationStatus, onCancelGeneration, providerName, onProviderChange, variantCount = 1, onVariantCountChange } = props;
     const { aiPromptDraft, setAiPromptDraft } = useLayerStore();
     const [prompt, setPrompt] = useState("");
     const inputRef = useRef<HTMLInputElement>(null);
@@ -115,7 +125,21 @@ export default function PromptBar(props: PromptBarProps) {
                         <option value="gemini">Gemini</option>
                         <option value="flux">Flux</option>
                         <option value="stable-diffusion">Stable Diffusion</option>
+                        <option value="mock">Mock (offline)</option>
                     </select>
+                    {onVariantCountChange && (
+                        <select
+                            value={variantCount}
+                            onChange={(e) => onVariantCountChange(Number(e.target.value))}
+                            disabled={isGenerating}
+                            title="Number of variants"
+                            className="text-[10px] font-medium rounded-lg bg-zinc-100/80 dark:bg-zinc-800/70 text-zinc-600 dark:text-zinc-300 px-2 py-1 outline-none border border-zinc-200/60 dark:border-zinc-700/60 hover:bg-zinc-100 dark:hover:bg-zinc-700 cursor-pointer"
+                        >
+                            {[1, 2, 3, 4, 6, 8].map((count) => (
+                                <option key={count} value={count}>{count}×</option>
+                            ))}
+                        </select>
+                    )}
                     <div className="w-px h-5 bg-zinc-200 dark:bg-zinc-700 mx-1" />
                     <button
                         onClick={() => prompt.trim() && onGenerate(prompt.trim())}
@@ -134,6 +158,36 @@ export default function PromptBar(props: PromptBarProps) {
                     </button>
                 </div>
             </div>
+            {isGenerating && (
+                <div className="mt-2 flex items-center gap-2 rounded-xl bg-white/80 dark:bg-zinc-900/80 px-3 py-2 ring-1 ring-black/5 dark:ring-white/10 backdrop-blur-xl">
+                    {generationStatus?.preview && (
+                        <img src={generationStatus.preview} alt="Generation preview" className="h-8 w-8 rounded-md object-cover ring-1 ring-black/10" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                        <div className="truncate text-[11px] font-medium text-zinc-600 dark:text-zinc-300">
+                            {generationStatus?.label ?? 'Generating'}
+                            {generationStatus?.progress !== undefined && ` · ${Math.round(generationStatus.progress * 100)}%`}
+                        </div>
+                        {generationStatus?.progress !== undefined && (
+                            <div className="mt-1 h-1 w-full overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-700">
+                                <div
+                                    className="h-full bg-blue-600 transition-all"
+                                    style={{ width: `${Math.round(Math.max(0, Math.min(1, generationStatus.progress)) * 100)}%` }}
+                                />
+                            </div>
+                        )}
+                    </div>
+                    {onCancelGeneration && (
+                        <button
+                            type="button"
+                            onClick={onCancelGeneration}
+                            className="rounded-lg px-2 py-1 text-[10px] font-semibold text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-500/10 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                </div>
+            )}
             <div className="mt-2 flex flex-wrap items-center gap-1.5 px-2">
                 <button
                     type="button"
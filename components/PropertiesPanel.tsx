@@ -67,9 +67,11 @@ interface PropertiesPanelProps {
     onCreateMask?: () => void;
     onInvertMask?: () => void;
     onFeatherMask?: (amount: number) => void;
+    onSelectAIVariant?: (index: number) => void;
+    onCommitAIVariant?: () => void;
 }
 
-export default function PropertiesPanel({ className, style, onCreateMask, onInvertMask, onFeatherMask }: PropertiesPanelProps) {
+export default function PropertiesPanel({ className, style, onCreateMask, onInvertMask, onFeatherMask, onSelectAIVariant, onCommitAIVariant }: PropertiesPanelProps) {
     const {
         layers,
         activeLayerId,
@@ -368,6 +370,60 @@ export default function PropertiesPanel({ className, style, onCreateMask, onInve
                                     <span>Seed: <span className="font-mono">{activeLayer.aiData.seed}</span></span>
                                 )}
                             </div>
+                            {activeLayer.aiData.variants && activeLayer.aiData.variants.length > 1 && (() => {
+                                const variants = activeLayer.aiData.variants;
+                                const current = activeLayer.aiData.activeVariant ?? 0;
+                                return (
+                                    <div className="space-y-1.5 pt-1">
+                                        <div className="flex items-center justify-between text-[10px] text-zinc-500 dark:text-zinc-400">
+                                            <button
+                                                type="button"
+                                                disabled={isLocked}
+                                                onClick={() => onSelectAIVariant?.((current - 1 + variants.length) % variants.length)}
+                                                className="px-2 py-0.5 rounded-md hover:bg-zinc-200 dark:hover:bg-zinc-800 disabled:opacity-50"
+                                            >
+                                                ‹
+                                            </button>
+                                            <span>Variant {current + 1} of {variants.length}</span>
+                                            <button
+                                                type="button"
+                                                disabled={isLocked}
+                                                onClick={() => onSelectAIVariant?.((current + 1) % variants.length)}
+                                                className="px-2 py-0.5 rounded-md hover:bg-zinc-200 dark:hover:bg-zinc-800 disabled:opacity-50"
+                                            >
+                                                ›
+                                            </button>
+                                        </div>
+                                        <div className="grid grid-cols-4 gap-1">
+                                            {variants.map((variant, index) => (
+                                                <button
+                                                    key={`${index}-${variant.seed ?? 'none'}`}
+                                                    type="button"
+                                                    disabled={isLocked}
+                                                    onClick={() => onSelectAIVariant?.(index)}
+                                                    title={typeof variant.seed === 'number' ? `Seed ${variant.seed}` : `Variant ${index + 1}`}
+                                                    className={cn(
+                                                        "aspect-square overflow-hidden rounded-md ring-1 ring-zinc-200 dark:ring-zinc-700 disabled:opacity-50",
+                                                        index === current && "ring-2 ring-blue-500 dark:ring-blue-400"
+                                                    )}
+                                                >
+                                                    <img src={variant.image} alt={`Variant ${index + 1}`} className="h-full w-full object-cover" />
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <div className="flex justify-end">
+                                            <button
+                                                type="button"
+                                                disabled={isLocked}
+                                                onClick={() => onCommitAIVariant?.()}
+                                                className="text-[10px] font-medium px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-50"
+                                            >
+                                                Keep this variant
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })()}
                             {activeLayer.aiData.context && (
                                 <div className="flex flex-wrap gap-1 pt-1">
                                     {activeLayer.aiData.context.style && (
@@ -447,7 +503,7 @@ export default function PropertiesPanel({ className, style, onCreateMask, onInve
                     </h4>
                     {isAdjustmentLayer && (
                         <div className="rounded-lg border border-emerald-200/70 bg-emerald-50/70 px-3 py-2 text-[10px] text-emerald-800 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-200">
-                            Editing adjustment layer settings. Filters here are applied non-destructively.
+                            Editing adjustment layer settings. Filters here grade every visible layer below it (or only its clipping layer), non-destructively.
                         </div>
                     )}
 
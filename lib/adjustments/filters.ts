@@ -0,0 +1,418 @@
+/**
+ * A layer's `filters` map as a list of filter steps, and those steps applied to RGBA pixels.
+ * The steps are the Fabric filters the canvas runs (`buildLayerFilters` instantiates them); the
+ * pixel math here is a port of those filters' 2D code, so renders outside the browser (the render
+ * API and the CLI) grade the same way. No Fabric or DOM imports: this module also runs in Node.
+ */
+
+export type LayerFilterStep =
+    | { type: 'Brightness'; brightness: number }
+    | { type: 'Contrast'; contrast: number }
+    | { type: 'Saturation'; saturation: number }
+    | { type: 'Vibrance'; vibrance: number }
+    | { type: 'HueRotation'; rotation: number }
+    | { type: 'Gamma'; gamma: [number, number, number] }
+    | { type: 'Blur'; blur: number }
+    | { type: 'Noise'; noise: number }
+    | { type: 'Pixelate'; blocksize: number }
+    | { type: 'Sepia' }
+    | { type: 'Grayscale' }
+    | { type: 'Invert' }
+    | { type: 'ColorMatrix'; matrix: number[] };
+
+/** Straight (not premultiplied) RGBA, laid out like `ImageData`. */
+export interface RgbaPixels {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/** The filter steps for a layer's `filters` values, in the order they apply. */
+export const layerFilterSteps = (filters: Record<string, number>): LayerFilterStep[] => {
+    const steps: LayerFilterStep[] = [];
+
+    if (filters.brightness !== undefined && filters.brightness !== 0) {
+        steps.push({ type: 'Brightness', brightness: filters.brightness });
+    }
+    if (filters.contrast !== undefined && filters.contrast !== 0) {
+        steps.push({ type: 'Contrast', contrast: filters.contrast });
+    }
+    if (filters.saturation !== undefined && filters.saturation !== 0) {
+        steps.push({ type: 'Saturation', saturation: filters.saturation });
+    }
+    if (filters.hue !== undefined && filters.hue !== 0) {
+        steps.push({ type: 'HueRotation', rotation: filters.hue });
+    }
+    if (filters.curves !== undefined && filters.curves !== 0) {
+        const gamma = Math.max(0.3, Math.min(2.5, 1 - filters.curves * 0.8));
+        steps.push({ type: 'Gamma', gamma: [gamma, gamma, gamma] });
+    }
+    if (filters.levels !== undefined && filters.levels !== 0) {
+        steps.push({ type: 'Contrast', contrast: Math.max(-1, Math.min(1, filters.levels)) });
+    }
+    if (filters.exposure !== undefined && filters.exposure !== 0) {
+        steps.push({ type: 'Brightness', brightness: Math.max(-1, Math.min(1, filters.exposure * 0.65)) });
+    }
+    if (filters.vibrance !== undefined && filters.vibrance !== 0) {
+        steps.push({ type: 'Vibrance', vibrance: filters.vibrance });
+    }
+    if (filters.blur !== undefined && filters.blur > 0) {
+        steps.push({ type: 'Blur', blur: filters.blur });
+    }
+    if (filters.noise !== undefined && filters.noise > 0) {
+        steps.push({ type: 'Noise', noise: filters.noise });
+    }
+    if (filters.pixelate !== undefined && filters.pixelate > 1) {
+        steps.push({ type: 'Pixelate', blocksize: filters.pixelate });
+    }
+    if (filters.sepia !== undefined && filters.sepia !== 0) {
+        // Fabric Sepia is boolean usually, but let's check if there's a sliding one?
+        // Standard fabric.Image.filters.Sepia is boolean. 
+        // But we can custom class or just toggle. Let's treat > 0.5 as on for now.
+        // Actually Fabric v6 has new filters. Let's stick to simple boolean-like behavior 
+        // or just instantiate it if value > 0.
+        if (filters.sepia > 0.1) steps.push({ type: 'Sepia' });
+    }
+    if (filters.grayscale !== undefined && filters.grayscale !== 0) {
+        if (filters.grayscale > 0.1) steps.push({ type: 'Grayscale' });
+    }
+    if (filters.invert !== undefined && filters.invert !== 0) {
+        if (filters.invert > 0.1) steps.push({ type: 'Invert' });
+    }
+    if (
+        filters.redBalance !== undefined ||
+        filters.greenBalance !== undefined ||
+        filters.blueBalance !== undefined
+    ) {
+        const r = filters.redBalance ?? 0;
+        const g = filters.greenBalance ?? 0;
+        const b = filters.blueBalance ?? 0;
+        if (r !== 0 || g !== 0 || b !== 0) {
+            const rm = 1 + r * 0.8;
+            const gm = 1 + g * 0.8;
+            const bm = 1 + b * 0.8;
+            steps.push({
+                type: 'ColorMatrix',
+                matrix: [
+                    rm, 0, 0, 0, 0,
+                    0, gm, 0, 0, 0,
+                    0, 0, bm, 0, 0,
+                    0, 0, 0, 1, 0
+                ]
+            });
+        }
+    }
+    const redEnabled = filters.channelRedEnabled === undefined ? 1 : (filters.channelRedEnabled > 0 ? 1 : 0);
+    const greenEnabled = filters.channelGreenEnabled === undefined ? 1 : (filters.channelGreenEnabled > 0 ? 1 : 0);
+    const blueEnabled = filters.channelBlueEnabled === undefined ? 1 : (filters.channelBlueEnabled > 0 ? 1 : 0);
+    if (redEnabled !== 1 || greenEnabled !== 1 || blueEnabled !== 1) {
+        steps.push({
+            type: 'ColorMatrix',
+            matrix: [
+                redEnabled, 0, 0, 0, 0,
+                0, greenEnabled, 0, 0, 0,
+                0, 0, blueEnabled, 0, 0,
+                0, 0, 0, 1, 0
+            ]
+        });
+    }
+    const cmykPreview = Math.round(filters.cmykPreview ?? 0);
+    if (cmykPreview > 0) {
+        let row: [number, number, number, number, number] = [-1, 0, 0, 0, 1];
+        if (cmykPreview === 2) row = [0, -1, 0, 0, 1];
+        if (cmykPreview === 3) row = [0, 0, -1, 0, 1];
+        if (cmykPreview === 4) row = [-0.333, -0.333, -0.333, 0, 1];
+        steps.push({
+            type: 'ColorMatrix',
+            matrix: [
+                row[0], row[1], row[2], row[3], row[4],
+                row[0], row[1], row[2], row[3], row[4],
+                row[0], row[1], row[2], row[3], row[4],
+                0, 0, 0, 1, 0
+            ]
+        });
+    }
+    if (filters.shadows !== undefined && filters.shadows !== 0) {
+        const s = Math.max(-1, Math.min(1, filters.shadows));
+        const lift = s * 0.12;
+        steps.push({
+            type: 'ColorMatrix',
+            matrix: [
+                1, 0, 0, 0, lift,
+                0, 1, 0, 0, lift,
+                0, 0, 1, 0, lift,
+                0, 0, 0, 1, 0
+            ]
+        });
+    }
+    if (filters.highlights !== undefined && filters.highlights !== 0) {
+        const h = Math.max(-1, Math.min(1, filters.highlights));
+        const contrast = -h * 0.35;
+        steps.push({ type: 'Contrast', contrast });
+    }
+    if (filters.selectiveColor !== undefined && filters.selectiveColor !== 0) {
+        const s = Math.max(-1, Math.min(1, filters.selectiveColor));
+        steps.push({
+            type: 'ColorMatrix',
+            matrix: [
+                1 + s * 0.1, 0, 0, 0, 0,
+                0, 1 - s * 0.05, 0, 0, 0,
+                0, 0, 1 + s * 0.1, 0, 0,
+                0, 0, 0, 1, 0
+            ]
+        });
+    }
+    if (filters.gradientMap !== undefined && filters.gradientMap !== 0) {
+        const g = Math.max(-1, Math.min(1, filters.gradientMap));
+        steps.push({
+            type: 'ColorMatrix',
+            matrix: [
+                0.9, 0.2 * g, 0.1, 0, 0,
+                0.2, 0.9, 0.1 * g, 0, 0,
+                0.1 * g, 0.2, 0.9, 0, 0,
+                0, 0, 0, 1, 0
+            ]
+        });
+    }
+    if (filters.photoFilter !== undefined && filters.photoFilter !== 0) {
+        const p = Math.max(-1, Math.min(1, filters.photoFilter));
+        steps.push({
+            type: 'ColorMatrix',
+            matrix: [
+                1 + p * 0.12, 0, 0, 0, 0,
+                0, 1, 0, 0, 0,
+                0, 0, 1 - p * 0.12, 0, 0,
+                0, 0, 0, 1, 0
+            ]
+        });
+    }
+    if (filters.channelMixer !== undefined && filters.channelMixer !== 0) {
+        const m = Math.max(-1, Math.min(1, filters.channelMixer));
+        steps.push({
+            type: 'ColorMatrix',
+            matrix: [
+                1, m * 0.15, m * 0.05, 0, 0,
+                m * 0.05, 1, m * 0.15, 0, 0,
+                m * 0.15, m * 0.05, 1, 0, 0,
+                0, 0, 0, 1, 0
+            ]
+        });
+    }
+    if (filters.lutPreset !== undefined && filters.lutPreset !== 0) {
+        const lut = Math.round(filters.lutPreset);
+        if (lut === 1) {
+            steps.push({
+                type: 'ColorMatrix',
+                matrix: [
+                    1.05, 0, 0, 0, 0.02,
+                    0, 1.03, 0, 0, 0.01,
+                    0, 0, 0.95, 0, -0.01,
+                    0, 0, 0, 1, 0
+                ]
+            });
+        } else if (lut === 2) {
+            steps.push({
+                type: 'ColorMatrix',
+                matrix: [
+                    0.95, 0.05, 0, 0, 0,
+                    0, 0.96, 0.04, 0, 0,
+                    0.04, 0, 0.96, 0, 0,
+                    0, 0, 0, 1, 0
+                ]
+            });
+        } else if (lut === 3) {
+            steps.push({
+                type: 'ColorMatrix',
+                matrix: [
+                    1.08, 0, 0, 0, 0,
+                    0, 0.95, 0, 0, 0,
+                    0, 0, 0.9, 0, 0,
+                    0, 0, 0, 1, 0
+                ]
+            });
+        }
+    }
+
+    return steps;
+};
+
+const SEPIA_MATRIX = [0.393, 0.769, 0.189, 0, 0, 0.349, 0.686, 0.168, 0, 0, 0.272, 0.534, 0.131, 0, 0, 0, 0, 0, 1, 0];
+
+const hueRotationMatrix = (rotation: number) => {
+    const rad = rotation * Math.PI;
+    const cosine = Math.cos(rad);
+    const sine = Math.sin(rad);
+    const third = 1 / 3;
+    const thirdSqrtSin = Math.sqrt(third) * sine;
+    const oneMinusCos = 1 - cosine;
+    return [
+        cosine + oneMinusCos / 3, third * oneMinusCos - thirdSqrtSin, third * oneMinusCos + thirdSqrtSin, 0, 0,
+        third * oneMinusCos + thirdSqrtSin, cosine + third * oneMinusCos, third * oneMinusCos - thirdSqrtSin, 0, 0,
+        third * oneMinusCos - thirdSqrtSin, third * oneMinusCos + thirdSqrtSin, cosine + third * oneMinusCos, 0, 0,
+        0, 0, 0, 1, 0,
+    ];
+};
+
+const applyColorMatrix = (data: Uint8ClampedArray, m: number[], colorsOnly: boolean) => {
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        data[i] = r * m[0] + g * m[1] + b * m[2] + m[4] * 255;
+        data[i + 1] = r * m[5] + g * m[6] + b * m[7] + m[9] * 255;
+        data[i + 2] = r * m[10] + g * m[11] + b * m[12] + m[14] * 255;
+        if (!colorsOnly) {
+            const a = data[i + 3];
+            data[i] += a * m[3];
+            data[i + 1] += a * m[8];
+            data[i + 2] += a * m[13];
+            data[i + 3] = r * m[15] + g * m[16] + b * m[17] + a * m[18] + m[19] * 255;
+        }
+    }
+};
+
+// One pass of Fabric's 2D blur: 29 weighted samples along a row (`step` 4) or a column (`step`
+// one row), clamped at the edges.
+const BLUR_SAMPLES = 15;
+
+const blurPass = (source: Uint8ClampedArray, target: Uint8ClampedArray, width: number, distance: number, horizontal: boolean) => {
+    const bytesInRow = 4 * width;
+    const step = horizontal ? 4 : bytesInRow;
+    for (let i = 0; i < source.length; i += 4) {
+        const min = horizontal ? i - (i % bytesInRow) : i % bytesInRow;
+        const max = horizontal ? min + bytesInRow : source.length - bytesInRow + min;
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        let a = 0;
+        let totalWeight = 0;
+        for (let j = -BLUR_SAMPLES + 1; j < BLUR_SAMPLES; j++) {
+            const percent = j / BLUR_SAMPLES;
+            const weight = 1 - Math.abs(percent);
+            const sampled = Math.min(max, Math.max(min, i + Math.floor(distance * percent) * step));
+            const alpha = source[sampled + 3] * weight;
+            r += source[sampled] * alpha;
+            g += source[sampled + 1] * alpha;
+            b += source[sampled + 2] * alpha;
+            a += alpha;
+            totalWeight += weight;
+        }
+        target[i] = r / a;
+        target[i + 1] = g / a;
+        target[i + 2] = b / a;
+        target[i + 3] = a / totalWeight;
+    }
+};
+
+const applyBlur = ({ data, width, height }: RgbaPixels, blur: number) => {
+    const aspectRatio = width / height;
+    const horizontalScale = aspectRatio > 1 ? 1 / aspectRatio : 1;
+    const verticalScale = aspectRatio < 1 ? aspectRatio : 1;
+    const pass = new Uint8ClampedArray(data);
+    blurPass(data, pass, width, horizontalScale * blur * 0.12 * width, true);
+    blurPass(pass, data, width, verticalScale * blur * 0.12 * height, false);
+};
+
+const applyStep = (pixels: RgbaPixels, step: LayerFilterStep) => {
+    const { data, width, height } = pixels;
+    switch (step.type) {
+        case 'Brightness': {
+            const brightness = Math.round(step.brightness * 255);
+            for (let i = 0; i < data.length; i += 4) {
+                data[i] += brightness;
+                data[i + 1] += brightness;
+                data[i + 2] += brightness;
+            }
+            return;
+        }
+        case 'Contrast': {
+            const contrast = Math.floor(step.contrast * 255);
+            const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+            for (let i = 0; i < data.length; i += 4) {
+                data[i] = factor * (data[i] - 128) + 128;
+                data[i + 1] = factor * (data[i + 1] - 128) + 128;
+                data[i + 2] = factor * (data[i + 2] - 128) + 128;
+            }
+            return;
+        }
+        case 'Saturation':
+        case 'Vibrance': {
+            const adjust = -(step.type === 'Saturation' ? step.saturation : step.vibrance);
+            for (let i = 0; i < data.length; i += 4) {
+                const r = data[i];
+                const g = data[i + 1];
+                const b = data[i + 2];
+                const max = Math.max(r, g, b);
+                const amount = step.type === 'Saturation' ? adjust : ((Math.abs(max - (r + g + b) / 3) * 2) / 255) * adjust;
+                data[i] += max !== r ? (max - r) * amount : 0;
+                data[i + 1] += max !== g ? (max - g) * amount : 0;
+                data[i + 2] += max !== b ? (max - b) * amount : 0;
+            }
+            return;
+        }
+        case 'HueRotation':
+            applyColorMatrix(data, hueRotationMatrix(step.rotation), true);
+            return;
+        case 'Gamma': {
+            const tables = step.gamma.map((gamma) => Uint8Array.from({ length: 256 }, (_, value) => Math.pow(value / 255, 1 / gamma) * 255));
+            for (let i = 0; i < data.length; i += 4) {
+                data[i] = tables[0][data[i]];
+                data[i + 1] = tables[1][data[i + 1]];
+                data[i + 2] = tables[2][data[i + 2]];
+            }
+            return;
+        }
+        case 'Blur':
+            applyBlur(pixels, step.blur);
+            return;
+        case 'Noise':
+            for (let i = 0; i < data.length; i += 4) {
+                const noise = (0.5 - Math.random()) * step.noise;
+                data[i] += noise;
+                data[i + 1] += noise;
+                data[i + 2] += noise;
+            }
+            return;
+        case 'Pixelate': {
+            const size = step.blocksize;
+            for (let y = 0; y < height; y += size) {
+                for (let x = 0; x < width; x += size) {
+                    const source = (y * width + x) * 4;
+                    for (let by = y; by < Math.min(y + size, height); by++) {
+                        for (let bx = x; bx < Math.min(x + size, width); bx++) {
+                            data.copyWithin((by * width + bx) * 4, source, source + 4);
+                        }
+                    }
+                }
+            }
+            return;
+        }
+        case 'Sepia':
+            applyColorMatrix(data, SEPIA_MATRIX, false);
+            return;
+        case 'Grayscale':
+            for (let i = 0; i < data.length; i += 4) {
+                const value = (data[i] + data[i + 1] + data[i + 2]) / 3;
+                data[i] = value;
+                data[i + 1] = value;
+                data[i + 2] = value;
+            }
+            return;
+        case 'Invert':
+            for (let i = 0; i < data.length; i += 4) {
+                data[i] = 255 - data[i];
+                data[i + 1] = 255 - data[i + 1];
+                data[i + 2] = 255 - data[i + 2];
+            }
+            return;
+        case 'ColorMatrix':
+            applyColorMatrix(data, step.matrix, true);
+            return;
+    }
+};
+
+/** Grades `pixels` in place with a layer's `filters` values. */
+export const applyLayerFilters = (pixels: RgbaPixels, filters: Record<string, number>) => {
+    if (pixels.width === 0 || pixels.height === 0) return;
+    layerFilterSteps(filters).forEach((step) => applyStep(pixels, step));
+};
@@ -0,0 +1,114 @@
+import { Canvas2dFilterBackend, FabricObject, filters as fabricFilters } from 'fabric';
+import { alphaMask, compositeOperation } from '../groups/compositing';
+import { layerFilterSteps } from './filters';
+
+/**
+ * Layer adjustments. A pixel layer's `filters` run through Fabric's filter pipeline on its own
+ * image. An adjustment layer (`type: 'adjustment'`) has no pixels: it sits in the stack as an
+ * `AdjustmentLayerObject` that re-grades whatever has been drawn below it when the canvas
+ * renders, so it stays editable and follows every change underneath.
+ */
+
+/** Fabric filters for a layer's `filters` values, in the order they apply. */
+export const buildLayerFilters = (filters: Record<string, number>): fabricFilters.BaseFilter<string, Record<string, any>>[] =>
+    layerFilterSteps(filters).map(({ type, ...options }) => new (fabricFilters[type] as any)(options));
+
+export const isAdjustmentLayer = (layer: { type: string } | undefined): boolean => layer?.type === 'adjustment';
+
+export interface AdjustmentLayerSettings {
+    filters: Record<string, number>;
+    blendMode: string;
+    /** Mask data URL (white = adjusted), in document coordinates like layer masks. */
+    mask: string | null;
+    /** For a clipped adjustment, the object of the layer it is clipped to; `null` adjusts everything below. */
+    clipTo: FabricObject | null;
+}
+
+// Scratch surfaces shared by every adjustment layer; they render one at a time.
+const surfaces: HTMLCanvasElement[] = [];
+const surface = (index: number, width: number, height: number) => {
+    const element = surfaces[index] ?? (surfaces[index] = document.createElement('canvas'));
+    if (element.width !== width || element.height !== height) {
+        element.width = width;
+        element.height = height;
+    }
+    const ctx = element.getContext('2d', { willReadFrequently: true })!;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, width, height);
+    return ctx;
+};
+
+let backend: Canvas2dFilterBackend | null = null;
+
+/**
+ * Stands in for an adjustment layer in the canvas stack. It has no pixels of its own: rendering
+ * it filters what the canvas holds at that point (everything below, or the group's contents in
+ * an isolated group), keeps the adjusted pixels inside the document, the layer mask and the
+ * clipping layer, and lays them over the original with the layer's opacity and blend mode.
+ */
+export class AdjustmentLayerObject extends FabricObject {
+    static type = 'AdjustmentLayer';
+
+    private settings: AdjustmentLayerSettings = { filters: {}, blendMode: 'normal', mask: null, clipTo: null };
+    private filterKey = '';
+    private filterList: fabricFilters.BaseFilter<string, Record<string, any>>[] = [];
+
+    constructor() {
+        super({ selectable: false, evented: false, hasControls: false, objectCaching: false, excludeFromExport: true });
+    }
+
+    setAdjustment(settings: AdjustmentLayerSettings) {
+        const key = JSON.stringify(settings.filters);
+        if (key !== this.filterKey) {
+            this.filterKey = key;
+            this.filterList = buildLayerFilters(settings.filters);
+        }
+        this.settings = settings;
+    }
+
+    render(ctx: CanvasRenderingContext2D) {
+        const { blendMode, mask, clipTo } = this.settings;
+        if (!this.visible || this.opacity <= 0 || this.filterList.length === 0) return;
+        if (clipTo && clipTo.isNotVisible()) return;
+
+        const { width, height } = ctx.canvas;
+        const transform = ctx.getTransform();
+        const result = surface(0, width, height);
+        backend ??= new Canvas2dFilterBackend();
+        backend.applyFilters(this.filterList, ctx.canvas, width, height, result.canvas);
+
+        result.setTransform(transform);
+        result.globalCompositeOperation = 'destination-in';
+        result.fillRect(0, 0, this.canvas?.width ?? width, this.canvas?.height ?? height);
+        if (mask) {
+            const alpha = alphaMask(mask, () => this.canvas?.requestRenderAll());
+            // Not decoded yet: leave the backdrop unadjusted for a frame.
+            if (!alpha) return;
+            result.drawImage(alpha, 0, 0);
+        }
+        if (clipTo) {
+            // The clipping layer's own coverage, drawn alone; its clipping/blend mode would
+            // draw nothing onto an empty surface.
+            const base = surface(1, width, height);
+            base.setTransform(transform);
+            const operation = clipTo.globalCompositeOperation;
+            clipTo.globalCompositeOperation = 'source-over';
+            clipTo.render(base);
+            clipTo.globalCompositeOperation = operation;
+            result.setTransform(1, 0, 0, 1, 0, 0);
+            result.drawImage(base.canvas, 0, 0);
+        }
+
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalAlpha = this.opacity;
+        ctx.globalCompositeOperation = compositeOperation(blendMode);
+        ctx.drawImage(result.canvas, 0, 0);
+        ctx.restore();
+    }
+}
+
+export { applyLayerFilters, layerFilterSteps } from './filters';
+export type { LayerFilterStep, RgbaPixels } from './filters';
@@ -33,7 +33,7 @@ export class GeminiProvider implements AIProvider {
 
             await new Promise(resolve => setTimeout(resolve, 800));
 
-            return { buffer: params.image, seed: Math.floor(Math.random() * 1000) };
+            return { buffer: params.image, seed: params.seed ?? Math.floor(Math.random() * 1000) };
         } catch (error) {
             console.error("[Gemini] Error processing image:", error);
             throw error;
@@ -1,111 +1,94 @@
-import { AIProvider, AIEditRequest, AIEditResponse } from "./types";
+import { AIProvider, AIEditParams, AIEditResult } from "./provider";
 import sharp from "sharp";
 
+// Stable 32-bit FNV-1a hash so the same prompt always yields the same output.
+const hashPrompt = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i += 1) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const hslToRgb = (hue: number, saturation: number, lightness: number) => {
+    const c = (1 - Math.abs(2 * lightness - 1)) * saturation;
+    const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+    const m = lightness - c / 2;
+    const [r, g, b] =
+        hue < 60 ? [c, x, 0] :
+            hue < 120 ? [x, c, 0] :
+                hue < 180 ? [0, c, x] :
+                    hue < 240 ? [0, x, c] :
+                        hue < 300 ? [x, 0, c] : [c, 0, x];
+    return {
+        r: Math.round((r + m) * 255),
+        g: Math.round((g + m) * 255),
+        b: Math.round((b + m) * 255)
+    };
+};
+
+/**
+ * Offline provider for local dev and CI.
+ * Paints a prompt-derived tint over the masked region and leaves everything else untouched,
+ * so the pipeline visibly "does something" without any network access.
+ */
 export class MockAIProvider implements AIProvider {
-    async generateEdit(request: AIEditRequest): Promise<AIEditResponse> {
-        console.log("Mock AI generating for:", request.prompt);
-
-        // Simulate network delay
-        await new Promise(resolve => setTimeout(resolve, 1500));
-
-        try {
-            // Parse Base64 Input
-            const imageBuffer = Buffer.from(request.image.split(',')[1], 'base64');
-            const maskBuffer = Buffer.from(request.mask.split(',')[1], 'base64');
-
-            // 1. Generate a "Generated Content" layer (e.g., a noise pattern or solid color)
-            // Let's make a cool generated gradient or noise based on the prompt hash maybe?
-            // For simplicity: A semi-transparent blue overlay to signify "AI Added This"
-
-            const meta = await sharp(imageBuffer).metadata();
-            const width = meta.width || 1024;
-            const height = meta.height || 1024;
-
-            // Create a "Generation" layer (e.g. Blue Noise)
-            // We use the mask to cut it out.
-            // Mask: White = Editable Area (Show Generation), Black = Protected (Hide Generation)
-
-            // Generate a visual pattern (e.g. checkerboard or static)
-            const noise = await sharp({
-                create: {
-                    width: width,
-                    height: height,
-                    channels: 4,
-                    background: { r: 50, g: 100, b: 255, alpha: 1 }
-                }
-            })
-                .composite([
-                    // Overlay text maybe?
-                    /* {
-                        input: {
-                            text: {
-                                text: 'AI Generated',
-                                font: 'sans',
-                                rgba: true
-                            }
-                        },
-                        gravity: 'center'
-                    } */
-                ])
-                .png()
-                .toBuffer();
-
-            // Check if mask needs processing (it should be grayscale)
-            // We want to use the mask to composite the Noise onto the Original Image.
-            // Result = Original + (Noise * Mask)
-
-            // Sharp composite with 'dest-in' or similar?
-            // Easier: 
-            // 1. Mask the Noise Layer using the Mask input.
-            // 2. Composite Masked Noise over Original.
-
-            // Ensure mask is same size
-            const resizedMask = await sharp(maskBuffer)
-                .resize(width, height)
-                .toColourspace('b-w')
-                .toBuffer();
-
-            // Create "Masked Noise"
-            const maskedNoise = await sharp(noise)
-                .joinChannel(resizedMask) // Add mask as alpha? No, joinChannel adds channels.
-                // Better: Use composite with input as mask.
-                // Sharp supports 'input' with 'blend': 'dest-in' to use alpha from second image?
-                // Actually, if mask is b/w image, we can use it as an alpha channel directly if we map it.
-
-                // Let's try: Composite Noise over Image with Mask?
-                // Does Sharp support 'mask' option in composite? 
-                // No, standard composite takes images.
-
-                // Pipeline:
-                // 1. Take Noise.
-                // 2. Apply Mask to Noise (Make opacity 0 where mask is black).
-                // 3. Composite Result over Original.
-
-                // To apply mask to noise in Sharp:
-                // .ensureAlpha()
-                // .composite([{ input: maskBuffer, blend: 'dest-in' }]) 
-                // 'dest-in' keeps the destination (Noise) where the source (Mask) overlaps (is opaque).
-                // Assuming Mask: White=Opaque, Black=Transparent. 
-                // Our Mask from Canvas: White (Selected) = Opaque, Black = Transparent. 
-                // YES. This matches 'dest-in'.
-
-                .ensureAlpha()
-                .composite([{ input: resizedMask, blend: 'dest-in' }])
-                .toBuffer();
-
-            // Final Composite
-            const resultBuffer = await sharp(imageBuffer)
-                .composite([{ input: maskedNoise, blend: 'over' }])
-                .toBuffer();
-
-            const base64Result = `data:image/png;base64,${resultBuffer.toString('base64')}`;
-
-            return { resultImage: base64Result };
-
-        } catch (error) {
-            console.error("Mock Generation Failed:", error);
-            // Fallback to echo
-            return { resultImage: request.image };
-        }
+    name = 'mock';
+
+    async editImage(params: AIEditParams): Promise<AIEditResult> {
+        const startedAt = Date.now();
+        params.signal?.throwIfAborted();
+        console.log("[Mock] Processing prompt:", params.prompt);
+
+        const seed = params.seed ?? hashPrompt(params.prompt);
+        const hue = seed % 360;
+
+        const meta = await sharp(params.image).metadata();
+        const width = meta.width || 1024;
+        const height = meta.height || 1024;
+
+        // Mask: White = Editable Area (Show Generation), Black = Protected (Hide Generation)
+        const resizedMask = await sharp(params.mask)
+            .resize(width, height, { fit: 'fill' })
+            .greyscale()
+            .raw()
+            .toBuffer();
+
+        const tint = await sharp({
+            create: {
+                width,
+                height,
+                channels: 3,
+                background: hslToRgb(hue, 0.75, 0.55)
+            }
+        })
+            .joinChannel(resizedMask, { raw: { width, height, channels: 1 } })
+            .png()
+            .toBuffer();
+
+        // Result = Original + (Tint * Mask), blended at 60% so the source detail shows through.
+        const maskedTint = await sharp(tint)
+            .ensureAlpha()
+            .linear([1, 1, 1, 0.6], [0, 0, 0, 0])
+            .png()
+            .toBuffer();
+
+        params.signal?.throwIfAborted();
+
+        const buffer = await sharp(params.image)
+            .composite([{ input: maskedTint, blend: 'over' }])
+            .png()
+            .toBuffer();
+
+        return {
+            buffer,
+            seed,
+            metadata: {
+                modelUsed: this.name,
+                generationTime: Date.now() - startedAt,
+                prompt: params.finalPrompt || params.prompt
+            }
+        };
     }
 }
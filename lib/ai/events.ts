@@ -0,0 +1,40 @@
+import type { AIContext } from './provider';
+
+/**
+ * Wire format for `POST /api/ai-edit` with `stream: true`.
+ * The response body is NDJSON: one `AIEditStreamEvent` per line, ending with `result` or `error`.
+ */
+export type AIEditPhase = 'decode' | 'crop' | 'context' | 'attempt' | 'finalize';
+
+export interface AIEditVariantPayload {
+    image: string;
+    seed?: number;
+    metadata: Record<string, any>;
+}
+
+export interface AIEditResultPayload {
+    image: string; // Same as variants[0].image
+    variants: AIEditVariantPayload[];
+    /** Set when the request's time budget ran out before every requested variant finished. */
+    partial?: boolean;
+    regionBounds: { x: number; y: number; width: number; height: number };
+    seed?: number;
+    provider: string;
+    context: AIContext | Record<string, any>;
+    requestId: string;
+    metadata: Record<string, any>;
+}
+
+export type AIEditStreamEvent =
+    | { type: 'phase'; phase: AIEditPhase; attempt?: number; variant?: number; provider?: string }
+    | { type: 'progress'; attempt: number; variant?: number; progress?: number; preview?: string }
+    | { type: 'result'; result: AIEditResultPayload }
+    | { type: 'error'; error: string; requestId: string };
+
+export const AI_EDIT_PHASE_LABELS: Record<AIEditPhase, string> = {
+    decode: 'Decoding image',
+    crop: 'Cropping region',
+    context: 'Extracting context',
+    attempt: 'Generating',
+    finalize: 'Compositing result'
+};
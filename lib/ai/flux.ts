@@ -7,6 +7,6 @@ export class FluxProvider implements AIProvider {
         console.log(`[Flux] Processing prompt: ${params.prompt}`);
         // Stub for actual Flux integration
         // Returns the original image for now allowing the pipeline to succeed
-        return { buffer: params.image, seed: Math.floor(Math.random() * 10000) };
+        return { buffer: params.image, seed: params.seed ?? Math.floor(Math.random() * 10000) };
     }
 }
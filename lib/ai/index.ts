@@ -2,6 +2,7 @@ import { registerProvider } from './provider';
 import { GeminiProvider } from './GeminiProvider';
 import { FluxProvider } from './flux';
 import { StableDiffusionProvider } from './stable-diffusion';
+import { MockAIProvider } from './MockProvider';
 
 // Initialize and register all available AI providers on import.
 // This ensures `getDefaultProvider` and `getProvider` have instances
@@ -24,6 +25,12 @@ import { StableDiffusionProvider } from './stable-diffusion';
   } catch (error) {
     console.warn('[AI] Failed to initialize StableDiffusionProvider', error);
   }
+
+  try {
+    registerProvider(new MockAIProvider());
+  } catch (error) {
+    console.warn('[AI] Failed to initialize MockAIProvider', error);
+  }
 })();
 
 export * from './provider';
@@ -1,6 +1,7 @@
 import sharp from 'sharp';
 import fs from 'node:fs';
 import path from 'node:path';
+import { getDefaultVisionProvider, getVisionProvider } from '../vision';
 
 const DEFAULT_SYSTEM_INSTRUCTIONS = `
 You are an expert photo editor AI integrated into a professional image editing application.
@@ -73,11 +74,13 @@ export class PromptBuilder {
             if (brightness > 200) lighting = "High key, bright";
             if (brightness < 50) lighting = "Low key, dark";
 
+            const description = await PromptBuilder.describe(imageBuffer);
+
             return {
                 dominantColors: `Average RGB(${r}, ${g}, ${b})`,
                 lighting: lighting,
-                artStyle: "Unknown (auto)", // TODO: Use vision model for this
-                subjectMatter: "Unknown (auto)" // TODO: Use vision model for this
+                artStyle: description?.artStyle || "Unknown (auto)",
+                subjectMatter: description?.subjectMatter || "Unknown (auto)"
             };
         } catch (error) {
             console.warn("Failed to extract context:", error);
@@ -90,6 +93,16 @@ export class PromptBuilder {
         }
     }
 
+    // Art style and subject come from the active vision backend, falling back to the offline model.
+    private static async describe(imageBuffer: Buffer) {
+        const provider = getDefaultVisionProvider();
+        const description = await provider.describe(imageBuffer).catch(() => null);
+        if (description) return description;
+
+        const heuristic = getVisionProvider('heuristic');
+        return heuristic && heuristic !== provider ? heuristic.describe(imageBuffer).catch(() => null) : null;
+    }
+
     static build(
         userPrompt: string,
         context: ImageContext,
@@ -13,14 +13,21 @@ export interface AIConstraints {
     outputFormat: 'png' | 'jpeg' | 'webp';
 }
 
+export interface AIEditProgress {
+    progress?: number; // 0..1 when the provider can estimate it
+    preview?: Buffer; // Intermediate render, same framing as the input image
+}
+
 export interface AIEditParams {
     image: Buffer;
     mask: Buffer;
     prompt: string;
     finalPrompt?: string;
+    seed?: number; // Providers that support seeding should reproduce the same output for the same seed
     context?: AIContext;
     constraints?: AIConstraints;
     signal?: AbortSignal;
+    onProgress?: (progress: AIEditProgress) => void;
 }
 
 export interface AIEditResult {
@@ -50,9 +57,12 @@ export const getProvider = (name: string): AIProvider | undefined => {
 
 export const getDefaultProvider = (): AIProvider => {
     const gemini = providers.get('gemini');
-    if (gemini) return gemini;
+    if (gemini && process.env.GEMINI_API_KEY) return gemini;
+
+    // Without a Gemini key, prefer the deterministic offline provider.
+    const mock = providers.get('mock');
+    if (mock) return mock;
 
-    // For now, if no actual providers are found, throw an error or return a mock.
     const fallback = Array.from(providers.values())[0];
     if (!fallback) throw new Error("No AI Providers Registered");
     return fallback;
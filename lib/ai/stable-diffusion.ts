@@ -1,12 +1,173 @@
-import { AIProvider, AIEditParams } from './provider';
+import { AIProvider, AIEditParams, AIEditResult } from './provider';
 
+const DEFAULT_BASE_URL = 'http://127.0.0.1:7860';
+
+export interface StableDiffusionOptions {
+    baseUrl?: string;
+    model?: string;
+    steps?: number;
+    denoisingStrength?: number;
+}
+
+type Img2ImgResponse = {
+    images?: string[];
+    info?: string;
+};
+
+type ProgressResponse = {
+    progress?: number;
+    current_image?: string | null;
+    current_task?: string | null;
+};
+
+const PROGRESS_POLL_MS = 1000;
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Talks to a local AUTOMATIC1111-compatible HTTP API (`/sdapi/v1/img2img`).
+ * Forge, SD.Next and ComfyUI bridges that expose the same route work too.
+ */
 export class StableDiffusionProvider implements AIProvider {
     name = 'stable-diffusion';
+    private baseUrl: string;
+    private model?: string;
+    private steps: number;
+    private denoisingStrength: number;
+
+    constructor(options: StableDiffusionOptions = {}) {
+        const baseUrl = options.baseUrl || process.env.STABLE_DIFFUSION_API_URL || DEFAULT_BASE_URL;
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.model = options.model || process.env.STABLE_DIFFUSION_MODEL || undefined;
+        this.steps = options.steps ?? toNumber(process.env.STABLE_DIFFUSION_STEPS, 28);
+        this.denoisingStrength = options.denoisingStrength ?? toNumber(process.env.STABLE_DIFFUSION_DENOISE, 0.75);
+    }
+
+    async editImage(params: AIEditParams): Promise<AIEditResult> {
+        const startedAt = Date.now();
+        const prompt = params.finalPrompt || params.prompt;
 
-    async editImage(params: AIEditParams): Promise<{ buffer: Buffer; seed?: number }> {
         console.log(`[StableDiffusion] Processing prompt: ${params.prompt}`);
-        // Stub for actual SD integration (e.g., via Replicate or local AUTOMATIC1111)
-        // Returns the original image for now allowing the pipeline to succeed
-        return { buffer: params.image, seed: Math.floor(Math.random() * 10000) };
+
+        // Our own task id, so progress and interrupts can tell this job from other clients' jobs.
+        const taskId = `zerothlayer-${crypto.randomUUID()}`;
+        const stopPolling = params.onProgress ? this.pollProgress(params, taskId) : () => { };
+        // Dropping the HTTP request does not stop the sampler, so ask the server to interrupt, but
+        // only when this job is the one running: the interrupt route stops whatever job that is.
+        const interrupt = () => {
+            void this.currentTask()
+                .then((current) => {
+                    if (current === taskId) return fetch(`${this.baseUrl}/sdapi/v1/interrupt`, { method: 'POST' });
+                })
+                .catch(() => { });
+        };
+        params.signal?.addEventListener('abort', interrupt, { once: true });
+        try {
+            return await this.requestImg2Img(params, prompt, startedAt, taskId);
+        } finally {
+            stopPolling();
+            params.signal?.removeEventListener('abort', interrupt);
+        }
+    }
+
+    // The task the server is running now; `null` when idle or when the server does not report it.
+    private async currentTask(): Promise<string | null> {
+        const response = await fetch(`${this.baseUrl}/sdapi/v1/progress?skip_current_image=true`);
+        if (!response.ok) return null;
+        const data = (await response.json()) as ProgressResponse;
+        return data.current_task || null;
+    }
+
+    private async requestImg2Img(params: AIEditParams, prompt: string, startedAt: number, taskId: string): Promise<AIEditResult> {
+        const width = params.constraints?.regionBounds.width;
+        const height = params.constraints?.regionBounds.height;
+
+        const response = await fetch(`${this.baseUrl}/sdapi/v1/img2img`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            signal: params.signal,
+            body: JSON.stringify({
+                init_images: [params.image.toString('base64')],
+                // White = repaint, black = keep (same convention as our selection masks).
+                mask: params.mask.toString('base64'),
+                prompt,
+                seed: params.seed ?? -1,
+                steps: this.steps,
+                denoising_strength: this.denoisingStrength,
+                mask_blur: Math.max(0, Math.round(params.constraints?.featherAmount ?? 4)),
+                inpainting_fill: 1,
+                inpaint_full_res: false,
+                force_task_id: taskId,
+                ...(width && height ? { width, height } : {}),
+                ...(this.model ? { override_settings: { sd_model_checkpoint: this.model } } : {})
+            })
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`Stable Diffusion request failed (${response.status}): ${detail.slice(0, 200) || response.statusText}`);
+        }
+
+        const data = (await response.json()) as Img2ImgResponse;
+        const encoded = data.images?.[0];
+        if (!encoded) {
+            throw new Error('Stable Diffusion response did not contain an image');
+        }
+
+        let info: Record<string, any> = {};
+        try {
+            info = data.info ? JSON.parse(data.info) : {};
+        } catch {
+            console.warn('[StableDiffusion] Could not parse generation info');
+        }
+
+        const [, raw] = encoded.split(',');
+        const seed = Number(info.seed ?? info.all_seeds?.[0]);
+
+        return {
+            buffer: Buffer.from(raw ?? encoded, 'base64'),
+            seed: Number.isFinite(seed) ? seed : undefined,
+            metadata: {
+                modelUsed: info.sd_model_name || this.model || this.name,
+                generationTime: Date.now() - startedAt,
+                prompt
+            }
+        };
+    }
+
+    // The img2img call blocks until done, so previews come from polling the shared progress route.
+    // Servers that report the running task only show ours; older ones report whatever is running.
+    private pollProgress(params: AIEditParams, taskId: string): () => void {
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const tick = async () => {
+            try {
+                const response = await fetch(`${this.baseUrl}/sdapi/v1/progress?skip_current_image=false`, {
+                    signal: params.signal
+                });
+                if (response.ok && !stopped) {
+                    const data = (await response.json()) as ProgressResponse;
+                    if (!data.current_task || data.current_task === taskId) {
+                        params.onProgress?.({
+                            progress: typeof data.progress === 'number' ? data.progress : undefined,
+                            preview: data.current_image ? Buffer.from(data.current_image, 'base64') : undefined
+                        });
+                    }
+                }
+            } catch {
+                // Progress is best-effort; the main request reports real failures.
+            }
+            if (!stopped) timer = setTimeout(tick, PROGRESS_POLL_MS);
+        };
+
+        timer = setTimeout(tick, PROGRESS_POLL_MS);
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+        };
     }
 }
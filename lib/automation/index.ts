@@ -0,0 +1,161 @@
+/**
+ * Automation records shared by the editor and the command-line tool: batch options and the batch
+ * report, droplet presets (a saved `filters` record) and recorded actions, including how the
+ * editor's saved copies of the last two are read back. No DOM or Node imports.
+ */
+
+export interface BatchOptions {
+    format: 'png' | 'jpeg' | 'webp';
+    quality: number;
+    maxSide: number;
+    autoDownload: boolean;
+}
+
+export interface DropletPreset {
+    id: string;
+    name: string;
+    filters: Record<string, number>;
+    runCount: number;
+    lastRunAt?: string;
+}
+
+export type MacroCommand =
+    | 'run-droplet'
+    | 'run-brush'
+    | 'run-pencil'
+    | 'run-mixer'
+    | 'run-gradient'
+    | 'run-paint-bucket'
+    | 'export-timeline';
+
+export interface MacroAction {
+    id: string;
+    name: string;
+    steps: number;
+    commands: MacroCommand[];
+    runCount?: number;
+    lastRunAt?: string;
+}
+
+export interface BatchReportFile {
+    name: string;
+    status: 'success' | 'failed';
+    outputWidth?: number;
+    outputHeight?: number;
+    error?: string;
+}
+
+/** What "Download batch report" saves and the CLI writes next to its outputs. */
+export interface BatchReport {
+    createdAt: string;
+    options: BatchOptions;
+    totals: { total: number; success: number; failed: number };
+    files: BatchReportFile[];
+}
+
+export const ACTIONS_STORAGE_KEY = 'zerothlayer.actions.v1';
+export const DROPLETS_STORAGE_KEY = 'zerothlayer.droplets.v1';
+
+export const isMacroCommand = (value: unknown): value is MacroCommand =>
+    value === 'run-droplet' ||
+    value === 'run-brush' ||
+    value === 'run-pencil' ||
+    value === 'run-mixer' ||
+    value === 'run-gradient' ||
+    value === 'run-paint-bucket' ||
+    value === 'export-timeline';
+
+const isDropletPresetRecord = (value: unknown): value is Omit<DropletPreset, 'runCount'> & { runCount?: number } => {
+    if (!value || typeof value !== 'object') return false;
+    const row = value as Record<string, unknown>;
+    if (typeof row.id !== 'string' || typeof row.name !== 'string') return false;
+    if (!row.filters || typeof row.filters !== 'object' || Array.isArray(row.filters)) return false;
+    return true;
+};
+
+/** The valid actions in a saved list; malformed entries and unknown commands are dropped. */
+export const parseMacroActions = (value: unknown): MacroAction[] => {
+    if (!Array.isArray(value)) return [];
+    return value
+        .map((item) => {
+            if (!item || typeof item !== 'object') return null;
+            const row = item as Record<string, unknown>;
+            if (typeof row.id !== 'string' || typeof row.name !== 'string' || !Array.isArray(row.commands)) return null;
+            const commands = row.commands.filter(isMacroCommand);
+            if (commands.length === 0) return null;
+            return {
+                id: row.id,
+                name: row.name,
+                steps: typeof row.steps === 'number' ? row.steps : commands.length,
+                commands,
+                runCount: typeof row.runCount === 'number' ? Math.max(0, Math.floor(row.runCount)) : 0,
+                lastRunAt: typeof row.lastRunAt === 'string' ? row.lastRunAt : undefined,
+            } satisfies MacroAction;
+        })
+        .filter((item): item is NonNullable<typeof item> => item !== null);
+};
+
+/** The valid droplet presets in a saved list, keeping only numeric filter values. */
+export const parseDropletPresets = (value: unknown): DropletPreset[] => {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter(isDropletPresetRecord)
+        .map((item) => {
+            const filters = Object.fromEntries(
+                Object.entries(item.filters).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+            );
+            return {
+                id: item.id,
+                name: item.name,
+                filters,
+                runCount: typeof item.runCount === 'number' ? Math.max(0, Math.floor(item.runCount)) : 0,
+                lastRunAt: typeof item.lastRunAt === 'string' ? item.lastRunAt : undefined,
+            };
+        })
+        .filter((item) => Object.keys(item.filters).length > 0);
+};
+
+/** A layer's `filters` after a droplet runs on it: the preset's values win. */
+export const applyDropletFilters = (filters: Record<string, number> | undefined, preset: DropletPreset): Record<string, number> => ({
+    ...(filters || {}),
+    ...preset.filters,
+});
+
+/** Output size for a batch: scaled down (never up) so neither side exceeds `maxSide`; 0 keeps the size. */
+export const fitMaxSide = (width: number, height: number, maxSide: number) => {
+    if (maxSide > 0 && (width > maxSide || height > maxSide)) {
+        const scale = Math.min(maxSide / width, maxSide / height);
+        return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+    }
+    return { width, height };
+};
+
+export const batchOutputName = (fileName: string, format: BatchOptions['format']) =>
+    `${fileName.replace(/\.[^.]+$/, '')}.${format === 'jpeg' ? 'jpg' : format}`;
+
+/**
+ * `batchOutputName` for each file of a batch, in order, with `-2`, `-3`, ... added before the
+ * extension where two would otherwise match (ignoring case, as some file systems do), e.g.
+ * `photo.png` and `photo.jpg` both going to WebP, or match one of the `reserved` names.
+ */
+export const uniqueBatchOutputNames = (fileNames: string[], format: BatchOptions['format'], reserved: string[] = []) => {
+    const taken = new Set(reserved.map((name) => name.toLowerCase()));
+    return fileNames.map((fileName) => {
+        const name = batchOutputName(fileName, format);
+        const dot = name.lastIndexOf('.');
+        let candidate = name;
+        for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${name.slice(0, dot)}-${n}${name.slice(dot)}`;
+        taken.add(candidate.toLowerCase());
+        return candidate;
+    });
+};
+
+export const buildBatchReport = (options: BatchOptions, files: BatchReportFile[]): BatchReport => {
+    const success = files.filter((file) => file.status === 'success').length;
+    return {
+        createdAt: new Date().toISOString(),
+        options: { ...options },
+        totals: { total: files.length, success, failed: files.length - success },
+        files,
+    };
+};
@@ -0,0 +1,238 @@
+import { LayerLock, useLayerStore } from '../store';
+import { externalizeAssets, hydrateAssetRefs } from '../storage/asset-refs';
+import type { CollaborationEngine } from './index';
+import {
+    DELETED_FIELD,
+    FieldWrite,
+    IMAGE_FIELD,
+    LayerStackCrdt,
+    LayerStackSnapshot,
+    POSITION_FIELD,
+    TRANSFORM_FIELD,
+    isContentField,
+    writesFromSnapshot
+} from './crdt';
+import { LayerTransform } from './ops';
+
+/**
+ * Pixels and transforms live on the Fabric canvas rather than in the store, so the binding
+ * reaches them through this bridge (implemented by `CanvasHandle`).
+ */
+export interface LayerContentBridge {
+    getLayerImage: (layerId: string) => string | null;
+    getLayerTransform: (layerId: string) => LayerTransform | null;
+    applyLayerContent: (layerId: string, content: { image?: string | null; transform?: LayerTransform | null }) => Promise<void>;
+}
+
+export type LayerContentChange = 'pixels' | 'transform';
+
+export interface LayerStoreBinding {
+    /** Called by the canvas whenever a layer's pixels or transform change locally. */
+    notifyLayerContent: (layerId: string, change: LayerContentChange) => void;
+    unbind: () => void;
+}
+
+// Slider drags change the store every frame; writes to the same field inside this window go out once.
+const COALESCE_MS = 50;
+
+const writeKey = (write: FieldWrite) => `${write.layerId}\u0000${write.field}`;
+
+/**
+ * Keeps `useLayerStore` and the room's layer-stack CRDT (`crdt.ts`) in sync without changing
+ * how the store is used: every store change is diffed against the local replica and committed
+ * as stamped field writes, and remote writes are merged into the replica and written back to
+ * the store. Because merges are commutative, concurrent reorders, filter tweaks and mask edits
+ * from different clients converge, and edits made while offline are merged on reconnect.
+ *
+ * Local edits also lease the layers they touch (soft locks), and other clients' leases are
+ * mirrored into `layerLocks`, where the store's layer actions honour them. The server also
+ * overrules writes to layers leased by others, which rolls them back here.
+ */
+export const bindLayerStore = (engine: CollaborationEngine, bridge: LayerContentBridge): LayerStoreBinding => {
+    const crdt = new LayerStackCrdt(crypto.randomUUID());
+    let applyingRemote = false;
+    let joined = false;
+    let active = true;
+
+    let outbox: Promise<void> = Promise.resolve();
+    let inbox: Promise<void> = Promise.resolve();
+    const pending = new Map<string, FieldWrite>();
+    const pendingContent = new Map<string, LayerContentChange>();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Writes leave in commit order; embedded data URLs (masks, variants) go to the asset store first.
+    const send = (writes: FieldWrite[]) => {
+        if (writes.length === 0) return;
+        outbox = outbox
+            .then(async () => {
+                if (active) engine.sendOp({ writes: await externalizeAssets(writes, engine.getToken()) });
+            })
+            .catch((error) => console.warn('[Collab] Failed to send op', error));
+    };
+
+    // Canvas content is read and stamped at flush time, so a burst of changes ships the final pixels once.
+    const commitContent = (layerId: string, change: LayerContentChange) => {
+        const transform = bridge.getLayerTransform(layerId);
+        const image = change === 'pixels' ? bridge.getLayerImage(layerId) : null;
+        const changes: Array<{ layerId: string; field: string; value: unknown }> = [];
+        if (image) changes.push({ layerId, field: IMAGE_FIELD, value: image });
+        if (transform) changes.push({ layerId, field: TRANSFORM_FIELD, value: transform });
+        return crdt.commit(changes);
+    };
+
+    const flush = () => {
+        if (flushTimer) clearTimeout(flushTimer);
+        flushTimer = null;
+        const writes = Array.from(pending.values());
+        pending.clear();
+        pendingContent.forEach((change, layerId) => writes.push(...commitContent(layerId, change)));
+        pendingContent.clear();
+        send(writes);
+    };
+
+    const scheduleFlush = () => {
+        if (!flushTimer) flushTimer = setTimeout(flush, COALESCE_MS);
+    };
+
+    // Viewers follow the room but never write to it; the server would reject their ops anyway.
+    const canEdit = () => engine.getRole() === 'editor';
+
+    // Seeding a room is not an edit, so it leases nothing.
+    const commitStore = (lease = true) => {
+        const writes = crdt.commitLayers(useLayerStore.getState().layers);
+        if (writes.length === 0) return;
+        if (lease) {
+            // Reorders and removals are one-off; editing a layer's properties leases it.
+            const edited = writes.filter((write) => write.field !== DELETED_FIELD && write.field !== POSITION_FIELD);
+            engine.touchLayers(Array.from(new Set(edited.map((write) => write.layerId))));
+        }
+        // Writes are already applied locally; only sending is coalesced, keeping the newest per field.
+        writes.forEach((write) => {
+            pending.delete(writeKey(write));
+            pending.set(writeKey(write), write);
+        });
+        scheduleFlush();
+    };
+
+    const unsubscribeStore = useLayerStore.subscribe((state, previous) => {
+        if (applyingRemote || !joined || !canEdit() || state.layers === previous.layers) return;
+        commitStore();
+    });
+
+    const queueContent = (layerId: string, change: LayerContentChange) => {
+        if (pendingContent.get(layerId) !== 'pixels') pendingContent.set(layerId, change);
+        scheduleFlush();
+    };
+
+    const notifyLayerContent = (layerId: string, change: LayerContentChange) => {
+        if (!joined || applyingRemote || !canEdit()) return;
+        engine.touchLayers([layerId]);
+        queueContent(layerId, change);
+    };
+
+    // Writes the replica back into the store, keeping what only this client knows (thumbnails, selection).
+    const materialize = () => {
+        applyingRemote = true;
+        try {
+            useLayerStore.setState((state) => {
+                const thumbnails = new Map(state.layers.map((layer) => [layer.id, layer.thumbnail]));
+                const layers = crdt.layers().map((layer) => {
+                    const thumbnail = thumbnails.get(layer.id);
+                    return thumbnail ? { ...layer, thumbnail } : layer;
+                });
+                const activeLayerId = layers.some((layer) => layer.id === state.activeLayerId)
+                    ? state.activeLayerId
+                    : layers[0]?.id ?? null;
+                return { layers, activeLayerId };
+            });
+        } finally {
+            applyingRemote = false;
+        }
+    };
+
+    const applyContent = async (writes: FieldWrite[]) => {
+        const layerIds = new Set(writes.filter((write) => isContentField(write.field)).map((write) => write.layerId));
+        await Promise.all(
+            Array.from(layerIds).map((layerId) => {
+                const image = crdt.get(layerId, IMAGE_FIELD) as string | null;
+                const transform = crdt.get(layerId, TRANSFORM_FIELD) as LayerTransform | null;
+                const imageChanged = writes.some((write) => write.layerId === layerId && write.field === IMAGE_FIELD);
+                return bridge.applyLayerContent(layerId, { image: imageChanged ? image : undefined, transform });
+            })
+        );
+    };
+
+    // Masks and variants are expected inline by the rest of the app; layer pixels stay as refs.
+    const hydrate = async (writes: FieldWrite[]) => {
+        const inline = await hydrateAssetRefs(writes.map((write) => (write.field === IMAGE_FIELD ? null : write)));
+        return writes.map((write, i) => inline[i] ?? write);
+    };
+
+    const applyRemote = async (writes: FieldWrite[]) => {
+        const incoming = await hydrate(writes);
+        if (!active) return;
+        const applied = crdt.merge(incoming);
+        if (applied.length === 0) return;
+        if (applied.some((write) => !isContentField(write.field))) materialize();
+        await applyContent(applied);
+    };
+
+    const handleWelcome = async (snapshot: LayerStackSnapshot) => {
+        if (!joined) {
+            // First join: an empty room is seeded from whatever is open here, otherwise the room wins.
+            const roomIsEmpty = Object.keys(snapshot).length === 0;
+            joined = true;
+            if (roomIsEmpty && canEdit()) {
+                commitStore(false);
+                useLayerStore.getState().layers.forEach((layer) => queueContent(layer.id, 'pixels'));
+                return;
+            }
+        }
+
+        // Rejoin after a drop: merge rather than replace, so offline edits survive. Our own
+        // unacknowledged writes are resent by the engine right after this.
+        const incoming = await hydrate(writesFromSnapshot(snapshot));
+        if (!active) return;
+        const applied = crdt.merge(incoming);
+        materialize();
+        await applyContent(applied);
+    };
+
+    const unsubscribeWelcome = engine.onWelcome((snapshot) => {
+        inbox = inbox
+            .then(() => handleWelcome(snapshot))
+            .catch((error) => console.warn('[Collab] Failed to load room state', error));
+    });
+
+    const unsubscribeOps = engine.onOp((op, meta) => {
+        // Our own writes are already in the replica; merging them again would be a no-op.
+        if (meta.local) return;
+        inbox = inbox
+            .then(() => (active ? applyRemote(op.writes) : undefined))
+            .catch((error) => console.warn('[Collab] Failed to apply remote op', error));
+    });
+
+    const unsubscribeLocks = engine.onLocks((leases) => {
+        const locks: Record<string, LayerLock> = {};
+        leases.forEach((lease) => {
+            if (lease.clientId === engine.getClientId()) return;
+            locks[lease.layerId] = { userId: lease.userId, name: lease.name, color: lease.color };
+        });
+        useLayerStore.getState().setLayerLocks(locks);
+    });
+
+    return {
+        notifyLayerContent,
+        unbind: () => {
+            active = false;
+            if (flushTimer) clearTimeout(flushTimer);
+            pending.clear();
+            pendingContent.clear();
+            unsubscribeStore();
+            unsubscribeWelcome();
+            unsubscribeOps();
+            unsubscribeLocks();
+            useLayerStore.getState().setLayerLocks({});
+        }
+    };
+};
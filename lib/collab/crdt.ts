@@ -0,0 +1,297 @@
+import type { Layer } from '../layers';
+
+/**
+ * Conflict-free model of the layer stack, shared by the browser binding and the room server.
+ *
+ * Every layer is a map of last-writer-wins registers keyed by field name:
+ * - plain properties (`name`, `opacity`, `blendMode`, ...) are one register each;
+ * - `filters`, `layerStyle` and `mask` are LWW maps, flattened to one register per key
+ *   (`filters.brightness`, `mask.visible`), so tweaking different filters never conflicts;
+ * - `position` is a fractional index, which makes the stack an ordered list where moving a
+ *   layer rewrites only that layer's position;
+ * - `deleted` is a tombstone, so a removal and a concurrent edit both survive a merge;
+ * - `image` holds the layer's pixels as an `asset:<sha256>` reference, `transform` its placement.
+ *
+ * Writes carry Lamport stamps and merging keeps the higher stamp, so replicas that have seen the
+ * same writes hold the same state regardless of delivery order, duplicates or reconnects.
+ */
+
+export type Stamp = [counter: number, actor: string];
+
+export interface FieldWrite {
+    layerId: string;
+    field: string;
+    value: unknown; // `null` clears the field
+    stamp: Stamp;
+}
+
+export interface Register {
+    value: unknown;
+    stamp: Stamp;
+}
+
+export type LayerStackSnapshot = Record<string, Record<string, Register>>;
+
+export const POSITION_FIELD = 'position';
+export const DELETED_FIELD = 'deleted';
+export const IMAGE_FIELD = 'image';
+export const TRANSFORM_FIELD = 'transform';
+
+const CONTENT_FIELDS = new Set([IMAGE_FIELD, TRANSFORM_FIELD]);
+const STRUCTURAL_FIELDS = new Set([POSITION_FIELD, DELETED_FIELD, IMAGE_FIELD, TRANSFORM_FIELD]);
+const MAP_FIELDS = new Set(['filters', 'layerStyle', 'mask']);
+const LOCAL_ONLY_FIELDS = new Set(['id', 'thumbnail']); // Thumbnails are re-rendered from pixels on each client
+
+const FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9]*(\.[A-Za-z0-9_-]{1,64})?$/;
+const POSITION_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+export const compareStamps = (a: Stamp, b: Stamp) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+export const isContentField = (field: string) => CONTENT_FIELDS.has(field);
+
+const sameValue = (a: unknown, b: unknown) =>
+    a === b ||
+    (a !== null && b !== null && typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+/** Structural check for writes arriving off the wire. */
+export const isFieldWrite = (value: unknown): value is FieldWrite => {
+    if (!value || typeof value !== 'object') return false;
+    const write = value as Record<string, any>;
+    if (typeof write.layerId !== 'string' || !write.layerId || write.layerId.length > 128) return false;
+    if (typeof write.field !== 'string' || !FIELD_PATTERN.test(write.field) || LOCAL_ONLY_FIELDS.has(write.field)) return false;
+    if (!Array.isArray(write.stamp) || write.stamp.length !== 2) return false;
+    if (!Number.isSafeInteger(write.stamp[0]) || write.stamp[0] < 0) return false;
+    if (typeof write.stamp[1] !== 'string' || !write.stamp[1] || write.stamp[1].length > 128) return false;
+    if (!('value' in write)) return false;
+    if (write.field === POSITION_FIELD) return typeof write.value === 'string' && POSITION_PATTERN.test(write.value);
+    if (write.field === DELETED_FIELD) return typeof write.value === 'boolean';
+    return true;
+};
+
+/** Store layer -> register values. Nested maps become one field per key. */
+export const flattenLayer = (layer: Layer): Record<string, unknown> => {
+    const fields: Record<string, unknown> = {};
+    Object.entries(layer).forEach(([key, value]) => {
+        if (LOCAL_ONLY_FIELDS.has(key) || STRUCTURAL_FIELDS.has(key) || value === undefined) return;
+        if (MAP_FIELDS.has(key) && value && typeof value === 'object') {
+            Object.entries(value).forEach(([entry, entryValue]) => {
+                if (entryValue !== undefined) fields[`${key}.${entry}`] = entryValue;
+            });
+            return;
+        }
+        fields[key] = value;
+    });
+    return fields;
+};
+
+/** Register values -> store layer, with the same defaults `addLayer` applies. */
+export const unflattenLayer = (layerId: string, fields: Record<string, unknown>): Layer => {
+    const layer: Record<string, any> = { id: layerId, visible: true, locked: false, opacity: 1, blendMode: 'normal' };
+    Object.entries(fields).forEach(([key, value]) => {
+        if (STRUCTURAL_FIELDS.has(key) || value === null || value === undefined) return;
+        const dot = key.indexOf('.');
+        if (dot > 0) {
+            const map = key.slice(0, dot);
+            layer[map] = { ...(layer[map] || {}), [key.slice(dot + 1)]: value };
+        } else {
+            layer[key] = value;
+        }
+    });
+    // A mask only exists while it has pixels; a bare `visible` flag left behind is not a mask.
+    if (layer.mask && typeof layer.mask.dataUrl !== 'string') delete layer.mask;
+    else if (layer.mask) layer.mask.visible = layer.mask.visible !== false;
+    return layer as Layer;
+};
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// Keys are base-36 fractions in (0, 1) without trailing zeros, compared as plain strings.
+const midpoint = (a: string, b: string | null): string => {
+    if (b !== null) {
+        let n = 0;
+        while ((a[n] || '0') === b[n]) n += 1;
+        if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+    const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+    const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+    if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+    if (b !== null && b.length > 1) return b.slice(0, 1);
+    return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/** A fractional index strictly between `before` and `after` (`null` = open end). */
+export const positionBetween = (before: string | null, after: string | null): string => {
+    const upper = after !== null && before !== null && before >= after ? null : after;
+    return midpoint(before ?? '', upper);
+};
+
+/** Every register of a snapshot as a write, ready to `merge` into another replica. */
+export const writesFromSnapshot = (snapshot: LayerStackSnapshot): FieldWrite[] => {
+    const writes: FieldWrite[] = [];
+    Object.entries(snapshot).forEach(([layerId, fields]) => {
+        Object.entries(fields).forEach(([field, register]) => {
+            writes.push({ layerId, field, value: register.value, stamp: register.stamp });
+        });
+    });
+    return writes.filter(isFieldWrite);
+};
+
+// Indices of a longest strictly increasing run of positions; those layers keep their position.
+const stableIndices = (positions: Array<string | null>): Set<number> => {
+    const lengths = positions.map(() => 0);
+    const previous = positions.map(() => -1);
+    let best = -1;
+    positions.forEach((position, i) => {
+        if (position === null) return;
+        lengths[i] = 1;
+        for (let j = 0; j < i; j += 1) {
+            const other = positions[j];
+            if (other !== null && other < position && lengths[j] + 1 > lengths[i]) {
+                lengths[i] = lengths[j] + 1;
+                previous[i] = j;
+            }
+        }
+        if (best < 0 || lengths[i] > lengths[best]) best = i;
+    });
+    const kept = new Set<number>();
+    for (let i = best; i >= 0; i = previous[i]) kept.add(i);
+    return kept;
+};
+
+export class LayerStackCrdt {
+    private registers: Map<string, Map<string, Register>> = new Map();
+    private clock = 0;
+
+    constructor(readonly actor: string) { }
+
+    toSnapshot(): LayerStackSnapshot {
+        const snapshot: LayerStackSnapshot = {};
+        this.registers.forEach((fields, layerId) => {
+            snapshot[layerId] = Object.fromEntries(fields);
+        });
+        return snapshot;
+    }
+
+    isEmpty() {
+        return this.registers.size === 0;
+    }
+
+    get(layerId: string, field: string): unknown {
+        return this.registers.get(layerId)?.get(field)?.value ?? null;
+    }
+
+    /** Merges writes from any replica and returns the ones that changed local state. */
+    merge(writes: FieldWrite[]): FieldWrite[] {
+        const applied: FieldWrite[] = [];
+        writes.forEach((write) => {
+            this.clock = Math.max(this.clock, write.stamp[0]);
+            let fields = this.registers.get(write.layerId);
+            if (!fields) {
+                fields = new Map();
+                this.registers.set(write.layerId, fields);
+            }
+            const current = fields.get(write.field);
+            // Equal stamps mean the same write seen twice.
+            if (current && compareStamps(write.stamp, current.stamp) <= 0) return;
+            fields.set(write.field, { value: write.value, stamp: write.stamp });
+            applied.push(write);
+        });
+        return applied;
+    }
+
+    /** Stamps and applies local writes; the returned list is what to send to the room. */
+    commit(changes: Array<{ layerId: string; field: string; value: unknown }>): FieldWrite[] {
+        const writes = changes.map((change) => {
+            this.clock += 1;
+            return { ...change, stamp: [this.clock, this.actor] as Stamp };
+        });
+        return this.merge(writes);
+    }
+
+    /**
+     * Writes that put back the current value of each rejected write's field, stamped above it, so
+     * a replica that already applied a rejected write rolls it back when it merges them.
+     */
+    overrule(rejected: FieldWrite[]): FieldWrite[] {
+        rejected.forEach((write) => {
+            this.clock = Math.max(this.clock, write.stamp[0]);
+        });
+        return this.commit(rejected.map(({ layerId, field }) => ({ layerId, field, value: this.get(layerId, field) })));
+    }
+
+    /** Live layers, top-most first, as store layers (without pixels or transform). */
+    layers(): Layer[] {
+        return this.liveLayerIds().map((layerId) => {
+            const fields: Record<string, unknown> = {};
+            this.registers.get(layerId)!.forEach((register, field) => {
+                fields[field] = register.value;
+            });
+            return unflattenLayer(layerId, fields);
+        });
+    }
+
+    /**
+     * Writes that bring the CRDT in line with `layers` (the store's current stack), committed
+     * locally. Only fields that actually differ are written, and only moved layers get new positions.
+     */
+    commitLayers(layers: Layer[]): FieldWrite[] {
+        const changes: Array<{ layerId: string; field: string; value: unknown }> = [];
+        const nextIds = new Set(layers.map((layer) => layer.id));
+
+        this.liveLayerIds().forEach((layerId) => {
+            if (!nextIds.has(layerId)) changes.push({ layerId, field: DELETED_FIELD, value: true });
+        });
+
+        layers.forEach((layer) => {
+            const current = this.registers.get(layer.id);
+            const flat = flattenLayer(layer);
+            if (current?.get(DELETED_FIELD)?.value === true) changes.push({ layerId: layer.id, field: DELETED_FIELD, value: false });
+            const keys = new Set(Object.keys(flat));
+            current?.forEach((_register, field) => {
+                if (!STRUCTURAL_FIELDS.has(field)) keys.add(field);
+            });
+            keys.forEach((field) => {
+                const value = flat[field] ?? null;
+                if (!sameValue(value, current?.get(field)?.value ?? null)) changes.push({ layerId: layer.id, field, value });
+            });
+        });
+
+        const positions = layers.map((layer) => {
+            const fields = this.registers.get(layer.id);
+            const position = fields?.get(POSITION_FIELD)?.value;
+            return typeof position === 'string' && fields?.get(DELETED_FIELD)?.value !== true ? position : null;
+        });
+        const kept = stableIndices(positions);
+        let before: string | null = null;
+        layers.forEach((layer, i) => {
+            if (kept.has(i)) {
+                before = positions[i];
+                return;
+            }
+            let after: string | null = null;
+            for (let j = i + 1; j < layers.length; j += 1) {
+                if (kept.has(j)) {
+                    after = positions[j];
+                    break;
+                }
+            }
+            const position = positionBetween(before, after);
+            changes.push({ layerId: layer.id, field: POSITION_FIELD, value: position });
+            before = position;
+        });
+
+        return changes.length > 0 ? this.commit(changes) : [];
+    }
+
+    private liveLayerIds(): string[] {
+        const live: Array<{ layerId: string; position: string }> = [];
+        this.registers.forEach((fields, layerId) => {
+            const position = fields.get(POSITION_FIELD)?.value;
+            if (typeof position !== 'string' || fields.get(DELETED_FIELD)?.value === true) return;
+            live.push({ layerId, position });
+        });
+        // Concurrent inserts can pick the same position; the layer id breaks the tie everywhere alike.
+        live.sort((a, b) => (a.position < b.position ? -1 : a.position > b.position ? 1 : a.layerId < b.layerId ? -1 : 1));
+        return live.map((entry) => entry.layerId);
+    }
+}
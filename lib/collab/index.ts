@@ -1,47 +1,224 @@
-export interface CollaborativeUser {
-    id: string;
-    name: string;
-    color: string;
-    role?: 'viewer' | 'editor';
-    cursor?: { x: number; y: number };
+import type { LayerStackSnapshot } from './crdt';
+import { CLOSE_UNAUTHORIZED, LOCK_RENEW_MS } from './ops';
+import type { ClientMessage, CollabRole, CursorPosition, LayerLease, LayerOp, PresenceUser, ServerMessage } from './ops';
+
+export type CollaborativeUser = PresenceUser;
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface RemoteOpMeta {
+    seq: number;
+    clientId: string;
+    local: boolean; // Our own op coming back as the server's ack
+}
+
+export interface CollaborationEngineOptions {
+    url?: string; // Defaults to NEXT_PUBLIC_COLLAB_URL, then ws://<page host>:4001
+    user: CollaborativeUser;
+    /** Fetches a fresh room token when the server turns the current one away (e.g. it expired). */
+    refreshToken?: () => Promise<string>;
 }
 
+const DEFAULT_PORT = 4001;
+const CURSOR_INTERVAL_MS = 50;
+const MAX_RECONNECT_DELAY_MS = 15_000;
+const LOCK_IDLE_MS = 3_000; // A touched layer's lease is released after this long without activity
+
+const defaultServerUrl = () => {
+    if (process.env.NEXT_PUBLIC_COLLAB_URL) return process.env.NEXT_PUBLIC_COLLAB_URL;
+    if (typeof window === 'undefined') return `ws://localhost:${DEFAULT_PORT}`;
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return `${protocol}//${window.location.hostname}:${DEFAULT_PORT}`;
+};
+
+/**
+ * Browser side of the room server in `server/collab-server.ts`. Sends local layer ops, receives
+ * every op in server order (including our own, as acks), and tracks presence and cursors.
+ * Reconnects with backoff; ops the server never acknowledged (including everything edited while
+ * offline) are resent after the new welcome. The role the client acts with is the one in its
+ * signed token, as reported back in the welcome; the server rejects ops from viewers.
+ *
+ * Layers being edited are leased through `touchLayers`/`holdLayers`; the engine renews those
+ * leases while they are in use and releases them once idle.
+ */
 export class CollaborationEngine {
     private users: Map<string, CollaborativeUser> = new Map();
     private ws: WebSocket | null = null;
     private listeners: Array<(users: CollaborativeUser[]) => void> = [];
+    private opListeners: Array<(op: LayerOp, meta: RemoteOpMeta) => void> = [];
+    private welcomeListeners: Array<(state: LayerStackSnapshot, seq: number) => void> = [];
+    private statusListeners: Array<(status: CollabStatus) => void> = [];
+    private lockListeners: Array<(locks: LayerLease[]) => void> = [];
+    private notifyListeners: Array<(topic: string, userId: string) => void> = [];
+    private locks: LayerLease[] = [];
+    private leasedLayers: Set<string> = new Set(); // Leases this client has asked for
+    private touchedLayers: Map<string, number> = new Map(); // layerId -> last activity
+    private heldLayers: Map<string, number> = new Map(); // layerId -> open holds
+    private lockTimer: ReturnType<typeof setTimeout> | null = null;
+    private localUser: CollaborativeUser;
+    private url: string;
+    private refreshToken?: () => Promise<string>;
+    private tokenRejected = false;
+    private role: CollabRole | null = null;
+    private clientId: string | null = null;
+    private clientSeq = 0;
+    private inFlight: Map<number, LayerOp> = new Map();
+    private status: CollabStatus = 'disconnected';
+    private closedByUser = false;
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private cursorTimer: ReturnType<typeof setTimeout> | null = null;
+    private pendingCursor: CursorPosition | null | undefined;
 
-    constructor(private roomId: string, private token: string) {
-        // In a real implementation this would connect to PartyKit or a WS server.
-        console.log(`[Collab] Initializing for room ${roomId}`);
+    constructor(private roomId: string, private token: string, options: CollaborationEngineOptions) {
+        this.localUser = options.user;
+        this.url = (options.url || defaultServerUrl()).replace(/\/+$/, '');
+        this.refreshToken = options.refreshToken;
+        this.users.set(this.localUser.id, this.localUser);
     }
 
     connect() {
-        // Stub for WS Connection
-        console.log('[Collab] Connected to room sync server');
+        this.closedByUser = false;
+        if (this.ws) return;
+        this.setStatus('connecting');
+
+        const ws = new WebSocket(`${this.url}/rooms/${encodeURIComponent(this.roomId)}`);
+        this.ws = ws;
+        ws.onopen = () => this.send({ type: 'hello', token: this.token, user: this.localUser });
+        ws.onmessage = (event) => {
+            try {
+                this.handleMessage(JSON.parse(String(event.data)) as ServerMessage);
+            } catch (error) {
+                console.warn('[Collab] Ignoring unreadable message', error);
+            }
+        };
+        ws.onclose = (event) => {
+            if (this.ws !== ws) return;
+            this.ws = null;
+            this.clientId = null;
+            this.tokenRejected = event.code === CLOSE_UNAUTHORIZED;
+            this.replaceLocks([]);
+            this.setStatus('disconnected');
+            this.scheduleReconnect();
+        };
+        ws.onerror = () => {
+            // onclose follows and handles the reconnect.
+        };
     }
 
-    updateCursor(x: number, y: number) {
-        // Stub for broadcasting cursor movement
-        const me = this.users.get(this.token);
-        if (me) {
-            me.cursor = { x, y };
-            this.emit();
-        }
+    disconnect() {
+        this.closedByUser = true;
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        if (this.cursorTimer) clearTimeout(this.cursorTimer);
+        if (this.lockTimer) clearTimeout(this.lockTimer);
+        this.reconnectTimer = null;
+        this.cursorTimer = null;
+        this.lockTimer = null;
+        this.leasedLayers.clear();
+        this.touchedLayers.clear();
+        this.heldLayers.clear();
+        this.replaceLocks([]);
+        const ws = this.ws;
+        this.ws = null;
+        this.clientId = null;
+        ws?.close(1000, 'Left room');
+        this.setStatus('disconnected');
     }
 
-    broadcastLayerChange(layerId: string, diff: any) {
-        // Stub for broadcasting a non-destructive layer state change (delta sync)
+    getStatus() {
+        return this.status;
     }
 
-    disconnect() {
-        if (this.ws) {
-            this.ws.close();
+    /** The role granted by the server's last welcome; `null` before the first one. */
+    getRole(): CollabRole | null {
+        return this.role;
+    }
+
+    /** The signed room token this engine joined with; it also authorizes asset uploads. */
+    getToken() {
+        return this.token;
+    }
+
+    getClientId() {
+        return this.clientId;
+    }
+
+    /** Marks layers as being edited; their leases are kept until idle for LOCK_IDLE_MS. */
+    touchLayers(layerIds: string[]) {
+        if (this.role === 'viewer' || layerIds.length === 0) return;
+        const now = Date.now();
+        layerIds.forEach((layerId) => this.touchedLayers.set(layerId, now));
+        const fresh = layerIds.filter((layerId) => !this.leasedLayers.has(layerId));
+        fresh.forEach((layerId) => this.leasedLayers.add(layerId));
+        if (fresh.length > 0) this.send({ type: 'lock', layerIds: fresh });
+        this.scheduleLockRenewal();
+    }
+
+    /** Keeps layers leased, however long it takes, until the returned function is called. */
+    holdLayers(layerIds: string[]): () => void {
+        if (this.role === 'viewer' || layerIds.length === 0) return () => { };
+        layerIds.forEach((layerId) => this.heldLayers.set(layerId, (this.heldLayers.get(layerId) ?? 0) + 1));
+        this.touchLayers(layerIds);
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            layerIds.forEach((layerId) => {
+                const holds = (this.heldLayers.get(layerId) ?? 1) - 1;
+                if (holds > 0) this.heldLayers.set(layerId, holds);
+                else this.heldLayers.delete(layerId);
+            });
+            // The idle countdown starts from the end of the hold.
+            this.touchLayers(layerIds);
+        };
+    }
+
+    /** Fires with the room's lease table, own leases included; empty while disconnected. */
+    onLocks(listener: (locks: LayerLease[]) => void) {
+        this.lockListeners.push(listener);
+        listener(this.locks);
+        return () => {
+            this.lockListeners = this.lockListeners.filter((l) => l !== listener);
+        };
+    }
+
+    /** Lets the other clients know `topic` changed; they refetch whatever it refers to. */
+    notify(topic: string) {
+        this.send({ type: 'notify', topic });
+    }
+
+    onNotify(listener: (topic: string, userId: string) => void) {
+        this.notifyListeners.push(listener);
+        return () => {
+            this.notifyListeners = this.notifyListeners.filter((l) => l !== listener);
+        };
+    }
+
+    /** Queues `op` for the server; it comes back through `onOp` once it has been ordered. */
+    sendOp(op: LayerOp) {
+        this.clientSeq += 1;
+        this.inFlight.set(this.clientSeq, op);
+        if (this.clientId) this.send({ type: 'op', clientSeq: this.clientSeq, op });
+    }
+
+    /** Cursor in canvas document coordinates; `null` when the pointer leaves the canvas. */
+    updateCursor(x: number | null, y?: number) {
+        const cursor = x === null || y === undefined ? null : { x, y };
+        this.localUser = { ...this.localUser, cursor: cursor ?? undefined };
+        this.users.set(this.localUser.id, this.localUser);
+        this.pendingCursor = cursor;
+        if (!this.cursorTimer) {
+            this.cursorTimer = setTimeout(() => {
+                this.cursorTimer = null;
+                if (this.pendingCursor !== undefined) this.send({ type: 'cursor', cursor: this.pendingCursor });
+                this.pendingCursor = undefined;
+            }, CURSOR_INTERVAL_MS);
         }
     }
 
     setLocalUser(user: CollaborativeUser) {
-        this.users.set(this.token, user);
+        this.localUser = user;
+        this.users.set(user.id, user);
         this.emit();
     }
 
@@ -58,8 +235,156 @@ export class CollaborationEngine {
         };
     }
 
+    onOp(listener: (op: LayerOp, meta: RemoteOpMeta) => void) {
+        this.opListeners.push(listener);
+        return () => {
+            this.opListeners = this.opListeners.filter((l) => l !== listener);
+        };
+    }
+
+    /** Fires on every (re)join with the room's full CRDT state. */
+    onWelcome(listener: (state: LayerStackSnapshot, seq: number) => void) {
+        this.welcomeListeners.push(listener);
+        return () => {
+            this.welcomeListeners = this.welcomeListeners.filter((l) => l !== listener);
+        };
+    }
+
+    onStatus(listener: (status: CollabStatus) => void) {
+        this.statusListeners.push(listener);
+        listener(this.status);
+        return () => {
+            this.statusListeners = this.statusListeners.filter((l) => l !== listener);
+        };
+    }
+
+    private handleMessage(message: ServerMessage) {
+        switch (message.type) {
+            case 'welcome': {
+                this.clientId = message.clientId;
+                this.reconnectAttempts = 0;
+                this.role = message.user.role === 'editor' ? 'editor' : 'viewer';
+                this.localUser = { ...this.localUser, ...message.user, cursor: this.localUser.cursor };
+                this.replaceUsers(message.users);
+                this.setStatus('connected');
+                this.replaceLocks(message.locks || []);
+                this.welcomeListeners.forEach((listener) => listener(message.state, message.seq));
+                if (this.role === 'viewer') this.leasedLayers.clear();
+                if (this.leasedLayers.size > 0) this.send({ type: 'lock', layerIds: Array.from(this.leasedLayers) });
+                // Anything not acknowledged before a drop may or may not have landed; CRDT merges
+                // are idempotent, so resending is safe.
+                this.inFlight.forEach((op, clientSeq) => this.send({ type: 'op', clientSeq, op }));
+                return;
+            }
+            case 'op': {
+                const local = message.clientId === this.clientId;
+                if (local) this.inFlight.delete(message.clientSeq);
+                const meta: RemoteOpMeta = { seq: message.seq, clientId: message.clientId, local };
+                this.opListeners.forEach((listener) => listener(message.op, meta));
+                return;
+            }
+            case 'presence':
+                this.replaceUsers(message.users);
+                return;
+            case 'cursor': {
+                const user = this.users.get(message.userId);
+                if (user) this.upsertRemoteUser({ ...user, cursor: message.cursor ?? undefined });
+                return;
+            }
+            case 'locks':
+                this.replaceLocks(message.locks);
+                return;
+            case 'notify':
+                this.notifyListeners.forEach((listener) => listener(message.topic, message.userId));
+                return;
+            case 'error':
+                console.warn(`[Collab] Server rejected message: ${message.message}`);
+                if (message.clientSeq !== undefined) this.inFlight.delete(message.clientSeq);
+                return;
+        }
+    }
+
+    private replaceUsers(users: CollaborativeUser[]) {
+        const next = new Map<string, CollaborativeUser>();
+        users.forEach((user) => {
+            // Keep cursors we already know about; presence lists carry the latest the server saw.
+            next.set(user.id, user.id === this.localUser.id ? this.localUser : { ...this.users.get(user.id), ...user });
+        });
+        next.set(this.localUser.id, this.localUser);
+        this.users = next;
+        this.emit();
+    }
+
+    private replaceLocks(locks: LayerLease[]) {
+        if (locks.length === 0 && this.locks.length === 0) return;
+        this.locks = locks;
+        this.lockListeners.forEach((listener) => listener(locks));
+    }
+
+    // Renews leases still in use and releases the ones that went idle.
+    private renewLocks() {
+        this.lockTimer = null;
+        const now = Date.now();
+        const keep: string[] = [];
+        const release: string[] = [];
+        this.leasedLayers.forEach((layerId) => {
+            const active = this.heldLayers.has(layerId) || now - (this.touchedLayers.get(layerId) ?? 0) < LOCK_IDLE_MS;
+            (active ? keep : release).push(layerId);
+        });
+        release.forEach((layerId) => {
+            this.leasedLayers.delete(layerId);
+            this.touchedLayers.delete(layerId);
+        });
+        if (release.length > 0) this.send({ type: 'unlock', layerIds: release });
+        if (keep.length > 0) this.send({ type: 'lock', layerIds: keep });
+        this.scheduleLockRenewal();
+    }
+
+    private scheduleLockRenewal() {
+        if (this.lockTimer || this.leasedLayers.size === 0) return;
+        this.lockTimer = setTimeout(() => this.renewLocks(), LOCK_RENEW_MS);
+    }
+
+    private send(message: ClientMessage) {
+        if (this.ws?.readyState === WebSocket.OPEN) this.ws.send(JSON.stringify(message));
+    }
+
+    private scheduleReconnect() {
+        if (this.closedByUser || this.reconnectTimer) return;
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 500 * 2 ** this.reconnectAttempts);
+        this.reconnectAttempts += 1;
+        this.reconnectTimer = setTimeout(async () => {
+            if (this.tokenRejected) {
+                if (!this.refreshToken) {
+                    console.warn('[Collab] Room token rejected; not reconnecting');
+                    this.reconnectTimer = null;
+                    return;
+                }
+                try {
+                    this.token = await this.refreshToken();
+                    this.tokenRejected = false;
+                } catch (error) {
+                    console.warn('[Collab] Failed to refresh room token', error);
+                }
+            }
+            this.reconnectTimer = null;
+            if (this.tokenRejected) this.scheduleReconnect();
+            else if (!this.closedByUser) this.connect();
+        }, delay);
+    }
+
+    private setStatus(status: CollabStatus) {
+        if (this.status === status) return;
+        this.status = status;
+        this.statusListeners.forEach((listener) => listener(status));
+    }
+
     private emit() {
         const snapshot = Array.from(this.users.values());
         this.listeners.forEach((listener) => listener(snapshot));
     }
 }
+
+export * from './crdt';
+export * from './ops';
+export * from './binding';
@@ -0,0 +1,95 @@
+import { FieldWrite, LayerStackSnapshot, isFieldWrite } from './crdt';
+
+/**
+ * Wire format shared by the browser engine and the room server (`server/collab-server.ts`).
+ * Only relative imports here: the server compiles this file for plain Node.
+ */
+
+export interface LayerTransform {
+    left: number;
+    top: number;
+    scaleX: number;
+    scaleY: number;
+    angle: number;
+    skewX?: number;
+    skewY?: number;
+    flipX?: boolean;
+    flipY?: boolean;
+    originX?: string;
+    originY?: string;
+}
+
+/** One batch of CRDT register writes; applying it twice or out of order is harmless. */
+export interface LayerOp {
+    writes: FieldWrite[];
+}
+
+export interface CursorPosition {
+    x: number; // Canvas document coordinates, not screen pixels
+    y: number;
+}
+
+export type CollabRole = 'viewer' | 'editor';
+
+export interface PresenceUser {
+    id: string;
+    name: string;
+    color: string;
+    role?: CollabRole;
+    cursor?: CursorPosition;
+}
+
+/** A soft edit lock: while a user is working on a layer, others see it as taken. */
+export interface LayerLease {
+    layerId: string;
+    clientId: string;
+    userId: string;
+    name: string;
+    color: string;
+}
+
+// Clients renew the leases they use every LOCK_RENEW_MS; the server drops any not renewed
+// within LOCK_LEASE_MS, so a stalled client cannot hold a layer forever.
+export const LOCK_LEASE_MS = 6_000;
+export const LOCK_RENEW_MS = 2_000;
+
+export type ClientMessage =
+    | { type: 'hello'; token: string; user: PresenceUser }
+    | { type: 'op'; clientSeq: number; op: LayerOp }
+    | { type: 'cursor'; cursor: CursorPosition | null }
+    // Acquires or renews; layers already leased to someone else are left alone.
+    | { type: 'lock'; layerIds: string[] }
+    | { type: 'unlock'; layerIds: string[] }
+    // Tells the others that something outside the layer stack changed (e.g. 'comments').
+    | { type: 'notify'; topic: string };
+
+export type ServerMessage =
+    // `user` is how the server sees this client: id, name and role come from its token.
+    | {
+        type: 'welcome';
+        clientId: string;
+        seq: number;
+        user: PresenceUser;
+        state: LayerStackSnapshot;
+        users: PresenceUser[];
+        locks: LayerLease[];
+    }
+    // Broadcast to every client including the sender, which treats its own copy as the ack.
+    | { type: 'op'; seq: number; clientId: string; clientSeq: number; op: LayerOp }
+    | { type: 'presence'; users: PresenceUser[] }
+    | { type: 'cursor'; userId: string; cursor: CursorPosition | null }
+    // The room's full lease table, sent whenever a lease is granted or released.
+    | { type: 'locks'; locks: LayerLease[] }
+    | { type: 'notify'; topic: string; userId: string }
+    | { type: 'error'; message: string; clientSeq?: number };
+
+/** Close code for a missing, forged, expired or wrong-room token; clients fetch a new one before retrying. */
+export const CLOSE_UNAUTHORIZED = 4003;
+
+const MAX_WRITES_PER_OP = 10_000;
+
+/** Structural check for ops arriving off the wire; the server drops anything that fails it. */
+export const isLayerOp = (value: unknown): value is LayerOp => {
+    const writes = (value as LayerOp | null)?.writes;
+    return Array.isArray(writes) && writes.length > 0 && writes.length <= MAX_WRITES_PER_OP && writes.every(isFieldWrite);
+};
@@ -0,0 +1,138 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { CollabRole } from './ops';
+
+/**
+ * Room tokens: `<base64url(JSON claims)>.<base64url(HMAC-SHA256)>`, signed with
+ * `COLLAB_TOKEN_SECRET`. Minted by `/api/collab/token` and verified by the room server, so the
+ * role a client acts with is the one the server granted, not whatever the browser claims.
+ * Session tokens (who is signed in) use the same signature and live in an httpOnly cookie.
+ * Server-only: this module uses `node:crypto` and the secret.
+ */
+
+export type { CollabRole };
+
+export interface RoomTokenClaims {
+    roomId: string;
+    userId: string;
+    name: string;
+    role: CollabRole;
+    exp: number; // Unix seconds
+}
+
+const DEV_SECRET = 'zerothlayer-dev-collab-secret';
+export const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+
+let warnedAboutDevSecret = false;
+
+const getTokenSecret = () => {
+    const secret = process.env.COLLAB_TOKEN_SECRET;
+    if (secret) return secret;
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('COLLAB_TOKEN_SECRET must be set in production');
+    }
+    if (!warnedAboutDevSecret) {
+        console.warn('[Collab] COLLAB_TOKEN_SECRET is not set; using the development secret');
+        warnedAboutDevSecret = true;
+    }
+    return DEV_SECRET;
+};
+
+const sign = (payload: string) => createHmac('sha256', getTokenSecret()).update(payload).digest('base64url');
+
+// The JSON claims of a token whose signature checks out; `null` otherwise.
+const readSigned = (token: unknown): any => {
+    if (typeof token !== 'string') return null;
+    const [payload, signature, extra] = token.split('.');
+    if (!payload || !signature || extra !== undefined) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    try {
+        return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+};
+
+export const signRoomToken = (
+    claims: Omit<RoomTokenClaims, 'exp'>,
+    ttlSeconds = Number(process.env.COLLAB_TOKEN_TTL_SECONDS) || DEFAULT_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: string } => {
+    const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const payload = Buffer.from(JSON.stringify({ ...claims, exp })).toString('base64url');
+    return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+/** Claims of a genuine, unexpired token (for `roomId`, when given); `null` otherwise. */
+export const verifyRoomToken = (token: unknown, roomId?: string): RoomTokenClaims | null => {
+    const claims: RoomTokenClaims | null = readSigned(token);
+    if (!claims || typeof claims.roomId !== 'string' || typeof claims.userId !== 'string') return null;
+    if (claims.role !== 'viewer' && claims.role !== 'editor') return null;
+    if (!Number.isFinite(claims.exp) || claims.exp * 1000 <= Date.now()) return null;
+    if (roomId !== undefined && claims.roomId !== roomId) return null;
+    return claims;
+};
+
+/** Reads `Authorization: Bearer <token>` from a request. */
+export const bearerToken = (req: Request) => {
+    const header = req.headers.get('authorization') || '';
+    return header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : null;
+};
+
+/** Who is signed in: issued by `/api/auth/local`, carried in an httpOnly cookie. */
+export interface SessionUser {
+    id: string;
+    name: string;
+}
+
+export const SESSION_COOKIE = 'zl_session';
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+export const signSessionToken = (user: SessionUser) => {
+    const exp = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+    const payload = Buffer.from(JSON.stringify({ kind: 'session', id: user.id, name: user.name, exp })).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+};
+
+/** The signed-in user of a request, from its session cookie; `null` when absent, forged or expired. */
+export const sessionUser = (req: Request): SessionUser | null => {
+    const cookie = (req.headers.get('cookie') || '')
+        .split(';')
+        .map((part) => part.trim())
+        .find((part) => part.startsWith(`${SESSION_COOKIE}=`));
+    const claims = readSigned(cookie?.slice(SESSION_COOKIE.length + 1));
+    if (claims?.kind !== 'session' || typeof claims.id !== 'string' || typeof claims.name !== 'string') return null;
+    if (!Number.isFinite(claims.exp) || claims.exp * 1000 <= Date.now()) return null;
+    return { id: claims.id, name: claims.name };
+};
+
+/** A caller of a project's routes, as established by the server. */
+export interface RequestIdentity {
+    userId: string;
+    name: string;
+    role: CollabRole | null;
+}
+
+/**
+ * Who is calling a project's routes: the room token in `Authorization` (for `roomId`) with its
+ * role, else the signed-in session with no role; `null` for anonymous requests.
+ */
+export const requestIdentity = (req: Request, roomId: string): RequestIdentity | null => {
+    const claims = verifyRoomToken(bearerToken(req), roomId);
+    if (claims) return { userId: claims.userId, name: claims.name, role: claims.role };
+    const session = sessionUser(req);
+    return session ? { userId: session.id, name: session.name, role: null } : null;
+};
+
+/** Whether a request may change a project: an editor token for its room, or being its owner. */
+export const canEditProject = (req: Request, project: { id: string; ownerId: string }) => {
+    const identity = requestIdentity(req, project.id);
+    return Boolean(identity && (identity.role === 'editor' || identity.userId === project.ownerId));
+};
+
+/** Whether a request may read a project: any room token for it, or being its owner. */
+export const canViewProject = (req: Request, project: { id: string; ownerId: string }) => {
+    const identity = requestIdentity(req, project.id);
+    return Boolean(identity && (identity.role !== null || identity.userId === project.ownerId));
+};
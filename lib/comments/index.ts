@@ -0,0 +1,106 @@
+/**
+ * Review comments shared by `/api/projects/[id]/comments` and the editor. A thread is pinned
+ * to the document by its anchor:
+ * - `point` / `rect`: document coordinates, the same space as selections;
+ * - `layer`: a spot in the layer's own coordinate space, so the pin travels with the layer when
+ *   it is moved or transformed, and is rebased when its pixels are re-rasterized (crops).
+ */
+
+export interface CommentAuthor {
+    id: string;
+    name: string;
+}
+
+export type CommentAnchor =
+    | { kind: 'point'; x: number; y: number }
+    | { kind: 'rect'; x: number; y: number; width: number; height: number }
+    | { kind: 'layer'; layerId: string; x: number; y: number };
+
+export interface CommentReply {
+    id: string;
+    author: CommentAuthor;
+    text: string;
+    mentions: string[];
+    createdAt: string;
+}
+
+export interface CommentThread {
+    id: string;
+    projectId: string;
+    anchor: CommentAnchor;
+    author: CommentAuthor;
+    text: string;
+    mentions: string[];
+    resolved: boolean;
+    resolvedBy?: CommentAuthor;
+    resolvedAt?: string;
+    replies: CommentReply[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export const MAX_COMMENT_LENGTH = 4000;
+export const MAX_REPLIES_PER_THREAD = 500;
+
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9][\w.-]{0,63})/g;
+
+/** `@name` handles in `text`, without the `@`, de-duplicated in order of appearance. */
+export const extractMentions = (text: string): string[] => {
+    const mentions: string[] = [];
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+        const name = match[2].replace(/[.-]+$/, '');
+        if (name && !mentions.some((existing) => existing.toLowerCase() === name.toLowerCase())) mentions.push(name);
+    }
+    return mentions;
+};
+
+/** Splits `text` into plain and `@mention` runs for rendering. */
+export const splitMentions = (text: string): Array<{ text: string; mention: boolean }> => {
+    const parts: Array<{ text: string; mention: boolean }> = [];
+    let last = 0;
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+        const start = (match.index ?? 0) + match[1].length;
+        const name = match[2].replace(/[.-]+$/, '');
+        if (start > last) parts.push({ text: text.slice(last, start), mention: false });
+        parts.push({ text: `@${name}`, mention: true });
+        last = start + name.length + 1;
+    }
+    if (last < text.length) parts.push({ text: text.slice(last), mention: false });
+    return parts;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Structural check for anchors coming from clients; returns a clean copy or `null`. */
+export const sanitizeAnchor = (value: any): CommentAnchor | null => {
+    if (!value || typeof value !== 'object') return null;
+    if (!isFiniteNumber(value.x) || !isFiniteNumber(value.y)) return null;
+    switch (value.kind) {
+        case 'point':
+            return { kind: 'point', x: value.x, y: value.y };
+        case 'rect':
+            if (!isFiniteNumber(value.width) || !isFiniteNumber(value.height) || value.width < 0 || value.height < 0) return null;
+            return { kind: 'rect', x: value.x, y: value.y, width: value.width, height: value.height };
+        case 'layer':
+            if (typeof value.layerId !== 'string' || !value.layerId || value.layerId.length > 128) return null;
+            return { kind: 'layer', layerId: value.layerId, x: value.x, y: value.y };
+        default:
+            return null;
+    }
+};
+
+export const sanitizeAuthor = (value: any): CommentAuthor => ({
+    id: typeof value?.id === 'string' && value.id ? value.id.slice(0, 128) : 'anonymous',
+    name: typeof value?.name === 'string' && value.name.trim() ? value.name.trim().slice(0, 64) : 'Anonymous'
+});
+
+/** Moves a layer anchor into a new layer frame (`remap` takes old layer-local to new layer-local). */
+export const rebaseAnchor = (
+    anchor: CommentAnchor,
+    layerId: string,
+    remap: (point: { x: number; y: number }) => { x: number; y: number }
+): CommentAnchor => {
+    if (anchor.kind !== 'layer' || anchor.layerId !== layerId) return anchor;
+    const { x, y } = remap({ x: anchor.x, y: anchor.y });
+    return { ...anchor, x, y };
+};
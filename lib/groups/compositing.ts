@@ -0,0 +1,202 @@
+import type { FabricObject, StaticCanvas } from 'fabric';
+import type { Layer } from '../layers';
+import { DEFAULT_GROUP_MODE, GroupMode, isGroupLayer, isLayerShown } from './index';
+
+/** What a group contributes when its children are drawn. */
+export interface GroupComposite {
+    id: string;
+    parentId: string | null;
+    mode: GroupMode;
+    opacity: number;
+    blendMode: string;
+    /** Mask data URL (white = visible), in document coordinates like layer masks. */
+    mask: string | null;
+}
+
+export interface GroupCompositePlan {
+    groups: Map<string, GroupComposite>;
+    /** The group each canvas object's layer sits in directly. */
+    groupOf: Map<FabricObject, string>;
+}
+
+/** `null` when no visible group changes how its children are drawn. */
+export const buildGroupCompositePlan = (
+    layers: Layer[],
+    objectOf: (layerId: string) => FabricObject | undefined
+): GroupCompositePlan | null => {
+    const groups = new Map<string, GroupComposite>();
+    layers.forEach((layer) => {
+        if (!isGroupLayer(layer) || !isLayerShown(layers, layer)) return;
+        groups.set(layer.id, {
+            id: layer.id,
+            parentId: layer.parentId ?? null,
+            mode: layer.groupMode ?? DEFAULT_GROUP_MODE,
+            opacity: layer.opacity ?? 1,
+            blendMode: layer.blendMode || 'normal',
+            mask: layer.mask?.visible ? layer.mask.dataUrl : null,
+        });
+    });
+    if (groups.size === 0) return null;
+
+    const groupOf = new Map<FabricObject, string>();
+    layers.forEach((layer) => {
+        const obj = layer.parentId && groups.has(layer.parentId) ? objectOf(layer.id) : undefined;
+        if (obj) groupOf.set(obj, layer.parentId!);
+    });
+    return { groups, groupOf };
+};
+
+export const compositeOperation = (blendMode: string) =>
+    (blendMode === 'normal' ? 'source-over' : blendMode) as GlobalCompositeOperation;
+
+// Masks are black/white images; drawing needs them as alpha. Converted once per data URL.
+const MAX_CACHED_MASKS = 16;
+const maskCache = new Map<string, HTMLCanvasElement | null>();
+
+/** The mask as an alpha canvas; `null` while it decodes, after which `onReady` is called. */
+export const alphaMask = (dataUrl: string, onReady: () => void): HTMLCanvasElement | null => {
+    if (maskCache.has(dataUrl)) return maskCache.get(dataUrl) ?? null;
+    maskCache.set(dataUrl, null);
+    if (maskCache.size > MAX_CACHED_MASKS) maskCache.delete(maskCache.keys().next().value!);
+
+    const img = new Image();
+    img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth || 1;
+        canvas.height = img.naturalHeight || 1;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.drawImage(img, 0, 0);
+        const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const data = pixels.data;
+        for (let i = 0; i < data.length; i += 4) {
+            const luminance = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+            data[i + 3] = Math.round(luminance * (data[i + 3] / 255));
+        }
+        ctx.putImageData(pixels, 0, 0);
+        if (maskCache.has(dataUrl)) maskCache.set(dataUrl, canvas);
+        onReady();
+    };
+    img.src = dataUrl;
+    return null;
+};
+
+/**
+ * Makes `canvas` draw its layer objects group by group, following `getPlan()` (see the module
+ * doc in `./index` for what pass-through and isolated mean). Exports go through the same path,
+ * so they match what is on screen.
+ */
+export const installGroupCompositing = (canvas: StaticCanvas, getPlan: () => GroupCompositePlan | null) => {
+    const renderDirect = canvas._renderObjects.bind(canvas);
+    // Scratch surfaces, two per nesting depth.
+    const surfaces: HTMLCanvasElement[] = [];
+    const surface = (index: number, width: number, height: number) => {
+        const element = surfaces[index] ?? (surfaces[index] = document.createElement('canvas'));
+        if (element.width !== width || element.height !== height) {
+            element.width = width;
+            element.height = height;
+        }
+        const ctx = element.getContext('2d')!;
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.clearRect(0, 0, width, height);
+        return ctx;
+    };
+
+    const chainOf = (plan: GroupCompositePlan, obj: FabricObject) => {
+        const chain: string[] = [];
+        for (let id = plan.groupOf.get(obj) ?? null; id && !chain.includes(id); id = plan.groups.get(id)?.parentId ?? null) {
+            if (!plan.groups.has(id)) break;
+            chain.unshift(id);
+        }
+        return chain;
+    };
+
+    // The group directly inside `containerId` that `obj` belongs to, if any.
+    const groupUnder = (plan: GroupCompositePlan, obj: FabricObject, containerId: string | null) => {
+        const chain = chainOf(plan, obj);
+        if (containerId === null) return chain[0] ?? null;
+        const index = chain.indexOf(containerId);
+        return index >= 0 ? chain[index + 1] ?? null : null;
+    };
+
+    const applyMask = (ctx: CanvasRenderingContext2D, transform: DOMMatrix, mask: string | null) => {
+        if (!mask) return;
+        const alpha = alphaMask(mask, () => canvas.requestRenderAll());
+        ctx.save();
+        if (alpha) {
+            ctx.setTransform(transform);
+            ctx.globalCompositeOperation = 'destination-in';
+            ctx.drawImage(alpha, 0, 0);
+        } else {
+            // Not decoded yet: hide the group for a frame rather than flash it unmasked.
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        }
+        ctx.restore();
+    };
+
+    const renderRun = (ctx: CanvasRenderingContext2D, objects: FabricObject[], plan: GroupCompositePlan, containerId: string | null, depth: number) => {
+        let start = 0;
+        while (start < objects.length) {
+            const groupId = groupUnder(plan, objects[start], containerId);
+            let end = start + 1;
+            while (end < objects.length && groupUnder(plan, objects[end], containerId) === groupId) end += 1;
+            const run = objects.slice(start, end);
+            if (groupId) renderGroup(ctx, run, plan, plan.groups.get(groupId)!, depth);
+            else renderDirect(ctx, run);
+            start = end;
+        }
+    };
+
+    const renderGroup = (ctx: CanvasRenderingContext2D, objects: FabricObject[], plan: GroupCompositePlan, group: GroupComposite, depth: number) => {
+        const isolated = group.mode === 'isolated';
+        if (!isolated && group.opacity >= 1 && !group.mask) {
+            renderRun(ctx, objects, plan, group.id, depth);
+            return;
+        }
+
+        const { width, height } = ctx.canvas;
+        const transform = ctx.getTransform();
+        const result = surface(depth * 2, width, height);
+
+        if (isolated) {
+            result.setTransform(transform);
+            renderRun(result, objects, plan, group.id, depth + 1);
+            applyMask(result, transform, group.mask);
+            ctx.save();
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.globalAlpha = group.opacity;
+            ctx.globalCompositeOperation = compositeOperation(group.blendMode);
+            ctx.drawImage(result.canvas, 0, 0);
+            ctx.restore();
+            return;
+        }
+
+        // Pass-through: children draw onto the real backdrop; the masked, faded result is then
+        // laid back over a copy of that backdrop.
+        const backdrop = surface(depth * 2 + 1, width, height);
+        backdrop.drawImage(ctx.canvas, 0, 0);
+        renderRun(ctx, objects, plan, group.id, depth + 1);
+        result.drawImage(ctx.canvas, 0, 0);
+        applyMask(result, transform, group.mask);
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalCompositeOperation = 'copy';
+        ctx.drawImage(backdrop.canvas, 0, 0);
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.globalAlpha = group.opacity;
+        ctx.drawImage(result.canvas, 0, 0);
+        ctx.restore();
+    };
+
+    canvas._renderObjects = (ctx: CanvasRenderingContext2D, objects: FabricObject[]) => {
+        const plan = getPlan();
+        if (!plan) {
+            renderDirect(ctx, objects);
+            return;
+        }
+        renderRun(ctx, objects, plan, null, 0);
+    };
+};
@@ -0,0 +1,158 @@
+import type { Layer } from '../layers';
+
+/**
+ * Layer groups. The store keeps one flat, top-first `layers` array; a layer belongs to a group
+ * through `parentId`, and a group's whole subtree sits directly below the group entry (the same
+ * layout PSD uses). The helpers here keep that layout when layers move and rebuild it from
+ * whatever `parentId`s say when it has been broken (collaborators moving layers concurrently,
+ * hand-edited project files).
+ *
+ * How a group composites its children:
+ * - `pass-through` (the default): children blend straight into what is below the group; the
+ *   group's opacity and mask fade the result back towards that backdrop, its blend mode is unused.
+ * - `isolated`: children are composited on their own first, then the result is masked and blended
+ *   into the document with the group's opacity and blend mode.
+ *
+ * The canvas-side compositing is in `./compositing`, imported on its own: it needs the DOM, and
+ * this module is also used by the room server, the renderer and the CLI.
+ */
+
+export type GroupMode = 'pass-through' | 'isolated';
+
+export const DEFAULT_GROUP_MODE: GroupMode = 'pass-through';
+
+export type LayerPlacement = 'above' | 'below' | 'inside';
+
+export const isGroupLayer = (layer: Layer | undefined): boolean => layer?.type === 'group';
+
+const withParent = (layer: Layer, parentId: string | null): Layer => {
+    const next = { ...layer, parentId: parentId ?? undefined };
+    if (!parentId) delete next.parentId;
+    return next;
+};
+
+/**
+ * Top-first order with every subtree contiguous under its group. `parentId`s that do not point
+ * at a group in `layers` are dropped (the layer moves to the top level); cycles are broken the
+ * same way. Returns `layers` itself when nothing had to change.
+ */
+export const normalizeLayerTree = (layers: Layer[]): Layer[] => {
+    const byId = new Map(layers.map((layer) => [layer.id, layer]));
+    const parentOf = (layer: Layer): string | null => {
+        if (!layer.parentId || !isGroupLayer(byId.get(layer.parentId))) return null;
+        // A group nested (indirectly) in itself is moved to the top level.
+        const seen = new Set([layer.id]);
+        for (let cursor = byId.get(layer.parentId); cursor; cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined) {
+            if (seen.has(cursor.id)) return null;
+            seen.add(cursor.id);
+        }
+        return layer.parentId;
+    };
+
+    const children = new Map<string | null, Layer[]>();
+    let changed = false;
+    const fixed = layers.map((layer) => {
+        const parentId = parentOf(layer);
+        const next = parentId === (layer.parentId ?? null) ? layer : withParent(layer, parentId);
+        if (next !== layer) changed = true;
+        children.set(parentId, [...(children.get(parentId) ?? []), next]);
+        return next;
+    });
+
+    const ordered: Layer[] = [];
+    const visit = (layer: Layer) => {
+        ordered.push(layer);
+        (children.get(layer.id) ?? []).forEach(visit);
+    };
+    (children.get(null) ?? []).forEach(visit);
+
+    if (!changed && ordered.every((layer, index) => layer === fixed[index])) return layers;
+    return ordered;
+};
+
+/** Ids of everything nested in `layerId`, top-first. */
+export const layerDescendantIds = (layers: Layer[], layerId: string): string[] => {
+    const ids: string[] = [];
+    const collect = (parentId: string) => {
+        layers.forEach((layer) => {
+            if (layer.parentId === parentId) {
+                ids.push(layer.id);
+                collect(layer.id);
+            }
+        });
+    };
+    collect(layerId);
+    return ids;
+};
+
+/** Enclosing groups of `layerId`, innermost first. */
+export const layerAncestors = (layers: Layer[], layerId: string): Layer[] => {
+    const byId = new Map(layers.map((layer) => [layer.id, layer]));
+    const ancestors: Layer[] = [];
+    for (let parent = byId.get(byId.get(layerId)?.parentId ?? ''); parent && !ancestors.includes(parent); parent = byId.get(parent.parentId ?? '')) {
+        ancestors.push(parent);
+    }
+    return ancestors;
+};
+
+/** Visible itself and inside visible groups only. */
+export const isLayerShown = (layers: Layer[], layer: Layer): boolean =>
+    layer.visible && layerAncestors(layers, layer.id).every((group) => group.visible);
+
+/**
+ * Moves `layerId` (with its subtree) next to `targetId`, or into it as its top-most child when
+ * `placement` is `inside` and the target is a group. Moves into the layer's own subtree are
+ * ignored.
+ */
+export const moveLayerInTree = (layers: Layer[], layerId: string, targetId: string, placement: LayerPlacement): Layer[] => {
+    const ordered = normalizeLayerTree(layers);
+    const moving = ordered.find((layer) => layer.id === layerId);
+    const target = ordered.find((layer) => layer.id === targetId);
+    if (!moving || !target || layerId === targetId) return layers;
+    const block = new Set([layerId, ...layerDescendantIds(ordered, layerId)]);
+    if (block.has(targetId)) return layers;
+    if (placement === 'inside' && !isGroupLayer(target)) return layers;
+
+    const parentId = placement === 'inside' ? target.id : target.parentId ?? null;
+    const moved = ordered.filter((layer) => block.has(layer.id))
+        .map((layer) => (layer.id === layerId ? withParent(layer, parentId) : layer));
+    const rest = ordered.filter((layer) => !block.has(layer.id));
+    const targetIndex = rest.findIndex((layer) => layer.id === targetId);
+    const index = placement === 'above'
+        ? targetIndex
+        : placement === 'inside'
+            ? targetIndex + 1
+            : targetIndex + 1 + layerDescendantIds(rest, targetId).length;
+    return [...rest.slice(0, index), ...moved, ...rest.slice(index)];
+};
+
+/**
+ * Wraps `layerIds` in `group`, placed where the top-most of them was, in the parent that layer
+ * had. Layers already inside one of the others keep their place in it.
+ */
+export const groupLayersInTree = (layers: Layer[], layerIds: string[], group: Layer): Layer[] => {
+    const ordered = normalizeLayerTree(layers);
+    const selected = new Set(layerIds);
+    const roots = ordered.filter((layer) => selected.has(layer.id)
+        && !layerAncestors(ordered, layer.id).some((ancestor) => selected.has(ancestor.id)));
+    if (roots.length === 0) return [group, ...ordered];
+
+    const parentId = roots[0].parentId ?? null;
+    const block = new Set(roots.flatMap((layer) => [layer.id, ...layerDescendantIds(ordered, layer.id)]));
+    const members = ordered.filter((layer) => block.has(layer.id))
+        .map((layer) => (roots.includes(layer) ? { ...layer, parentId: group.id } : layer));
+    const index = ordered.findIndex((layer) => layer.id === roots[0].id);
+    const rest = ordered.filter((layer) => !block.has(layer.id));
+    const insertAt = rest.filter((layer) => ordered.indexOf(layer) < index).length;
+    return [...rest.slice(0, insertAt), withParent(group, parentId), ...members, ...rest.slice(insertAt)];
+};
+
+/** Removes `groupId`, handing its children to the group's own parent in place. */
+export const ungroupLayersInTree = (layers: Layer[], groupId: string): Layer[] => {
+    const group = layers.find((layer) => layer.id === groupId);
+    if (!isGroupLayer(group)) return layers;
+    const parentId = group!.parentId ?? null;
+    return layers
+        .filter((layer) => layer.id !== groupId)
+        .map((layer) => (layer.parentId === groupId ? withParent(layer, parentId) : layer));
+};
@@ -1,5 +1,7 @@
 import { Canvas as FabricCanvas, FabricImage, Rect } from "fabric";
 import { Action } from "./HistoryManager";
+import { SMALL_ACTION_BYTES, imageByteCost } from "./memory";
+import { HISTORY_COMMAND_TYPES, HistoryCommand, imageSource, serializeImage, serializeRect } from "./serialization";
 import { SelectionData } from "@/components/Canvas";
 
 /**
@@ -57,6 +59,24 @@ export class UploadImageAction implements Action {
 
         this.canvas.renderAll();
     }
+
+    byteCost(): number {
+        return imageByteCost(this.previousImage) + imageByteCost(this.newImage) + SMALL_ACTION_BYTES;
+    }
+
+    toCommand(): HistoryCommand {
+        const assets: Record<string, string> = { newImage: imageSource(this.newImage) };
+        if (this.previousImage) assets.previousImage = imageSource(this.previousImage);
+        return {
+            type: HISTORY_COMMAND_TYPES.uploadImage,
+            params: {
+                previousImage: this.previousImage ? serializeImage(this.previousImage) : null,
+                previousSelection: this.previousSelection ? serializeRect(this.previousSelection) : null,
+                newImage: serializeImage(this.newImage),
+            },
+            assets,
+        };
+    }
 }
 
 /**
@@ -102,6 +122,20 @@ export class CreateSelectionAction implements Action {
         }
         this.canvas.renderAll();
     }
+
+    byteCost(): number {
+        return SMALL_ACTION_BYTES;
+    }
+
+    toCommand(): HistoryCommand {
+        return {
+            type: HISTORY_COMMAND_TYPES.createSelection,
+            params: {
+                selection: serializeRect(this.selection),
+                previousSelection: this.previousSelection ? serializeRect(this.previousSelection) : null,
+            },
+        };
+    }
 }
 
 /**
@@ -172,6 +206,21 @@ export class ModifySelectionAction implements Action {
         this.canvas.renderAll();
         this.onSelectionChange(this.selection, this.getSelectionData());
     }
+
+    byteCost(): number {
+        return SMALL_ACTION_BYTES;
+    }
+
+    toCommand(): HistoryCommand {
+        return {
+            type: HISTORY_COMMAND_TYPES.modifySelection,
+            params: {
+                selection: serializeRect(this.selection),
+                previousState: { ...this.previousState },
+                newState: { ...this.newState },
+            },
+        };
+    }
 }
 
 /**
@@ -204,4 +253,15 @@ export class ClearSelectionAction implements Action {
         // Need to get selection data - pass null for now as it will be recalculated
         this.onSelectionChange(this.selection, null);
     }
+
+    byteCost(): number {
+        return SMALL_ACTION_BYTES;
+    }
+
+    toCommand(): HistoryCommand {
+        return {
+            type: HISTORY_COMMAND_TYPES.clearSelection,
+            params: { selection: serializeRect(this.selection) },
+        };
+    }
 }
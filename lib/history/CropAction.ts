@@ -1,5 +1,7 @@
 import { Canvas as FabricCanvas, Rect, TMat2D, FabricObject, Image as FabricImage } from "fabric";
 import { Action } from "./HistoryManager";
+import { SMALL_ACTION_BYTES, imageByteCost } from "./memory";
+import { HISTORY_COMMAND_TYPES, HistoryCommand, imageSource, serializeImage, serializeRect } from "./serialization";
 import { SelectionData } from "@/components/Canvas";
 
 /**
@@ -48,6 +50,8 @@ export class CropAction implements Action {
     // Layer map management
     private activeLayerId: string | null;
     private updateLayerMap: (layerId: string, img: FabricImage) => void;
+    // Lets layer-anchored content (comment pins) follow the swap into the cropped image's frame
+    private onLayerImageSwap?: (layerId: string, from: FabricImage, to: FabricImage) => void;
 
     // Callbacks
     private setCanvasSize: (size: { width: number; height: number }) => void;
@@ -77,7 +81,8 @@ export class CropAction implements Action {
         onSelectionChange: (sel: Rect | null, data: SelectionData | null) => void,
         getSelectionData: () => SelectionData | null,
         activeLayerId: string | null,
-        updateLayerMap: (layerId: string, img: FabricImage) => void
+        updateLayerMap: (layerId: string, img: FabricImage) => void,
+        onLayerImageSwap?: (layerId: string, from: FabricImage, to: FabricImage) => void
     ) {
         this.canvas = canvas;
         // Clone arrays as TMat2D tuples to prevent mutation
@@ -99,6 +104,7 @@ export class CropAction implements Action {
         this.getSelectionData = getSelectionData;
         this.activeLayerId = activeLayerId;
         this.updateLayerMap = updateLayerMap;
+        this.onLayerImageSwap = onLayerImageSwap;
         this.previousImage = null;
         this.newImage = null;
     }
@@ -123,6 +129,7 @@ export class CropAction implements Action {
             // Update layer map so the layer points to the new image
             if (this.activeLayerId) {
                 this.updateLayerMap(this.activeLayerId, this.newImage);
+                this.onLayerImageSwap?.(this.activeLayerId, this.previousImage, this.newImage);
             }
         }
 
@@ -141,6 +148,7 @@ export class CropAction implements Action {
             // Restore layer map to point to original image
             if (this.activeLayerId) {
                 this.updateLayerMap(this.activeLayerId, this.previousImage);
+                this.onLayerImageSwap?.(this.activeLayerId, this.newImage, this.previousImage);
             }
         }
 
@@ -159,4 +167,35 @@ export class CropAction implements Action {
         this.canvas.calcOffset();
         this.canvas.requestRenderAll();
     }
+
+    byteCost(): number {
+        return imageByteCost(this.previousImage) + imageByteCost(this.newImage) + SMALL_ACTION_BYTES;
+    }
+
+    // Object positions hold live Fabric objects and are not replayed; execute/undo never read them.
+    toCommand(): HistoryCommand {
+        const assets: Record<string, string> = {};
+        if (this.previousImage) assets.previousImage = imageSource(this.previousImage);
+        if (this.newImage) assets.newImage = imageSource(this.newImage);
+        return {
+            type: HISTORY_COMMAND_TYPES.crop,
+            params: {
+                oldViewportTransform: [...this.oldViewportTransform],
+                newViewportTransform: [...this.newViewportTransform],
+                oldWidth: this.oldWidth,
+                oldHeight: this.oldHeight,
+                newWidth: this.newWidth,
+                newHeight: this.newHeight,
+                oldDocOrigin: { ...this.oldDocOrigin },
+                newDocOrigin: { ...this.newDocOrigin },
+                cropOffsetX: this.cropOffsetX,
+                cropOffsetY: this.cropOffsetY,
+                activeLayerId: this.activeLayerId,
+                selection: serializeRect(this.selection),
+                previousImage: this.previousImage ? serializeImage(this.previousImage) : null,
+                newImage: this.newImage ? serializeImage(this.newImage) : null,
+            },
+            assets,
+        };
+    }
 }
@@ -1,3 +1,8 @@
+import { DEFAULT_HISTORY_BUDGET_BYTES } from "./memory";
+import type { CommandReviver, CommandState } from "./replay";
+import { HistoryCommand, SerializedHistory, SerializedHistoryNode } from "./serialization";
+import { HistorySpillStore } from "./spill";
+
 /**
  * Command Pattern Interface
  * Every user action implements this interface
@@ -5,86 +10,322 @@
 export interface Action {
     execute(): void;
     undo(): void;
+    /** Describes the action so `replayHistory` can rebuild it after a reload. */
+    toCommand(): HistoryCommand;
+    /** Approximate bytes the action keeps alive (pixel snapshots dominate); see `./memory`. */
+    byteCost(): number;
+    /**
+     * Folds `next` into this action instead of recording it as a step of its own (a slider
+     * drag); only asked while this is the newest step. Returns whether it did.
+     */
+    merge?(next: Action): boolean;
     label?: string;
 }
 
+interface HistoryNode {
+    id: string;
+    /**
+     * `null` for the root (the document before the oldest recorded action) and for nodes whose
+     * action was spilled; those are revived from the spill store when needed.
+     */
+    action: Action | null;
+    label: string;
+    cost: number;
+    spilled: boolean;
+    /** The spill store holds a copy of the command. */
+    stored: boolean;
+    parent: HistoryNode | null;
+    children: HistoryNode[];
+    /** The child `redo` follows: the branch created or visited last from here. */
+    activeChild: HistoryNode | null;
+    name?: string;
+    preview?: string;
+    createdAt: number;
+}
+
+/** One node of `getEntries().tree`; `label` is the action's, `name` the checkpoint's. */
+export interface HistoryTreeNode {
+    id: string;
+    parentId: string | null;
+    childIds: string[];
+    label: string;
+    name?: string;
+    preview?: string;
+    createdAt: number;
+    depth: number;
+    /** How many forks away from the main line (first children) the node is; for indentation. */
+    branchLevel: number;
+    /** On the path from the root to the current node. */
+    applied: boolean;
+    /** The action lives in the spill store rather than memory. */
+    spilled: boolean;
+}
+
+export interface HistoryTree {
+    rootId: string;
+    currentId: string;
+    /** Depth-first, children in creation order. */
+    nodes: HistoryTreeNode[];
+}
+
+export interface HistoryMemoryUsage {
+    usedBytes: number;
+    budgetBytes: number;
+    spilledCount: number;
+}
+
+/** A tree rebuilt by `replayHistory`, parents before children. */
+export interface RevivedHistory {
+    currentId: string;
+    nodes: Array<Omit<SerializedHistoryNode, 'command'> & { action: Action | null }>;
+}
+
+// Actions below this size stay in memory: spilling them would not free anything worth the I/O.
+const SPILL_MIN_BYTES = 64 * 1024;
+// Steps around the current node that are never spilled and are revived ahead of time, so nearby
+// undo/redo stays instant.
+const KEEP_NEAR_STEPS = 3;
+// Bounds bookkeeping for floods of tiny actions, which the byte budget alone would let grow.
+const MAX_HISTORY_NODES = 2000;
+
+// Store-level recording skips changes made while history itself is stepping.
+let applyingDepth = 0;
+
+/** Whether a `HistoryManager` is executing or undoing an action right now. */
+export const isApplyingHistory = () => applyingDepth > 0;
+
+const applying = (run: () => void) => {
+    applyingDepth += 1;
+    try {
+        run();
+    } finally {
+        applyingDepth -= 1;
+    }
+};
+
+const toLabel = (action: Action | null) => {
+    if (!action) return 'Open';
+    const explicit = (action as any).label;
+    if (typeof explicit === 'string' && explicit.trim()) return explicit;
+    const ctor = (action as any)?.constructor?.name;
+    return typeof ctor === 'string' && ctor ? ctor : 'Action';
+};
+
 /**
  * History Manager
- * Manages undo and redo stacks
+ * Keeps every action in a tree: executing after an undo forks a new branch instead of
+ * discarding the redo path, and `checkout` moves the document to any node in the tree.
+ *
+ * Memory is bounded by the actions' reported byte cost rather than their count. Over budget,
+ * the oldest heavy actions away from the current node are spilled to the spill store (as
+ * commands, revived through `setReviver` when reached); without a store, or if that is not
+ * enough, the oldest history is forgotten. Undo, redo and checkout may have to revive spilled
+ * actions first, so they are asynchronous and run one at a time.
  */
 export class HistoryManager {
-    private undoStack: Action[] = [];
-    private redoStack: Action[] = [];
-    private maxHistorySize: number;
+    private root: HistoryNode;
+    private current: HistoryNode;
+    private nodes = new Map<string, HistoryNode>();
+    private memoryBudget: number;
     private onHistoryChange?: () => void;
+    private spillStore: HistorySpillStore | null;
+    private reviver: CommandReviver | null = null;
+    private spillWrites = new Map<string, Promise<void>>();
+    private reviving = new Map<string, Promise<Action | null>>();
+    private queue: Promise<unknown> = Promise.resolve();
 
-    constructor(maxHistorySize: number = 50, onHistoryChange?: () => void) {
-        this.maxHistorySize = maxHistorySize;
+    constructor(
+        memoryBudget: number = DEFAULT_HISTORY_BUDGET_BYTES,
+        onHistoryChange?: () => void,
+        spillStore: HistorySpillStore | null = null
+    ) {
+        this.memoryBudget = memoryBudget;
         this.onHistoryChange = onHistoryChange;
+        this.spillStore = spillStore;
+        this.root = this.createNode(null, null);
+        this.current = this.root;
+    }
+
+    /**
+     * Rebuilds spilled actions; history is never spilled until one is set
+     */
+    setReviver(reviver: CommandReviver): void {
+        this.reviver = reviver;
+    }
+
+    setMemoryBudget(bytes: number): void {
+        this.memoryBudget = Math.max(0, bytes);
+        this.enforceBudget();
+        this.notifyChange();
+    }
+
+    getMemoryUsage(): HistoryMemoryUsage {
+        let usedBytes = 0;
+        let spilledCount = 0;
+        this.nodes.forEach((node) => {
+            if (node.action) usedBytes += node.cost;
+            if (node.spilled) spilledCount += 1;
+        });
+        return { usedBytes, budgetBytes: this.memoryBudget, spilledCount };
     }
 
     /**
-     * Execute and record an action
+     * Execute and record an action as a new child of the current node
      */
     execute(action: Action): void {
-        action.execute();
-        this.undoStack.push(action);
+        applying(() => action.execute());
+        this.push(action);
+    }
 
-        // Limit stack size
-        if (this.undoStack.length > this.maxHistorySize) {
-            this.undoStack.shift();
+    /**
+     * Record an action whose effect is already in the document. The newest step may absorb it
+     * (see `Action.merge`) unless something was built on it or it is a named checkpoint.
+     */
+    record(action: Action): void {
+        const node = this.current;
+        if (node.action?.merge && node.children.length === 0 && !node.name && node.action.merge(action)) {
+            node.label = toLabel(node.action);
+            node.cost = node.action.byteCost();
+            if (node.stored) {
+                node.stored = false;
+                this.spillStore?.delete(node.id).catch((error) => console.warn('[history] Failed to drop spilled action', error));
+            }
+            this.afterMove();
+            return;
         }
+        this.push(action);
+    }
 
-        // Clear redo stack when new action is executed
-        this.redoStack = [];
+    /**
+     * Undo the last action
+     */
+    undo(): Promise<void> {
+        return this.enqueue(async () => {
+            const node = this.current;
+            if (!node.parent) return;
+            const action = await this.revive(node, 'applied');
+            if (this.current !== node) return;
+            if (!action) {
+                // Nothing older can be undone without this step.
+                this.reroot(node);
+                this.notifyChange();
+                return;
+            }
+            applying(() => action.undo());
+            node.parent.activeChild = node;
+            this.current = node.parent;
+            this.afterMove();
+        });
+    }
 
-        this.notifyChange();
+    /**
+     * Redo along the most recently visited branch
+     */
+    redo(): Promise<void> {
+        return this.enqueue(async () => {
+            const from = this.current;
+            const next = from.activeChild;
+            if (!next) return;
+            const action = await this.revive(next, 'undone');
+            if (this.current !== from) return;
+            if (!action) {
+                this.forget(next);
+                this.notifyChange();
+                return;
+            }
+            applying(() => action.execute());
+            this.current = next;
+            this.afterMove();
+        });
     }
 
     /**
-     * Undo the last action
+     * Move the document to any node: undo up to the common ancestor, then redo down to it.
+     * Resolves `false` if the node is unknown or a step on the way could not be revived.
      */
-    undo(): void {
-        const action = this.undoStack.pop();
-        if (action) {
-            action.undo();
-            this.redoStack.push(action);
-            this.notifyChange();
-        }
+    checkout(nodeId: string): Promise<boolean> {
+        return this.enqueue(async () => {
+            const target = this.nodes.get(nodeId);
+            if (!target) return false;
+
+            const targetPath = this.pathTo(target);
+            const onTargetPath = new Set(targetPath);
+            let reached = true;
+            while (!onTargetPath.has(this.current)) {
+                const node = this.current;
+                const action = await this.revive(node, 'applied');
+                if (!action) {
+                    this.reroot(node);
+                    reached = false;
+                    break;
+                }
+                applying(() => action.undo());
+                node.parent!.activeChild = node;
+                this.current = node.parent!;
+            }
+            for (let i = targetPath.indexOf(this.current) + 1; reached && i < targetPath.length; i += 1) {
+                const node = targetPath[i];
+                const action = await this.revive(node, 'undone');
+                if (!action) {
+                    this.forget(node);
+                    reached = false;
+                    break;
+                }
+                applying(() => action.execute());
+                node.parent!.activeChild = node;
+                this.current = node;
+            }
+            this.afterMove();
+            return reached;
+        });
     }
 
     /**
-     * Redo the last undone action
+     * Name a node as a checkpoint; an empty name removes it
      */
-    redo(): void {
-        const action = this.redoStack.pop();
-        if (action) {
-            action.execute();
-            this.undoStack.push(action);
-            this.notifyChange();
-        }
+    nameCheckpoint(nodeId: string, name: string | null): void {
+        const node = this.nodes.get(nodeId);
+        if (!node) return;
+        const trimmed = name?.trim();
+        node.name = trimmed ? trimmed.slice(0, 80) : undefined;
+        this.notifyChange();
+    }
+
+    /**
+     * Attach a rendering of the document at a node, used to compare branch tips
+     */
+    setPreview(nodeId: string, preview: string): void {
+        const node = this.nodes.get(nodeId);
+        if (node) node.preview = preview;
+    }
+
+    getCurrentId(): string {
+        return this.current.id;
     }
 
     /**
      * Check if undo is available
      */
     canUndo(): boolean {
-        return this.undoStack.length > 0;
+        return this.current.parent !== null;
     }
 
     /**
      * Check if redo is available
      */
     canRedo(): boolean {
-        return this.redoStack.length > 0;
+        return this.current.activeChild !== null;
     }
 
     /**
      * Clear all history
      */
     clear(): void {
-        this.undoStack = [];
-        this.redoStack = [];
+        this.nodes.clear();
+        this.reviving.clear();
+        this.spillStore?.clear().catch((error) => console.warn('[history] Failed to clear spilled history', error));
+        this.root = this.createNode(null, null);
+        this.current = this.root;
         this.notifyChange();
     }
 
@@ -93,25 +334,323 @@ export class HistoryManager {
      */
     getState(): { undoCount: number; redoCount: number } {
         return {
-            undoCount: this.undoStack.length,
-            redoCount: this.redoStack.length,
+            undoCount: this.undoPath().length,
+            redoCount: this.redoPath().length,
         };
     }
 
-    getEntries(): { undo: string[]; redo: string[] } {
-        const toLabel = (action: Action) => {
-            const explicit = (action as any).label;
-            if (typeof explicit === 'string' && explicit.trim()) return explicit;
-            const ctor = (action as any)?.constructor?.name;
-            return typeof ctor === 'string' && ctor ? ctor : 'Action';
+    /**
+     * `undo` and `redo` list the linear path undo/redo walk (same order as the old stacks:
+     * the next step to undo or redo is last); `tree` is the full branching history
+     */
+    getEntries(): { undo: string[]; redo: string[]; tree: HistoryTree } {
+        const applied = new Set(this.pathTo(this.current));
+        const nodes: HistoryTreeNode[] = [];
+        const visit = (node: HistoryNode, depth: number, branchLevel: number) => {
+            nodes.push({
+                id: node.id,
+                parentId: node.parent?.id ?? null,
+                childIds: node.children.map((child) => child.id),
+                label: node.label,
+                name: node.name,
+                preview: node.preview,
+                createdAt: node.createdAt,
+                depth,
+                branchLevel,
+                applied: applied.has(node),
+                spilled: node.spilled,
+            });
+            node.children.forEach((child, index) => visit(child, depth + 1, branchLevel + (index > 0 ? 1 : 0)));
         };
+        visit(this.root, 0, 0);
 
         return {
-            undo: this.undoStack.map(toLabel),
-            redo: this.redoStack.map(toLabel)
+            undo: this.undoPath().map((node) => node.label),
+            redo: this.redoPath().reverse().map((node) => node.label),
+            tree: { rootId: this.root.id, currentId: this.current.id, nodes },
         };
     }
 
+    /**
+     * Serializable form of the whole tree, persisted with the project payload. Spilled commands
+     * are read back from the spill store; if one is missing, the tree is cut there the same way
+     * `replayHistory` cuts commands it cannot revive.
+     */
+    async serialize(): Promise<SerializedHistory> {
+        const commands = new Map<HistoryNode, HistoryCommand | null>();
+        await Promise.all(Array.from(this.nodes.values()).map(async (node) => {
+            commands.set(node, await this.commandOf(node));
+        }));
+
+        let root = this.root;
+        for (const node of this.undoPath()) {
+            if (!commands.get(node)) root = node;
+        }
+
+        const nodes: SerializedHistoryNode[] = [];
+        const visit = (node: HistoryNode) => {
+            nodes.push({
+                id: node.id,
+                parentId: node === root ? null : node.parent!.id,
+                command: node === root ? null : commands.get(node)!,
+                name: node.name,
+                createdAt: node.createdAt,
+                activeChildId: node.activeChild?.id ?? null,
+            });
+            node.children.filter((child) => commands.get(child)).forEach(visit);
+        };
+        visit(root);
+        return { version: 2, currentId: this.current.id, nodes };
+    }
+
+    /**
+     * Replace the tree with one rebuilt by `replayHistory`, without executing anything
+     */
+    restore(history: RevivedHistory): void {
+        this.spillStore?.clear().catch((error) => console.warn('[history] Failed to clear spilled history', error));
+        this.reviving.clear();
+
+        const rebuilt = new Map<string, HistoryNode>();
+        let root: HistoryNode | null = null;
+        for (const entry of history.nodes) {
+            const parent = entry.parentId ? rebuilt.get(entry.parentId) : null;
+            if (entry.parentId && !parent) continue;
+            if (!parent && root) continue;
+            const action = parent ? entry.action : null;
+            const node: HistoryNode = {
+                id: entry.id,
+                action,
+                label: toLabel(action),
+                cost: action?.byteCost() ?? 0,
+                spilled: false,
+                stored: false,
+                parent: parent ?? null,
+                children: [],
+                activeChild: null,
+                name: entry.name,
+                createdAt: entry.createdAt,
+            };
+            if (parent) parent.children.push(node);
+            else root = node;
+            rebuilt.set(node.id, node);
+        }
+        history.nodes.forEach((entry) => {
+            const node = rebuilt.get(entry.id);
+            const child = entry.activeChildId ? rebuilt.get(entry.activeChildId) : undefined;
+            if (node && child?.parent === node) node.activeChild = child;
+        });
+
+        this.nodes = rebuilt;
+        this.root = root ?? this.createNode(null, null);
+        this.current = rebuilt.get(history.currentId) ?? this.root;
+        this.afterMove();
+    }
+
+    private push(action: Action): void {
+        const node = this.createNode(action, this.current);
+        this.current.children.push(node);
+        this.current.activeChild = node;
+        this.current = node;
+        this.afterMove();
+    }
+
+    private createNode(action: Action | null, parent: HistoryNode | null): HistoryNode {
+        const node: HistoryNode = {
+            id: crypto.randomUUID(),
+            action,
+            label: toLabel(action),
+            cost: action?.byteCost() ?? 0,
+            spilled: false,
+            stored: false,
+            parent,
+            children: [],
+            activeChild: null,
+            createdAt: Date.now(),
+        };
+        this.nodes.set(node.id, node);
+        return node;
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task);
+        this.queue = run.catch((error) => console.error('[history] Step failed', error));
+        return run;
+    }
+
+    private afterMove(): void {
+        this.enforceBudget();
+        this.prefetch();
+        this.notifyChange();
+    }
+
+    /** Root first, ending at `node`. */
+    private pathTo(node: HistoryNode): HistoryNode[] {
+        const path: HistoryNode[] = [];
+        for (let cursor: HistoryNode | null = node; cursor; cursor = cursor.parent) path.unshift(cursor);
+        return path;
+    }
+
+    /** Nodes undo would step back through, oldest first. */
+    private undoPath(): HistoryNode[] {
+        return this.pathTo(this.current).slice(1);
+    }
+
+    /** Nodes redo would step through, next first. */
+    private redoPath(): HistoryNode[] {
+        const path: HistoryNode[] = [];
+        for (let cursor = this.current.activeChild; cursor; cursor = cursor.activeChild) path.push(cursor);
+        return path;
+    }
+
+    /** The current node with the steps just behind and ahead of it, and the state each is in. */
+    private nearNodes(): Map<HistoryNode, CommandState> {
+        const near = new Map<HistoryNode, CommandState>();
+        let back: HistoryNode | null = this.current;
+        for (let i = 0; back?.parent && i <= KEEP_NEAR_STEPS; i += 1, back = back.parent) near.set(back, 'applied');
+        let ahead = this.current.activeChild;
+        for (let i = 0; ahead && i < KEEP_NEAR_STEPS; i += 1, ahead = ahead.activeChild) near.set(ahead, 'undone');
+        return near;
+    }
+
+    private async commandOf(node: HistoryNode): Promise<HistoryCommand | null> {
+        if (node.action) return node.action.toCommand();
+        if (!node.spilled || !this.spillStore) return null;
+        try {
+            await this.spillWrites.get(node.id);
+            return await this.spillStore.get(node.id);
+        } catch (error) {
+            console.warn('[history] Failed to read spilled command', error);
+            return null;
+        }
+    }
+
+    /** The node's action, reviving it from the spill store if needed; `null` if that fails. */
+    private revive(node: HistoryNode, state: CommandState): Promise<Action | null> {
+        if (node.action) return Promise.resolve(node.action);
+        if (!node.spilled || !this.reviver) return Promise.resolve(null);
+
+        let pending = this.reviving.get(node.id);
+        if (!pending) {
+            const reviver = this.reviver;
+            pending = this.commandOf(node)
+                .then((command) => (command ? reviver(command, state) : null))
+                .catch((error) => {
+                    console.warn('[history] Failed to revive spilled action', error);
+                    return null;
+                })
+                .then((action) => {
+                    if (this.reviving.get(node.id) === pending) this.reviving.delete(node.id);
+                    if (action && !node.action && this.nodes.get(node.id) === node) {
+                        node.action = action;
+                        node.cost = action.byteCost();
+                        node.spilled = false;
+                    }
+                    return node.action;
+                });
+            this.reviving.set(node.id, pending);
+        }
+        return pending;
+    }
+
+    private prefetch(): void {
+        this.nearNodes().forEach((state, node) => {
+            if (node.spilled) void this.revive(node, state);
+        });
+    }
+
+    private spill(node: HistoryNode): void {
+        if (!node.action || !this.spillStore) return;
+        if (!node.stored) {
+            const write = this.spillStore.put(node.id, node.action.toCommand())
+                .then(() => {
+                    node.stored = true;
+                })
+                .catch((error) => console.warn('[history] Failed to spill action', error))
+                .finally(() => {
+                    if (this.spillWrites.get(node.id) === write) this.spillWrites.delete(node.id);
+                });
+            this.spillWrites.set(node.id, write);
+        }
+        node.action = null;
+        node.spilled = true;
+    }
+
+    private enforceBudget(): void {
+        let used = this.getMemoryUsage().usedBytes;
+        if (used <= this.memoryBudget && this.nodes.size <= MAX_HISTORY_NODES) return;
+
+        if (this.spillStore && this.reviver) {
+            const near = this.nearNodes();
+            const candidates = Array.from(this.nodes.values())
+                .filter((node) => node.action && node.cost >= SPILL_MIN_BYTES && !near.has(node))
+                .sort((a, b) => a.createdAt - b.createdAt);
+            for (const node of candidates) {
+                if (used <= this.memoryBudget) break;
+                used -= node.cost;
+                this.spill(node);
+            }
+        }
+
+        while ((used > this.memoryBudget || this.nodes.size > MAX_HISTORY_NODES) && this.forgetOldest()) {
+            used = this.getMemoryUsage().usedBytes;
+        }
+    }
+
+    // Oldest abandoned branch tip first; otherwise the oldest step on the current path becomes
+    // the root. The last step before the current node is always kept.
+    private forgetOldest(): boolean {
+        const applied = new Set(this.pathTo(this.current));
+        let oldestTip: HistoryNode | null = null;
+        this.nodes.forEach((node) => {
+            if (node.children.length === 0 && !applied.has(node) && (!oldestTip || node.createdAt < oldestTip.createdAt)) {
+                oldestTip = node;
+            }
+        });
+        if (oldestTip) {
+            this.forget(oldestTip);
+            return true;
+        }
+        const path = this.pathTo(this.current);
+        if (path.length <= 2) return false;
+        this.reroot(path[1]);
+        return true;
+    }
+
+    /** Drops `node` and everything below it. */
+    private forget(node: HistoryNode): void {
+        const parent = node.parent;
+        if (!parent) return;
+        parent.children = parent.children.filter((child) => child !== node);
+        if (parent.activeChild === node) parent.activeChild = null;
+        this.dropSubtree(node);
+    }
+
+    /** Makes `node` the root (its action can no longer be undone) and drops everything outside it. */
+    private reroot(node: HistoryNode): void {
+        if (!node.parent) return;
+        const parent = node.parent;
+        parent.children = parent.children.filter((child) => child !== node);
+        node.parent = null;
+        this.dropSubtree(this.root);
+        if (node.stored) this.spillStore?.delete(node.id).catch(() => undefined);
+        node.action = null;
+        node.spilled = false;
+        node.stored = false;
+        node.cost = 0;
+        this.root = node;
+    }
+
+    private dropSubtree(node: HistoryNode): void {
+        const stack = [node];
+        while (stack.length > 0) {
+            const next = stack.pop()!;
+            this.nodes.delete(next.id);
+            this.reviving.delete(next.id);
+            if (next.stored) this.spillStore?.delete(next.id).catch(() => undefined);
+            stack.push(...next.children);
+        }
+    }
+
     private notifyChange(): void {
         this.onHistoryChange?.();
     }
@@ -0,0 +1,58 @@
+import { Canvas as FabricCanvas, FabricImage } from "fabric";
+import { Action } from "./HistoryManager";
+import { SMALL_ACTION_BYTES, imageByteCost } from "./memory";
+import { HISTORY_COMMAND_TYPES, HistoryCommand, imageSource, serializeImage } from "./serialization";
+import type { Layer } from "@/lib/store";
+
+/**
+ * Command: Add Image Layer
+ * Inserts a layer backed by `image`; undo takes both the store entry and the canvas object out
+ */
+export class AddImageLayerAction implements Action {
+    label = 'Add Layer';
+    private canvas: FabricCanvas;
+    private layer: Layer;
+    private image: FabricImage;
+    private insertLayer: (layer: Layer, image: FabricImage) => void;
+    private removeLayer: (layerId: string) => void;
+
+    constructor(
+        canvas: FabricCanvas,
+        layer: Layer,
+        image: FabricImage,
+        insertLayer: (layer: Layer, image: FabricImage) => void,
+        removeLayer: (layerId: string) => void
+    ) {
+        this.canvas = canvas;
+        this.layer = layer;
+        this.image = image;
+        this.insertLayer = insertLayer;
+        this.removeLayer = removeLayer;
+    }
+
+    execute(): void {
+        this.insertLayer(this.layer, this.image);
+        if (!this.canvas.getObjects().includes(this.image)) {
+            this.canvas.add(this.image);
+        }
+        this.canvas.requestRenderAll();
+    }
+
+    undo(): void {
+        this.canvas.remove(this.image);
+        this.removeLayer(this.layer.id);
+        this.canvas.requestRenderAll();
+    }
+
+    byteCost(): number {
+        return imageByteCost(this.image) + SMALL_ACTION_BYTES;
+    }
+
+    toCommand(): HistoryCommand {
+        return {
+            type: HISTORY_COMMAND_TYPES.addImageLayer,
+            params: { layer: this.layer, image: serializeImage(this.image) },
+            assets: { image: imageSource(this.image) },
+        };
+    }
+}
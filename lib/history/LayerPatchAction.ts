@@ -0,0 +1,290 @@
+import { FabricImage } from "fabric";
+import { Action } from "./HistoryManager";
+import { SMALL_ACTION_BYTES, imageByteCost, stringByteCost } from "./memory";
+import { HISTORY_COMMAND_TYPES, HistoryCommand, imageSource, serializeImage } from "./serialization";
+import type { Layer } from "@/lib/store";
+
+/** Field edits to one layer; `unset` fields are deleted from it. */
+export interface LayerFieldPatch {
+    set: Partial<Layer>;
+    unset: string[];
+}
+
+/**
+ * The difference between two layer stacks. It only names what changed, so applying it to a
+ * stack that has moved on elsewhere (a collaborator's edit) leaves everything else alone.
+ */
+export interface LayerPatch {
+    fields: Record<string, LayerFieldPatch>;
+    /** Whole layers the patch brings in; their place is in `order`. */
+    insert: Layer[];
+    remove: string[];
+    /** Layer ids top to bottom after the patch; `null` when the stacking is untouched. */
+    order: string[] | null;
+    /** Present only when the patch moves the active layer. */
+    activeLayerId?: string | null;
+}
+
+export interface LayerStack {
+    layers: Layer[];
+    activeLayerId: string | null;
+}
+
+/**
+ * Where a patch applies: the layer store, plus the canvas objects that outlive a removed layer
+ * so undoing the removal brings its pixels back.
+ */
+export interface LayerPatchTarget {
+    read(): LayerStack;
+    write(stack: LayerStack): void;
+    retain(layerId: string): FabricImage | null;
+    restore(layerId: string, image: FabricImage): void;
+}
+
+// Thumbnails are rendered from the layer's pixels and `collapsed` is layer panel view state;
+// neither is an undoable change.
+const UNRECORDED_FIELDS = new Set(['id', 'thumbnail', 'collapsed']);
+
+// Edits to the same fields closer together than this are one gesture (a slider drag).
+const COALESCE_MS = 500;
+
+const FIELD_LABELS: Record<string, string> = {
+    name: 'Rename Layer',
+    visible: 'Toggle Visibility',
+    locked: 'Toggle Lock',
+    opacity: 'Opacity',
+    fillOpacity: 'Fill Opacity',
+    blendMode: 'Blend Mode',
+    clippingMask: 'Clipping Mask',
+    filters: 'Adjustments',
+    layerStyle: 'Layer Style',
+    mask: 'Layer Mask',
+    type: 'Layer Type',
+    smartObject: 'Smart Object',
+    parentId: 'Move Layer',
+    groupMode: 'Group Mode',
+};
+
+// Store calls made in one synchronous run (a preset setting a dozen filters) share a burst and
+// always become one step.
+let burst = 0;
+let burstScheduled = false;
+const currentBurst = () => {
+    if (!burstScheduled) {
+        burstScheduled = true;
+        queueMicrotask(() => {
+            burst += 1;
+            burstScheduled = false;
+        });
+    }
+    return burst;
+};
+
+const sameValue = (a: unknown, b: unknown) =>
+    a === b || (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b));
+
+const diffFields = (before: Layer, after: Layer): LayerFieldPatch | null => {
+    const set: Record<string, unknown> = {};
+    const unset: string[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) => {
+        if (UNRECORDED_FIELDS.has(key)) return;
+        const next = (after as any)[key];
+        if (sameValue((before as any)[key], next)) return;
+        if (next === undefined) unset.push(key);
+        else set[key] = next;
+    });
+    return Object.keys(set).length > 0 || unset.length > 0 ? { set: set as Partial<Layer>, unset } : null;
+};
+
+/** What turns `before` into `after`; `null` if no layer changed beyond derived fields. */
+export const diffLayers = (before: LayerStack, after: LayerStack): LayerPatch | null => {
+    const previousById = new Map(before.layers.map((layer) => [layer.id, layer]));
+    const nextIds = new Set(after.layers.map((layer) => layer.id));
+    const fields: Record<string, LayerFieldPatch> = {};
+    const insert: Layer[] = [];
+    after.layers.forEach((layer) => {
+        const previous = previousById.get(layer.id);
+        if (!previous) {
+            insert.push(layer);
+        } else if (previous !== layer) {
+            const patch = diffFields(previous, layer);
+            if (patch) fields[layer.id] = patch;
+        }
+    });
+    const remove = before.layers.filter((layer) => !nextIds.has(layer.id)).map((layer) => layer.id);
+    const restacked = before.layers.length !== after.layers.length
+        || before.layers.some((layer, index) => after.layers[index].id !== layer.id);
+    if (Object.keys(fields).length === 0 && insert.length === 0 && remove.length === 0 && !restacked) return null;
+
+    const patch: LayerPatch = { fields, insert, remove, order: restacked ? after.layers.map((layer) => layer.id) : null };
+    if (before.activeLayerId !== after.activeLayerId) patch.activeLayerId = after.activeLayerId;
+    return patch;
+};
+
+export const applyLayerPatch = (stack: LayerStack, patch: LayerPatch): LayerStack => {
+    const removed = new Set(patch.remove);
+    let layers = stack.layers
+        .filter((layer) => !removed.has(layer.id))
+        .map((layer) => {
+            const change = patch.fields[layer.id];
+            if (!change) return layer;
+            const next: Record<string, unknown> = { ...layer, ...change.set };
+            change.unset.forEach((key) => delete next[key]);
+            return next as unknown as Layer;
+        });
+    const present = new Set(layers.map((layer) => layer.id));
+    const inserted = patch.insert.filter((layer) => !present.has(layer.id));
+
+    if (patch.order) {
+        const byId = new Map([...layers, ...inserted].map((layer) => [layer.id, layer]));
+        const named = new Set(patch.order);
+        // Layers the patch does not know about (added by someone else since) stay on top.
+        const unknown = [...inserted, ...layers].filter((layer) => !named.has(layer.id));
+        layers = [...unknown, ...patch.order.map((id) => byId.get(id)).filter((layer): layer is Layer => Boolean(layer))];
+    } else {
+        layers = [...inserted, ...layers];
+    }
+
+    const exists = (id: string | null | undefined) => Boolean(id) && layers.some((layer) => layer.id === id);
+    const activeLayerId = patch.activeLayerId !== undefined && (patch.activeLayerId === null || exists(patch.activeLayerId))
+        ? patch.activeLayerId
+        : exists(stack.activeLayerId) ? stack.activeLayerId : layers[0]?.id ?? null;
+    return { layers, activeLayerId };
+};
+
+const isFieldsOnly = (patch: LayerPatch) =>
+    patch.insert.length === 0 && patch.remove.length === 0 && !patch.order && patch.activeLayerId === undefined;
+
+const fieldSignature = (patch: LayerPatch) =>
+    Object.keys(patch.fields).sort()
+        .map((layerId) => `${layerId}:${[...Object.keys(patch.fields[layerId].set), ...patch.fields[layerId].unset].sort().join(',')}`)
+        .join(';');
+
+const describe = (patch: LayerPatch) => {
+    if (patch.insert.some((layer) => layer.type === 'group')) return 'Group Layers';
+    if (patch.remove.length > 0) {
+        if (patch.remove.length === 1 && Object.keys(patch.fields).length > 0) return 'Ungroup';
+        return patch.remove.length > 1 ? 'Delete Layers' : 'Delete Layer';
+    }
+    if (patch.insert.length > 0) return patch.insert.length > 1 ? 'Add Layers' : 'Add Layer';
+    const changes = Object.values(patch.fields);
+    if (patch.order) {
+        return changes.some((change) => 'parentId' in change.set || change.unset.includes('parentId')) ? 'Move Layer' : 'Reorder Layers';
+    }
+    const keys = new Set(changes.flatMap((change) => [...Object.keys(change.set), ...change.unset]));
+    const [only] = Array.from(keys);
+    return keys.size === 1 && FIELD_LABELS[only] ? FIELD_LABELS[only] : 'Edit Layer';
+};
+
+/**
+ * Command: Layer Patch
+ * A layer store change recorded after the fact (see `./storeHistory`), kept as forward and
+ * inverse patches. Canvas objects of layers it takes out are held so putting them back restores
+ * the pixels too.
+ */
+export class LayerPatchAction implements Action {
+    label: string;
+    private forward: LayerPatch;
+    private inverse: LayerPatch;
+    private target: LayerPatchTarget;
+    private retained: Map<string, FabricImage>;
+    private burst = currentBurst();
+    private touchedAt = Date.now();
+
+    constructor(forward: LayerPatch, inverse: LayerPatch, target: LayerPatchTarget, retained = new Map<string, FabricImage>()) {
+        this.forward = forward;
+        this.inverse = inverse;
+        this.target = target;
+        this.retained = retained;
+        this.label = describe(forward);
+    }
+
+    /** The change from `before` to `after`, which the store already holds; `null` if nothing changed. */
+    static between(before: LayerStack, after: LayerStack, target: LayerPatchTarget): LayerPatchAction | null {
+        const forward = diffLayers(before, after);
+        const inverse = diffLayers(after, before);
+        if (!forward || !inverse) return null;
+        const retained = new Map<string, FabricImage>();
+        forward.remove.forEach((layerId) => {
+            const image = target.retain(layerId);
+            if (image) retained.set(layerId, image);
+        });
+        return new LayerPatchAction(forward, inverse, target, retained);
+    }
+
+    execute(): void {
+        this.apply(this.forward);
+    }
+
+    undo(): void {
+        this.apply(this.inverse);
+    }
+
+    merge(next: Action): boolean {
+        if (!(next instanceof LayerPatchAction) || !isFieldsOnly(this.forward) || !isFieldsOnly(next.forward)) return false;
+        const sameGesture = fieldSignature(this.forward) === fieldSignature(next.forward)
+            && next.touchedAt - this.touchedAt <= COALESCE_MS;
+        if (next.burst !== this.burst && !sameGesture) return false;
+
+        Object.entries(next.forward.fields).forEach(([layerId, change]) => {
+            const forward = this.forward.fields[layerId] ?? { set: {}, unset: [] };
+            const set: Record<string, unknown> = { ...forward.set, ...change.set };
+            change.unset.forEach((key) => delete set[key]);
+            const unset = [...forward.unset.filter((key) => !(key in change.set)), ...change.unset.filter((key) => !forward.unset.includes(key))];
+            this.forward.fields[layerId] = { set: set as Partial<Layer>, unset };
+
+            // The inverse keeps the oldest value of each field; only fields new to this step are added.
+            const inverse = this.inverse.fields[layerId] ?? { set: {}, unset: [] };
+            const known = new Set([...Object.keys(inverse.set), ...inverse.unset]);
+            const previous = next.inverse.fields[layerId] ?? { set: {}, unset: [] };
+            Object.entries(previous.set).forEach(([key, value]) => {
+                if (!known.has(key)) (inverse.set as Record<string, unknown>)[key] = value;
+            });
+            previous.unset.forEach((key) => {
+                if (!known.has(key)) inverse.unset.push(key);
+            });
+            this.inverse.fields[layerId] = inverse;
+        });
+        this.burst = next.burst;
+        this.touchedAt = next.touchedAt;
+        this.label = describe(this.forward);
+        return true;
+    }
+
+    byteCost(): number {
+        let bytes = SMALL_ACTION_BYTES + stringByteCost(JSON.stringify(this.forward)) + stringByteCost(JSON.stringify(this.inverse));
+        this.retained.forEach((image) => {
+            bytes += imageByteCost(image);
+        });
+        return bytes;
+    }
+
+    toCommand(): HistoryCommand {
+        const images: Record<string, ReturnType<typeof serializeImage>> = {};
+        const assets: Record<string, string> = {};
+        this.retained.forEach((image, layerId) => {
+            images[layerId] = serializeImage(image);
+            assets[layerId] = imageSource(image);
+        });
+        return {
+            type: HISTORY_COMMAND_TYPES.layerPatch,
+            params: { forward: this.forward, inverse: this.inverse, images },
+            assets,
+        };
+    }
+
+    private apply(patch: LayerPatch): void {
+        patch.remove.forEach((layerId) => {
+            const image = this.target.retain(layerId);
+            if (image) this.retained.set(layerId, image);
+        });
+        this.target.write(applyLayerPatch(this.target.read(), patch));
+        patch.insert.forEach((layer) => {
+            const image = this.retained.get(layer.id);
+            if (!image) return;
+            this.retained.delete(layer.id);
+            this.target.restore(layer.id, image);
+        });
+    }
+}
@@ -1,4 +1,6 @@
 import { Action } from "./HistoryManager";
+import { SMALL_ACTION_BYTES, stringByteCost } from "./memory";
+import { HISTORY_COMMAND_TYPES, HistoryCommand } from "./serialization";
 
 export class SetMaskAction implements Action {
     private layerId: string;
@@ -25,6 +27,17 @@ export class SetMaskAction implements Action {
     undo(): void {
         this.setLayerMask(this.layerId, this.oldMaskData);
     }
+
+    byteCost(): number {
+        return stringByteCost(this.oldMaskData) + stringByteCost(this.newMaskData) + SMALL_ACTION_BYTES;
+    }
+
+    toCommand(): HistoryCommand {
+        const assets: Record<string, string> = {};
+        if (this.oldMaskData) assets.oldMask = this.oldMaskData;
+        if (this.newMaskData) assets.newMask = this.newMaskData;
+        return { type: HISTORY_COMMAND_TYPES.setMask, params: { layerId: this.layerId }, assets };
+    }
 }
 
 export class ToggleMaskAction implements Action {
@@ -46,4 +59,12 @@ export class ToggleMaskAction implements Action {
     undo(): void {
         this.toggleLayerMask(this.layerId);
     }
+
+    byteCost(): number {
+        return SMALL_ACTION_BYTES;
+    }
+
+    toCommand(): HistoryCommand {
+        return { type: HISTORY_COMMAND_TYPES.toggleMask, params: { layerId: this.layerId } };
+    }
 }
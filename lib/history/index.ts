@@ -1,5 +1,5 @@
-export { HistoryManager } from "./HistoryManager";
-export type { Action } from "./HistoryManager";
+export { HistoryManager, isApplyingHistory } from "./HistoryManager";
+export type { Action, HistoryMemoryUsage, HistoryTree, HistoryTreeNode, RevivedHistory } from "./HistoryManager";
 export {
     UploadImageAction,
     CreateSelectionAction,
@@ -8,3 +8,22 @@ export {
 } from "./Actions";
 export { CropAction } from "./CropAction";
 export { SetMaskAction, ToggleMaskAction } from "./MaskActions";
+export { AddImageLayerAction } from "./LayerActions";
+export { LayerPatchAction, applyLayerPatch, diffLayers } from "./LayerPatchAction";
+export type { LayerFieldPatch, LayerPatch, LayerPatchTarget, LayerStack } from "./LayerPatchAction";
+export { bindLayerHistory, layerHistory, reviveLayerPatch, withoutLayerHistory } from "./storeHistory";
+export type { LayerHistoryBinding } from "./storeHistory";
+export { replayHistory } from "./replay";
+export { diffHistoryPreviews } from "./previews";
+export type { CommandReviver, CommandState } from "./replay";
+export {
+    HISTORY_COMMAND_TYPES,
+    adoptHistoryObjectId,
+    findHistoryObject,
+    historyObjectId,
+    normalizeSerializedHistory,
+} from "./serialization";
+export type { HistoryCommand, SerializedHistory, SerializedHistoryNode, SerializedImage, SerializedRect } from "./serialization";
+export { DEFAULT_HISTORY_BUDGET_BYTES } from "./memory";
+export { createIndexedDbSpillStore } from "./spill";
+export type { HistorySpillStore } from "./spill";
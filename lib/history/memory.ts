@@ -0,0 +1,18 @@
+import { FabricImage } from "fabric";
+
+/**
+ * Approximate in-memory cost of history actions, reported by `Action.byteCost()`.
+ * Only relative sizes matter: the budget decides which actions to spill or forget first.
+ */
+
+export const DEFAULT_HISTORY_BUDGET_BYTES = 256 * 1024 * 1024;
+
+/** Selection geometry, layer ids and other bookkeeping-only actions. */
+export const SMALL_ACTION_BYTES = 512;
+
+/** Decoded RGBA size of an image at its intrinsic resolution. */
+export const imageByteCost = (img: FabricImage | null | undefined): number =>
+    img ? Math.round((img.width || 0) * (img.height || 0)) * 4 : 0;
+
+/** JavaScript strings (data URLs included) are UTF-16. */
+export const stringByteCost = (value: string | null | undefined): number => (value?.length ?? 0) * 2;
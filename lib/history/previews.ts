@@ -0,0 +1,56 @@
+const loadImage = (src: string) =>
+    new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load history preview'));
+        img.src = src;
+    });
+
+// Summed RGBA distance below which two pixels count as unchanged (absorbs resampling noise).
+const DIFF_THRESHOLD = 24;
+
+/**
+ * Visual diff of two history node previews: `b` dimmed to grey, with every pixel that differs
+ * from `a` painted red. Previews of different sizes are compared from the top-left corner.
+ */
+export const diffHistoryPreviews = async (a: string, b: string): Promise<string> => {
+    const [imageA, imageB] = await Promise.all([loadImage(a), loadImage(b)]);
+    const width = Math.max(imageA.width, imageB.width, 1);
+    const height = Math.max(imageA.height, imageB.height, 1);
+
+    const read = (img: HTMLImageElement) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(img, 0, 0);
+        return ctx.getImageData(0, 0, width, height);
+    };
+    const pixelsA = read(imageA).data;
+    const output = read(imageB);
+    const pixelsB = output.data;
+
+    for (let i = 0; i < pixelsB.length; i += 4) {
+        const distance = Math.abs(pixelsA[i] - pixelsB[i])
+            + Math.abs(pixelsA[i + 1] - pixelsB[i + 1])
+            + Math.abs(pixelsA[i + 2] - pixelsB[i + 2])
+            + Math.abs(pixelsA[i + 3] - pixelsB[i + 3]);
+        if (distance > DIFF_THRESHOLD) {
+            pixelsB[i] = 239;
+            pixelsB[i + 1] = 68;
+            pixelsB[i + 2] = 68;
+            pixelsB[i + 3] = 255;
+        } else {
+            const grey = (pixelsB[i] * 0.299 + pixelsB[i + 1] * 0.587 + pixelsB[i + 2] * 0.114) * 0.35 + 160;
+            pixelsB[i] = grey;
+            pixelsB[i + 1] = grey;
+            pixelsB[i + 2] = grey;
+        }
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.putImageData(output, 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,69 @@
+import { Action, RevivedHistory } from "./HistoryManager";
+import { HistoryCommand, SerializedHistoryNode, normalizeSerializedHistory } from "./serialization";
+
+/** `applied` commands are on the path to the current node (their effect is in the document). */
+export type CommandState = 'applied' | 'undone';
+
+export type CommandReviver = (command: HistoryCommand, state: CommandState) => Promise<Action | null>;
+
+/**
+ * Rebuilds the history tree from `HistoryManager.serialize()` output (or the older linear
+ * stacks). The document must already be in the state the history was saved with, so nothing is
+ * executed.
+ *
+ * The path to the current node is revived first, from the current node up. The first command on
+ * it that cannot be revived becomes the new root: stepping back past a missing command would
+ * corrupt the document. Branches are then revived parents first; one that fails is dropped with
+ * everything below it. This order lets revivers share objects between neighbouring commands.
+ */
+export const replayHistory = async (history: unknown, revive: CommandReviver): Promise<RevivedHistory | null> => {
+    const normalized = normalizeSerializedHistory(history);
+    if (!normalized) return null;
+
+    const byId = new Map(normalized.nodes.map((node) => [node.id, node]));
+    const children = new Map<string, SerializedHistoryNode[]>();
+    normalized.nodes.forEach((node) => {
+        if (node.parentId) children.set(node.parentId, [...(children.get(node.parentId) ?? []), node]);
+    });
+
+    const tryRevive = async (node: SerializedHistoryNode, state: CommandState) => {
+        if (!node.command) return null;
+        try {
+            return await revive(node.command, state);
+        } catch (error) {
+            console.warn(`[history] Failed to revive "${node.command.type}"`, error);
+            return null;
+        }
+    };
+
+    const actions = new Map<string, Action | null>();
+    let rootId = normalized.currentId;
+    for (let node = byId.get(normalized.currentId); node?.parentId; node = byId.get(node.parentId)) {
+        const action = await tryRevive(node, 'applied');
+        if (!action) break;
+        actions.set(node.id, action);
+        rootId = node.parentId;
+    }
+    actions.set(rootId, null);
+
+    const revived: RevivedHistory['nodes'] = [];
+    const visit = async (node: SerializedHistoryNode, parentId: string | null) => {
+        let action = actions.get(node.id);
+        if (action === undefined) {
+            action = await tryRevive(node, 'undone');
+            if (!action) return;
+        }
+        revived.push({
+            id: node.id,
+            parentId,
+            action,
+            name: node.name,
+            createdAt: node.createdAt,
+            activeChildId: node.activeChildId,
+        });
+        for (const child of children.get(node.id) ?? []) await visit(child, node.id);
+    };
+    await visit(byId.get(rootId)!, null);
+
+    return { currentId: normalized.currentId, nodes: revived };
+};
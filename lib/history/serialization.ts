@@ -0,0 +1,183 @@
+import { FabricImage, Rect } from "fabric";
+
+/**
+ * Serializable description of an Action: enough to rebuild it after a reload.
+ * `assets` holds the pixels the command needs (data URLs, which become `asset:` refs when the
+ * project is saved to the cloud); everything else lives in `params`.
+ */
+export interface HistoryCommand {
+    type: string;
+    params: Record<string, unknown>;
+    assets?: Record<string, string>;
+}
+
+export interface SerializedHistoryNode {
+    id: string;
+    parentId: string | null;
+    /** `null` only for the root, which stands for the document before any recorded action. */
+    command: HistoryCommand | null;
+    /** Checkpoint name, if the user gave the node one. */
+    name?: string;
+    createdAt: number;
+    /** The child `redo` follows: the branch last visited from this node. */
+    activeChildId?: string | null;
+}
+
+/** The whole history tree, parents before children, plus the node the document is at. */
+export interface SerializedHistory {
+    version: 2;
+    currentId: string;
+    nodes: SerializedHistoryNode[];
+}
+
+/** Linear stacks, as saved before history branched. */
+interface LegacySerializedHistory {
+    version: 1;
+    undo: HistoryCommand[];
+    redo: HistoryCommand[];
+}
+
+export const HISTORY_COMMAND_TYPES = {
+    uploadImage: 'image.upload',
+    createSelection: 'selection.create',
+    modifySelection: 'selection.modify',
+    clearSelection: 'selection.clear',
+    crop: 'crop',
+    addImageLayer: 'layer.add',
+    setMask: 'mask.set',
+    toggleMask: 'mask.toggle',
+    layerPatch: 'layers.patch',
+} as const;
+
+/** Placement of a Fabric image, without its pixels. */
+export interface SerializedImage {
+    id: string;
+    left: number;
+    top: number;
+    scaleX: number;
+    scaleY: number;
+    angle: number;
+    originX: string;
+    originY: string;
+}
+
+export interface SerializedRect {
+    id: string;
+    props: Record<string, unknown>;
+}
+
+// Several actions share one live object (a selection rect, a cropped image); ids let a replay
+// hand them the same revived object again. The reverse index is weak so it never keeps an
+// object alive on its own.
+const objectIds = new WeakMap<object, string>();
+const objectsById = new Map<string, WeakRef<object>>();
+
+export const historyObjectId = (obj: object): string => {
+    let id = objectIds.get(obj);
+    if (!id) {
+        id = crypto.randomUUID();
+        objectIds.set(obj, id);
+        objectsById.set(id, new WeakRef(obj));
+    }
+    return id;
+};
+
+/** Gives a revived object the id it was serialized under, so a later save keeps the links. */
+export const adoptHistoryObjectId = (obj: object, id: string) => {
+    objectIds.set(obj, id);
+    objectsById.set(id, new WeakRef(obj));
+};
+
+/** The object serialized under `id`, if it is still alive (on the canvas or held by another action). */
+export const findHistoryObject = <T extends object>(id: string): T | null => {
+    const obj = objectsById.get(id)?.deref();
+    if (!obj) objectsById.delete(id);
+    return (obj as T | undefined) ?? null;
+};
+
+export const serializeImage = (img: FabricImage): SerializedImage => ({
+    id: historyObjectId(img),
+    left: img.left ?? 0,
+    top: img.top ?? 0,
+    scaleX: img.scaleX ?? 1,
+    scaleY: img.scaleY ?? 1,
+    angle: img.angle ?? 0,
+    originX: String(img.originX ?? 'left'),
+    originY: String(img.originY ?? 'top'),
+});
+
+/** The image's own pixels as a data URL; object and blob URLs do not survive a reload. */
+export const imageSource = (img: FabricImage): string => {
+    const src = img.getSrc();
+    if (src && src.startsWith('data:')) return src;
+    const element = img.getElement() as HTMLImageElement | HTMLCanvasElement;
+    const width = Math.max(1, Math.round(img.width || element.width || 1));
+    const height = Math.max(1, Math.round(img.height || element.height || 1));
+    const off = document.createElement('canvas');
+    off.width = width;
+    off.height = height;
+    off.getContext('2d')?.drawImage(element, img.cropX || 0, img.cropY || 0, width, height, 0, 0, width, height);
+    return off.toDataURL('image/png');
+};
+
+export const serializeRect = (rect: Rect): SerializedRect => ({
+    id: historyObjectId(rect),
+    props: {
+        left: rect.left ?? 0,
+        top: rect.top ?? 0,
+        width: rect.width ?? 0,
+        height: rect.height ?? 0,
+        scaleX: rect.scaleX ?? 1,
+        scaleY: rect.scaleY ?? 1,
+        fill: rect.fill,
+        stroke: rect.stroke,
+        strokeWidth: rect.strokeWidth,
+        strokeDashArray: rect.strokeDashArray,
+    },
+});
+
+const isCommand = (value: any): value is HistoryCommand =>
+    typeof value?.type === 'string' && Boolean(value.params) && typeof value.params === 'object';
+
+const fromLegacy = (history: LegacySerializedHistory): SerializedHistory => {
+    // The undo stack becomes a chain under the root; the redo stack continues it from the top
+    // (its last entry is the next redo).
+    const commands = [...history.undo, ...history.redo.slice().reverse()];
+    const ids = commands.map(() => crypto.randomUUID());
+    const rootId = crypto.randomUUID();
+    const nodes: SerializedHistoryNode[] = [{ id: rootId, parentId: null, command: null, createdAt: 0, activeChildId: ids[0] ?? null }];
+    commands.forEach((command, index) => {
+        nodes.push({
+            id: ids[index],
+            parentId: index === 0 ? rootId : ids[index - 1],
+            command,
+            createdAt: index + 1,
+            activeChildId: ids[index + 1] ?? null,
+        });
+    });
+    return { version: 2, currentId: history.undo.length > 0 ? ids[history.undo.length - 1] : rootId, nodes };
+};
+
+/** Validates persisted history, upgrading linear stacks to a single-branch tree; `null` if unusable. */
+export const normalizeSerializedHistory = (value: any): SerializedHistory | null => {
+    if (!value || typeof value !== 'object') return null;
+    if (value.version === 1) {
+        if (!Array.isArray(value.undo) || !Array.isArray(value.redo)) return null;
+        if (![...value.undo, ...value.redo].every(isCommand)) return null;
+        return fromLegacy(value);
+    }
+    if (value.version !== 2 || !Array.isArray(value.nodes) || typeof value.currentId !== 'string') return null;
+    const seen = new Set<string>();
+    let roots = 0;
+    for (const node of value.nodes) {
+        if (typeof node?.id !== 'string' || seen.has(node.id)) return null;
+        if (node.parentId === null) {
+            roots += 1;
+        } else if (typeof node.parentId !== 'string' || !seen.has(node.parentId) || !isCommand(node.command)) {
+            return null;
+        }
+        seen.add(node.id);
+    }
+    if (roots !== 1 || !seen.has(value.currentId)) return null;
+    return value as SerializedHistory;
+};
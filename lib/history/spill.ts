@@ -0,0 +1,82 @@
+import { HistoryCommand } from "./serialization";
+
+/**
+ * Where `HistoryManager` parks the serialized commands of old, heavy actions so their pixels can
+ * leave memory. Entries belong to one page session.
+ */
+export interface HistorySpillStore {
+    put(nodeId: string, command: HistoryCommand): Promise<void>;
+    get(nodeId: string): Promise<HistoryCommand | null>;
+    delete(nodeId: string): Promise<void>;
+    /** Removes everything this session spilled. */
+    clear(): Promise<void>;
+}
+
+const DB_NAME = 'zerothlayer-history';
+const STORE_NAME = 'spilled';
+// Sessions that crashed or were closed without `clear` leave entries behind; sweep them eventually.
+const STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface SpillRecord {
+    key: string;
+    command: HistoryCommand;
+    savedAt: number;
+}
+
+const settle = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/** IndexedDB-backed spill store, or `null` where IndexedDB is unavailable (SSR, private modes). */
+export const createIndexedDbSpillStore = (): HistorySpillStore | null => {
+    if (typeof indexedDB === 'undefined') return null;
+
+    const sessionId = crypto.randomUUID();
+    const keyOf = (nodeId: string) => `${sessionId}:${nodeId}`;
+
+    const database = new Promise<IDBDatabase>((resolve, reject) => {
+        const open = indexedDB.open(DB_NAME, 1);
+        open.onupgradeneeded = () => {
+            open.result.createObjectStore(STORE_NAME, { keyPath: 'key' }).createIndex('savedAt', 'savedAt');
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+    });
+
+    const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+        const db = await database;
+        return settle(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+    };
+
+    database
+        .then((db) => {
+            const range = IDBKeyRange.upperBound(Date.now() - STALE_AFTER_MS);
+            const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).index('savedAt').openCursor(range);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return;
+                cursor.delete();
+                cursor.continue();
+            };
+        })
+        .catch((error) => console.warn('[history] Failed to sweep spilled history', error));
+
+    return {
+        put: async (nodeId, command) => {
+            const record: SpillRecord = { key: keyOf(nodeId), command, savedAt: Date.now() };
+            await withStore('readwrite', (store) => store.put(record));
+        },
+        get: async (nodeId) => {
+            const record = await withStore<SpillRecord | undefined>('readonly', (store) => store.get(keyOf(nodeId)));
+            return record?.command ?? null;
+        },
+        delete: async (nodeId) => {
+            await withStore('readwrite', (store) => store.delete(keyOf(nodeId)));
+        },
+        clear: async () => {
+            await withStore('readwrite', (store) => store.delete(IDBKeyRange.bound(`${sessionId}:`, `${sessionId}:\uffff`)));
+        },
+    };
+};
@@ -0,0 +1,62 @@
+import { FabricImage } from "fabric";
+import type { StateCreator } from "zustand";
+import { Action, isApplyingHistory } from "./HistoryManager";
+import { LayerPatch, LayerPatchAction, LayerPatchTarget, LayerStack } from "./LayerPatchAction";
+
+/** Where recorded layer store changes go; Canvas binds its history and layer objects here. */
+export interface LayerHistoryBinding {
+    record(action: Action): void;
+    /** The canvas object of a layer about to leave the store, kept by the step that removes it. */
+    retain(layerId: string): FabricImage | null;
+    /** Puts a retained object back once its layer is in the store again. */
+    restore(layerId: string, image: FabricImage): void;
+}
+
+let binding: LayerHistoryBinding | null = null;
+let target: LayerPatchTarget | null = null;
+let paused = 0;
+
+export const bindLayerHistory = (next: LayerHistoryBinding): (() => void) => {
+    binding = next;
+    return () => {
+        if (binding === next) binding = null;
+    };
+};
+
+/** Runs `update` without recording it (project loads, resets). */
+export const withoutLayerHistory = <T>(update: () => T): T => {
+    paused += 1;
+    try {
+        return update();
+    } finally {
+        paused -= 1;
+    }
+};
+
+/** Rebuilds a recorded step from its command; `null` before the store exists. */
+export const reviveLayerPatch = (forward: LayerPatch, inverse: LayerPatch, retained: Map<string, FabricImage>) =>
+    target ? new LayerPatchAction(forward, inverse, target, retained) : null;
+
+/**
+ * Store middleware: every change the store's own actions make to `layers` is recorded as a
+ * `LayerPatchAction` on the bound history. Direct `setState` calls (collaborators' edits being
+ * materialized) and changes made while history is stepping are left out.
+ */
+export const layerHistory = <T extends LayerStack>(config: StateCreator<T>): StateCreator<T> =>
+    (set, get, api) => {
+        target = {
+            read: () => api.getState(),
+            write: (stack) => api.setState(stack as Partial<T>),
+            retain: (layerId) => binding?.retain(layerId) ?? null,
+            restore: (layerId, image) => binding?.restore(layerId, image),
+        };
+        const recordingSet = ((partial: any, replace?: any) => {
+            const before = get();
+            set(partial, replace);
+            const after = get();
+            if (!binding || !target || paused > 0 || isApplyingHistory() || before.layers === after.layers) return;
+            const action = LayerPatchAction.between(before, after, target);
+            if (action) binding.record(action);
+        }) as typeof set;
+        return config(recordingSet, get, api);
+    };
@@ -0,0 +1,59 @@
+import type { GroupMode } from './groups';
+
+/**
+ * The layer record the store holds and projects save. Kept apart from the store so code that only
+ * handles layer data (the room server, the renderer, PSD and project files) need not compile the
+ * store and its browser-side history.
+ */
+
+export interface Layer {
+    id: string;
+    type: 'image' | 'adjustment' | 'smart' | 'group' | 'text' | 'shape' | 'video' | 'threeD';
+    name: string;
+    visible: boolean;
+    locked: boolean;
+    opacity: number;
+    fillOpacity?: number;
+    blendMode: string;
+    clippingMask?: boolean;
+    // Group hierarchy (see `lib/groups`): the enclosing group, and for groups their
+    // compositing mode and whether the layer panel shows their children.
+    parentId?: string;
+    groupMode?: GroupMode;
+    collapsed?: boolean;
+    canvasObjectId?: string;
+    thumbnail?: string;
+    smartObject?: boolean;
+    linkedAsset?: boolean;
+    externalSrc?: string;
+    layerStyle?: {
+        dropShadow?: number;
+        stroke?: number;
+        glow?: number;
+        bevel?: number;
+    };
+    mask?: {
+        dataUrl: string; // White = visible, Black = hidden
+        visible: boolean;
+    };
+    filters?: Record<string, number>; // e.g. { brightness: 0.1, contrast: -0.2 }
+
+    // AI Metadata
+    aiData?: {
+        prompt: string;
+        seed: number;
+        provider: string;
+        context: Record<string, any>;
+        originalMask?: string;
+        // Candidate results from a multi-variant generation; the layer shows `variants[activeVariant]`.
+        variants?: Array<{ image: string; seed?: number }>;
+        activeVariant?: number;
+    };
+}
+
+// Soft edit lock held by another collaborator (see `lib/collab`); not part of the layer itself.
+export interface LayerLock {
+    userId: string;
+    name: string;
+    color: string;
+}
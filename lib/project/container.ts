@@ -0,0 +1,188 @@
+import { decodeDataUrl, encodeDataUrl } from '../storage/asset-refs';
+import { ProjectFormatError, ProjectPayload } from './schema';
+import { ZipFileInput, ZipSource, isZipData, readZipDirectory, readZipEntry, writeZip } from './zip';
+
+/**
+ * The zipped `.zlayer` container. `manifest.json` is the project payload with every embedded
+ * image replaced by a `zip:<entry>` reference, and the images sit next to it as files:
+ * `preview.png`, `layers/<layer id>.png`, `masks/<layer id>.png`, `thumbnails/<layer id>.png`,
+ * and `assets/<n>.png` for the rest (history snapshots, AI variants). Identical images are
+ * stored once. Files written before the container are plain JSON; `openProjectFile` reads both.
+ *
+ * Strings of the project's own that happen to start with `zip:` (a note, a layer name) are written
+ * as `zip::<string>`; entry names never start with `:`, so the two cannot be confused.
+ */
+
+export const PROJECT_MANIFEST = 'manifest.json';
+export const ZIP_REF_PREFIX = 'zip:';
+const ESCAPED_PREFIX = `${ZIP_REF_PREFIX}:`;
+export const PROJECT_CONTAINER_MIME_TYPE = 'application/zip';
+
+const ENTRY_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/avif': 'avif',
+    'image/svg+xml': 'svg',
+};
+
+// Formats that are compressed already; deflating them again only costs time.
+const PRECOMPRESSED = new Set(['png', 'webp', 'jpg', 'gif', 'avif']);
+
+const isDataUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:');
+
+const isZipRef = (value: unknown): value is string =>
+    typeof value === 'string' && value.startsWith(ZIP_REF_PREFIX) && !value.startsWith(ESCAPED_PREFIX);
+
+const escapeString = (value: string) => (value.startsWith(ZIP_REF_PREFIX) ? `${ESCAPED_PREFIX}${value}` : value);
+
+const unescapeString = (value: string) => (value.startsWith(ESCAPED_PREFIX) ? value.slice(ESCAPED_PREFIX.length) : value);
+
+const mimeTypeOf = (entryName: string) => {
+    const extension = entryName.slice(entryName.lastIndexOf('.') + 1).toLowerCase();
+    return Object.keys(ENTRY_EXTENSIONS).find((mimeType) => ENTRY_EXTENSIONS[mimeType] === extension) ?? 'application/octet-stream';
+};
+
+const mapStrings = (value: unknown, map: (value: string) => string): unknown => {
+    if (typeof value === 'string') return map(value);
+    if (Array.isArray(value)) return value.map((item) => mapStrings(item, map));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+    }
+    return value;
+};
+
+/** A payload as a `.zlayer` archive. Images that are references already (`asset:`) stay in the manifest. */
+export const packProjectContainer = async (project: ProjectPayload): Promise<Uint8Array> => {
+    const images: ZipFileInput[] = [];
+    const entryNames = new Map<string, string>();
+    const usedNames = new Set<string>();
+    let assetCount = 0;
+
+    const store = (dataUrl: string, baseName: () => string) => {
+        let name = entryNames.get(dataUrl);
+        if (!name) {
+            const { bytes, mimeType } = decodeDataUrl(dataUrl);
+            const extension = ENTRY_EXTENSIONS[mimeType] ?? 'bin';
+            const base = baseName();
+            name = `${base}.${extension}`;
+            for (let n = 2; usedNames.has(name); n++) name = `${base}-${n}.${extension}`;
+            usedNames.add(name);
+            entryNames.set(dataUrl, name);
+            images.push({ name, data: bytes, compress: !PRECOMPRESSED.has(extension) });
+        }
+        return `${ZIP_REF_PREFIX}${name}`;
+    };
+    const fileId = (id: string) => id.replace(/[^A-Za-z0-9_-]+/g, '_') || 'layer';
+
+    const payload = mapStrings(project, escapeString) as ProjectPayload;
+    const preview = isDataUrl(payload.preview) ? store(payload.preview, () => 'preview') : payload.preview;
+    const layers = payload.layers.map((layer) => ({
+        ...layer,
+        image: isDataUrl(layer.image) ? store(layer.image, () => `layers/${fileId(layer.id)}`) : layer.image,
+        ...(layer.mask && isDataUrl(layer.mask.dataUrl)
+            ? { mask: { ...layer.mask, dataUrl: store(layer.mask.dataUrl, () => `masks/${fileId(layer.id)}`) } }
+            : {}),
+        ...(isDataUrl(layer.thumbnail) ? { thumbnail: store(layer.thumbnail, () => `thumbnails/${fileId(layer.id)}`) } : {}),
+    }));
+    const manifest = mapStrings({ ...payload, preview, layers }, (value) =>
+        isDataUrl(value) ? store(value, () => `assets/${++assetCount}`) : value
+    );
+
+    return writeZip([
+        { name: PROJECT_MANIFEST, data: new TextEncoder().encode(JSON.stringify(manifest)), compress: true },
+        ...images,
+    ]);
+};
+
+/** An opened `.zlayer` file, read on demand. */
+export interface ProjectFile {
+    /** The flattened preview (a data URL), read without the rest of the file. */
+    preview: () => Promise<string | null>;
+    /**
+     * The payload with every image inline, ready for `parseProjectPayload`. Entries are decoded
+     * one at a time; `onProgress` is called after each.
+     */
+    payload: (onProgress?: (done: number, total: number) => void) => Promise<unknown>;
+}
+
+/** Caps for archives from untrusted callers; each entry is always capped by `readZipEntry`. */
+export interface ProjectFileLimits {
+    /** Most entries the archive may list. */
+    maxEntries?: number;
+    /** Most bytes all entries may inflate to together, as recorded in the directory (which reads enforce). */
+    maxTotalSize?: number;
+}
+
+const damaged = (error: unknown) =>
+    error instanceof ProjectFormatError
+        ? error
+        : new ProjectFormatError(`The project archive is damaged: ${error instanceof Error ? error.message : error}`);
+
+/** Opens a `.zlayer` file of either form: the zipped container or the older plain JSON. */
+export const openProjectFile = async (source: ZipSource, limits: ProjectFileLimits = {}): Promise<ProjectFile> => {
+    if (!isZipData(await source.read(0, 4))) {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(new TextDecoder().decode(await source.read(0, source.size)));
+        } catch {
+            throw new ProjectFormatError('Not a Zerothlayer project: the file is neither a project archive nor JSON');
+        }
+        return {
+            preview: async () => (typeof parsed?.preview === 'string' ? parsed.preview : null),
+            payload: async () => parsed,
+        };
+    }
+
+    let manifest: any;
+    let readImage: (ref: string) => Promise<string>;
+    try {
+        const directory = await readZipDirectory(source);
+        if (limits.maxEntries !== undefined && directory.length > limits.maxEntries) {
+            throw new ProjectFormatError(`The project archive has more than ${limits.maxEntries} entries`);
+        }
+        const totalSize = directory.reduce((total, entry) => total + entry.size, 0);
+        if (limits.maxTotalSize !== undefined && totalSize > limits.maxTotalSize) {
+            throw new ProjectFormatError(`The project archive unpacks to more than ${limits.maxTotalSize} bytes`);
+        }
+        const entries = new Map(directory.map((entry) => [entry.name, entry]));
+        const manifestEntry = entries.get(PROJECT_MANIFEST);
+        if (!manifestEntry) throw new ProjectFormatError(`Not a Zerothlayer project: the archive has no ${PROJECT_MANIFEST}`);
+        manifest = JSON.parse(new TextDecoder().decode(await readZipEntry(source, manifestEntry)));
+        readImage = async (ref) => {
+            const name = ref.slice(ZIP_REF_PREFIX.length);
+            const entry = entries.get(name);
+            if (!entry) throw new ProjectFormatError(`The project archive is damaged: ${name} is missing`);
+            return encodeDataUrl(await readZipEntry(source, entry), mimeTypeOf(name));
+        };
+    } catch (error) {
+        throw damaged(error);
+    }
+
+    return {
+        preview: async () => {
+            const preview = manifest?.preview;
+            if (typeof preview !== 'string') return null;
+            return isZipRef(preview) ? readImage(preview).catch(() => null) : unescapeString(preview);
+        },
+        payload: async (onProgress) => {
+            const refs = new Set<string>();
+            mapStrings(manifest, (value) => {
+                if (isZipRef(value)) refs.add(value);
+                return value;
+            });
+            const images = new Map<string, string>();
+            onProgress?.(0, refs.size);
+            try {
+                for (const ref of refs) {
+                    images.set(ref, await readImage(ref));
+                    onProgress?.(images.size, refs.size);
+                }
+            } catch (error) {
+                throw damaged(error);
+            }
+            return mapStrings(manifest, (value) => images.get(value) ?? unescapeString(value));
+        },
+    };
+};
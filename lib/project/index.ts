@@ -0,0 +1,36 @@
+import { ProjectFormatError, ProjectIssue, ProjectPayload } from './schema';
+import { migrateProjectPayload } from './migrations';
+import { validateProjectPayload } from './validate';
+
+/**
+ * The `.zlayer` project format: a versioned schema (`ProjectPayload`), a validator that lists
+ * every problem with its location, and a migration chain that upgrades files from older
+ * versions. Everything that opens a project goes through `parseProjectPayload`; nothing here
+ * touches the DOM, so the server and the CLI share it. Files on disk are zipped containers
+ * (`packProjectContainer`) or, from before those, plain JSON; `openProjectFile` reads both.
+ */
+
+export * from './schema';
+export { migrateProjectPayload } from './migrations';
+export { validateProjectPayload } from './validate';
+export { PROJECT_CONTAINER_MIME_TYPE, PROJECT_MANIFEST, ZIP_REF_PREFIX, openProjectFile, packProjectContainer } from './container';
+export type { ProjectFile, ProjectFileLimits } from './container';
+export { blobZipSource, bytesZipSource } from './zip';
+export type { ZipSource } from './zip';
+
+/** The first few issues as one line each, for error messages. */
+export const describeProjectIssues = (issues: ProjectIssue[], limit = 8) => {
+    const lines = issues.slice(0, limit).map((issue) => `${issue.path || 'file'}: ${issue.message}`);
+    if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+    return lines.join('\n');
+};
+
+/** Migrates a parsed `.zlayer` file to the current version and validates it; throws `ProjectFormatError`. */
+export const parseProjectPayload = (value: unknown): ProjectPayload => {
+    const payload = migrateProjectPayload(value);
+    const issues = validateProjectPayload(payload);
+    if (issues.length > 0) {
+        throw new ProjectFormatError(`The project file is damaged:\n${describeProjectIssues(issues)}`, issues);
+    }
+    return payload as ProjectPayload;
+};
@@ -0,0 +1,61 @@
+import { PROJECT_FORMAT_VERSION, ProjectFormatError } from './schema';
+
+/**
+ * Upgrades from each old version to the next; `migrateProjectPayload` runs them in order, so a
+ * file of any version reaches the current one. Add a step here whenever the format changes, and
+ * bump `PROJECT_FORMAT_VERSION`.
+ */
+const MIGRATIONS: Record<number, (payload: Record<string, any>) => Record<string, any>> = {
+    // Version 1 saved only the layer stack; loaders filled in missing layer fields themselves.
+    // Version 2 spells those defaults out and adds the rest of the document, empty.
+    1: (payload) => ({
+        ...payload,
+        version: 2,
+        preview: payload.preview ?? null,
+        history: payload.history ?? null,
+        layers: Array.isArray(payload.layers)
+            ? payload.layers.map((layer: any) => (layer && typeof layer === 'object'
+                ? {
+                    visible: true,
+                    locked: false,
+                    opacity: 1,
+                    blendMode: 'normal',
+                    ...layer,
+                    image: layer.image ?? null,
+                    transform: layer.transform ?? null,
+                }
+                : layer))
+            : payload.layers,
+        paths: [],
+        artboards: [],
+        slices: [],
+        notes: [],
+        comments: [],
+        timeline: null,
+        libraries: [],
+    }),
+};
+
+/**
+ * A payload brought up to the current version (unchecked; see `validateProjectPayload`).
+ * Payloads without a version predate versioning and are read as version 1.
+ */
+export const migrateProjectPayload = (value: unknown): Record<string, any> => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ProjectFormatError('Not a Zerothlayer project: expected a JSON object');
+    }
+    let payload = value as Record<string, any>;
+    const version = payload.version ?? 1;
+    if (!Number.isInteger(version) || version < 1) {
+        throw new ProjectFormatError(`Unknown project format version ${JSON.stringify(payload.version)}`, [
+            { path: 'version', message: `expected a whole number from 1 to ${PROJECT_FORMAT_VERSION}` },
+        ]);
+    }
+    if (version > PROJECT_FORMAT_VERSION) {
+        throw new ProjectFormatError(
+            `This project was saved by a newer version of Zerothlayer (format ${version}; this one reads up to ${PROJECT_FORMAT_VERSION})`
+        );
+    }
+    for (let from = version; from < PROJECT_FORMAT_VERSION; from++) payload = MIGRATIONS[from](payload);
+    return payload;
+};
@@ -0,0 +1,152 @@
+import type { Layer } from '../layers';
+import type { CommentThread } from '../comments';
+import type { HistoryCommand, SerializedHistory } from '../history/serialization';
+import type { BezierNode } from '../vector';
+
+/** Placement of a layer's pixels: top-left origin, scale from the saved image size, degrees. */
+export interface ProjectTransform {
+    left: number;
+    top: number;
+    scaleX: number;
+    scaleY: number;
+    angle: number;
+}
+
+/** A layer as saved: the store's layer plus its pixels (a data URL or asset reference) and placement. */
+export type ProjectLayer = Layer & {
+    image: string | null;
+    transform: ProjectTransform | null;
+};
+
+export interface ProjectRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** A Paths panel entry; `nodes` are in document coordinates. */
+export interface ProjectPath {
+    id: string;
+    name: string;
+    visible: boolean;
+    kind: 'work' | 'selection' | 'shape' | 'pen' | 'curvature';
+    bounds?: ProjectRect;
+    closed?: boolean;
+    nodes?: BezierNode[];
+}
+
+export interface ProjectArtboard extends ProjectRect {
+    id: string;
+    name: string;
+}
+
+export interface ProjectSlice extends ProjectRect {
+    id: string;
+    name: string;
+}
+
+export interface ProjectNote {
+    id: string;
+    text: string;
+    x: number;
+    y: number;
+    createdAt: string;
+}
+
+export interface ProjectTimeline {
+    frame: number;
+    fps: number;
+    durationFrames: number;
+    keyframes: number[];
+    /** Frames of the frame animation, in order. */
+    animationFrames: number[];
+    videoEdit: {
+        inFrame: number;
+        outFrame: number;
+        speed: number;
+        loop: boolean;
+        transition: 'cut' | 'fade' | 'dissolve';
+    };
+}
+
+/** A Libraries panel entry: a colour, a two-stop gradient, a text style or a brush preset. */
+export type LibraryAsset =
+    | { id: string; name: string; type: 'color'; color: string }
+    | { id: string; name: string; type: 'gradient'; a: string; b: string }
+    | {
+        id: string;
+        name: string;
+        type: 'textStyle';
+        fontSize: number;
+        fontFamily: 'sans' | 'serif' | 'mono';
+        fontWeight: 300 | 400 | 500 | 600 | 700;
+        italic: boolean;
+        underline: boolean;
+        lineHeight: number;
+        tracking: number;
+        paragraphSpacing: number;
+        paragraphIndent: number;
+        textAlign: 'left' | 'center' | 'right';
+        textDirection: 'horizontal' | 'vertical';
+        liga: boolean;
+        discretionaryLiga: boolean;
+        kerning: boolean;
+        oldStyleFigures: boolean;
+        smallCaps: boolean;
+    }
+    | {
+        id: string;
+        name: string;
+        type: 'brushPreset';
+        size: number;
+        hardness: number;
+        spacing: number;
+        shape: 'round' | 'square' | 'chalk';
+        flow: number;
+        jitter: number;
+        texture: number;
+        textureScale: number;
+    };
+
+/** The document around the layer stack, which the editor keeps outside the canvas. */
+export interface ProjectDocument {
+    paths: ProjectPath[];
+    artboards: ProjectArtboard[];
+    slices: ProjectSlice[];
+    notes: ProjectNote[];
+    /** Review threads as they were when saved; cloud projects keep the live ones on the server. */
+    comments: CommentThread[];
+    timeline: ProjectTimeline | null;
+    libraries: LibraryAsset[];
+}
+
+/** The version `buildProjectPayload` writes; older files are migrated up to it. */
+export const PROJECT_FORMAT_VERSION = 2;
+
+/** A `.zlayer` file, current version. Layers are top-most first, as in the store. */
+export interface ProjectPayload extends ProjectDocument {
+    version: 2;
+    /** When the file was written (ISO 8601); informational. */
+    exportedAt?: string;
+    canvas: { width: number; height: number };
+    /** Flattened PNG data URL (or asset reference), for snapshot previews. */
+    preview: string | null;
+    /** The history tree; files saved before history branched hold linear stacks, which `replayHistory` upgrades. */
+    history: SerializedHistory | { version: 1; undo: HistoryCommand[]; redo: HistoryCommand[] } | null;
+    layers: ProjectLayer[];
+}
+
+/** One problem found in a payload: where (`layers[2].transform.scaleX`) and what. */
+export interface ProjectIssue {
+    path: string;
+    message: string;
+}
+
+/** A payload that cannot be opened: not a project, from a newer release, or failing validation. */
+export class ProjectFormatError extends Error {
+    constructor(message: string, readonly issues: ProjectIssue[] = []) {
+        super(message);
+        this.name = 'ProjectFormatError';
+    }
+}
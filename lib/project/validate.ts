@@ -0,0 +1,316 @@
+import type { ProjectIssue } from './schema';
+
+/**
+ * Structural checks for the current payload version. Each check reports every problem it finds
+ * with the path to the offending value, rather than stopping at the first. Fields the schema does
+ * not know are left alone, so files from newer minor additions still open.
+ */
+
+type Check = (value: unknown, path: string, issues: ProjectIssue[]) => void;
+
+// Marks a check whose key may be absent from its object.
+type OptionalCheck = Check & { optional: true };
+
+const typeName = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const string: Check = (value, path, issues) => {
+    if (typeof value !== 'string') issues.push({ path, message: `expected a string, got ${typeName(value)}` });
+};
+
+const boolean: Check = (value, path, issues) => {
+    if (typeof value !== 'boolean') issues.push({ path, message: `expected true or false, got ${typeName(value)}` });
+};
+
+const number = (min = -Infinity, max = Infinity): Check => (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `expected a number, got ${typeName(value)}` });
+    } else if (value < min || value > max) {
+        const range = max === Infinity ? `of at least ${min}` : min === -Infinity ? `of at most ${max}` : `from ${min} to ${max}`;
+        issues.push({ path, message: `expected a number ${range}, got ${value}` });
+    }
+};
+
+const oneOf = (...values: Array<string | number>): Check => (value, path, issues) => {
+    if (!values.includes(value as string | number)) {
+        issues.push({ path, message: `expected one of ${values.map((item) => JSON.stringify(item)).join(', ')}, got ${JSON.stringify(value) ?? typeName(value)}` });
+    }
+};
+
+const optional = (check: Check): OptionalCheck => Object.assign((value: unknown, path: string, issues: ProjectIssue[]) => {
+    if (value !== undefined) check(value, path, issues);
+}, { optional: true as const });
+
+const nullable = (check: Check): Check => (value, path, issues) => {
+    if (value !== null) check(value, path, issues);
+};
+
+const arrayOf = (check: Check): Check => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array, got ${typeName(value)}` });
+        return;
+    }
+    value.forEach((item, index) => check(item, `${path}[${index}]`, issues));
+};
+
+const recordOf = (check: Check): Check => (value, path, issues) => {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `expected an object, got ${typeName(value)}` });
+        return;
+    }
+    Object.entries(value).forEach(([key, item]) => check(item, `${path}.${key}`, issues));
+};
+
+const object = (shape: Record<string, Check>): Check => (value, path, issues) => {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `expected an object, got ${typeName(value)}` });
+        return;
+    }
+    Object.entries(shape).forEach(([key, check]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        if (value[key] === undefined && !(check as Partial<OptionalCheck>).optional) {
+            issues.push({ path: childPath, message: 'is missing' });
+            return;
+        }
+        check(value[key], childPath, issues);
+    });
+};
+
+// Picks the shape by a discriminating field.
+const variants = (key: string, shapes: Record<string, Record<string, Check>>): Check => (value, path, issues) => {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `expected an object, got ${typeName(value)}` });
+        return;
+    }
+    const shape = shapes[String(value[key])];
+    if (!shape) {
+        oneOf(...Object.keys(shapes))(value[key], `${path}.${key}`, issues);
+        return;
+    }
+    object(shape)(value, path, issues);
+};
+
+// Any object; its contents belong to another module.
+const anyObject = recordOf(() => undefined);
+
+const rect = { x: number(), y: number(), width: number(0), height: number(0) };
+
+const transform = object({ left: number(), top: number(), scaleX: number(), scaleY: number(), angle: number() });
+
+const layer = object({
+    id: string,
+    type: oneOf('image', 'adjustment', 'smart', 'group', 'text', 'shape', 'video', 'threeD'),
+    name: string,
+    visible: boolean,
+    locked: boolean,
+    opacity: number(0, 1),
+    fillOpacity: optional(number(0, 1)),
+    blendMode: string,
+    clippingMask: optional(boolean),
+    parentId: optional(string),
+    groupMode: optional(oneOf('pass-through', 'isolated')),
+    collapsed: optional(boolean),
+    canvasObjectId: optional(string),
+    thumbnail: optional(string),
+    smartObject: optional(boolean),
+    linkedAsset: optional(boolean),
+    externalSrc: optional(string),
+    layerStyle: optional(recordOf(optional(number()))),
+    mask: optional(object({ dataUrl: string, visible: boolean })),
+    filters: optional(recordOf(number())),
+    aiData: optional(anyObject),
+    image: nullable(string),
+    transform: nullable(transform),
+});
+
+const pathNode = object({
+    x: number(),
+    y: number(),
+    inX: number(),
+    inY: number(),
+    outX: number(),
+    outY: number(),
+    corner: boolean,
+});
+
+const path = object({
+    id: string,
+    name: string,
+    visible: boolean,
+    kind: oneOf('work', 'selection', 'shape', 'pen', 'curvature'),
+    bounds: optional(object(rect)),
+    closed: optional(boolean),
+    nodes: optional(arrayOf(pathNode)),
+});
+
+const namedRect = object({ id: string, name: string, ...rect });
+
+const note = object({ id: string, text: string, x: number(), y: number(), createdAt: string });
+
+const author = object({ id: string, name: string });
+
+const comment = object({
+    id: string,
+    projectId: string,
+    anchor: variants('kind', {
+        point: { x: number(), y: number() },
+        rect: rect,
+        layer: { layerId: string, x: number(), y: number() },
+    }),
+    author,
+    text: string,
+    mentions: arrayOf(string),
+    resolved: boolean,
+    resolvedBy: optional(author),
+    resolvedAt: optional(string),
+    replies: arrayOf(object({ id: string, author, text: string, mentions: arrayOf(string), createdAt: string })),
+    createdAt: string,
+    updatedAt: string,
+});
+
+const timeline = object({
+    frame: number(0),
+    fps: number(1, 240),
+    durationFrames: number(1),
+    keyframes: arrayOf(number(0)),
+    animationFrames: arrayOf(number(0)),
+    videoEdit: object({
+        inFrame: number(0),
+        outFrame: number(0),
+        speed: number(0),
+        loop: boolean,
+        transition: oneOf('cut', 'fade', 'dissolve'),
+    }),
+});
+
+const libraryAsset = variants('type', {
+    color: { id: string, name: string, color: string },
+    gradient: { id: string, name: string, a: string, b: string },
+    textStyle: {
+        id: string,
+        name: string,
+        fontSize: number(0),
+        fontFamily: oneOf('sans', 'serif', 'mono'),
+        fontWeight: oneOf(300, 400, 500, 600, 700),
+        italic: boolean,
+        underline: boolean,
+        lineHeight: number(0),
+        tracking: number(),
+        paragraphSpacing: number(),
+        paragraphIndent: number(),
+        textAlign: oneOf('left', 'center', 'right'),
+        textDirection: oneOf('horizontal', 'vertical'),
+        liga: boolean,
+        discretionaryLiga: boolean,
+        kerning: boolean,
+        oldStyleFigures: boolean,
+        smallCaps: boolean,
+    },
+    brushPreset: {
+        id: string,
+        name: string,
+        size: number(0),
+        hardness: number(),
+        spacing: number(),
+        shape: oneOf('round', 'square', 'chalk'),
+        flow: number(),
+        jitter: number(),
+        texture: number(),
+        textureScale: number(),
+    },
+});
+
+const historyCommand = object({ type: string, params: anyObject, assets: optional(recordOf(string)) });
+
+// Linear stacks (version 1) or the tree (version 2), whose nodes must list parents first.
+const history: Check = (value, path, issues) => {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `expected an object, got ${typeName(value)}` });
+        return;
+    }
+    if (value.version === 1) {
+        object({ undo: arrayOf(historyCommand), redo: arrayOf(historyCommand) })(value, path, issues);
+        return;
+    }
+    if (value.version !== 2) {
+        oneOf(1, 2)(value.version, `${path}.version`, issues);
+        return;
+    }
+    object({ currentId: string, nodes: arrayOf(anyObject) })(value, path, issues);
+    if (!Array.isArray(value.nodes)) return;
+    const seen = new Set<string>();
+    let roots = 0;
+    value.nodes.forEach((node: Record<string, unknown>, index) => {
+        const nodePath = `${path}.nodes[${index}]`;
+        string(node?.id, `${nodePath}.id`, issues);
+        if (node?.parentId === null) {
+            roots += 1;
+        } else if (typeof node?.parentId !== 'string' || !seen.has(node.parentId)) {
+            issues.push({ path: `${nodePath}.parentId`, message: 'must name an earlier node' });
+        } else {
+            historyCommand(node.command, `${nodePath}.command`, issues);
+        }
+        if (typeof node?.id === 'string') {
+            if (seen.has(node.id)) issues.push({ path: `${nodePath}.id`, message: `duplicate node id "${node.id}"` });
+            seen.add(node.id);
+        }
+    });
+    if (roots !== 1) issues.push({ path: `${path}.nodes`, message: `expected exactly one root node, found ${roots}` });
+    if (typeof value.currentId === 'string' && !seen.has(value.currentId)) {
+        issues.push({ path: `${path}.currentId`, message: `no node "${value.currentId}"` });
+    }
+};
+
+const payload = object({
+    version: oneOf(2),
+    exportedAt: optional(string),
+    canvas: object({ width: number(0), height: number(0) }),
+    preview: nullable(string),
+    history: nullable(history),
+    layers: arrayOf(layer),
+    paths: arrayOf(path),
+    artboards: arrayOf(namedRect),
+    slices: arrayOf(namedRect),
+    notes: arrayOf(note),
+    comments: arrayOf(comment),
+    timeline: nullable(timeline),
+    libraries: arrayOf(libraryAsset),
+});
+
+// References between records: unique layer ids, parents that are groups, and no cycles.
+const checkLayerTree = (layers: unknown[], issues: ProjectIssue[]) => {
+    const byId = new Map<string, Record<string, unknown>>();
+    layers.forEach((item, index) => {
+        if (!isRecord(item) || typeof item.id !== 'string') return;
+        if (byId.has(item.id)) issues.push({ path: `layers[${index}].id`, message: `duplicate layer id "${item.id}"` });
+        else byId.set(item.id, item);
+    });
+    layers.forEach((item, index) => {
+        if (!isRecord(item) || typeof item.parentId !== 'string') return;
+        const parent = byId.get(item.parentId);
+        if (!parent) {
+            issues.push({ path: `layers[${index}].parentId`, message: `no layer "${item.parentId}"` });
+        } else if (parent.type !== 'group') {
+            issues.push({ path: `layers[${index}].parentId`, message: `layer "${item.parentId}" is not a group` });
+        } else {
+            const visited = new Set<unknown>([item.id]);
+            for (let ancestor: Record<string, unknown> | undefined = parent; ancestor; ancestor = byId.get(ancestor.parentId as string)) {
+                if (visited.has(ancestor.id)) {
+                    issues.push({ path: `layers[${index}].parentId`, message: 'groups nest inside themselves' });
+                    break;
+                }
+                visited.add(ancestor.id);
+            }
+        }
+    });
+};
+
+/** Every problem with a payload of the current version; empty when it is valid. */
+export const validateProjectPayload = (value: unknown): ProjectIssue[] => {
+    const issues: ProjectIssue[] = [];
+    payload(value, '', issues);
+    if (isRecord(value) && Array.isArray(value.layers)) checkLayerTree(value.layers, issues);
+    return issues;
+};
@@ -0,0 +1,223 @@
+/**
+ * Minimal ZIP archives (no ZIP64, no encryption): stored or deflated entries, written in one go
+ * and read entry by entry through the central directory, so opening a large archive only reads
+ * what is asked for. Deflate goes through the platform's (De)CompressionStream, available in
+ * browsers and in Node 20.
+ */
+
+/** Random access to the archive bytes: a `File`/`Blob` in the browser, a buffer in Node. */
+export interface ZipSource {
+    size: number;
+    read: (offset: number, length: number) => Promise<Uint8Array>;
+}
+
+export interface ZipEntry {
+    name: string;
+    /** 0 (stored) or 8 (deflate). */
+    method: number;
+    crc32: number;
+    compressedSize: number;
+    size: number;
+    localHeaderOffset: number;
+}
+
+export interface ZipFileInput {
+    name: string;
+    data: Uint8Array;
+    /** Deflate the entry; leave off for data that is already compressed (PNG, WebP). */
+    compress?: boolean;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const MAX_COMMENT = 0xffff;
+
+export const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+/** Largest entry `readZipEntry` inflates unless told otherwise (256 MB). */
+export const MAX_ZIP_ENTRY_SIZE = 256 * 1024 * 1024;
+
+export const blobZipSource = (blob: Blob): ZipSource => ({
+    size: blob.size,
+    read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+});
+
+export const bytesZipSource = (bytes: Uint8Array): ZipSource => ({
+    size: bytes.length,
+    read: async (offset, length) => bytes.subarray(offset, offset + length),
+});
+
+/** Whether the bytes start like a ZIP archive. */
+export const isZipData = (head: Uint8Array) => ZIP_SIGNATURE.every((byte, index) => head[index] === byte);
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pipeBytes = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([data as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Inflates at most `limit` bytes, giving up as soon as the output passes it rather than trusting
+// the size the archive records.
+const inflateRaw = async (data: Uint8Array, limit: number, name: string) => {
+    const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+    const output = new Uint8Array(limit);
+    let length = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return output.subarray(0, length);
+        if (length + value.length > limit) {
+            await reader.cancel();
+            throw new Error(`ZIP entry ${name} inflates past its recorded size`);
+        }
+        output.set(value, length);
+        length += value.length;
+    }
+};
+
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** An archive of `files`, in order. */
+export const writeZip = async (files: ZipFileInput[], modified = new Date()): Promise<Uint8Array> => {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(modified);
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const deflated = file.compress ? await pipeBytes(file.data, new CompressionStream('deflate-raw')) : null;
+        // Keep the deflated copy only when it is actually smaller.
+        const method = deflated && deflated.length < file.data.length ? 8 : 0;
+        const body = method === 8 ? deflated! : file.data;
+        const crc = crc32(file.data);
+        if (offset + body.length > 0xffffffff) throw new Error('Project archives are limited to 4 GB');
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, UTF8_NAMES, true);
+        local.setUint16(8, method, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, body.length, true);
+        local.setUint32(22, file.data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, CENTRAL_HEADER, true);
+        header.setUint16(4, 20, true);
+        header.setUint16(6, 20, true);
+        header.setUint16(8, UTF8_NAMES, true);
+        header.setUint16(10, method, true);
+        header.setUint16(12, time, true);
+        header.setUint16(14, date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, body.length, true);
+        header.setUint32(24, file.data.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);
+
+        parts.push(new Uint8Array(local.buffer), name, body);
+        central.push(new Uint8Array(header.buffer), name);
+        offset += 30 + name.length + body.length;
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const all = [...parts, ...central, new Uint8Array(end.buffer)];
+    const output = new Uint8Array(all.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    for (const part of all) {
+        output.set(part, position);
+        position += part.length;
+    }
+    return output;
+};
+
+/** The archive's entries, from its central directory. */
+export const readZipDirectory = async (source: ZipSource): Promise<ZipEntry[]> => {
+    const tailLength = Math.min(source.size, 22 + MAX_COMMENT);
+    const tail = await source.read(source.size - tailLength, tailLength);
+    const tailView = new DataView(tail.buffer, tail.byteOffset, tail.length);
+    let end = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+        if (tailView.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) throw new Error('Not a ZIP archive, or it is truncated');
+
+    const count = tailView.getUint16(end + 10, true);
+    const size = tailView.getUint32(end + 12, true);
+    const offset = tailView.getUint32(end + 16, true);
+    if (offset + size > source.size) throw new Error('ZIP directory points past the end of the file');
+    const directory = await source.read(offset, size);
+    const view = new DataView(directory.buffer, directory.byteOffset, directory.length);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+    let position = 0;
+    for (let i = 0; i < count; i++) {
+        if (position + 46 > directory.length || view.getUint32(position, true) !== CENTRAL_HEADER) {
+            throw new Error('Damaged ZIP directory');
+        }
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        entries.push({
+            name: decoder.decode(directory.subarray(position + 46, position + 46 + nameLength)),
+            method: view.getUint16(position + 10, true),
+            crc32: view.getUint32(position + 16, true),
+            compressedSize: view.getUint32(position + 20, true),
+            size: view.getUint32(position + 24, true),
+            localHeaderOffset: view.getUint32(position + 42, true),
+        });
+        position += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
+
+/** One entry's bytes, inflated and checked against its CRC. Entries larger than `maxSize` are refused unread. */
+export const readZipEntry = async (source: ZipSource, entry: ZipEntry, maxSize = MAX_ZIP_ENTRY_SIZE): Promise<Uint8Array> => {
+    if (entry.size > maxSize) throw new Error(`ZIP entry ${entry.name} is larger than ${maxSize} bytes`);
+    const local = await source.read(entry.localHeaderOffset, 30);
+    const view = new DataView(local.buffer, local.byteOffset, local.length);
+    if (local.length < 30 || view.getUint32(0, true) !== LOCAL_HEADER) throw new Error(`Damaged ZIP entry ${entry.name}`);
+    const dataOffset = entry.localHeaderOffset + 30 + view.getUint16(26, true) + view.getUint16(28, true);
+    const raw = await source.read(dataOffset, entry.compressedSize);
+    if (raw.length < entry.compressedSize) throw new Error(`ZIP entry ${entry.name} is truncated`);
+
+    let data: Uint8Array;
+    if (entry.method === 0) data = raw;
+    else if (entry.method === 8) data = await inflateRaw(raw, entry.size, entry.name);
+    else throw new Error(`ZIP entry ${entry.name} uses an unsupported compression method (${entry.method})`);
+    if (data.length !== entry.size || crc32(data) !== entry.crc32) throw new Error(`ZIP entry ${entry.name} is corrupt`);
+    return data;
+};
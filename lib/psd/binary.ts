@@ -0,0 +1,186 @@
+// Big-endian byte buffers and PackBits, the pieces of the PSD format that are not about layers.
+
+export class ByteWriter {
+    private buffer = new Uint8Array(1 << 16);
+    private view = new DataView(this.buffer.buffer);
+    length = 0;
+
+    private reserve(bytes: number) {
+        if (this.length + bytes <= this.buffer.length) return;
+        let size = this.buffer.length * 2;
+        while (size < this.length + bytes) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(this.buffer.subarray(0, this.length));
+        this.buffer = next;
+        this.view = new DataView(next.buffer);
+    }
+
+    u8(value: number) {
+        this.reserve(1);
+        this.view.setUint8(this.length, value);
+        this.length += 1;
+    }
+
+    u16(value: number) {
+        this.reserve(2);
+        this.view.setUint16(this.length, value);
+        this.length += 2;
+    }
+
+    i16(value: number) {
+        this.reserve(2);
+        this.view.setInt16(this.length, value);
+        this.length += 2;
+    }
+
+    u32(value: number) {
+        this.reserve(4);
+        this.view.setUint32(this.length, value);
+        this.length += 4;
+    }
+
+    i32(value: number) {
+        this.reserve(4);
+        this.view.setInt32(this.length, value);
+        this.length += 4;
+    }
+
+    bytes(data: ArrayLike<number>) {
+        this.reserve(data.length);
+        this.buffer.set(data, this.length);
+        this.length += data.length;
+    }
+
+    /** Four-character signature or key. */
+    ascii(text: string) {
+        for (let i = 0; i < text.length; i++) this.u8(text.charCodeAt(i) & 0xff);
+    }
+
+    zeros(count: number) {
+        this.reserve(count);
+        this.buffer.fill(0, this.length, this.length + count);
+        this.length += count;
+    }
+
+    /**
+     * Writes a u32 length followed by what `write` adds, zero-padded to a multiple of `pad`. The
+     * length counts the padding, as PSD readers expect.
+     */
+    section(write: () => void, pad = 1) {
+        const at = this.length;
+        this.u32(0);
+        write();
+        const size = this.length - at - 4;
+        const padding = (pad - (size % pad)) % pad;
+        this.zeros(padding);
+        this.view.setUint32(at, size + padding);
+    }
+
+    toBytes(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+export class ByteReader {
+    private view: DataView;
+    offset = 0;
+
+    constructor(readonly bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    private need(count: number) {
+        if (this.offset + count > this.bytes.length) throw new Error('Unexpected end of PSD data');
+    }
+
+    u8() {
+        this.need(1);
+        return this.view.getUint8(this.offset++);
+    }
+
+    u16() {
+        this.need(2);
+        const value = this.view.getUint16(this.offset);
+        this.offset += 2;
+        return value;
+    }
+
+    i16() {
+        this.need(2);
+        const value = this.view.getInt16(this.offset);
+        this.offset += 2;
+        return value;
+    }
+
+    u32() {
+        this.need(4);
+        const value = this.view.getUint32(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    i32() {
+        this.need(4);
+        const value = this.view.getInt32(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    take(count: number): Uint8Array {
+        this.need(count);
+        const data = this.bytes.subarray(this.offset, this.offset + count);
+        this.offset += count;
+        return data;
+    }
+
+    ascii(count: number) {
+        return String.fromCharCode(...this.take(count));
+    }
+
+    skip(count: number) {
+        this.need(count);
+        this.offset += count;
+    }
+}
+
+/** One row compressed with PackBits (runs of up to 128 repeated bytes, literals up to 128). */
+export const packBits = (row: Uint8Array, out: ByteWriter) => {
+    const n = row.length;
+    let i = 0;
+    while (i < n) {
+        let run = 1;
+        while (i + run < n && run < 128 && row[i + run] === row[i]) run += 1;
+        if (run > 1) {
+            out.u8(257 - run);
+            out.u8(row[i]);
+            i += run;
+            continue;
+        }
+        const start = i;
+        i += 1;
+        while (i < n && i - start < 128 && !(i + 1 < n && row[i] === row[i + 1])) i += 1;
+        out.u8(i - start - 1);
+        out.bytes(row.subarray(start, i));
+    }
+};
+
+/** Expands PackBits `data` into `out` from `offset`, writing at most `length` bytes. */
+export const unpackBits = (data: Uint8Array, out: Uint8Array, offset: number, length: number) => {
+    let read = 0;
+    let written = 0;
+    while (read < data.length && written < length) {
+        const header = (data[read] << 24) >> 24;
+        read += 1;
+        if (header >= 0) {
+            const count = Math.min(header + 1, length - written, data.length - read);
+            out.set(data.subarray(read, read + count), offset + written);
+            read += header + 1;
+            written += count;
+        } else if (header !== -128) {
+            const count = Math.min(1 - header, length - written);
+            out.fill(data[read], offset + written, offset + written + count);
+            read += 1;
+            written += count;
+        }
+    }
+};
@@ -0,0 +1,109 @@
+/** A layer's pixels, placed in document coordinates; `data` is RGBA, row by row. */
+export interface PsdRaster {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+/** A layer mask: one grey byte per pixel (white = visible) inside its rect, `defaultColor` outside. */
+export interface PsdMask {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    data: Uint8Array;
+    defaultColor: number;
+    disabled: boolean;
+}
+
+export interface PsdLayer {
+    name: string;
+    /** 0-1. */
+    opacity: number;
+    /** 0-1; scales the pixels but not the layer style. */
+    fillOpacity: number;
+    visible: boolean;
+    /** CSS blend mode name; `pass-through` only on groups. */
+    blendMode: string;
+    /** Clipped to the layer below. */
+    clipping: boolean;
+    pixels: PsdRaster | null;
+    mask: PsdMask | null;
+    /** Set on group folders: their contents, top-first. */
+    children?: PsdLayer[];
+    /** Group folders only: shown closed in the layers panel. */
+    collapsed?: boolean;
+}
+
+export interface PsdDocument {
+    width: number;
+    height: number;
+    /** Top-first, like the store. */
+    layers: PsdLayer[];
+    /** The flattened image (RGBA, `width` x `height`), which viewers without layer support show. */
+    composite: Uint8ClampedArray | null;
+}
+
+export const PASS_THROUGH = 'pass-through';
+
+const BLEND_KEYS: Record<string, string> = {
+    normal: 'norm',
+    multiply: 'mul ',
+    screen: 'scrn',
+    overlay: 'over',
+    darken: 'dark',
+    lighten: 'lite',
+    'color-dodge': 'div ',
+    'color-burn': 'idiv',
+    'hard-light': 'hLit',
+    'soft-light': 'sLit',
+    difference: 'diff',
+    exclusion: 'smud',
+    hue: 'hue ',
+    saturation: 'sat ',
+    color: 'colr',
+    luminosity: 'lum ',
+    [PASS_THROUGH]: 'pass',
+};
+
+// Photoshop modes the canvas cannot draw, mapped to the closest one it can.
+const NEAREST_BLEND_MODES: Record<string, string> = {
+    diss: 'normal',
+    lbrn: 'color-burn',
+    dkCl: 'darken',
+    lddg: 'color-dodge',
+    lgCl: 'lighten',
+    vLit: 'hard-light',
+    lLit: 'hard-light',
+    pLit: 'hard-light',
+    hMix: 'hard-light',
+    fsub: 'difference',
+    fdiv: 'color-dodge',
+};
+
+const BLEND_MODES = Object.fromEntries(Object.entries(BLEND_KEYS).map(([mode, key]) => [key, mode]));
+
+export const blendModeKey = (blendMode: string): string => BLEND_KEYS[blendMode] ?? BLEND_KEYS.normal;
+
+export const blendModeFromKey = (key: string): string => BLEND_MODES[key] ?? NEAREST_BLEND_MODES[key] ?? 'normal';
+
+// Section divider types of the `lsct` block.
+export const SECTION_OPEN_FOLDER = 1;
+export const SECTION_CLOSED_FOLDER = 2;
+export const SECTION_DIVIDER = 3;
+
+// Layer record flags.
+export const FLAG_HIDDEN = 0x02;
+export const FLAG_HAS_PIXEL_IRRELEVANT = 0x08;
+export const FLAG_PIXEL_IRRELEVANT = 0x10;
+
+export const MASK_DISABLED = 0x02;
+
+// Channel ids.
+export const CHANNEL_ALPHA = -1;
+export const CHANNEL_USER_MASK = -2;
+
+export const COMPRESSION_RAW = 0;
+export const COMPRESSION_RLE = 1;
@@ -0,0 +1,15 @@
+/**
+ * Photoshop documents. `writePsd`/`readPsd` handle 8-bit RGB PSD files with raster layers,
+ * layer masks, clipping, blend modes and group folders (pass-through or with their own blend
+ * mode); channels are RLE compressed when written and may be raw or RLE when read. Layer effects,
+ * adjustment layers, text and smart objects are not part of the format here.
+ *
+ * `psdFromLayers`/`projectPayloadFromPsd` map between that and the layer store.
+ */
+
+export { writePsd } from './writer';
+export { readPsd } from './reader';
+export { psdFromLayers, projectPayloadFromPsd } from './project';
+export type { LayerRasterizer } from './project';
+export { PASS_THROUGH, blendModeFromKey, blendModeKey } from './format';
+export type { PsdDocument, PsdLayer, PsdMask, PsdRaster } from './format';
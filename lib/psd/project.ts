@@ -0,0 +1,202 @@
+import type { Layer } from '../layers';
+import { DEFAULT_GROUP_MODE, isGroupLayer, normalizeLayerTree } from '../groups';
+import { PASS_THROUGH, PsdDocument, PsdLayer, PsdMask, PsdRaster } from './format';
+import { PROJECT_FORMAT_VERSION, ProjectLayer, ProjectPayload } from '../project';
+
+// Converts between the layer store (plus the canvas pixels) and PsdDocument. Browser only: pixels
+// go through 2D canvases.
+
+/** A layer's pixels drawn at their place in a document-sized canvas; `null` when it has none. */
+export type LayerRasterizer = (layerId: string) => HTMLCanvasElement | null;
+
+const loadImage = (src: string) =>
+    new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load layer mask'));
+        img.src = src;
+    });
+
+const canvasOf = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, width);
+    canvas.height = Math.max(1, height);
+    return canvas;
+};
+
+/** The smallest rect holding every non-transparent pixel; `null` if there is none. */
+const trimmedRaster = (canvas: HTMLCanvasElement): PsdRaster | null => {
+    const { width, height } = canvas;
+    const data = canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+    let left = width;
+    let top = height;
+    let right = -1;
+    let bottom = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] === 0) continue;
+            if (x < left) left = x;
+            if (x > right) right = x;
+            if (y < top) top = y;
+            bottom = y;
+        }
+    }
+    if (right < 0) return null;
+    const trimmed = canvas.getContext('2d')!.getImageData(left, top, right - left + 1, bottom - top + 1);
+    return { left, top, width: trimmed.width, height: trimmed.height, data: trimmed.data };
+};
+
+// Layer masks are black/white images over the document; PSD keeps their luminance.
+const maskFromDataUrl = async (dataUrl: string, visible: boolean, width: number, height: number): Promise<PsdMask> => {
+    const canvas = canvasOf(width, height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(await loadImage(dataUrl), 0, 0);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    const data = new Uint8Array(width * height);
+    for (let i = 0; i < data.length; i++) {
+        const luminance = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+        data[i] = Math.round(luminance * (pixels[i * 4 + 3] / 255));
+    }
+    return { left: 0, top: 0, width, height, data, defaultColor: 0, disabled: !visible };
+};
+
+/**
+ * The store's layer tree as a PSD document of `width` x `height`. Pixel-less layers (adjustment
+ * layers, empty layers) become empty raster layers; layer styles and filters are only in the
+ * rasterized pixels `rasterize` hands back.
+ */
+export const psdFromLayers = async (
+    layers: Layer[],
+    width: number,
+    height: number,
+    rasterize: LayerRasterizer,
+    composite: HTMLCanvasElement | null
+): Promise<PsdDocument> => {
+    const ordered = normalizeLayerTree(layers);
+    const convert = async (parentId: string | null): Promise<PsdLayer[]> => {
+        const siblings = ordered.filter((layer) => (layer.parentId ?? null) === parentId);
+        return Promise.all(siblings.map(async (layer): Promise<PsdLayer> => {
+            const mask = layer.mask ? await maskFromDataUrl(layer.mask.dataUrl, layer.mask.visible, width, height) : null;
+            const base = {
+                name: layer.name,
+                opacity: layer.opacity ?? 1,
+                fillOpacity: layer.fillOpacity ?? 1,
+                visible: layer.visible,
+                clipping: Boolean(layer.clippingMask),
+                mask,
+            };
+            if (isGroupLayer(layer)) {
+                const isolated = (layer.groupMode ?? DEFAULT_GROUP_MODE) === 'isolated';
+                return {
+                    ...base,
+                    blendMode: isolated ? layer.blendMode || 'normal' : PASS_THROUGH,
+                    clipping: false,
+                    pixels: null,
+                    children: await convert(layer.id),
+                    collapsed: Boolean(layer.collapsed),
+                };
+            }
+            const raster = rasterize(layer.id);
+            return { ...base, blendMode: layer.blendMode || 'normal', pixels: raster ? trimmedRaster(raster) : null };
+        }));
+    };
+
+    return {
+        width,
+        height,
+        layers: await convert(null),
+        composite: composite ? composite.getContext('2d')!.getImageData(0, 0, width, height).data : null,
+    };
+};
+
+const rgbaDataUrl = (data: Uint8ClampedArray, width: number, height: number) => {
+    const canvas = canvasOf(width, height);
+    const image = canvas.getContext('2d')!.createImageData(width, height);
+    image.data.set(data);
+    canvas.getContext('2d')!.putImageData(image, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+const maskDataUrl = (mask: PsdMask, width: number, height: number) => {
+    const canvas = canvasOf(width, height);
+    const ctx = canvas.getContext('2d')!;
+    const fill = mask.defaultColor;
+    ctx.fillStyle = `rgb(${fill}, ${fill}, ${fill})`;
+    ctx.fillRect(0, 0, width, height);
+    if (mask.width > 0 && mask.height > 0) {
+        const image = ctx.createImageData(mask.width, mask.height);
+        for (let i = 0; i < mask.data.length; i++) {
+            image.data[i * 4] = mask.data[i];
+            image.data[i * 4 + 1] = mask.data[i];
+            image.data[i * 4 + 2] = mask.data[i];
+            image.data[i * 4 + 3] = 255;
+        }
+        ctx.putImageData(image, mask.left, mask.top);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * A project payload (the shape `.zlayer` files have) holding the PSD's layers, so it loads like any
+ * saved project. A PSD without layers comes in as one layer of its composite image.
+ */
+export const projectPayloadFromPsd = (doc: PsdDocument): ProjectPayload => {
+    const { width, height } = doc;
+    const layers: ProjectLayer[] = [];
+    const visit = (psdLayers: PsdLayer[], parentId: string | null) => {
+        psdLayers.forEach((psdLayer) => {
+            const id = crypto.randomUUID();
+            const isGroup = Boolean(psdLayer.children);
+            const passThrough = psdLayer.blendMode === PASS_THROUGH;
+            layers.push({
+                id,
+                type: isGroup ? 'group' : 'image',
+                name: psdLayer.name,
+                visible: psdLayer.visible,
+                locked: false,
+                opacity: psdLayer.opacity,
+                fillOpacity: psdLayer.fillOpacity,
+                blendMode: passThrough ? 'normal' : psdLayer.blendMode,
+                ...(parentId ? { parentId } : {}),
+                ...(isGroup ? { groupMode: passThrough ? 'pass-through' : 'isolated', collapsed: Boolean(psdLayer.collapsed) } as const : {}),
+                ...(psdLayer.clipping ? { clippingMask: true } : {}),
+                ...(psdLayer.mask ? { mask: { dataUrl: maskDataUrl(psdLayer.mask, width, height), visible: !psdLayer.mask.disabled } } : {}),
+                image: psdLayer.pixels ? rgbaDataUrl(psdLayer.pixels.data, psdLayer.pixels.width, psdLayer.pixels.height) : null,
+                transform: psdLayer.pixels ? { left: psdLayer.pixels.left, top: psdLayer.pixels.top, scaleX: 1, scaleY: 1, angle: 0 } : null,
+            });
+            if (psdLayer.children) visit(psdLayer.children, id);
+        });
+    };
+    visit(doc.layers, null);
+
+    if (layers.length === 0 && doc.composite) {
+        layers.push({
+            id: crypto.randomUUID(),
+            type: 'image',
+            name: 'Background',
+            visible: true,
+            locked: false,
+            opacity: 1,
+            fillOpacity: 1,
+            blendMode: 'normal',
+            image: rgbaDataUrl(doc.composite, width, height),
+            transform: { left: 0, top: 0, scaleX: 1, scaleY: 1, angle: 0 },
+        });
+    }
+
+    return {
+        version: PROJECT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        canvas: { width, height },
+        preview: null,
+        history: null,
+        layers,
+        paths: [],
+        artboards: [],
+        slices: [],
+        notes: [],
+        comments: [],
+        timeline: null,
+        libraries: [],
+    };
+};
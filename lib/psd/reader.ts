@@ -0,0 +1,253 @@
+import { ByteReader, unpackBits } from './binary';
+import {
+    CHANNEL_ALPHA,
+    CHANNEL_USER_MASK,
+    COMPRESSION_RAW,
+    COMPRESSION_RLE,
+    FLAG_HIDDEN,
+    MASK_DISABLED,
+    PASS_THROUGH,
+    PsdDocument,
+    PsdLayer,
+    PsdMask,
+    SECTION_CLOSED_FOLDER,
+    SECTION_DIVIDER,
+    SECTION_OPEN_FOLDER,
+    blendModeFromKey,
+} from './format';
+
+interface Rect {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+}
+
+interface RawRecord {
+    layer: PsdLayer;
+    rect: Rect;
+    maskRect: Rect | null;
+    channels: Array<{ id: number; length: number }>;
+    section: number | null;
+}
+
+const readRect = (input: ByteReader): Rect => {
+    const top = input.i32();
+    const left = input.i32();
+    const bottom = input.i32();
+    const right = input.i32();
+    return { top, left, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+};
+
+/** One channel of `rect`, raw or RLE; other compressions are rejected. */
+const decodePlane = (data: Uint8Array, width: number, height: number): Uint8Array => {
+    const plane = new Uint8Array(width * height);
+    if (width === 0 || height === 0 || data.length < 2) return plane;
+    const compression = (data[0] << 8) | data[1];
+    if (compression === COMPRESSION_RAW) {
+        plane.set(data.subarray(2, 2 + plane.length));
+        return plane;
+    }
+    if (compression !== COMPRESSION_RLE) throw new Error('ZIP-compressed PSD layers are not supported; save with compression off in Photoshop');
+    const counts = new ByteReader(data.subarray(2, 2 + height * 2));
+    let offset = 2 + height * 2;
+    for (let y = 0; y < height; y++) {
+        const count = counts.u16();
+        unpackBits(data.subarray(offset, offset + count), plane, y * width, width);
+        offset += count;
+    }
+    return plane;
+};
+
+const readRecord = (input: ByteReader): RawRecord => {
+    const rect = readRect(input);
+    const channelCount = input.u16();
+    const channels = Array.from({ length: channelCount }, () => ({ id: input.i16(), length: input.u32() }));
+    if (input.ascii(4) !== '8BIM') throw new Error('Invalid PSD layer record');
+    let blendKey = input.ascii(4);
+    const opacity = input.u8() / 255;
+    const clipping = input.u8() !== 0;
+    const flags = input.u8();
+    input.skip(1);
+
+    const extraLength = input.u32();
+    const extraEnd = input.offset + extraLength;
+    let maskRect: Rect | null = null;
+    let mask: PsdMask | null = null;
+    const maskLength = input.u32();
+    if (maskLength >= 20) {
+        const maskStart = input.offset;
+        maskRect = readRect(input);
+        const defaultColor = input.u8();
+        const maskFlags = input.u8();
+        mask = { ...maskRect, data: new Uint8Array(0), defaultColor, disabled: (maskFlags & MASK_DISABLED) !== 0 };
+        input.offset = maskStart + maskLength;
+    } else {
+        input.skip(maskLength);
+    }
+    input.skip(input.u32()); // Blending ranges
+    const nameLength = input.u8();
+    let name = input.ascii(nameLength);
+    input.skip((4 - ((nameLength + 1) % 4)) % 4);
+
+    let section: number | null = null;
+    let fillOpacity = 1;
+    let collapsed: boolean | undefined;
+    while (input.offset + 12 <= extraEnd) {
+        const signature = input.ascii(4);
+        if (signature !== '8BIM' && signature !== '8B64') break;
+        const key = input.ascii(4);
+        const length = input.u32();
+        const end = input.offset + length;
+        if (key === 'luni') {
+            const count = input.u32();
+            name = String.fromCharCode(...Array.from({ length: count }, () => input.u16())).replace(/\0+$/, '');
+        } else if (key === 'lsct' || key === 'lsdk') {
+            section = input.u32();
+            if (length >= 12) {
+                input.skip(4);
+                blendKey = input.ascii(4);
+            }
+        } else if (key === 'iOpa') {
+            fillOpacity = input.u8() / 255;
+        }
+        input.offset = end;
+    }
+    input.offset = extraEnd;
+
+    if (section === SECTION_CLOSED_FOLDER) collapsed = true;
+    const isFolder = section === SECTION_OPEN_FOLDER || section === SECTION_CLOSED_FOLDER;
+    return {
+        layer: {
+            name,
+            opacity,
+            fillOpacity,
+            visible: (flags & FLAG_HIDDEN) === 0,
+            blendMode: blendModeFromKey(blendKey) === PASS_THROUGH && !isFolder ? 'normal' : blendModeFromKey(blendKey),
+            clipping,
+            pixels: null,
+            mask,
+            ...(collapsed ? { collapsed } : {}),
+        },
+        rect,
+        maskRect,
+        channels,
+        section: isFolder || section === SECTION_DIVIDER ? section : null,
+    };
+};
+
+const readChannels = (input: ByteReader, record: RawRecord) => {
+    const { rect, maskRect, layer } = record;
+    const planes = new Map<number, Uint8Array>();
+    record.channels.forEach(({ id, length }) => {
+        const data = input.take(length);
+        const area = id === CHANNEL_USER_MASK ? maskRect : rect;
+        if (!area || id < CHANNEL_USER_MASK) return;
+        planes.set(id, decodePlane(data, area.width, area.height));
+    });
+
+    const count = rect.width * rect.height;
+    if (count > 0 && planes.has(0)) {
+        const data = new Uint8ClampedArray(count * 4);
+        const red = planes.get(0)!;
+        const green = planes.get(1) ?? red;
+        const blue = planes.get(2) ?? red;
+        const alpha = planes.get(CHANNEL_ALPHA);
+        for (let i = 0; i < count; i++) {
+            data[i * 4] = red[i];
+            data[i * 4 + 1] = green[i];
+            data[i * 4 + 2] = blue[i];
+            data[i * 4 + 3] = alpha ? alpha[i] : 255;
+        }
+        layer.pixels = { ...rect, data };
+    }
+    if (layer.mask) {
+        const data = planes.get(CHANNEL_USER_MASK);
+        if (data) layer.mask.data = data;
+        else layer.mask = null;
+    }
+};
+
+// Records run bottom to top; a divider opens a group that the next folder record closes.
+const buildTree = (records: RawRecord[]): PsdLayer[] => {
+    const stack: PsdLayer[][] = [[]];
+    records.forEach((record) => {
+        if (record.section === SECTION_DIVIDER) {
+            stack.push([]);
+        } else if (record.section !== null) {
+            const children = stack.length > 1 ? stack.pop()! : [];
+            stack[stack.length - 1].push({ ...record.layer, children: children.reverse() });
+        } else {
+            stack[stack.length - 1].push(record.layer);
+        }
+    });
+    // Dividers without a folder: keep their contents at the enclosing level.
+    while (stack.length > 1) {
+        const orphans = stack.pop()!;
+        stack[stack.length - 1].push(...orphans);
+    }
+    return stack[0].reverse();
+};
+
+const readComposite = (input: ByteReader, width: number, height: number, channels: number): Uint8ClampedArray | null => {
+    if (input.offset + 2 > input.bytes.length) return null;
+    const compression = input.u16();
+    const count = width * height;
+    const planes: Uint8Array[] = [];
+    if (compression === COMPRESSION_RAW) {
+        for (let c = 0; c < channels; c++) planes.push(input.take(count));
+    } else if (compression === COMPRESSION_RLE) {
+        const counts = Array.from({ length: channels * height }, () => input.u16());
+        for (let c = 0; c < channels; c++) {
+            const plane = new Uint8Array(count);
+            for (let y = 0; y < height; y++) {
+                unpackBits(input.take(counts[c * height + y]), plane, y * width, width);
+            }
+            planes.push(plane);
+        }
+    } else {
+        return null;
+    }
+    const data = new Uint8ClampedArray(count * 4);
+    for (let i = 0; i < count; i++) {
+        data[i * 4] = planes[0][i];
+        data[i * 4 + 1] = planes[1][i];
+        data[i * 4 + 2] = planes[2][i];
+        data[i * 4 + 3] = channels > 3 ? planes[3][i] : 255;
+    }
+    return data;
+};
+
+/** Layers, masks and groups of an 8-bit RGB PSD (RLE or uncompressed channels). */
+export const readPsd = (bytes: Uint8Array): PsdDocument => {
+    const input = new ByteReader(bytes);
+    if (input.ascii(4) !== '8BPS') throw new Error('Not a PSD file');
+    const version = input.u16();
+    if (version !== 1) throw new Error('Large document (PSB) files are not supported');
+    input.skip(6);
+    const channels = input.u16();
+    const height = input.u32();
+    const width = input.u32();
+    const depth = input.u16();
+    const colorMode = input.u16();
+    if (depth !== 8 || colorMode !== 3 || channels < 3) throw new Error('Only 8-bit RGB PSD files are supported');
+    input.skip(input.u32()); // Colour mode data
+    input.skip(input.u32()); // Image resources
+
+    const layerSectionLength = input.u32();
+    const layerSectionEnd = input.offset + layerSectionLength;
+    let layers: PsdLayer[] = [];
+    if (layerSectionLength > 0) {
+        const layerInfoLength = input.u32();
+        const layerInfoEnd = input.offset + layerInfoLength;
+        if (layerInfoLength > 0) {
+            const records = Array.from({ length: Math.abs(input.i16()) }, () => readRecord(input));
+            records.forEach((record) => readChannels(input, record));
+            layers = buildTree(records);
+        }
+        input.offset = layerInfoEnd;
+    }
+    input.offset = layerSectionEnd;
+
+    return { width, height, layers, composite: readComposite(input, width, height, Math.min(channels, 4)) };
+};
@@ -0,0 +1,217 @@
+import { ByteWriter, packBits } from './binary';
+import {
+    CHANNEL_ALPHA,
+    CHANNEL_USER_MASK,
+    COMPRESSION_RAW,
+    COMPRESSION_RLE,
+    FLAG_HAS_PIXEL_IRRELEVANT,
+    FLAG_HIDDEN,
+    FLAG_PIXEL_IRRELEVANT,
+    MASK_DISABLED,
+    PsdDocument,
+    PsdLayer,
+    SECTION_CLOSED_FOLDER,
+    SECTION_DIVIDER,
+    SECTION_OPEN_FOLDER,
+    blendModeKey,
+} from './format';
+
+interface Channel {
+    id: number;
+    data: Uint8Array;
+}
+
+// A layer record as stored: groups become a folder record above their contents and a divider
+// record below them, and records run bottom to top.
+interface LayerRecord {
+    layer: PsdLayer;
+    section: number | null;
+    channels: Channel[];
+}
+
+const EMPTY_CHANNEL = (() => {
+    const out = new ByteWriter();
+    out.u16(COMPRESSION_RAW);
+    return out.toBytes();
+})();
+
+/** One plane of `width` x `height` bytes, RLE compressed with its row byte counts up front. */
+const encodePlane = (plane: Uint8Array, width: number, height: number): Uint8Array => {
+    if (width === 0 || height === 0) return EMPTY_CHANNEL;
+    const rows = new ByteWriter();
+    const counts: number[] = [];
+    for (let y = 0; y < height; y++) {
+        const start = rows.length;
+        packBits(plane.subarray(y * width, (y + 1) * width), rows);
+        counts.push(rows.length - start);
+    }
+    const out = new ByteWriter();
+    out.u16(COMPRESSION_RLE);
+    counts.forEach((count) => out.u16(count));
+    out.bytes(rows.toBytes());
+    return out.toBytes();
+};
+
+const planeOf = (rgba: Uint8ClampedArray, component: number, pixels: number) => {
+    const plane = new Uint8Array(pixels);
+    for (let i = 0; i < pixels; i++) plane[i] = rgba[i * 4 + component];
+    return plane;
+};
+
+const layerChannels = (layer: PsdLayer): Channel[] => {
+    const { pixels, mask } = layer;
+    const width = pixels?.width ?? 0;
+    const height = pixels?.height ?? 0;
+    const count = width * height;
+    const channels: Channel[] = [CHANNEL_ALPHA, 0, 1, 2].map((id) => ({
+        id,
+        data: pixels && count > 0 ? encodePlane(planeOf(pixels.data, id === CHANNEL_ALPHA ? 3 : id, count), width, height) : EMPTY_CHANNEL,
+    }));
+    if (mask) channels.push({ id: CHANNEL_USER_MASK, data: encodePlane(mask.data, mask.width, mask.height) });
+    return channels;
+};
+
+const flatten = (layers: PsdLayer[]): LayerRecord[] => {
+    const records: LayerRecord[] = [];
+    [...layers].reverse().forEach((layer) => {
+        if (!layer.children) {
+            records.push({ layer, section: null, channels: layerChannels(layer) });
+            return;
+        }
+        const divider: PsdLayer = { name: '</Layer group>', opacity: 1, fillOpacity: 1, visible: true, blendMode: 'normal', clipping: false, pixels: null, mask: null };
+        records.push({ layer: divider, section: SECTION_DIVIDER, channels: layerChannels(divider) });
+        records.push(...flatten(layer.children));
+        records.push({
+            layer: { ...layer, pixels: null },
+            section: layer.collapsed ? SECTION_CLOSED_FOLDER : SECTION_OPEN_FOLDER,
+            channels: layerChannels({ ...layer, pixels: null }),
+        });
+    });
+    return records;
+};
+
+const pascalName = (out: ByteWriter, name: string) => {
+    const bytes = Array.from(name.slice(0, 255), (char) => (char.charCodeAt(0) < 128 ? char.charCodeAt(0) : 63));
+    out.u8(bytes.length);
+    out.bytes(bytes);
+    out.zeros((4 - ((bytes.length + 1) % 4)) % 4);
+};
+
+const taggedBlock = (out: ByteWriter, key: string, write: () => void) => {
+    out.ascii('8BIM');
+    out.ascii(key);
+    out.section(write, 2);
+};
+
+const writeRecord = (out: ByteWriter, record: LayerRecord) => {
+    const { layer, section, channels } = record;
+    const rect = layer.pixels ?? { left: 0, top: 0, width: 0, height: 0 };
+    out.i32(rect.top);
+    out.i32(rect.left);
+    out.i32(rect.top + rect.height);
+    out.i32(rect.left + rect.width);
+    out.u16(channels.length);
+    channels.forEach((channel) => {
+        out.i16(channel.id);
+        out.u32(channel.data.length);
+    });
+
+    const isFolder = section === SECTION_OPEN_FOLDER || section === SECTION_CLOSED_FOLDER;
+    out.ascii('8BIM');
+    out.ascii(blendModeKey(layer.blendMode));
+    out.u8(Math.round(Math.max(0, Math.min(1, layer.opacity)) * 255));
+    out.u8(layer.clipping ? 1 : 0);
+    let flags = layer.visible ? 0 : FLAG_HIDDEN;
+    if (section !== null) flags |= FLAG_HAS_PIXEL_IRRELEVANT | FLAG_PIXEL_IRRELEVANT;
+    out.u8(flags);
+    out.u8(0);
+
+    out.section(() => {
+        out.section(() => {
+            const mask = layer.mask;
+            if (!mask) return;
+            out.i32(mask.top);
+            out.i32(mask.left);
+            out.i32(mask.top + mask.height);
+            out.i32(mask.left + mask.width);
+            out.u8(mask.defaultColor);
+            out.u8(mask.disabled ? MASK_DISABLED : 0);
+            out.zeros(2);
+        });
+        out.u32(0); // Blending ranges: use Photoshop's defaults.
+        pascalName(out, layer.name);
+
+        taggedBlock(out, 'luni', () => {
+            out.u32(layer.name.length);
+            for (let i = 0; i < layer.name.length; i++) out.u16(layer.name.charCodeAt(i));
+        });
+        if (section !== null) {
+            taggedBlock(out, 'lsct', () => {
+                out.u32(section);
+                if (isFolder) {
+                    out.ascii('8BIM');
+                    out.ascii(blendModeKey(layer.blendMode));
+                }
+            });
+        }
+        if (layer.fillOpacity < 1) {
+            taggedBlock(out, 'iOpa', () => {
+                out.u8(Math.round(Math.max(0, layer.fillOpacity) * 255));
+                out.zeros(3);
+            });
+        }
+    });
+};
+
+const writeComposite = (out: ByteWriter, doc: PsdDocument) => {
+    const { width, height } = doc;
+    const count = width * height;
+    const rgba = doc.composite ?? new Uint8ClampedArray(count * 4);
+    const planes = [0, 1, 2, 3].map((component) => planeOf(rgba, component, count));
+    // Row counts for every channel come first, then every channel's rows.
+    const rows = new ByteWriter();
+    const counts: number[] = [];
+    planes.forEach((plane) => {
+        for (let y = 0; y < height; y++) {
+            const start = rows.length;
+            packBits(plane.subarray(y * width, (y + 1) * width), rows);
+            counts.push(rows.length - start);
+        }
+    });
+    out.u16(COMPRESSION_RLE);
+    counts.forEach((rowCount) => out.u16(rowCount));
+    out.bytes(rows.toBytes());
+};
+
+/**
+ * An 8-bit RGB PSD of `doc`: one raster layer per layer with its mask, group folders with their
+ * pass-through or blend mode, and the composite as the image data viewers fall back to.
+ */
+export const writePsd = (doc: PsdDocument): Uint8Array => {
+    const out = new ByteWriter();
+    out.ascii('8BPS');
+    out.u16(1);
+    out.zeros(6);
+    out.u16(4); // RGB plus transparency
+    out.u32(doc.height);
+    out.u32(doc.width);
+    out.u16(8);
+    out.u16(3); // RGB
+    out.u32(0); // No colour mode data
+    out.u32(0); // No image resources
+
+    const records = flatten(doc.layers);
+    out.section(() => {
+        out.section(() => {
+            if (records.length === 0) return;
+            // Negative: the composite's first alpha channel is its transparency.
+            out.i16(-records.length);
+            records.forEach((record) => writeRecord(out, record));
+            records.forEach((record) => record.channels.forEach((channel) => out.bytes(channel.data)));
+        }, 2);
+        out.u32(0); // No global layer mask info
+    });
+
+    writeComposite(out, doc);
+    return out.toBytes();
+};
@@ -0,0 +1,359 @@
+import sharp from 'sharp';
+import type { Layer } from '../layers';
+import { DEFAULT_GROUP_MODE, isGroupLayer, normalizeLayerTree } from '../groups';
+import { RgbaPixels, applyLayerFilters } from '../adjustments/filters';
+import {
+    Surface,
+    compositeSurface,
+    copySurface,
+    createSurface,
+    fadeTowards,
+    pixelsFromSurface,
+    surfaceAlpha,
+    surfaceFromPixels,
+} from './surface';
+
+/**
+ * Server-side rendering of a project payload (the `.zlayer` shape `buildProjectPayload` writes)
+ * to an image with sharp, without a browser: layer order and groups, visibility, opacity and fill
+ * opacity, blend modes, layer masks, clipping masks, the `filters` map on pixel layers and
+ * pixel-less adjustment layers. Layer styles are not rendered. Node only.
+ */
+
+export type RenderFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export const RENDER_FORMATS: RenderFormat[] = ['png', 'jpeg', 'webp', 'avif'];
+
+export const RENDER_MIME_TYPES: Record<RenderFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    avif: 'image/avif',
+};
+
+/** Largest output the renderer will allocate (4096 x 4096). */
+export const MAX_RENDER_PIXELS = 4096 * 4096;
+
+/** Largest layer image the renderer decodes, and the largest size a transform may scale a layer to (8192 x 8192). */
+export const MAX_LAYER_PIXELS = 4 * MAX_RENDER_PIXELS;
+
+/** A render past the renderer's pixel limits: the output, a layer's scaled size or an input image. */
+export class RenderLimitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RenderLimitError';
+    }
+}
+
+export interface RenderRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** A layer as project payloads store it: its pixels and where they sit. */
+export type RenderLayer = Layer & {
+    image?: string | null;
+    transform?: { left?: number; top?: number; scaleX?: number; scaleY?: number; angle?: number } | null;
+};
+
+export interface RenderPayload {
+    canvas: { width: number; height: number };
+    layers: RenderLayer[];
+}
+
+export interface EncodeOptions {
+    format?: RenderFormat;
+    /** 1-100, for the lossy formats. */
+    quality?: number;
+    /** Colour to flatten onto; JPEG always flattens, onto white unless this is set. */
+    background?: string;
+    /** Output size, when it differs from the pixels'. */
+    width?: number;
+    height?: number;
+}
+
+export interface RenderPixelsOptions {
+    /** Output pixels per document pixel. */
+    scale?: number;
+    /** The part of the document to render, in document pixels; the whole document by default. */
+    region?: RenderRegion;
+    /** Bytes for an `asset:<id>` reference; without it such layers fail to render. */
+    resolveAsset?: (assetId: string) => Promise<Buffer | null>;
+}
+
+export type RenderOptions = RenderPixelsOptions & Omit<EncodeOptions, 'width' | 'height'>;
+
+export interface RenderResult {
+    buffer: Buffer;
+    mimeType: string;
+    width: number;
+    height: number;
+}
+
+interface Frame {
+    region: RenderRegion;
+    scale: number;
+    width: number;
+    height: number;
+}
+
+const ASSET_PATTERNS = [/^asset:([a-f0-9]{64})$/, /^\/api\/assets\/([a-f0-9]{64})$/];
+
+const decodeDataUrl = (dataUrl: string): Buffer => {
+    const comma = dataUrl.indexOf(',');
+    const header = dataUrl.slice(5, comma);
+    const body = dataUrl.slice(comma + 1);
+    return header.endsWith(';base64') ? Buffer.from(body, 'base64') : Buffer.from(decodeURIComponent(body), 'utf8');
+};
+
+const loadSource = async (source: string, options: RenderPixelsOptions): Promise<Buffer> => {
+    if (source.startsWith('data:')) return decodeDataUrl(source);
+    for (const pattern of ASSET_PATTERNS) {
+        const match = source.match(pattern);
+        if (!match) continue;
+        const bytes = options.resolveAsset ? await options.resolveAsset(match[1]) : null;
+        if (!bytes) throw new Error(`Asset ${match[1]} not found`);
+        return bytes;
+    }
+    throw new Error('Layer images must be data URLs or asset references');
+};
+
+const decodeRgba = async (input: sharp.Sharp) => {
+    const { data, info } = await input
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+        .catch((error: unknown) => {
+            // sharp refuses inputs past `limitInputPixels` with a plain error.
+            if (error instanceof Error && /pixel limit/i.test(error.message)) {
+                throw new RenderLimitError(`An image is larger than ${MAX_LAYER_PIXELS} pixels`);
+            }
+            throw error;
+        });
+    return { data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height };
+};
+
+// Masks are black/white images over the document, read as luminance times alpha (as the canvas
+// does), resampled to the output frame.
+const loadCoverage = async (dataUrl: string, documentWidth: number, documentHeight: number, frame: Frame, options: RenderPixelsOptions) => {
+    const source = sharp(await loadSource(dataUrl, options), { limitInputPixels: MAX_LAYER_PIXELS });
+    const meta = await source.metadata();
+    const sx = (meta.width || documentWidth) / documentWidth;
+    const sy = (meta.height || documentHeight) / documentHeight;
+    const left = Math.min(Math.max(0, Math.floor(frame.region.x * sx)), (meta.width || 1) - 1);
+    const top = Math.min(Math.max(0, Math.floor(frame.region.y * sy)), (meta.height || 1) - 1);
+    const pixels = await decodeRgba(
+        source
+            .extract({
+                left,
+                top,
+                width: Math.max(1, Math.min((meta.width || 1) - left, Math.round(frame.region.width * sx))),
+                height: Math.max(1, Math.min((meta.height || 1) - top, Math.round(frame.region.height * sy))),
+            })
+            .resize(frame.width, frame.height, { fit: 'fill' })
+    );
+    const coverage = new Float32Array(frame.width * frame.height);
+    for (let p = 0; p < coverage.length; p++) {
+        const i = p * 4;
+        const luminance = pixels.data[i] * 0.299 + pixels.data[i + 1] * 0.587 + pixels.data[i + 2] * 0.114;
+        coverage[p] = (luminance / 255) * (pixels.data[i + 3] / 255);
+    }
+    return coverage;
+};
+
+const multiplyCoverage = (a: Float32Array | null, b: Float32Array | null) => {
+    if (!a || !b) return a ?? b;
+    const result = new Float32Array(a.length);
+    for (let p = 0; p < a.length; p++) result[p] = a[p] * b[p];
+    return result;
+};
+
+// A pixel layer in the output frame: filtered at its own resolution, resized by sharp to its
+// scale in the output, then rotated about its top-left corner (the origin project payloads use)
+// and placed with bilinear sampling. Only the part of the resized layer that lands in the frame is
+// produced (sharp resizes lazily), so a small layer scaled up a long way costs no more than the frame.
+const rasterizeLayer = async (layer: RenderLayer, frame: Frame, options: RenderPixelsOptions): Promise<Surface | null> => {
+    if (!layer.image) return null;
+    const source = await decodeRgba(sharp(await loadSource(layer.image, options), { limitInputPixels: MAX_LAYER_PIXELS }));
+
+    const transform = layer.transform ?? {};
+    const scaleX = Number(transform.scaleX ?? 1) * frame.scale;
+    const scaleY = Number(transform.scaleY ?? 1) * frame.scale;
+    const width = Math.max(1, Math.round(source.width * Math.abs(scaleX)));
+    const height = Math.max(1, Math.round(source.height * Math.abs(scaleY)));
+    if (!Number.isFinite(width * height) || width * height > MAX_LAYER_PIXELS) {
+        throw new RenderLimitError(`Layer "${layer.name}" is scaled past ${MAX_LAYER_PIXELS} pixels`);
+    }
+
+    const angle = (Number(transform.angle ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const originX = (Number(transform.left ?? 0) - frame.region.x) * frame.scale;
+    const originY = (Number(transform.top ?? 0) - frame.region.y) * frame.scale;
+    const corners = [[0, 0], [width, 0], [0, height], [width, height]].map(([u, v]) => [originX + u * cos - v * sin, originY + u * sin + v * cos]);
+    const x0 = Math.max(0, Math.floor(Math.min(...corners.map((corner) => corner[0]))));
+    const x1 = Math.min(frame.width, Math.ceil(Math.max(...corners.map((corner) => corner[0]))));
+    const y0 = Math.max(0, Math.floor(Math.min(...corners.map((corner) => corner[1]))));
+    const y1 = Math.min(frame.height, Math.ceil(Math.max(...corners.map((corner) => corner[1]))));
+    if (x0 >= x1 || y0 >= y1) return null;
+
+    // The frame's covered rectangle in resized-layer coordinates, one texel wider for the bilinear taps.
+    const visible = [[x0, y0], [x1, y0], [x0, y1], [x1, y1]].map(([x, y]) => [
+        (x - originX) * cos + (y - originY) * sin,
+        -(x - originX) * sin + (y - originY) * cos,
+    ]);
+    const left = Math.max(0, Math.floor(Math.min(...visible.map((point) => point[0]))) - 1);
+    const top = Math.max(0, Math.floor(Math.min(...visible.map((point) => point[1]))) - 1);
+    const right = Math.min(width, Math.ceil(Math.max(...visible.map((point) => point[0]))) + 1);
+    const bottom = Math.min(height, Math.ceil(Math.max(...visible.map((point) => point[1]))) + 1);
+    if (left >= right || top >= bottom) return null;
+
+    if (layer.filters) applyLayerFilters(source, layer.filters);
+    let resized = sharp(Buffer.from(source.data.buffer, source.data.byteOffset, source.data.length), {
+        raw: { width: source.width, height: source.height, channels: 4 },
+    }).resize(width, height, { fit: 'fill' });
+    if (scaleX < 0) resized = resized.flop();
+    if (scaleY < 0) resized = resized.flip();
+    const pieceWidth = right - left;
+    const pieceHeight = bottom - top;
+    const image = surfaceFromPixels(await decodeRgba(resized.extract({ left, top, width: pieceWidth, height: pieceHeight })));
+
+    const surface = createSurface(frame.width, frame.height);
+    const texel = (x: number, y: number, channel: number) =>
+        x < left || y < top || x >= right || y >= bottom ? 0 : image.data[((y - top) * pieceWidth + x - left) * 4 + channel];
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+            const dx = x + 0.5 - originX;
+            const dy = y + 0.5 - originY;
+            const u = dx * cos + dy * sin - 0.5;
+            const v = -dx * sin + dy * cos - 0.5;
+            if (u < -1 || v < -1 || u > width || v > height) continue;
+            const iu = Math.floor(u);
+            const iv = Math.floor(v);
+            const fu = u - iu;
+            const fv = v - iv;
+            const target = (y * frame.width + x) * 4;
+            for (let c = 0; c < 4; c++) {
+                surface.data[target + c] =
+                    (texel(iu, iv, c) * (1 - fu) + texel(iu + 1, iv, c) * fu) * (1 - fv) +
+                    (texel(iu, iv + 1, c) * (1 - fu) + texel(iu + 1, iv + 1, c) * fu) * fv;
+            }
+        }
+    }
+    return surface;
+};
+
+/** Renders a project payload to straight RGBA pixels. */
+export const renderProjectPixels = async (payload: RenderPayload, options: RenderPixelsOptions = {}): Promise<RgbaPixels> => {
+    const documentWidth = Math.round(Number(payload.canvas?.width));
+    const documentHeight = Math.round(Number(payload.canvas?.height));
+    if (!(documentWidth > 0) || !(documentHeight > 0)) throw new Error('Project has no canvas size');
+    if (!Array.isArray(payload.layers)) throw new Error('Project has no layers');
+
+    const scale = options.scale ?? 1;
+    if (!(scale > 0)) throw new Error('Scale must be positive');
+    const requested = options.region ?? { x: 0, y: 0, width: documentWidth, height: documentHeight };
+    const x = Math.max(0, Math.floor(requested.x));
+    const y = Math.max(0, Math.floor(requested.y));
+    const region = {
+        x,
+        y,
+        width: Math.min(documentWidth, Math.ceil(requested.x + requested.width)) - x,
+        height: Math.min(documentHeight, Math.ceil(requested.y + requested.height)) - y,
+    };
+    if (region.width <= 0 || region.height <= 0) throw new Error('Region is outside the document');
+    const frame: Frame = {
+        region,
+        scale,
+        width: Math.max(1, Math.round(region.width * scale)),
+        height: Math.max(1, Math.round(region.height * scale)),
+    };
+    if (frame.width * frame.height > MAX_RENDER_PIXELS) throw new RenderLimitError(`Output is larger than ${MAX_RENDER_PIXELS} pixels`);
+
+    const ordered = normalizeLayerTree(payload.layers as Layer[]) as RenderLayer[];
+    const maskOf = (layer: RenderLayer) =>
+        layer.mask?.visible && layer.mask.dataUrl ? loadCoverage(layer.mask.dataUrl, documentWidth, documentHeight, frame, options) : Promise.resolve(null);
+
+    // Composites one group's children (bottom first) onto `target`.
+    const renderStack = async (target: Surface, parentId: string | null): Promise<void> => {
+        const siblings = ordered.filter((layer) => (layer.parentId ?? null) === parentId).reverse();
+        // Alpha of the layer that clipped layers above it are clipped to.
+        let clipBase: Float32Array | null = null;
+        for (const layer of siblings) {
+            const clipped = Boolean(layer.clippingMask);
+            if (!layer.visible) {
+                if (!clipped) clipBase = new Float32Array(frame.width * frame.height);
+                continue;
+            }
+            const clip = clipped ? clipBase : null;
+            const blendMode = layer.blendMode || 'normal';
+
+            if (isGroupLayer(layer)) {
+                const mask = await maskOf(layer);
+                if ((layer.groupMode ?? DEFAULT_GROUP_MODE) === 'isolated') {
+                    const group = createSurface(frame.width, frame.height);
+                    await renderStack(group, layer.id);
+                    compositeSurface(target, group, blendMode, layer.opacity ?? 1, multiplyCoverage(mask, clip));
+                    if (!clipped) clipBase = multiplyCoverage(surfaceAlpha(group), mask);
+                } else {
+                    const backdrop = copySurface(target);
+                    await renderStack(target, layer.id);
+                    fadeTowards(target, backdrop, layer.opacity ?? 1, multiplyCoverage(mask, clip));
+                    if (!clipped) clipBase = null;
+                }
+                continue;
+            }
+
+            let source: Surface | null;
+            if (layer.type === 'adjustment' && !layer.image) {
+                // Pixel-less adjustment layers grade everything composited so far in this stack.
+                const pixels = pixelsFromSurface(target);
+                applyLayerFilters(pixels, layer.filters ?? {});
+                source = surfaceFromPixels(pixels);
+            } else {
+                source = await rasterizeLayer(layer, frame, options);
+            }
+            if (!source) {
+                if (!clipped) clipBase = new Float32Array(frame.width * frame.height);
+                continue;
+            }
+            const mask = await maskOf(layer);
+            compositeSurface(target, source, blendMode, (layer.opacity ?? 1) * (layer.fillOpacity ?? 1), multiplyCoverage(mask, clip));
+            if (!clipped) clipBase = multiplyCoverage(surfaceAlpha(source), mask);
+        }
+    };
+
+    const result = createSurface(frame.width, frame.height);
+    await renderStack(result, null);
+
+    return pixelsFromSurface(result);
+};
+
+/** Encodes pixels (resized to `width` x `height` when given) as an image file. */
+export const encodePixels = async (pixels: RgbaPixels, options: EncodeOptions = {}): Promise<Buffer> => {
+    const format = options.format ?? 'png';
+    let output = sharp(Buffer.from(pixels.data.buffer, pixels.data.byteOffset, pixels.data.length), {
+        raw: { width: pixels.width, height: pixels.height, channels: 4 },
+    });
+    if (options.width && options.height && (options.width !== pixels.width || options.height !== pixels.height)) {
+        output = output.resize(options.width, options.height, { fit: 'fill' });
+    }
+    const background = options.background ?? (format === 'jpeg' ? '#ffffff' : undefined);
+    if (background) output = output.flatten({ background });
+    const quality = Math.max(1, Math.min(100, Math.round(options.quality ?? 90)));
+    if (format === 'jpeg') output = output.jpeg({ quality });
+    else if (format === 'webp') output = output.webp({ quality });
+    else if (format === 'avif') output = output.avif({ quality });
+    else output = output.png();
+    return output.toBuffer();
+};
+
+/** Renders a project payload to an encoded image. */
+export const renderProject = async (payload: RenderPayload, options: RenderOptions = {}): Promise<RenderResult> => {
+    const format = options.format ?? 'png';
+    const pixels = await renderProjectPixels(payload, options);
+    const buffer = await encodePixels(pixels, { format, quality: options.quality, background: options.background });
+    return { buffer, mimeType: RENDER_MIME_TYPES[format], width: pixels.width, height: pixels.height };
+};
@@ -0,0 +1,159 @@
+import { RgbaPixels } from '../adjustments/filters';
+
+/**
+ * Premultiplied float RGBA (0..1) the renderer composites into, and the blend modes the canvas
+ * uses (`globalCompositeOperation` names), following the W3C compositing spec the browser does.
+ */
+
+export interface Surface {
+    width: number;
+    height: number;
+    data: Float32Array;
+}
+
+export const createSurface = (width: number, height: number): Surface => ({
+    width,
+    height,
+    data: new Float32Array(width * height * 4),
+});
+
+export const copySurface = (surface: Surface): Surface => ({ ...surface, data: new Float32Array(surface.data) });
+
+export const surfaceFromPixels = ({ data, width, height }: RgbaPixels): Surface => {
+    const surface = createSurface(width, height);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255;
+        surface.data[i] = (data[i] / 255) * alpha;
+        surface.data[i + 1] = (data[i + 1] / 255) * alpha;
+        surface.data[i + 2] = (data[i + 2] / 255) * alpha;
+        surface.data[i + 3] = alpha;
+    }
+    return surface;
+};
+
+export const pixelsFromSurface = ({ data, width, height }: Surface): RgbaPixels => {
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3];
+        if (alpha <= 0) continue;
+        pixels[i] = Math.round((data[i] / alpha) * 255);
+        pixels[i + 1] = Math.round((data[i + 1] / alpha) * 255);
+        pixels[i + 2] = Math.round((data[i + 2] / alpha) * 255);
+        pixels[i + 3] = Math.round(alpha * 255);
+    }
+    return { data: pixels, width, height };
+};
+
+type Separable = (backdrop: number, source: number) => number;
+
+const softLightD = (backdrop: number) =>
+    backdrop <= 0.25 ? ((16 * backdrop - 12) * backdrop + 4) * backdrop : Math.sqrt(backdrop);
+
+const hardLight: Separable = (b, s) => (s <= 0.5 ? b * 2 * s : b + (2 * s - 1) - b * (2 * s - 1));
+
+const SEPARABLE: Record<string, Separable> = {
+    multiply: (b, s) => b * s,
+    screen: (b, s) => b + s - b * s,
+    overlay: (b, s) => hardLight(s, b),
+    darken: (b, s) => Math.min(b, s),
+    lighten: (b, s) => Math.max(b, s),
+    'color-dodge': (b, s) => (b === 0 ? 0 : s >= 1 ? 1 : Math.min(1, b / (1 - s))),
+    'color-burn': (b, s) => (b >= 1 ? 1 : s <= 0 ? 0 : 1 - Math.min(1, (1 - b) / s)),
+    'hard-light': hardLight,
+    'soft-light': (b, s) => (s <= 0.5 ? b - (1 - 2 * s) * b * (1 - b) : b + (2 * s - 1) * (softLightD(b) - b)),
+    difference: (b, s) => Math.abs(b - s),
+    exclusion: (b, s) => b + s - 2 * b * s,
+};
+
+type Rgb = [number, number, number];
+
+const lum = ([r, g, b]: Rgb) => 0.3 * r + 0.59 * g + 0.11 * b;
+
+const clipColor = (color: Rgb): Rgb => {
+    const l = lum(color);
+    const n = Math.min(...color);
+    const x = Math.max(...color);
+    return color.map((c) => {
+        let value = c;
+        if (n < 0) value = l + ((value - l) * l) / (l - n);
+        if (x > 1) value = l + ((value - l) * (1 - l)) / (x - l);
+        return value;
+    }) as Rgb;
+};
+
+const setLum = (color: Rgb, l: number): Rgb => {
+    const d = l - lum(color);
+    return clipColor([color[0] + d, color[1] + d, color[2] + d]);
+};
+
+const sat = (color: Rgb) => Math.max(...color) - Math.min(...color);
+
+const setSat = (color: Rgb, s: number): Rgb => {
+    const max = Math.max(...color);
+    const min = Math.min(...color);
+    if (max === min) return [0, 0, 0];
+    return color.map((c) => ((c - min) * s) / (max - min)) as Rgb;
+};
+
+const NON_SEPARABLE: Record<string, (backdrop: Rgb, source: Rgb) => Rgb> = {
+    hue: (b, s) => setLum(setSat(s, sat(b)), lum(b)),
+    saturation: (b, s) => setLum(setSat(b, sat(s)), lum(b)),
+    color: (b, s) => setLum(s, lum(b)),
+    luminosity: (b, s) => setLum(b, lum(s)),
+};
+
+/**
+ * Draws `source` over `backdrop` (same size) in place with a blend mode and opacity. `coverage`
+ * scales the source's alpha per pixel (masks, clipping).
+ */
+export const compositeSurface = (
+    backdrop: Surface,
+    source: Surface,
+    blendMode: string,
+    opacity: number,
+    coverage: Float32Array | null = null
+) => {
+    const separable = SEPARABLE[blendMode];
+    const nonSeparable = NON_SEPARABLE[blendMode];
+    const target = backdrop.data;
+    const data = source.data;
+    for (let p = 0, i = 0; i < data.length; p++, i += 4) {
+        const k = opacity * (coverage ? coverage[p] : 1);
+        const as = data[i + 3] * k;
+        if (as <= 0) continue;
+        const ab = target[i + 3];
+        let r = data[i] * k;
+        let g = data[i + 1] * k;
+        let b = data[i + 2] * k;
+        // Blending replaces the source colour with B(backdrop, source) where the backdrop is opaque.
+        if (ab > 0 && (separable || nonSeparable)) {
+            const cs: Rgb = [data[i] / data[i + 3], data[i + 1] / data[i + 3], data[i + 2] / data[i + 3]];
+            const cb: Rgb = [target[i] / ab, target[i + 1] / ab, target[i + 2] / ab];
+            const mixed = separable ? (cs.map((c, channel) => separable(cb[channel], c)) as Rgb) : nonSeparable(cb, cs);
+            r = as * ((1 - ab) * cs[0] + ab * mixed[0]);
+            g = as * ((1 - ab) * cs[1] + ab * mixed[1]);
+            b = as * ((1 - ab) * cs[2] + ab * mixed[2]);
+        }
+        target[i] = r + target[i] * (1 - as);
+        target[i + 1] = g + target[i + 1] * (1 - as);
+        target[i + 2] = b + target[i + 2] * (1 - as);
+        target[i + 3] = as + ab * (1 - as);
+    }
+};
+
+/** Fades `surface` back towards `backdrop` where `amount` (times `coverage`) is below 1, in place. */
+export const fadeTowards = (surface: Surface, backdrop: Surface, amount: number, coverage: Float32Array | null) => {
+    const data = surface.data;
+    for (let p = 0, i = 0; i < data.length; p++, i += 4) {
+        const k = amount * (coverage ? coverage[p] : 1);
+        if (k >= 1) continue;
+        for (let c = 0; c < 4; c++) data[i + c] = backdrop.data[i + c] + (data[i + c] - backdrop.data[i + c]) * k;
+    }
+};
+
+/** The per-pixel alpha of `surface`, for clipping the layers above it. */
+export const surfaceAlpha = ({ data, width, height }: Surface): Float32Array => {
+    const alpha = new Float32Array(width * height);
+    for (let p = 0; p < alpha.length; p++) alpha[p] = data[p * 4 + 3];
+    return alpha;
+};
@@ -0,0 +1,443 @@
+import sharp from 'sharp';
+
+export type RegionBounds = { x: number; y: number; width: number; height: number };
+export type Point = { x: number; y: number };
+
+/** Packed RGB pixels at working resolution. */
+export interface RawImage {
+    width: number;
+    height: number;
+    data: Buffer;
+}
+
+export interface SegmentedInstance {
+    bounds: RegionBounds;
+    polygon: Point[];
+    confidence: number; // Mean foreground probability inside the instance, 0..1
+}
+
+export interface SegmentationResult {
+    width: number;
+    height: number;
+    mask: Buffer; // Soft single-channel mask at source resolution (255 = selected)
+    confidence: Buffer; // Per-pixel foreground probability at source resolution (0..255)
+    outlines: Point[][]; // Every contour of the mask, in source pixel coordinates
+    instances: SegmentedInstance[];
+}
+
+export interface SegmentOptions {
+    invert?: boolean; // Select everything except the refined regions (e.g. "background")
+    iterations?: number;
+}
+
+const WORK_SIDE = 320;
+const HIST_BITS = 4;
+const HIST_SIZE = 1 << (HIST_BITS * 3);
+const MIN_COMPONENT_RATIO = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const binOf = (data: Buffer, pixel: number): number => {
+    const i = pixel * 3;
+    const shift = 8 - HIST_BITS;
+    return ((data[i] >> shift) << (HIST_BITS * 2)) | ((data[i + 1] >> shift) << HIST_BITS) | (data[i + 2] >> shift);
+};
+
+export const loadWorkingImage = async (source: Buffer): Promise<{ image: RawImage; sourceWidth: number; sourceHeight: number; scale: number }> => {
+    const meta = await sharp(source).metadata();
+    const sourceWidth = Number(meta.width ?? 0);
+    const sourceHeight = Number(meta.height ?? 0);
+    const scale = Math.min(1, WORK_SIDE / Math.max(sourceWidth, sourceHeight, 1));
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+
+    const data = await sharp(source)
+        .removeAlpha()
+        .resize(width, height, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+    return { image: { width, height, data }, sourceWidth, sourceHeight, scale };
+};
+
+const scaleBounds = (bounds: RegionBounds, scale: number, width: number, height: number): RegionBounds => {
+    const x = clamp(Math.floor(bounds.x * scale), 0, width - 1);
+    const y = clamp(Math.floor(bounds.y * scale), 0, height - 1);
+    return {
+        x,
+        y,
+        width: clamp(Math.ceil(bounds.width * scale), 1, width - x),
+        height: clamp(Math.ceil(bounds.height * scale), 1, height - y)
+    };
+};
+
+/**
+ * GrabCut-style refinement of a bounding box into a foreground probability map.
+ * Pixels outside the box seed the background colour model, the box seeds the foreground model,
+ * and each iteration re-estimates both models from the soft labels. An edge-aware smoothing pass
+ * stands in for the graph-cut pairwise term so labels stick to colour boundaries.
+ */
+export const refineBox = (image: RawImage, box: RegionBounds, iterations = 4): Float32Array => {
+    const { width, height, data } = image;
+    const prob = new Float32Array(width * height);
+    const margin = Math.max(4, Math.round(Math.max(box.width, box.height) * 0.2));
+    const outer = {
+        x0: Math.max(0, box.x - margin),
+        y0: Math.max(0, box.y - margin),
+        x1: Math.min(width, box.x + box.width + margin),
+        y1: Math.min(height, box.y + box.height + margin)
+    };
+    const x1 = box.x + box.width;
+    const y1 = box.y + box.height;
+
+    const inside: number[] = [];
+    const ring: number[] = [];
+    for (let y = outer.y0; y < outer.y1; y += 1) {
+        for (let x = outer.x0; x < outer.x1; x += 1) {
+            const pixel = y * width + x;
+            if (x >= box.x && x < x1 && y >= box.y && y < y1) inside.push(pixel);
+            else ring.push(pixel);
+        }
+    }
+
+    // A box that covers the whole frame has no outside to learn from; treat its border strip as background.
+    let background = ring;
+    if (background.length < 32) {
+        const strip = Math.max(1, Math.round(Math.min(box.width, box.height) * 0.04));
+        background = inside.filter((pixel) => {
+            const x = pixel % width;
+            const y = Math.floor(pixel / width);
+            return x < box.x + strip || x >= x1 - strip || y < box.y + strip || y >= y1 - strip;
+        });
+    }
+
+    // Centre prior: the subject usually fills the middle of the box.
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    const prior = new Float32Array(inside.length);
+    inside.forEach((pixel, i) => {
+        const dx = ((pixel % width) - cx) / (box.width / 2 || 1);
+        const dy = (Math.floor(pixel / width) - cy) / (box.height / 2 || 1);
+        prior[i] = 0.35 + 0.45 * Math.exp(-(dx * dx + dy * dy) * 1.2);
+        prob[pixel] = prior[i];
+    });
+
+    const fgHist = new Float32Array(HIST_SIZE);
+    const bgHist = new Float32Array(HIST_SIZE);
+    const bins = Int32Array.from(inside, (pixel) => binOf(data, pixel));
+    const bgBins = Int32Array.from(background, (pixel) => binOf(data, pixel));
+
+    for (let iteration = 0; iteration < iterations; iteration += 1) {
+        fgHist.fill(1e-3);
+        bgHist.fill(1e-3);
+        let fgTotal = 0;
+        let bgTotal = 0;
+        for (let i = 0; i < bgBins.length; i += 1) {
+            bgHist[bgBins[i]] += 1;
+            bgTotal += 1;
+        }
+        for (let i = 0; i < inside.length; i += 1) {
+            const p = prob[inside[i]];
+            fgHist[bins[i]] += p;
+            fgTotal += p;
+            // Box pixels the model already rejects also teach the background model.
+            if (p < 0.5) {
+                bgHist[bins[i]] += 1 - p;
+                bgTotal += 1 - p;
+            }
+        }
+
+        for (let i = 0; i < inside.length; i += 1) {
+            const lf = fgHist[bins[i]] / (fgTotal || 1);
+            const lb = bgHist[bins[i]] / (bgTotal || 1);
+            const pf = lf * prior[i];
+            prob[inside[i]] = pf / (pf + lb * (1 - prior[i]) || 1);
+        }
+
+        smoothProbabilities(image, prob, outer);
+    }
+
+    return prob;
+};
+
+// Colour-weighted 4-neighbour averaging; strong edges keep their labels, flat areas agree.
+const smoothProbabilities = (
+    image: RawImage,
+    prob: Float32Array,
+    area: { x0: number; y0: number; x1: number; y1: number }
+) => {
+    const { width, data } = image;
+    const sigma2 = 2 * 18 * 18;
+    const next = new Float32Array(prob);
+
+    for (let y = area.y0; y < area.y1; y += 1) {
+        for (let x = area.x0; x < area.x1; x += 1) {
+            const pixel = y * width + x;
+            const i = pixel * 3;
+            let sum = prob[pixel];
+            let weight = 1;
+            const visit = (neighbour: number) => {
+                const j = neighbour * 3;
+                const dr = data[i] - data[j];
+                const dg = data[i + 1] - data[j + 1];
+                const db = data[i + 2] - data[j + 2];
+                const w = Math.exp(-(dr * dr + dg * dg + db * db) / sigma2);
+                sum += prob[neighbour] * w;
+                weight += w;
+            };
+            if (x > area.x0) visit(pixel - 1);
+            if (x < area.x1 - 1) visit(pixel + 1);
+            if (y > area.y0) visit(pixel - width);
+            if (y < area.y1 - 1) visit(pixel + width);
+            next[pixel] = sum / weight;
+        }
+    }
+
+    prob.set(next);
+};
+
+/** 4-connected component labelling. Labels start at 1; 0 means unselected. */
+export const labelComponents = (binary: Uint8Array, width: number, height: number): { labels: Int32Array; sizes: number[] } => {
+    const labels = new Int32Array(width * height);
+    const sizes: number[] = [0];
+    const stack: number[] = [];
+
+    for (let start = 0; start < binary.length; start += 1) {
+        if (!binary[start] || labels[start]) continue;
+        const label = sizes.length;
+        let size = 0;
+        labels[start] = label;
+        stack.push(start);
+        while (stack.length) {
+            const pixel = stack.pop()!;
+            size += 1;
+            const x = pixel % width;
+            const neighbours = [
+                x > 0 ? pixel - 1 : -1,
+                x < width - 1 ? pixel + 1 : -1,
+                pixel - width,
+                pixel + width
+            ];
+            for (const n of neighbours) {
+                if (n >= 0 && n < binary.length && binary[n] && !labels[n]) {
+                    labels[n] = label;
+                    stack.push(n);
+                }
+            }
+        }
+        sizes.push(size);
+    }
+
+    return { labels, sizes };
+};
+
+const boundsOfLabel = (labels: Int32Array, label: number, width: number): RegionBounds => {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -1;
+    let maxY = -1;
+    for (let pixel = 0; pixel < labels.length; pixel += 1) {
+        if (labels[pixel] !== label) continue;
+        const x = pixel % width;
+        const y = Math.floor(pixel / width);
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+    }
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const EDGE_TABLE: Record<number, Array<[number, number]>> = {
+    // Marching-squares cases -> pairs of cell edges (0 top, 1 right, 2 bottom, 3 left).
+    1: [[3, 2]], 2: [[2, 1]], 3: [[3, 1]], 4: [[0, 1]], 5: [[3, 0], [2, 1]], 6: [[0, 2]], 7: [[3, 0]],
+    8: [[0, 3]], 9: [[0, 2]], 10: [[0, 1], [3, 2]], 11: [[0, 1]], 12: [[3, 1]], 13: [[2, 1]], 14: [[3, 2]]
+};
+
+/** Traces every iso-contour of a binary mask with marching squares and returns closed polylines. */
+export const traceContours = (binary: Uint8Array, width: number, height: number): Point[][] => {
+    const at = (x: number, y: number) => (x >= 0 && y >= 0 && x < width && y < height && binary[y * width + x] ? 1 : 0);
+    // Edge midpoints in doubled coordinates so they stay integral and shared between cells.
+    const edgePoint = (cx: number, cy: number, edge: number): [number, number] => {
+        if (edge === 0) return [cx * 2 + 1, cy * 2];
+        if (edge === 1) return [cx * 2 + 2, cy * 2 + 1];
+        if (edge === 2) return [cx * 2 + 1, cy * 2 + 2];
+        return [cx * 2, cy * 2 + 1];
+    };
+
+    const adjacency = new Map<string, string[]>();
+    const link = (a: string, b: string) => {
+        if (!adjacency.has(a)) adjacency.set(a, []);
+        adjacency.get(a)!.push(b);
+    };
+
+    for (let cy = -1; cy < height; cy += 1) {
+        for (let cx = -1; cx < width; cx += 1) {
+            const code = (at(cx, cy) << 3) | (at(cx + 1, cy) << 2) | (at(cx + 1, cy + 1) << 1) | at(cx, cy + 1);
+            const segments = EDGE_TABLE[code];
+            if (!segments) continue;
+            for (const [ea, eb] of segments) {
+                const a = edgePoint(cx, cy, ea).join(',');
+                const b = edgePoint(cx, cy, eb).join(',');
+                link(a, b);
+                link(b, a);
+            }
+        }
+    }
+
+    const contours: Point[][] = [];
+    const visited = new Set<string>();
+    for (const start of adjacency.keys()) {
+        if (visited.has(start)) continue;
+        const contour: Point[] = [];
+        let current: string | undefined = start;
+        let previous: string | undefined;
+        while (current && !visited.has(current)) {
+            visited.add(current);
+            const [dx, dy] = current.split(',').map(Number);
+            // Doubled coordinates are cell-relative with cell (0,0) centred on pixel (0,0); shift to pixel edges.
+            contour.push({ x: dx / 2 + 0.5, y: dy / 2 + 0.5 });
+            const options: string[] = adjacency.get(current) || [];
+            const next: string | undefined = options.find((candidate) => candidate !== previous && !visited.has(candidate));
+            previous = current;
+            current = next;
+        }
+        if (contour.length >= 3) contours.push(contour);
+    }
+
+    return contours;
+};
+
+/** Ramer-Douglas-Peucker simplification for closed outlines. */
+export const simplifyPolygon = (points: Point[], epsilon: number): Point[] => {
+    if (points.length <= 4) return points;
+
+    const rdp = (start: number, end: number, keep: Uint8Array) => {
+        const a = points[start];
+        const b = points[end];
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const length = Math.hypot(dx, dy) || 1;
+        let maxDistance = 0;
+        let index = -1;
+        for (let i = start + 1; i < end; i += 1) {
+            const distance = Math.abs(dy * points[i].x - dx * points[i].y + b.x * a.y - b.y * a.x) / length;
+            if (distance > maxDistance) {
+                maxDistance = distance;
+                index = i;
+            }
+        }
+        if (index >= 0 && maxDistance > epsilon) {
+            keep[index] = 1;
+            rdp(start, index, keep);
+            rdp(index, end, keep);
+        }
+    };
+
+    const keep = new Uint8Array(points.length);
+    const mid = Math.floor(points.length / 2);
+    keep[0] = 1;
+    keep[mid] = 1;
+    keep[points.length - 1] = 1;
+    rdp(0, mid, keep);
+    rdp(mid, points.length - 1, keep);
+    return points.filter((_, i) => keep[i]);
+};
+
+const upscalePlane = async (plane: Uint8Array, width: number, height: number, targetWidth: number, targetHeight: number): Promise<Buffer> =>
+    sharp(Buffer.from(plane), { raw: { width, height, channels: 1 } })
+        .resize(targetWidth, targetHeight, { fit: 'fill', kernel: 'cubic' })
+        .extractChannel(0)
+        .raw()
+        .toBuffer();
+
+/**
+ * Turns one or more rough boxes (in source pixels) into a pixel-accurate soft mask,
+ * a probability map and per-instance outlines.
+ */
+export const segmentRegions = async (
+    source: Buffer,
+    boxes: RegionBounds[],
+    options: SegmentOptions = {}
+): Promise<SegmentationResult> => {
+    const { image, sourceWidth, sourceHeight, scale } = await loadWorkingImage(source);
+    const { width, height } = image;
+    const probability = new Float32Array(width * height);
+    const selected = new Uint8Array(width * height);
+    const instances: SegmentedInstance[] = [];
+
+    for (const box of boxes) {
+        const workBox = scaleBounds(box, scale, width, height);
+        const prob = refineBox(image, workBox, options.iterations);
+        const binary = new Uint8Array(width * height);
+        for (let pixel = 0; pixel < prob.length; pixel += 1) {
+            if (prob[pixel] >= 0.5) binary[pixel] = 1;
+            if (prob[pixel] > probability[pixel]) probability[pixel] = prob[pixel];
+        }
+
+        // Keep meaningful blobs only; if everything is tiny keep the largest so we never return nothing.
+        const { labels, sizes } = labelComponents(binary, width, height);
+        const minSize = workBox.width * workBox.height * MIN_COMPONENT_RATIO;
+        let kept = sizes.map((size, label) => (label > 0 && size >= minSize ? label : 0)).filter(Boolean);
+        if (kept.length === 0 && sizes.length > 1) {
+            kept = [sizes.indexOf(Math.max(...sizes.slice(1)))];
+        }
+        if (kept.length === 0) continue;
+
+        const keep = new Set(kept);
+        const instanceMask = new Uint8Array(width * height);
+        let probabilitySum = 0;
+        let count = 0;
+        for (let pixel = 0; pixel < labels.length; pixel += 1) {
+            if (!keep.has(labels[pixel])) continue;
+            instanceMask[pixel] = 1;
+            selected[pixel] = 1;
+            probabilitySum += prob[pixel];
+            count += 1;
+        }
+
+        const contours = traceContours(instanceMask, width, height);
+        const outline = contours.reduce((longest, contour) => (contour.length > longest.length ? contour : longest), [] as Point[]);
+        const largest = kept.reduce((best, label) => (sizes[label] > sizes[best] ? label : best), kept[0]);
+        const bounds = boundsOfLabel(labels, largest, width);
+        instances.push({
+            bounds: {
+                x: Math.round(bounds.x / scale),
+                y: Math.round(bounds.y / scale),
+                width: Math.max(1, Math.round(bounds.width / scale)),
+                height: Math.max(1, Math.round(bounds.height / scale))
+            },
+            polygon: simplifyPolygon(outline, 0.75).map((point) => ({ x: point.x / scale, y: point.y / scale })),
+            confidence: count ? probabilitySum / count : 0
+        });
+    }
+
+    const softMask = new Uint8Array(width * height);
+    const confidence = new Uint8Array(width * height);
+    for (let pixel = 0; pixel < softMask.length; pixel += 1) {
+        const inSelection = options.invert ? !selected[pixel] : selected[pixel];
+        const p = options.invert ? 1 - probability[pixel] : probability[pixel];
+        confidence[pixel] = Math.round(clamp(p, 0, 1) * 255);
+        // Hard labels inside, probability-shaped falloff at the boundary for a soft edge.
+        softMask[pixel] = inSelection ? Math.round(255 * clamp(0.5 + p, 0, 1)) : Math.round(255 * clamp(p - 0.5, 0, 0.5));
+    }
+
+    const outlineSource = options.invert ? Uint8Array.from(selected, (value) => (value ? 0 : 1)) : selected;
+    const outlines = traceContours(outlineSource, width, height)
+        .map((contour) => simplifyPolygon(contour, 0.75).map((point) => ({ x: point.x / scale, y: point.y / scale })));
+
+    return {
+        width: sourceWidth,
+        height: sourceHeight,
+        mask: await upscalePlane(softMask, width, height, sourceWidth, sourceHeight),
+        confidence: await upscalePlane(confidence, width, height, sourceWidth, sourceHeight),
+        outlines,
+        instances
+    };
+};
+
+/** Encodes a single-channel plane as a grayscale PNG data URL. */
+export const planeToDataUrl = async (plane: Buffer, width: number, height: number): Promise<string> => {
+    const png = await sharp(plane, { raw: { width, height, channels: 1 } }).png().toBuffer();
+    return `data:image/png;base64,${png.toString('base64')}`;
+};
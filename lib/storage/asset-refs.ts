@@ -0,0 +1,207 @@
+/**
+ * Client-side half of the content-addressed asset store.
+ * Project payloads replace embedded data URLs with `asset:<sha256>` references; the bytes
+ * live behind `/api/assets/<sha256>` and are uploaded at most once across all saves.
+ * No Node-only imports here: this module runs in the browser.
+ */
+
+export const ASSET_REF_PREFIX = 'asset:';
+export const ASSET_ENDPOINT = '/api/assets';
+
+const UPLOAD_CONCURRENCY = 4;
+
+/**
+ * The only types the asset store serves inline (anything else is sent as a download), so these
+ * are the only data URLs worth externalizing; others, like SVG, stay embedded.
+ */
+export const SERVABLE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/gif']);
+
+export const isAssetRef = (value: unknown): value is string =>
+    typeof value === 'string' && value.startsWith(ASSET_REF_PREFIX);
+
+export const assetIdFromRef = (ref: string) => ref.slice(ASSET_REF_PREFIX.length);
+
+/** URL usable anywhere an image URL is (img src, FabricImage.fromURL); data URLs pass through. */
+export const resolveAssetUrl = (value: string) =>
+    isAssetRef(value) ? `${ASSET_ENDPOINT}/${assetIdFromRef(value)}` : value;
+
+const isDataUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:');
+
+export const decodeDataUrl = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+    const comma = dataUrl.indexOf(',');
+    const header = dataUrl.slice(5, comma);
+    const body = dataUrl.slice(comma + 1);
+    const mimeType = header.split(';')[0] || 'application/octet-stream';
+    if (header.endsWith(';base64')) {
+        const binary = atob(body);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+        return { bytes, mimeType };
+    }
+    return { bytes: new TextEncoder().encode(decodeURIComponent(body)), mimeType };
+};
+
+export const encodeDataUrl = (bytes: Uint8Array, mimeType: string) => {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const sha256Hex = async (bytes: Uint8Array) => {
+    const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Keys whose string values are images: layer `image` (and AI `variants[].image`), `mask.dataUrl`,
+ * `thumbnail`, `aiData.originalMask` and the payload `preview`. Every value of a history command's
+ * `assets` record is one too, and collab writes (`{ field: 'mask.dataUrl', value }`) hold one
+ * when the field they name is. No other string is rewritten, whatever it looks like.
+ */
+const IMAGE_KEYS = new Set(['image', 'dataUrl', 'thumbnail', 'originalMask', 'preview']);
+const ASSET_RECORD_KEY = 'assets';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// A copy of `value` with `map` applied to the string in each image slot.
+const mapImageSlots = (value: unknown, map: (value: string) => string, inSlot = false): unknown => {
+    if (typeof value === 'string') return inSlot ? map(value) : value;
+    if (Array.isArray(value)) return value.map((item) => mapImageSlots(item, map));
+    if (!isRecord(value)) return value;
+    const writeField = typeof value.field === 'string' && 'value' in value ? value.field.split('.').pop() : undefined;
+    return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => {
+            if (key === ASSET_RECORD_KEY && isRecord(item)) {
+                return [key, Object.fromEntries(Object.entries(item).map(([slot, asset]) => [slot, mapImageSlots(asset, map, true)]))];
+            }
+            const slot = IMAGE_KEYS.has(key) || (key === 'value' && writeField !== undefined && IMAGE_KEYS.has(writeField));
+            return [key, mapImageSlots(item, map, slot)];
+        })
+    );
+};
+
+const collectImageSlots = (value: unknown, match: (value: string) => boolean) => {
+    const found = new Set<string>();
+    mapImageSlots(value, (item) => {
+        if (match(item)) found.add(item);
+        return item;
+    });
+    return found;
+};
+
+const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+    let next = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            const item = items[next];
+            next += 1;
+            await worker(item);
+        }
+    });
+    await Promise.all(runners);
+};
+
+/**
+ * Uploads every image data URL embedded in an image slot of `payload` that the server does not have yet and
+ * returns a copy with each one replaced by its `asset:<sha256>` reference. Uploads need a
+ * signed-in session or an editor room `token`.
+ */
+export const externalizeAssets = async <T>(payload: T, token?: string | null): Promise<T> => {
+    const dataUrls = collectImageSlots(payload, isDataUrl);
+
+    const replacements = new Map<string, string>();
+    await runWithConcurrency(Array.from(dataUrls), UPLOAD_CONCURRENCY, async (dataUrl) => {
+        const { bytes, mimeType } = decodeDataUrl(dataUrl);
+        if (!SERVABLE_IMAGE_TYPES.has(mimeType)) return;
+        const assetId = await sha256Hex(bytes);
+
+        const head = await fetch(`${ASSET_ENDPOINT}/${assetId}`, { method: 'HEAD' });
+        if (!head.ok) {
+            const headers: Record<string, string> = { 'Content-Type': mimeType };
+            if (token) headers.Authorization = `Bearer ${token}`;
+            const res = await fetch(ASSET_ENDPOINT, {
+                method: 'POST',
+                headers,
+                body: bytes as BodyInit
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Asset upload failed');
+            if (data.assetId !== assetId) throw new Error('Asset hash mismatch after upload');
+        }
+        replacements.set(dataUrl, `${ASSET_REF_PREFIX}${assetId}`);
+    });
+
+    return mapImageSlots(payload, (value) => replacements.get(value) ?? value) as T;
+};
+
+// Hydrated data URLs by asset id, least recently used first, evicted past a byte budget so a long
+// session does not keep every asset it ever loaded.
+const HYDRATED_CACHE_BYTES = 64 * 1024 * 1024;
+interface HydratedEntry {
+    dataUrl: Promise<string>;
+    size: number; // Characters of the data URL; 0 while the fetch is in flight
+}
+
+const hydrated = new Map<string, HydratedEntry>();
+let hydratedBytes = 0;
+
+const forgetHydrated = (assetId: string, entry: HydratedEntry) => {
+    if (hydrated.get(assetId) !== entry) return;
+    hydrated.delete(assetId);
+    hydratedBytes -= entry.size;
+};
+
+const fetchAssetDataUrl = (assetId: string) => {
+    const cached = hydrated.get(assetId);
+    if (cached) {
+        hydrated.delete(assetId);
+        hydrated.set(assetId, cached);
+        return cached.dataUrl;
+    }
+
+    const entry: HydratedEntry = {
+        dataUrl: fetch(`${ASSET_ENDPOINT}/${assetId}`).then(async (res) => {
+            if (!res.ok) throw new Error(`Asset ${assetId} not found`);
+            const mimeType = res.headers.get('content-type') || 'application/octet-stream';
+            return encodeDataUrl(new Uint8Array(await res.arrayBuffer()), mimeType);
+        }),
+        size: 0
+    };
+    hydrated.set(assetId, entry);
+    entry.dataUrl.then(
+        (dataUrl) => {
+            if (hydrated.get(assetId) !== entry) return;
+            entry.size = dataUrl.length;
+            hydratedBytes += entry.size;
+            // Fetches still in flight have no size yet and are left alone.
+            for (const [id, oldest] of hydrated) {
+                if (hydratedBytes <= HYDRATED_CACHE_BYTES) break;
+                if (oldest.size > 0) forgetHydrated(id, oldest);
+            }
+        },
+        // Failed fetches should be retried next time rather than cached forever.
+        () => forgetHydrated(assetId, entry)
+    );
+    return entry.dataUrl;
+};
+
+/**
+ * Inverse of `externalizeAssets`: fetches every `asset:` reference in an image slot back into a data URL.
+ * Use for values that code downstream expects inline (masks, thumbnails); prefer
+ * `resolveAssetUrl` for large pixels that can be loaded lazily by URL.
+ */
+export const hydrateAssetRefs = async <T>(payload: T): Promise<T> => {
+    const refs = collectImageSlots(payload, isAssetRef);
+
+    const replacements = new Map<string, string>();
+    await Promise.all(
+        Array.from(refs).map(async (ref) => {
+            replacements.set(ref, await fetchAssetDataUrl(assetIdFromRef(ref)));
+        })
+    );
+    return mapImageSlots(payload, (value) => replacements.get(value) ?? value) as T;
+};
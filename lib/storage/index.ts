@@ -1,32 +1,311 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import type { CommentThread } from '../comments';
+import { ObjectStore } from './object-store';
+import { LocalObjectStore } from './local';
+import { S3ObjectStore } from './s3';
+
 export interface CloudProject {
     id: string;
     name: string;
     ownerId: string;
-    layersUrl: string; // URL to the serialized layer JSON payload in S3
-    thumbnailUrl: string; // URL to the flattened preview image in S3
+    layersUrl: string; // Storage key of the serialized layer JSON payload ('' until first save)
+    thumbnailUrl: string; // Storage key of the flattened preview image ('' until first save)
     createdAt: string;
     updatedAt: string;
 }
 
+export interface ProjectSnapshot {
+    id: string;
+    projectId: string;
+    name: string;
+    createdAt: string;
+    payload: unknown;
+}
+
+export interface ShareLink {
+    id: string;
+    projectId: string;
+    mode: 'view' | 'edit'; // Role granted to whoever opens the link: viewer or editor
+    createdAt: string;
+}
+
+export const MAX_SNAPSHOTS_PER_PROJECT = 50;
+
+// Ids become path segments, so keep them to a safe alphabet.
+export const isValidProjectId = (id: string) => /^[A-Za-z0-9_-]{1,128}$/.test(id);
+
+// Asset ids are the lowercase hex SHA-256 of the bytes.
+export const isValidAssetId = (id: string) => /^[a-f0-9]{64}$/.test(id);
+
+export const assetKey = (assetId: string) => `assets/${assetId}`;
+
+// Largest asset `POST /api/assets` accepts; layer pixels are well under this.
+export const MAX_ASSET_BYTES = 64 * 1024 * 1024;
+
+export class BodyTooLargeError extends Error {
+    status = 413;
+}
+
+/**
+ * Reads a request body, giving up with `BodyTooLargeError` once it passes `maxBytes` (checked
+ * against `Content-Length` first, then while streaming, since the header can be absent or wrong).
+ */
+export const readRequestBody = async (req: Request, maxBytes: number): Promise<Buffer> => {
+    const declared = Number(req.headers.get('content-length'));
+    if (Number.isFinite(declared) && declared > maxBytes) {
+        throw new BodyTooLargeError(`Request body is larger than ${maxBytes} bytes`);
+    }
+    if (!req.body) return Buffer.alloc(0);
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = req.body.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > maxBytes) {
+            await reader.cancel();
+            throw new BodyTooLargeError(`Request body is larger than ${maxBytes} bytes`);
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks, size);
+};
+
+// Assets are stored as raw bytes without metadata, so the content type comes from the file signature.
+export const sniffMimeType = (buffer: Buffer): string => {
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) return 'image/png';
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+    if (buffer.length >= 6 && buffer.toString('ascii', 0, 4) === 'GIF8') return 'image/gif';
+    if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp' && /avi[fs]/.test(buffer.toString('ascii', 8, 12))) return 'image/avif';
+    if (buffer.length >= 5 && buffer.toString('ascii', 0, 5) === '<svg ') return 'image/svg+xml';
+    return 'application/octet-stream';
+};
+
+const projectKey = (id: string) => `projects/${id}/project.json`;
+const payloadKey = (id: string) => `projects/${id}/payload.json`;
+const previewKey = (id: string) => `projects/${id}/preview.png`;
+const snapshotPrefix = (projectId: string) => `projects/${projectId}/snapshots/`;
+const commentPrefix = (projectId: string) => `projects/${projectId}/comments/`;
+const shareKey = (id: string) => `shares/${id}.json`;
+
+/**
+ * Project persistence shared by every API route. All reads and writes go through an
+ * `ObjectStore`, so the same layout works on local disk and in an S3-compatible bucket:
+ *
+ *   projects/<id>/project.json          CloudProject record
+ *   projects/<id>/payload.json          latest layer payload
+ *   projects/<id>/preview.png           flattened preview
+ *   projects/<id>/snapshots/<sid>.json  ProjectSnapshot
+ *   projects/<id>/comments/<tid>.json   CommentThread, replies included
+ *   shares/<id>.json                    ShareLink
+ *   assets/<sha256>                     content-addressed binary assets, shared by all projects
+ */
 export class StorageEngine {
-    // Configuration would come from Env
-    constructor(private bucketName: string) { }
+    // Tail of the queued writes per key; see `exclusive`.
+    private queues = new Map<string, Promise<unknown>>();
 
-    async saveProjectSnapshot(project: CloudProject, layersPayload: any, previewImage: Buffer): Promise<CloudProject> {
-        console.log(`[Storage] Saving snapshot for project ${project.id}`);
-        // Stub for S3 putObject
+    constructor(private store: ObjectStore) { }
+
+    // Runs `task` once every earlier task on `key` has settled, so read-modify-write cycles on one
+    // object do not interleave. This holds within one server process (the engine is a singleton).
+    private exclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+        const run = (this.queues.get(key) ?? Promise.resolve()).then(task, task);
+        const tail = run.catch(() => undefined);
+        this.queues.set(key, tail);
+        tail.then(() => {
+            if (this.queues.get(key) === tail) this.queues.delete(key);
+        });
+        return run;
+    }
+
+    private async readJson<T>(key: string): Promise<T | null> {
+        const buffer = await this.store.getObject(key);
+        if (!buffer) return null;
+        try {
+            return JSON.parse(buffer.toString('utf8')) as T;
+        } catch (error) {
+            console.warn(`[Storage] Ignoring unreadable object ${key}`, error);
+            return null;
+        }
+    }
+
+    private async writeJson(key: string, value: unknown) {
+        await this.store.putObject(key, Buffer.from(JSON.stringify(value)), 'application/json');
+    }
+
+    async listProjects(): Promise<CloudProject[]> {
+        const keys = (await this.store.listObjects('projects/')).filter((key) => /^projects\/[^/]+\/project\.json$/.test(key));
+        const projects = await Promise.all(keys.map((key) => this.readJson<CloudProject>(key)));
+        return projects
+            .filter((project): project is CloudProject => Boolean(project))
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    async getProject(projectId: string): Promise<CloudProject | null> {
+        return this.readJson<CloudProject>(projectKey(projectId));
+    }
+
+    async saveProject(project: CloudProject): Promise<CloudProject> {
+        await this.writeJson(projectKey(project.id), project);
         return project;
     }
 
-    async loadProject(projectId: string): Promise<any> {
+    async saveProjectSnapshot(project: CloudProject, layersPayload: any, previewImage?: Buffer): Promise<CloudProject> {
+        console.log(`[Storage] Saving snapshot for project ${project.id}`);
+        await this.writeJson(payloadKey(project.id), layersPayload);
+        if (previewImage) {
+            await this.store.putObject(previewKey(project.id), previewImage, 'image/png');
+        }
+
+        return this.saveProject({
+            ...project,
+            layersUrl: payloadKey(project.id),
+            thumbnailUrl: previewImage ? previewKey(project.id) : project.thumbnailUrl,
+            updatedAt: new Date().toISOString()
+        });
+    }
+
+    async loadProject(projectId: string): Promise<any | null> {
         console.log(`[Storage] Loading project ${projectId}`);
-        // Stub for S3 getObject parsing the layer payload
-        return { layers: [] };
+        return this.readJson(payloadKey(projectId));
+    }
+
+    async listSnapshots(projectId: string): Promise<ProjectSnapshot[]> {
+        const keys = await this.store.listObjects(snapshotPrefix(projectId));
+        const snapshots = await Promise.all(keys.map((key) => this.readJson<ProjectSnapshot>(key)));
+        return snapshots
+            .filter((snapshot): snapshot is ProjectSnapshot => Boolean(snapshot))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async createSnapshot(projectId: string, name: string, payload: unknown): Promise<ProjectSnapshot> {
+        const snapshot: ProjectSnapshot = {
+            id: crypto.randomUUID(),
+            projectId,
+            name,
+            createdAt: new Date().toISOString(),
+            payload
+        };
+        await this.writeJson(`${snapshotPrefix(projectId)}${snapshot.id}.json`, snapshot);
+
+        // Keep the newest snapshots only, matching the old in-memory cap.
+        const existing = await this.listSnapshots(projectId);
+        await Promise.all(
+            existing
+                .slice(MAX_SNAPSHOTS_PER_PROJECT)
+                .map((old) => this.store.deleteObject(`${snapshotPrefix(projectId)}${old.id}.json`))
+        );
+        return snapshot;
+    }
+
+    async listComments(projectId: string): Promise<CommentThread[]> {
+        const keys = await this.store.listObjects(commentPrefix(projectId));
+        const threads = await Promise.all(keys.map((key) => this.readJson<CommentThread>(key)));
+        return threads
+            .filter((thread): thread is CommentThread => Boolean(thread))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async getComment(projectId: string, threadId: string): Promise<CommentThread | null> {
+        return this.readJson<CommentThread>(`${commentPrefix(projectId)}${threadId}.json`);
+    }
+
+    async saveComment(thread: CommentThread): Promise<CommentThread> {
+        await this.writeJson(`${commentPrefix(thread.projectId)}${thread.id}.json`, thread);
+        return thread;
+    }
+
+    /**
+     * Reads a thread, applies `update` and writes the result, with no other update or delete of
+     * that thread in between. Resolves to `null` when the thread does not exist; errors thrown by
+     * `update` propagate and nothing is written.
+     */
+    async updateComment(
+        projectId: string,
+        threadId: string,
+        update: (thread: CommentThread) => CommentThread
+    ): Promise<CommentThread | null> {
+        const key = `${commentPrefix(projectId)}${threadId}.json`;
+        return this.exclusive(key, async () => {
+            const thread = await this.readJson<CommentThread>(key);
+            if (!thread) return null;
+            const next = update(thread);
+            await this.writeJson(key, next);
+            return next;
+        });
+    }
+
+    async deleteComment(projectId: string, threadId: string): Promise<void> {
+        const key = `${commentPrefix(projectId)}${threadId}.json`;
+        await this.exclusive(key, () => this.store.deleteObject(key));
+    }
+
+    async saveShareLink(share: ShareLink): Promise<ShareLink> {
+        await this.writeJson(shareKey(share.id), share);
+        return share;
     }
 
+    async getShareLink(shareId: string): Promise<ShareLink | null> {
+        return this.readJson<ShareLink>(shareKey(shareId));
+    }
+
+    /** Stores bytes under their SHA-256 and returns that id; identical uploads are written once. */
     async uploadAsset(buffer: Buffer, mimeType: string): Promise<string> {
-        console.log(`[Storage] Uploading asset of type ${mimeType}`);
-        // Stub for S3 asset upload returning a public URL
-        return `https://storage.zerothlayer.com/assets/${Date.now()}`;
+        const assetId = createHash('sha256').update(buffer).digest('hex');
+        if (!(await this.store.hasObject(assetKey(assetId)))) {
+            console.log(`[Storage] Uploading asset ${assetId} (${mimeType}, ${buffer.length} bytes)`);
+            await this.store.putObject(assetKey(assetId), buffer, mimeType);
+        }
+        return assetId;
+    }
+
+    async hasAsset(assetId: string): Promise<boolean> {
+        return this.store.hasObject(assetKey(assetId));
+    }
+
+    async getAsset(assetId: string): Promise<Buffer | null> {
+        return this.store.getObject(assetKey(assetId));
     }
 }
+
+/**
+ * Picks the backing store from env:
+ * - `STORAGE_DRIVER=local` (default): files under `STORAGE_DIR` (default `./.zerothlayer-data`)
+ * - `STORAGE_DRIVER=s3`: `S3_ENDPOINT`, `S3_BUCKET`, optional `S3_REGION`, `S3_ACCESS_KEY_ID`, `S3_SECRET_ACCESS_KEY`
+ */
+export const createObjectStoreFromEnv = (): ObjectStore => {
+    const driver = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+    if (driver === 's3') {
+        const endpoint = process.env.S3_ENDPOINT;
+        const bucket = process.env.S3_BUCKET;
+        if (!endpoint || !bucket) {
+            throw new Error('STORAGE_DRIVER=s3 requires S3_ENDPOINT and S3_BUCKET');
+        }
+        return new S3ObjectStore({
+            endpoint,
+            bucket,
+            region: process.env.S3_REGION,
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+        });
+    }
+    return new LocalObjectStore(process.env.STORAGE_DIR || path.join(process.cwd(), '.zerothlayer-data'));
+};
+
+// Route bundles are separate module instances in dev, so keep the engine on globalThis.
+const globalStorage = globalThis as typeof globalThis & { __zerothlayerStorage?: StorageEngine };
+
+export const getStorageEngine = (): StorageEngine => {
+    if (!globalStorage.__zerothlayerStorage) {
+        globalStorage.__zerothlayerStorage = new StorageEngine(createObjectStoreFromEnv());
+    }
+    return globalStorage.__zerothlayerStorage;
+};
+
+export * from './object-store';
+export * from './local';
+export * from './s3';
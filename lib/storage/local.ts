@@ -0,0 +1,74 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ObjectStore, assertValidKey } from './object-store';
+
+/** Stores each object as a file under `rootDir`, mirroring the key's slashes as directories. */
+export class LocalObjectStore implements ObjectStore {
+    private rootDir: string;
+
+    constructor(rootDir: string) {
+        this.rootDir = path.resolve(rootDir);
+    }
+
+    private pathFor(key: string): string {
+        assertValidKey(key);
+        return path.join(this.rootDir, ...key.split('/'));
+    }
+
+    async getObject(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.readFile(this.pathFor(key));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async putObject(key: string, body: Buffer): Promise<void> {
+        const target = this.pathFor(key);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        // Write-then-rename so a concurrent reader never sees a half-written payload. The random
+        // suffix keeps two writes to the same key in the same millisecond off each other's file.
+        const temp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+        await fs.writeFile(temp, body);
+        await fs.rename(temp, target);
+    }
+
+    async deleteObject(key: string): Promise<void> {
+        await fs.rm(this.pathFor(key), { force: true });
+    }
+
+    async hasObject(key: string): Promise<boolean> {
+        try {
+            const stat = await fs.stat(this.pathFor(key));
+            return stat.isFile();
+        } catch {
+            return false;
+        }
+    }
+
+    async listObjects(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        const walk = async (dir: string, keyPrefix: string) => {
+            let entries: import('node:fs').Dirent[];
+            try {
+                entries = await fs.readdir(dir, { withFileTypes: true });
+            } catch (error: any) {
+                if (error?.code === 'ENOENT') return;
+                throw error;
+            }
+            for (const entry of entries) {
+                if (entry.name.endsWith('.tmp')) continue;
+                const key = keyPrefix ? `${keyPrefix}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) await walk(path.join(dir, entry.name), key);
+                else keys.push(key);
+            }
+        };
+
+        // Walk from the deepest directory fully named by the prefix, then filter on the remainder.
+        const directory = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+        await walk(directory ? this.pathFor(directory) : this.rootDir, directory);
+        return keys.filter((key) => key.startsWith(prefix)).sort();
+    }
+}
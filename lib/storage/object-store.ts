@@ -0,0 +1,18 @@
+/**
+ * Minimal S3-shaped blob interface. `StorageEngine` only ever talks to this, so a local
+ * directory, AWS S3, MinIO or any other S3-compatible service can back project storage.
+ */
+export interface ObjectStore {
+    getObject(key: string): Promise<Buffer | null>; // `null` when the key does not exist
+    putObject(key: string, body: Buffer, contentType?: string): Promise<void>;
+    deleteObject(key: string): Promise<void>;
+    hasObject(key: string): Promise<boolean>;
+    listObjects(prefix: string): Promise<string[]>; // Full keys under the prefix, any depth
+}
+
+// Keys are slash-separated like S3; reject anything that could escape a root directory.
+export const assertValidKey = (key: string) => {
+    if (!key || key.startsWith('/') || key.split('/').some((part) => part === '' || part === '.' || part === '..')) {
+        throw new Error(`Invalid storage key: ${key}`);
+    }
+};
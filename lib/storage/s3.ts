@@ -0,0 +1,139 @@
+import { createHash, createHmac } from 'node:crypto';
+import { ObjectStore, assertValidKey } from './object-store';
+
+export interface S3ObjectStoreOptions {
+    endpoint: string; // e.g. http://127.0.0.1:9000 for MinIO, https://s3.us-east-1.amazonaws.com for AWS
+    bucket: string;
+    region?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+}
+
+const sha256Hex = (value: Buffer | string) => createHash('sha256').update(value).digest('hex');
+const hmac = (key: Buffer | string, value: string) => createHmac('sha256', key).update(value).digest();
+
+// SigV4 wants RFC 3986 encoding, which is stricter than encodeURIComponent.
+const encodeRfc3986 = (value: string) =>
+    encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const decodeXml = (value: string) =>
+    value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+
+/**
+ * Talks to any S3-compatible HTTP API with path-style addressing (`/bucket/key`),
+ * which is what MinIO and most self-hosted stand-ins expect. Requests are SigV4-signed
+ * when credentials are configured and sent anonymously otherwise.
+ */
+export class S3ObjectStore implements ObjectStore {
+    private endpoint: string;
+    private bucket: string;
+    private region: string;
+    private accessKeyId?: string;
+    private secretAccessKey?: string;
+
+    constructor(options: S3ObjectStoreOptions) {
+        this.endpoint = options.endpoint.replace(/\/+$/, '');
+        this.bucket = options.bucket;
+        this.region = options.region || 'us-east-1';
+        this.accessKeyId = options.accessKeyId;
+        this.secretAccessKey = options.secretAccessKey;
+    }
+
+    private async request(
+        method: 'GET' | 'PUT' | 'DELETE' | 'HEAD',
+        key: string | null,
+        options: { query?: Record<string, string>; body?: Buffer; contentType?: string } = {}
+    ): Promise<Response> {
+        const url = new URL(this.endpoint);
+        const basePath = url.pathname.replace(/\/+$/, '');
+        const objectPath = key ? `/${key.split('/').map(encodeRfc3986).join('/')}` : '';
+        const canonicalUri = `${basePath}/${encodeRfc3986(this.bucket)}${objectPath}`;
+        const canonicalQuery = Object.entries(options.query || {})
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+            .join('&');
+
+        const body = options.body;
+        const payloadHash = sha256Hex(body ?? '');
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const headers: Record<string, string> = {
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate
+        };
+        if (options.contentType) headers['content-type'] = options.contentType;
+
+        if (this.accessKeyId && this.secretAccessKey) {
+            const dateStamp = amzDate.slice(0, 8);
+            const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+            const signed = { host: url.host, ...headers };
+            const names = Object.keys(signed).sort();
+            const canonicalHeaders = names.map((name) => `${name}:${signed[name as keyof typeof signed].trim()}\n`).join('');
+            const signedHeaders = names.join(';');
+            const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+            const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+            const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.secretAccessKey}`, dateStamp), this.region), 's3'), 'aws4_request');
+            const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+            headers.authorization = `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+        }
+
+        return fetch(`${url.origin}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ''}`, {
+            method,
+            headers,
+            body: body ? new Uint8Array(body) : undefined
+        });
+    }
+
+    private async fail(response: Response, action: string): Promise<never> {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`S3 ${action} failed (${response.status}): ${detail.slice(0, 200) || response.statusText}`);
+    }
+
+    async getObject(key: string): Promise<Buffer | null> {
+        assertValidKey(key);
+        const response = await this.request('GET', key);
+        if (response.status === 404) return null;
+        if (!response.ok) return this.fail(response, `GET ${key}`);
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    async putObject(key: string, body: Buffer, contentType = 'application/octet-stream'): Promise<void> {
+        assertValidKey(key);
+        const response = await this.request('PUT', key, { body, contentType });
+        if (!response.ok) await this.fail(response, `PUT ${key}`);
+    }
+
+    async deleteObject(key: string): Promise<void> {
+        assertValidKey(key);
+        const response = await this.request('DELETE', key);
+        if (!response.ok && response.status !== 404) await this.fail(response, `DELETE ${key}`);
+    }
+
+    async hasObject(key: string): Promise<boolean> {
+        assertValidKey(key);
+        const response = await this.request('HEAD', key);
+        return response.ok;
+    }
+
+    async listObjects(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        let continuationToken: string | undefined;
+        do {
+            const query: Record<string, string> = { 'list-type': '2', prefix };
+            if (continuationToken) query['continuation-token'] = continuationToken;
+            const response = await this.request('GET', null, { query });
+            if (!response.ok) await this.fail(response, `LIST ${prefix}`);
+
+            const xml = await response.text();
+            for (const match of xml.matchAll(/<Key>([\s\S]*?)<\/Key>/g)) keys.push(decodeXml(match[1]));
+            const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+            const next = xml.match(/<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/)?.[1];
+            continuationToken = truncated && next ? decodeXml(next) : undefined;
+        } while (continuationToken);
+        return keys.sort();
+    }
+}
@@ -1,46 +1,16 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
+import { layerHistory, withoutLayerHistory } from './history/storeHistory';
+import type { Layer, LayerLock } from './layers';
+import { DEFAULT_GROUP_MODE, LayerPlacement, groupLayersInTree, layerDescendantIds, moveLayerInTree, normalizeLayerTree, ungroupLayersInTree } from './groups';
 
-export interface Layer {
-    id: string;
-    type: 'image' | 'adjustment' | 'smart' | 'group' | 'text' | 'shape' | 'video' | 'threeD';
-    name: string;
-    visible: boolean;
-    locked: boolean;
-    opacity: number;
-    fillOpacity?: number;
-    blendMode: string;
-    clippingMask?: boolean;
-    canvasObjectId?: string;
-    thumbnail?: string;
-    smartObject?: boolean;
-    linkedAsset?: boolean;
-    externalSrc?: string;
-    layerStyle?: {
-        dropShadow?: number;
-        stroke?: number;
-        glow?: number;
-        bevel?: number;
-    };
-    mask?: {
-        dataUrl: string; // White = visible, Black = hidden
-        visible: boolean;
-    };
-    filters?: Record<string, number>; // e.g. { brightness: 0.1, contrast: -0.2 }
-
-    // AI Metadata
-    aiData?: {
-        prompt: string;
-        seed: number;
-        provider: string;
-        context: Record<string, any>;
-        originalMask?: string;
-    };
-}
+// The layer types live in `./layers`, which the server-side modules can import without the store.
+export type { Layer, LayerLock };
 
 interface LayerState {
     layers: Layer[];
     activeLayerId: string | null;
+    layerLocks: Record<string, LayerLock>; // Layers someone else is editing; actions that change them do nothing
 
     // Actions
     addLayer: (layer: Omit<Layer, 'id' | 'visible' | 'locked' | 'opacity' | 'blendMode'>) => string;
@@ -49,8 +19,15 @@ interface LayerState {
     updateLayer: (id: string, updates: Partial<Layer>) => void;
     setLayers: (layers: Layer[]) => void;
     setActiveLayer: (id: string | null) => void;
+    setLayerLocks: (locks: Record<string, LayerLock>) => void;
     reorderLayers: (fromIndex: number, toIndex: number) => void;
 
+    // Group Actions
+    createGroup: (layerIds: string[], name?: string) => string | null; // `null` when a layer is locked
+    ungroupLayer: (groupId: string) => void;
+    moveLayer: (layerId: string, targetId: string, placement: LayerPlacement) => void;
+    setGroupCollapsed: (groupId: string, collapsed: boolean) => void;
+
     // Mask Actions
     setLayerMask: (layerId: string, maskDataUrl: string | null) => void;
     toggleLayerMask: (layerId: string) => void;
@@ -99,9 +76,20 @@ export interface LayerFilter {
 }
 
 
-export const useLayerStore = create<LayerState>((set: any) => ({
+// Whether any of the layers is leased by another collaborator, so this client must leave it alone.
+const isLockedByOther = (state: LayerState, layerIds: Iterable<string>) => {
+    for (const layerId of layerIds) {
+        if (state.layerLocks[layerId]) return true;
+    }
+    return false;
+};
+
+// Layer changes made through these actions are undoable; see `layerHistory`.
+// Remote edits and project loads bypass the lock checks: they go through `setLayers`/`setState`.
+export const useLayerStore = create<LayerState>(layerHistory<LayerState>((set: any, get: () => LayerState) => ({
     layers: [],
     activeLayerId: null,
+    layerLocks: {},
 
     addLayer: (layerData: Omit<Layer, 'id' | 'visible' | 'locked' | 'opacity' | 'blendMode'>) => {
         const newLayer: Layer = {
@@ -125,6 +113,7 @@ export const useLayerStore = create<LayerState>((set: any) => ({
     insertLayer: (layer: Layer, index = 0) =>
         set((state: LayerState) => {
             const existingIndex = state.layers.findIndex((l) => l.id === layer.id);
+            if (existingIndex >= 0 && isLockedByOther(state, [layer.id])) return state;
             const sanitizedLayer: Layer = {
                 ...layer,
                 visible: layer.visible ?? true,
@@ -154,10 +143,13 @@ export const useLayerStore = create<LayerState>((set: any) => ({
 
     removeLayer: (id: string) =>
         set((state: LayerState) => {
-            const newLayers = state.layers.filter((l: Layer) => l.id !== id);
+            // A group goes with everything in it.
+            const removed = new Set([id, ...layerDescendantIds(state.layers, id)]);
+            if (isLockedByOther(state, removed)) return state;
+            const newLayers = state.layers.filter((l: Layer) => !removed.has(l.id));
             let newActiveId = state.activeLayerId;
 
-            if (state.activeLayerId === id) {
+            if (state.activeLayerId && removed.has(state.activeLayerId)) {
                 newActiveId = newLayers.length > 0 ? newLayers[0].id : null;
             }
 
@@ -168,26 +160,71 @@ export const useLayerStore = create<LayerState>((set: any) => ({
         }),
 
     updateLayer: (id: string, updates: Partial<Layer>) =>
-        set((state: LayerState) => ({
+        set((state: LayerState) => isLockedByOther(state, [id]) ? state : ({
             layers: state.layers.map((l: Layer) =>
                 l.id === id ? { ...l, ...updates } : l
             ),
         })),
 
-    setLayers: (layers: Layer[]) => set({ layers }),
+    // Replaces the document (project load, reset), so it is not a step of its own.
+    setLayers: (layers: Layer[]) => withoutLayerHistory(() => set({ layers: normalizeLayerTree(layers) })),
 
     setActiveLayer: (id: string | null) => set({ activeLayerId: id }),
 
+    setLayerLocks: (locks: Record<string, LayerLock>) => set({ layerLocks: locks }),
+
     reorderLayers: (fromIndex: number, toIndex: number) =>
         set((state: LayerState) => {
+            if (!state.layers[fromIndex] || isLockedByOther(state, [state.layers[fromIndex].id])) return state;
             const newLayers = [...state.layers];
             const [movedLayer] = newLayers.splice(fromIndex, 1);
             newLayers.splice(toIndex, 0, movedLayer);
-            return { layers: newLayers };
+            return { layers: normalizeLayerTree(newLayers) };
         }),
 
-    setLayerMask: (layerId: string, maskDataUrl: string | null) =>
+    createGroup: (layerIds: string[], name?: string) => {
+        if (isLockedByOther(get(), layerIds)) return null;
+        const group: Layer = {
+            id: uuidv4(),
+            type: 'group',
+            name: name || 'Group',
+            visible: true,
+            locked: false,
+            opacity: 1,
+            fillOpacity: 1,
+            blendMode: 'normal',
+            groupMode: DEFAULT_GROUP_MODE,
+        };
         set((state: LayerState) => ({
+            layers: groupLayersInTree(state.layers, layerIds, group),
+            activeLayerId: group.id,
+        }));
+        return group.id;
+    },
+
+    ungroupLayer: (groupId: string) =>
+        set((state: LayerState) => {
+            const children = state.layers.filter((l: Layer) => l.parentId === groupId).map((l: Layer) => l.id);
+            if (isLockedByOther(state, [groupId, ...children])) return state;
+            const layers = ungroupLayersInTree(state.layers, groupId);
+            if (layers === state.layers) return state;
+            const firstChild = state.layers.find((l: Layer) => l.parentId === groupId);
+            return {
+                layers,
+                activeLayerId: state.activeLayerId === groupId ? firstChild?.id ?? layers[0]?.id ?? null : state.activeLayerId,
+            };
+        }),
+
+    moveLayer: (layerId: string, targetId: string, placement: LayerPlacement) =>
+        set((state: LayerState) => isLockedByOther(state, [layerId]) ? state : ({ layers: moveLayerInTree(state.layers, layerId, targetId, placement) })),
+
+    setGroupCollapsed: (groupId: string, collapsed: boolean) =>
+        set((state: LayerState) => isLockedByOther(state, [groupId]) ? state : ({
+            layers: state.layers.map((l: Layer) => (l.id === groupId ? { ...l, collapsed } : l)),
+        })),
+
+    setLayerMask: (layerId: string, maskDataUrl: string | null) =>
+        set((state: LayerState) => isLockedByOther(state, [layerId]) ? state : ({
             layers: state.layers.map((l: Layer) => {
                 if (l.id !== layerId) return l;
                 if (maskDataUrl === null) {
@@ -205,7 +242,7 @@ export const useLayerStore = create<LayerState>((set: any) => ({
         })),
 
     toggleLayerMask: (layerId: string) =>
-        set((state: LayerState) => ({
+        set((state: LayerState) => isLockedByOther(state, [layerId]) ? state : ({
             layers: state.layers.map((l: Layer) => {
                 if (l.id !== layerId || !l.mask) return l;
                 return {
@@ -225,7 +262,7 @@ export const useLayerStore = create<LayerState>((set: any) => ({
     setMaskPreviewMode: (enabled: boolean) => set({ maskPreviewMode: enabled }),
 
     setLayerFilter: (layerId: string, filterName: string, value: number) =>
-        set((state: LayerState) => ({
+        set((state: LayerState) => isLockedByOther(state, [layerId]) ? state : ({
             layers: state.layers.map((l: Layer) => {
                 if (l.id !== layerId) return l;
                 return {
@@ -238,6 +275,7 @@ export const useLayerStore = create<LayerState>((set: any) => ({
             })
         })),
 
+    // Thumbnails are local renders of the pixels (remote edits included), so locks do not apply.
     setLayerThumbnail: (layerId: string, thumbnailDataUrl: string) =>
         set((state: LayerState) => ({
             layers: state.layers.map((l: Layer) =>
@@ -247,4 +285,4 @@ export const useLayerStore = create<LayerState>((set: any) => ({
 
     aiPromptDraft: null,
     setAiPromptDraft: (prompt: string | null) => set({ aiPromptDraft: prompt }),
-}));
+})));
@@ -0,0 +1,170 @@
+/**
+ * Vector geometry shared by the canvas renderers and the SVG exporter: bezier paths (the Paths
+ * panel's nodes), the outlines of shape layers, and the text layer settings that both the canvas
+ * text renderer and `<text>` output read.
+ */
+
+/** A bezier anchor with its incoming and outgoing handles; a corner with no handles has them on the anchor. */
+export interface BezierNode {
+    x: number;
+    y: number;
+    inX: number;
+    inY: number;
+    outX: number;
+    outY: number;
+    corner: boolean;
+}
+
+export interface BezierPath {
+    nodes: BezierNode[];
+    closed: boolean;
+}
+
+/** What a shape layer stores under `aiData.shapeLayer`; its outline fills `width` x `height`. */
+export interface ShapeLayerPayload {
+    width: number;
+    height: number;
+    shape: string;
+    customShape: string;
+    sides: number;
+    fill: string;
+}
+
+/** What a text layer stores under `aiData.textLayer`; the text is laid out in `width` x `height`. */
+export interface TextLayerPayload {
+    text: string;
+    width: number;
+    height: number;
+    fontSize: number;
+    fontFamily: string;
+    fontWeight: number | string;
+    textItalic: boolean;
+    textUnderline: boolean;
+    lineHeight: number;
+    tracking: number;
+    paragraphSpacing: number;
+    paragraphIndent: number;
+    textAlign: 'left' | 'center' | 'right';
+    textDirection: 'horizontal' | 'vertical';
+    /** Fill colour; older layers were drawn in the colour active at the time and do not record it. */
+    color?: string;
+    openType: {
+        liga: boolean;
+        discretionaryLiga: boolean;
+        kerning: boolean;
+        oldStyleFigures: boolean;
+        smallCaps: boolean;
+    };
+}
+
+const fmt = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const isStraight = (from: BezierNode, to: BezierNode) =>
+    from.outX === from.x && from.outY === from.y && to.inX === to.x && to.inY === to.y;
+
+const segment = (from: BezierNode, to: BezierNode) =>
+    isStraight(from, to)
+        ? `L ${fmt(to.x)} ${fmt(to.y)}`
+        : `C ${fmt(from.outX)} ${fmt(from.outY)} ${fmt(to.inX)} ${fmt(to.inY)} ${fmt(to.x)} ${fmt(to.y)}`;
+
+/** SVG path data for `nodes`; also valid input to `Path2D`. */
+export const bezierPathData = (nodes: BezierNode[], closed: boolean): string => {
+    if (nodes.length === 0) return '';
+    const parts = [`M ${fmt(nodes[0].x)} ${fmt(nodes[0].y)}`];
+    for (let i = 1; i < nodes.length; i++) parts.push(segment(nodes[i - 1], nodes[i]));
+    if (closed) {
+        if (nodes.length > 1 && !isStraight(nodes[nodes.length - 1], nodes[0])) parts.push(segment(nodes[nodes.length - 1], nodes[0]));
+        parts.push('Z');
+    }
+    return parts.join(' ');
+};
+
+const cornerNodes = (points: Array<{ x: number; y: number }>): BezierNode[] =>
+    points.map((point) => ({ x: point.x, y: point.y, inX: point.x, inY: point.y, outX: point.x, outY: point.y, corner: true }));
+
+// Handle length that makes four cubic segments approximate an ellipse.
+const ELLIPSE_KAPPA = 0.5522847498;
+
+/** The closed outline of a shape layer, in its own coordinates. */
+export const shapeLayerNodes = (payload: ShapeLayerPayload): BezierNode[] => {
+    const { width, height } = payload;
+    if (payload.shape === 'rectangle') {
+        return cornerNodes([
+            { x: 0, y: 0 },
+            { x: width, y: 0 },
+            { x: width, y: height },
+            { x: 0, y: height },
+        ]);
+    }
+    if (payload.shape === 'ellipse') {
+        const rx = width / 2;
+        const ry = height / 2;
+        const cx = rx;
+        const cy = ry;
+        const k = ELLIPSE_KAPPA;
+        return [
+            { x: cx, y: 0, inX: cx - rx * k, inY: 0, outX: cx + rx * k, outY: 0, corner: false },
+            { x: width, y: cy, inX: width, inY: cy - ry * k, outX: width, outY: cy + ry * k, corner: false },
+            { x: cx, y: height, inX: cx + rx * k, inY: height, outX: cx - rx * k, outY: height, corner: false },
+            { x: 0, y: cy, inX: 0, inY: cy + ry * k, outX: 0, outY: cy - ry * k, corner: false },
+        ];
+    }
+
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = Math.min(width, height) / 2;
+    const points: Array<{ x: number; y: number }> = [];
+    if (payload.shape === 'polygon') {
+        for (let i = 0; i < payload.sides; i += 1) {
+            const angle = (-Math.PI / 2) + (Math.PI * 2 * i) / payload.sides;
+            points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+        }
+    } else if (payload.customShape === 'star') {
+        const spikes = 5;
+        const inner = radius * 0.45;
+        for (let i = 0; i < spikes * 2; i += 1) {
+            const angle = (-Math.PI / 2) + (Math.PI * i) / spikes;
+            const r = i % 2 === 0 ? radius : inner;
+            points.push({ x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) });
+        }
+    } else if (payload.customShape === 'diamond') {
+        points.push({ x: cx, y: 0 }, { x: width, y: cy }, { x: cx, y: height }, { x: 0, y: cy });
+    } else if (payload.customShape === 'arrow') {
+        points.push(
+            { x: width * 0.08, y: cy - height * 0.18 },
+            { x: width * 0.5, y: cy - height * 0.18 },
+            { x: width * 0.5, y: height * 0.08 },
+            { x: width * 0.94, y: cy },
+            { x: width * 0.5, y: height * 0.92 },
+            { x: width * 0.5, y: cy + height * 0.18 },
+            { x: width * 0.08, y: cy + height * 0.18 }
+        );
+    } else {
+        // Speech bubble.
+        points.push(
+            { x: width * 0.1, y: height * 0.1 },
+            { x: width * 0.9, y: height * 0.1 },
+            { x: width * 0.9, y: height * 0.72 },
+            { x: width * 0.58, y: height * 0.72 },
+            { x: width * 0.42, y: height * 0.94 },
+            { x: width * 0.42, y: height * 0.72 },
+            { x: width * 0.1, y: height * 0.72 }
+        );
+    }
+    return cornerNodes(points);
+};
+
+export const TEXT_FONT_STACKS: Record<string, string> = {
+    serif: '"Times New Roman", "Georgia", serif',
+    mono: '"Cascadia Mono", "Consolas", monospace',
+    sans: '"Segoe UI", "Arial", sans-serif',
+};
+
+export const textFontStack = (fontFamily: string) => TEXT_FONT_STACKS[fontFamily] ?? TEXT_FONT_STACKS.sans;
+
+/** Extra advance after every glyph: tracking, plus the spacing the canvas adds when kerning or ligatures are off. */
+export const textLetterAdvance = (payload: TextLayerPayload) =>
+    payload.tracking * 0.05 + (payload.openType.kerning ? 0 : 0.8) + (payload.openType.liga ? 0 : 0.6);
+
+export { buildLayeredSvg } from './svg';
+export type { SvgLayerContent, LayeredSvgOptions } from './svg';
@@ -0,0 +1,190 @@
+import type { Layer } from '../layers';
+import { DEFAULT_GROUP_MODE, isGroupLayer, normalizeLayerTree } from '../groups';
+import {
+    BezierPath,
+    ShapeLayerPayload,
+    TextLayerPayload,
+    bezierPathData,
+    shapeLayerNodes,
+    textFontStack,
+    textLetterAdvance,
+} from './index';
+
+/** How one layer is drawn, in its own coordinates (`width` x `height`) placed by `transform`. */
+export interface SvgLayerContent {
+    /** The layer object's matrix with its origin at the centre, as Fabric's `calcTransformMatrix` returns it. */
+    transform: number[];
+    width: number;
+    height: number;
+    text?: TextLayerPayload;
+    shape?: ShapeLayerPayload;
+    /** Pixels (a data URL), for layers that are neither live text nor a shape. */
+    image?: string;
+}
+
+export interface LayeredSvgOptions {
+    /** Document size; masks cover it. */
+    width: number;
+    height: number;
+    /** The part of the document the SVG shows; all of it by default. */
+    viewBox?: { left: number; top: number; width: number; height: number };
+    layers: Layer[];
+    /** `null` leaves the layer out (no pixels, such as adjustment layers). */
+    contentOf: (layer: Layer) => SvgLayerContent | null;
+    /** Paths from the Paths panel, drawn as outlines above the layers. */
+    paths?: Array<BezierPath & { name: string }>;
+}
+
+const fmt = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+
+// Lays text out the way the canvas text renderer does: lines top to bottom (or columns left to
+// right when vertical), with tracking as letter spacing. The glyphs stay live text.
+const textElement = (text: TextLayerPayload) => {
+    const { fontSize, width } = text;
+    const advance = textLetterAdvance(text);
+    const style = [
+        `font-family: ${textFontStack(text.fontFamily)}`,
+        `font-size: ${fmt(fontSize)}px`,
+        `font-weight: ${text.fontWeight}`,
+        text.textItalic && 'font-style: italic',
+        text.textUnderline && 'text-decoration: underline',
+        !text.openType.kerning && 'font-kerning: none',
+        `font-variant-ligatures: ${text.openType.liga ? 'common-ligatures' : 'no-common-ligatures'}${text.openType.discretionaryLiga ? ' discretionary-ligatures' : ''}`,
+        text.openType.smallCaps && 'text-transform: uppercase',
+        text.openType.oldStyleFigures && 'font-variant-numeric: oldstyle-nums',
+        'white-space: pre',
+    ].filter(Boolean).join('; ');
+    const fill = escapeXml(text.color ?? '#000000');
+    const lines = text.text.split('\n');
+
+    if (text.textDirection === 'vertical') {
+        const rowStep = fontSize * text.lineHeight + text.paragraphSpacing * 0.25;
+        const total = lines.length * fontSize + Math.max(0, lines.length - 1) * advance;
+        let x = text.textAlign === 'left' ? 0 : text.textAlign === 'center' ? Math.max(0, (width - total) / 2) : Math.max(0, width - total);
+        const columns = lines.map((line) => {
+            const column = `<text x="${fmt(x + fontSize / 2)}" y="0">${escapeXml(line)}</text>`;
+            x += fontSize + advance;
+            return column;
+        });
+        const columnStyle = `${style}; writing-mode: vertical-lr; text-orientation: upright; letter-spacing: ${fmt(rowStep - fontSize)}px`;
+        return `<g fill="${fill}" style="${escapeXml(columnStyle)}">${columns.join('')}</g>`;
+    }
+
+    let y = 0;
+    const spans = lines.map((line, index) => {
+        const isParagraphStart = index === 0 || lines[index - 1].trim().length === 0;
+        const x = text.textAlign === 'left' ? (isParagraphStart ? text.paragraphIndent : 0) : text.textAlign === 'center' ? width / 2 : width;
+        const span = line.length > 0 ? `<tspan x="${fmt(x)}" y="${fmt(y)}">${escapeXml(line)}</tspan>` : '';
+        y += fontSize * text.lineHeight + (line.trim().length === 0 ? text.paragraphSpacing : 0);
+        return span;
+    });
+    return `<text fill="${fill}" text-anchor="${TEXT_ANCHORS[text.textAlign] ?? 'start'}" dominant-baseline="text-before-edge" style="${escapeXml(`${style}; letter-spacing: ${fmt(advance)}px`)}">${spans.join('')}</text>`;
+};
+
+const contentBody = (content: SvgLayerContent) => {
+    if (content.text) return textElement(content.text);
+    if (content.shape) return `<path d="${bezierPathData(shapeLayerNodes(content.shape), true)}" fill="${escapeXml(content.shape.fill)}"/>`;
+    if (content.image) {
+        return `<image xlink:href="${escapeXml(content.image)}" width="${fmt(content.width)}" height="${fmt(content.height)}" preserveAspectRatio="none"/>`;
+    }
+    return '';
+};
+
+/**
+ * The layer stack as an editable SVG: text layers as `<text>`, shape layers and paths as
+ * `<path>`, `<image>` only for raster layers. Groups become `<g>` (isolated ones with
+ * `isolation: isolate`), layer masks `<mask>`, clipping masks alpha masks of the layer they clip
+ * to, and blend modes `mix-blend-mode`. Every layer's `id` is its name, which design tools show as
+ * the layer name.
+ */
+export const buildLayeredSvg = (options: LayeredSvgOptions): string => {
+    const { width, height } = options;
+    const ordered = normalizeLayerTree(options.layers);
+    const defs: string[] = [];
+    const usedIds = new Set<string>();
+    const contentIds = new Map<string, string>();
+    const documentArea = `maskUnits="userSpaceOnUse" x="0" y="0" width="${fmt(width)}" height="${fmt(height)}"`;
+
+    const uniqueId = (name: string) => {
+        let base = name.trim().replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'layer';
+        if (!/^[A-Za-z_]/.test(base)) base = `layer-${base}`;
+        let id = base;
+        for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+        usedIds.add(id);
+        return id;
+    };
+
+    // A clipped layer clips to the first unclipped layer below it in the same group.
+    const clippingBase = (layer: Layer) => {
+        const index = ordered.indexOf(layer);
+        return ordered.slice(index + 1).find((other) => (other.parentId ?? null) === (layer.parentId ?? null) && !other.clippingMask);
+    };
+
+    const renderLayer = (layer: Layer): string => {
+        const group = isGroupLayer(layer);
+        const content = group ? null : options.contentOf(layer);
+        if (!group && !content) return '';
+
+        const id = uniqueId(layer.name);
+        const style: string[] = [];
+        const blendMode = layer.blendMode || 'normal';
+        let body: string;
+        if (group) {
+            body = renderStack(layer.id);
+            // Pass-through groups blend their children straight into the backdrop, as SVG does by default.
+            if ((layer.groupMode ?? DEFAULT_GROUP_MODE) === 'isolated') {
+                style.push('isolation: isolate');
+                if (blendMode !== 'normal') style.push(`mix-blend-mode: ${blendMode}`);
+            }
+        } else {
+            const [a, b, c, d, e, f] = content!.transform;
+            const contentId = uniqueId(`${id}-content`);
+            contentIds.set(layer.id, contentId);
+            body = `<g id="${contentId}" transform="matrix(${[a, b, c, d, e, f].map(fmt).join(' ')}) translate(${fmt(-content!.width / 2)} ${fmt(-content!.height / 2)})">${contentBody(content!)}</g>`;
+            if (blendMode !== 'normal') style.push(`mix-blend-mode: ${blendMode}`);
+            const base = layer.clippingMask ? clippingBase(layer) : undefined;
+            const baseContentId = base ? contentIds.get(base.id) : undefined;
+            if (baseContentId) {
+                const clipId = uniqueId(`${id}-clip`);
+                defs.push(`<mask id="${clipId}" ${documentArea} style="mask-type: alpha"><use xlink:href="#${baseContentId}"/></mask>`);
+                body = `<g mask="url(#${clipId})">${body}</g>`;
+            }
+        }
+
+        const attributes = [`id="${id}"`, `data-name="${escapeXml(layer.name)}"`];
+        const opacity = (layer.opacity ?? 1) * (group ? 1 : layer.fillOpacity ?? 1);
+        if (opacity < 1) attributes.push(`opacity="${fmt(opacity)}"`);
+        if (!layer.visible) attributes.push('display="none"');
+        if (style.length > 0) attributes.push(`style="${style.join('; ')}"`);
+        if (layer.mask) {
+            const maskId = uniqueId(`${id}-mask`);
+            defs.push(`<mask id="${maskId}" ${documentArea}><image xlink:href="${escapeXml(layer.mask.dataUrl)}" width="${fmt(width)}" height="${fmt(height)}" preserveAspectRatio="none"/></mask>`);
+            if (layer.mask.visible) attributes.push(`mask="url(#${maskId})"`);
+        }
+        return `<g ${attributes.join(' ')}>${body}</g>`;
+    };
+
+    // Siblings bottom-first: SVG paints in document order.
+    const renderStack = (parentId: string | null): string =>
+        ordered.filter((layer) => (layer.parentId ?? null) === parentId).reverse().map(renderLayer).join('');
+
+    const layers = renderStack(null);
+    const paths = (options.paths ?? [])
+        .filter((path) => path.nodes.length > 1)
+        .map((path) => `<path id="${uniqueId(path.name)}" d="${bezierPathData(path.nodes, path.closed)}"/>`)
+        .join('');
+
+    const view = options.viewBox ?? { left: 0, top: 0, width, height };
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${fmt(view.width)}" height="${fmt(view.height)}" viewBox="${[view.left, view.top, view.width, view.height].map(fmt).join(' ')}">`,
+        defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+        layers,
+        paths ? `<g id="paths" fill="none" stroke="#000000" stroke-width="1">${paths}</g>` : '',
+        '</svg>',
+    ].join('');
+};
@@ -0,0 +1,90 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { RegionBounds } from '../segmentation';
+import { VisionDescription, VisionLocateParams, VisionProvider } from './provider';
+
+const DEFAULT_MODEL = 'gemini-1.5-flash';
+
+const isBounds = (value: any): value is RegionBounds =>
+    typeof value?.x === 'number' &&
+    typeof value?.y === 'number' &&
+    typeof value?.width === 'number' &&
+    typeof value?.height === 'number';
+
+// Models wrap JSON in prose or fences often enough that we slice out the outermost object.
+const parseJsonObject = (text: string): any => {
+    const jsonStart = text.indexOf('{');
+    const jsonEnd = text.lastIndexOf('}');
+    if (jsonStart < 0 || jsonEnd <= jsonStart) return null;
+    return JSON.parse(text.slice(jsonStart, jsonEnd + 1));
+};
+
+export class GeminiVisionProvider implements VisionProvider {
+    name = 'gemini';
+    private modelName: string;
+
+    constructor(modelName?: string) {
+        this.modelName = modelName || process.env.GEMINI_VISION_MODEL || DEFAULT_MODEL;
+    }
+
+    private async ask(prompt: string, image: Buffer): Promise<any> {
+        const apiKey = process.env.GEMINI_API_KEY;
+        if (!apiKey) return null;
+
+        const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: this.modelName });
+        const result = await model.generateContent([
+            prompt,
+            {
+                inlineData: {
+                    mimeType: 'image/png',
+                    data: image.toString('base64')
+                }
+            }
+        ]);
+        return parseJsonObject(result.response.text().trim());
+    }
+
+    async locate(params: VisionLocateParams): Promise<RegionBounds[] | null> {
+        const { query, width, height, regionHint, multiple } = params;
+        const limit = params.limit ?? 8;
+        const regionHintLine = regionHint
+            ? `Focus your search inside this hint box first: x=${regionHint.x}, y=${regionHint.y}, width=${regionHint.width}, height=${regionHint.height}.`
+            : '';
+        const shapeLine = multiple
+            ? `Return ONLY valid JSON of the form {"instances":[{"x":0,"y":0,"width":0,"height":0}]} with one tight box per matching instance (at most ${limit}).`
+            : 'Return ONLY valid JSON with keys x,y,width,height (pixel integers) for a tight box around the match.';
+        const prompt = `
+${shapeLine}
+Find the region matching this phrase in the image: "${query}".
+Image size is ${width}x${height}. If uncertain, return central subject bounds.
+${regionHintLine}
+`;
+
+        try {
+            const parsed = await this.ask(prompt, params.image);
+            const candidates: unknown[] = Array.isArray(parsed?.instances) ? parsed.instances : [parsed];
+            const boxes = candidates.filter(isBounds).slice(0, limit);
+            return boxes.length ? boxes : null;
+        } catch (error) {
+            console.warn('[GeminiVision] Locate failed', error);
+            return null;
+        }
+    }
+
+    async describe(image: Buffer): Promise<VisionDescription | null> {
+        const prompt = `
+Return ONLY valid JSON with string keys "artStyle" and "subjectMatter".
+artStyle: the rendering style in a few words (e.g. "Photorealistic", "Watercolor illustration", "Flat vector art").
+subjectMatter: what the image shows in a few words (e.g. "Portrait of a woman", "Mountain landscape at dusk").
+`;
+
+        try {
+            const parsed = await this.ask(prompt, image);
+            if (typeof parsed?.artStyle === 'string' && typeof parsed?.subjectMatter === 'string') {
+                return { artStyle: parsed.artStyle, subjectMatter: parsed.subjectMatter };
+            }
+        } catch (error) {
+            console.warn('[GeminiVision] Describe failed', error);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,613 @@
+import { RegionBounds, labelComponents, loadWorkingImage } from '../segmentation';
+import { VisionDescription, VisionLocateParams, VisionProvider } from './provider';
+
+type ColorName = 'red' | 'orange' | 'yellow' | 'green' | 'cyan' | 'blue' | 'purple' | 'pink' | 'brown' | 'black' | 'white' | 'gray';
+
+interface ColorCluster {
+    r: number;
+    g: number;
+    b: number;
+    name: ColorName;
+    share: number; // Fraction of the frame assigned to this cluster
+}
+
+/** Per-pixel features at working resolution, computed once per request. */
+interface ImageAnalysis {
+    width: number;
+    height: number;
+    scale: number;
+    hue: Float32Array; // 0..360
+    sat: Float32Array; // 0..1
+    val: Float32Array; // 0..1
+    skin: Uint8Array;
+    saliency: Float32Array; // 0..1
+    horizon: number | null; // Row index, or null when no clear horizontal split exists
+    clusters: ColorCluster[];
+    clusterOf: Uint8Array;
+    edgeDensity: number;
+    quantizationError: number; // Mean RGB distance to the nearest cluster; low for flat artwork
+}
+
+type Mask = Uint8Array;
+
+interface VocabularyEntry {
+    terms: string[];
+    locate: (analysis: ImageAnalysis) => Mask | RegionBounds[] | null;
+}
+
+const CLUSTER_COUNT = 6;
+const MIN_BLOB_RATIO = 0.003;
+
+const COLOR_SYNONYMS: Record<string, ColorName> = {
+    red: 'red', crimson: 'red', scarlet: 'red', maroon: 'red',
+    orange: 'orange', amber: 'orange',
+    yellow: 'yellow', gold: 'yellow', golden: 'yellow',
+    green: 'green', lime: 'green', olive: 'green',
+    cyan: 'cyan', teal: 'cyan', turquoise: 'cyan',
+    blue: 'blue', navy: 'blue', azure: 'blue',
+    purple: 'purple', violet: 'purple', magenta: 'purple', lavender: 'purple',
+    pink: 'pink', rose: 'pink',
+    brown: 'brown', tan: 'brown', beige: 'brown',
+    black: 'black', dark: 'black',
+    white: 'white',
+    gray: 'gray', grey: 'gray', silver: 'gray'
+};
+
+const colorNameOf = (hue: number, sat: number, val: number): ColorName => {
+    if (val < 0.18) return 'black';
+    if (sat < 0.15) return val > 0.85 ? 'white' : 'gray';
+    if (hue < 15 || hue >= 345) return sat < 0.45 && val > 0.75 ? 'pink' : 'red';
+    if (hue < 40) return val < 0.6 ? 'brown' : 'orange';
+    if (hue < 70) return val < 0.45 ? 'brown' : 'yellow';
+    if (hue < 170) return 'green';
+    if (hue < 200) return 'cyan';
+    if (hue < 255) return 'blue';
+    if (hue < 290) return 'purple';
+    return 'pink';
+};
+
+const analyze = async (source: Buffer): Promise<ImageAnalysis> => {
+    const { image, scale } = await loadWorkingImage(source);
+    const { width, height, data } = image;
+    const count = width * height;
+    const hue = new Float32Array(count);
+    const sat = new Float32Array(count);
+    const val = new Float32Array(count);
+    const skin = new Uint8Array(count);
+
+    let meanR = 0;
+    let meanG = 0;
+    let meanB = 0;
+    for (let pixel = 0; pixel < count; pixel += 1) {
+        const r = data[pixel * 3];
+        const g = data[pixel * 3 + 1];
+        const b = data[pixel * 3 + 2];
+        meanR += r;
+        meanG += g;
+        meanB += b;
+
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const delta = max - min;
+        let h = 0;
+        if (delta > 0) {
+            if (max === r) h = 60 * (((g - b) / delta) % 6);
+            else if (max === g) h = 60 * ((b - r) / delta + 2);
+            else h = 60 * ((r - g) / delta + 4);
+        }
+        hue[pixel] = h < 0 ? h + 360 : h;
+        sat[pixel] = max ? delta / max : 0;
+        val[pixel] = max / 255;
+
+        // Classic YCbCr skin box; broad enough for most skin tones under daylight.
+        const y = 0.299 * r + 0.587 * g + 0.114 * b;
+        const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+        const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+        if (y > 60 && cb >= 80 && cb <= 135 && cr >= 135 && cr <= 180) skin[pixel] = 1;
+    }
+    meanR /= count;
+    meanG /= count;
+    meanB /= count;
+
+    // Frequency-tuned saliency: distance of a blurred pixel from the global mean colour, with a centre bias.
+    const blurred = boxBlur(data, width, height, 2);
+    const saliency = new Float32Array(count);
+    let maxSaliency = 0;
+    for (let pixel = 0; pixel < count; pixel += 1) {
+        const x = pixel % width;
+        const y = Math.floor(pixel / width);
+        const dr = blurred[pixel * 3] - meanR;
+        const dg = blurred[pixel * 3 + 1] - meanG;
+        const db = blurred[pixel * 3 + 2] - meanB;
+        const dx = (x / width - 0.5) / 0.35;
+        const dy = (y / height - 0.5) / 0.35;
+        const value = Math.sqrt(dr * dr + dg * dg + db * db) * (0.5 + 0.5 * Math.exp(-(dx * dx + dy * dy) / 2));
+        saliency[pixel] = value;
+        if (value > maxSaliency) maxSaliency = value;
+    }
+    if (maxSaliency > 0) {
+        for (let pixel = 0; pixel < count; pixel += 1) saliency[pixel] /= maxSaliency;
+    }
+
+    let edges = 0;
+    for (let y = 0; y < height - 1; y += 1) {
+        for (let x = 0; x < width - 1; x += 1) {
+            const i = (y * width + x) * 3;
+            const gx = Math.abs(data[i] - data[i + 3]) + Math.abs(data[i + 1] - data[i + 4]) + Math.abs(data[i + 2] - data[i + 5]);
+            const j = i + width * 3;
+            const gy = Math.abs(data[i] - data[j]) + Math.abs(data[i + 1] - data[j + 1]) + Math.abs(data[i + 2] - data[j + 2]);
+            if (gx + gy > 72) edges += 1;
+        }
+    }
+
+    const { clusters, clusterOf, quantizationError } = clusterColors(data, count);
+
+    return {
+        width,
+        height,
+        scale,
+        hue,
+        sat,
+        val,
+        skin,
+        saliency,
+        horizon: findHorizon(data, width, height),
+        clusters,
+        clusterOf,
+        edgeDensity: edges / count,
+        quantizationError
+    };
+};
+
+const boxBlur = (data: Buffer, width: number, height: number, radius: number): Float32Array => {
+    const out = new Float32Array(width * height * 3);
+    for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            let n = 0;
+            for (let oy = Math.max(0, y - radius); oy <= Math.min(height - 1, y + radius); oy += 1) {
+                for (let ox = Math.max(0, x - radius); ox <= Math.min(width - 1, x + radius); ox += 1) {
+                    const i = (oy * width + ox) * 3;
+                    r += data[i];
+                    g += data[i + 1];
+                    b += data[i + 2];
+                    n += 1;
+                }
+            }
+            const o = (y * width + x) * 3;
+            out[o] = r / n;
+            out[o + 1] = g / n;
+            out[o + 2] = b / n;
+        }
+    }
+    return out;
+};
+
+// Strongest colour change between the bands above and below a row, searched in the middle 70% of the frame.
+const findHorizon = (data: Buffer, width: number, height: number): number | null => {
+    const rows = new Float32Array(height * 3);
+    for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+            const i = (y * width + x) * 3;
+            rows[y * 3] += data[i] / width;
+            rows[y * 3 + 1] += data[i + 1] / width;
+            rows[y * 3 + 2] += data[i + 2] / width;
+        }
+    }
+
+    const band = Math.max(2, Math.round(height / 10));
+    let best = -1;
+    let bestRow: number | null = null;
+    for (let y = Math.round(height * 0.15); y < Math.round(height * 0.85); y += 1) {
+        const above = [0, 0, 0];
+        const below = [0, 0, 0];
+        for (let k = 1; k <= band; k += 1) {
+            const up = Math.max(0, y - k);
+            const down = Math.min(height - 1, y + k - 1);
+            for (let c = 0; c < 3; c += 1) {
+                above[c] += rows[up * 3 + c] / band;
+                below[c] += rows[down * 3 + c] / band;
+            }
+        }
+        const diff = Math.hypot(above[0] - below[0], above[1] - below[1], above[2] - below[2]);
+        if (diff > best) {
+            best = diff;
+            bestRow = y;
+        }
+    }
+
+    return best >= 30 ? bestRow : null;
+};
+
+// Deterministic k-means over a subsample, seeded along the luminance range so results are stable.
+const clusterColors = (data: Buffer, count: number) => {
+    const step = Math.max(1, Math.floor(count / 6000));
+    const samples: number[] = [];
+    for (let pixel = 0; pixel < count; pixel += step) samples.push(pixel);
+    const luma = (pixel: number) => data[pixel * 3] * 0.299 + data[pixel * 3 + 1] * 0.587 + data[pixel * 3 + 2] * 0.114;
+    const sorted = [...samples].sort((a, b) => luma(a) - luma(b));
+
+    const centers = Array.from({ length: CLUSTER_COUNT }, (_, k) => {
+        const pixel = sorted[Math.min(sorted.length - 1, Math.floor(((k + 0.5) / CLUSTER_COUNT) * sorted.length))];
+        return [data[pixel * 3], data[pixel * 3 + 1], data[pixel * 3 + 2]];
+    });
+
+    const nearest = (pixel: number) => {
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let k = 0; k < centers.length; k += 1) {
+            const dr = data[pixel * 3] - centers[k][0];
+            const dg = data[pixel * 3 + 1] - centers[k][1];
+            const db = data[pixel * 3 + 2] - centers[k][2];
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = k;
+            }
+        }
+        return { cluster: best, distance: Math.sqrt(bestDistance) };
+    };
+
+    for (let iteration = 0; iteration < 8; iteration += 1) {
+        const sums = centers.map(() => [0, 0, 0, 0]);
+        for (const pixel of samples) {
+            const { cluster } = nearest(pixel);
+            sums[cluster][0] += data[pixel * 3];
+            sums[cluster][1] += data[pixel * 3 + 1];
+            sums[cluster][2] += data[pixel * 3 + 2];
+            sums[cluster][3] += 1;
+        }
+        sums.forEach((sum, k) => {
+            if (sum[3]) centers[k] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+        });
+    }
+
+    const clusterOf = new Uint8Array(count);
+    const sizes = new Array(CLUSTER_COUNT).fill(0);
+    let error = 0;
+    for (let pixel = 0; pixel < count; pixel += 1) {
+        const { cluster, distance } = nearest(pixel);
+        clusterOf[pixel] = cluster;
+        sizes[cluster] += 1;
+        error += distance;
+    }
+
+    const clusters = centers.map(([r, g, b], k): ColorCluster => {
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const delta = max - min;
+        let h = 0;
+        if (delta > 0) {
+            if (max === r) h = 60 * (((g - b) / delta) % 6);
+            else if (max === g) h = 60 * ((b - r) / delta + 2);
+            else h = 60 * ((r - g) / delta + 4);
+        }
+        return {
+            r: Math.round(r),
+            g: Math.round(g),
+            b: Math.round(b),
+            name: colorNameOf(h < 0 ? h + 360 : h, max ? delta / max : 0, max / 255),
+            share: sizes[k] / count
+        };
+    });
+
+    return { clusters, clusterOf, quantizationError: error / count };
+};
+
+const maskWhere = (analysis: ImageAnalysis, predicate: (pixel: number, x: number, y: number) => boolean): Mask => {
+    const mask = new Uint8Array(analysis.width * analysis.height);
+    for (let pixel = 0; pixel < mask.length; pixel += 1) {
+        if (predicate(pixel, pixel % analysis.width, Math.floor(pixel / analysis.width))) mask[pixel] = 1;
+    }
+    return mask;
+};
+
+const horizonRow = (analysis: ImageAnalysis, fallback: number) => analysis.horizon ?? Math.round(analysis.height * fallback);
+
+const isSkyPixel = (analysis: ImageAnalysis, pixel: number) => {
+    const h = analysis.hue[pixel];
+    const s = analysis.sat[pixel];
+    const v = analysis.val[pixel];
+    return (h >= 180 && h < 260 && s > 0.12 && v > 0.35) || (s < 0.2 && v > 0.6);
+};
+
+const isGreen = (analysis: ImageAnalysis, pixel: number) => {
+    const h = analysis.hue[pixel];
+    return h >= 65 && h < 170 && analysis.sat[pixel] > 0.18 && analysis.val[pixel] > 0.12;
+};
+
+/** Connected blobs of a mask as work-resolution boxes, largest first. */
+const blobs = (analysis: ImageAnalysis, mask: Mask): Array<RegionBounds & { size: number }> => {
+    const { width, height } = analysis;
+    const { labels, sizes } = labelComponents(mask, width, height);
+    const boxes = sizes.map(() => ({ minX: Infinity, minY: Infinity, maxX: -1, maxY: -1 }));
+    for (let pixel = 0; pixel < labels.length; pixel += 1) {
+        const label = labels[pixel];
+        if (!label) continue;
+        const x = pixel % width;
+        const y = Math.floor(pixel / width);
+        const box = boxes[label];
+        if (x < box.minX) box.minX = x;
+        if (x > box.maxX) box.maxX = x;
+        if (y < box.minY) box.minY = y;
+        if (y > box.maxY) box.maxY = y;
+    }
+
+    const minSize = width * height * MIN_BLOB_RATIO;
+    return sizes
+        .map((size, label) => ({ size, label }))
+        .filter(({ size, label }) => label > 0 && size >= minSize)
+        .sort((a, b) => b.size - a.size)
+        .map(({ size, label }) => {
+            const box = boxes[label];
+            return { x: box.minX, y: box.minY, width: box.maxX - box.minX + 1, height: box.maxY - box.minY + 1, size };
+        });
+};
+
+const expand = (analysis: ImageAnalysis, box: RegionBounds, left: number, top: number, right: number, bottom: number): RegionBounds => {
+    const x0 = Math.max(0, box.x - box.width * left);
+    const y0 = Math.max(0, box.y - box.height * top);
+    const x1 = Math.min(analysis.width, box.x + box.width * (1 + right));
+    const y1 = Math.min(analysis.height, box.y + box.height * (1 + bottom));
+    return { x: x0, y: y0, width: Math.max(1, x1 - x0), height: Math.max(1, y1 - y0) };
+};
+
+// Faces are the skin blobs in the upper part of their own bounding box; hands/arms are left to "skin".
+const faceBoxes = (analysis: ImageAnalysis): RegionBounds[] =>
+    blobs(analysis, analysis.skin)
+        .filter((blob) => blob.width / blob.height > 0.45 && blob.width / blob.height < 1.8)
+        .map((blob) => expand(analysis, blob, 0.1, 0.15, 0.1, 0.05));
+
+const faceRelative = (left: number, top: number, width: number, height: number) => (analysis: ImageAnalysis) => {
+    const faces = faceBoxes(analysis);
+    return faces.length
+        ? faces.map((face) => ({ x: face.x + face.width * left, y: face.y + face.height * top, width: face.width * width, height: face.height * height }))
+        : null;
+};
+
+const salientMask = (analysis: ImageAnalysis): Mask => {
+    const sorted = Float32Array.from(analysis.saliency).sort();
+    const threshold = Math.max(0.35, sorted[Math.floor(sorted.length * 0.8)]);
+    return maskWhere(analysis, (pixel) => analysis.saliency[pixel] >= threshold);
+};
+
+const colorMask = (analysis: ImageAnalysis, color: ColorName): Mask | null => {
+    // Prefer whole clusters so shading within an object stays selected; fall back to per-pixel naming.
+    const clusters = new Set(analysis.clusters.map((cluster, k) => (cluster.name === color ? k : -1)).filter((k) => k >= 0));
+    const mask = clusters.size
+        ? maskWhere(analysis, (pixel) => clusters.has(analysis.clusterOf[pixel]))
+        : maskWhere(analysis, (pixel) => colorNameOf(analysis.hue[pixel], analysis.sat[pixel], analysis.val[pixel]) === color);
+    return mask.some(Boolean) ? mask : null;
+};
+
+const VOCABULARY: VocabularyEntry[] = [
+    {
+        terms: ['beard', 'mouth', 'lips', 'chin', 'jaw', 'mustache', 'moustache'],
+        locate: faceRelative(0.15, 0.6, 0.7, 0.45)
+    },
+    {
+        terms: ['eye', 'eyes', 'eyebrows', 'glasses'],
+        locate: faceRelative(0.1, 0.22, 0.8, 0.28)
+    },
+    {
+        terms: ['hair', 'hairstyle', 'hat', 'cap'],
+        locate: faceRelative(-0.15, -0.55, 1.3, 0.8)
+    },
+    {
+        terms: ['face', 'faces', 'head', 'heads', 'portrait'],
+        locate: (analysis) => faceBoxes(analysis)
+    },
+    {
+        terms: ['person', 'people', 'persons', 'man', 'men', 'woman', 'women', 'kid', 'kids', 'child', 'children', 'boy', 'girl', 'human', 'figure', 'model'],
+        // Body below each face: roughly two face-widths wide and five face-heights tall.
+        locate: (analysis) => {
+            const faces = faceBoxes(analysis);
+            return faces.length ? faces.map((face) => expand(analysis, face, 0.6, 0.3, 0.6, 5)) : null;
+        }
+    },
+    {
+        terms: ['skin', 'hand', 'hands', 'arm', 'arms', 'leg', 'legs'],
+        locate: (analysis) => analysis.skin
+    },
+    {
+        terms: ['sky', 'skies'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.45);
+            return maskWhere(analysis, (pixel, _x, y) => y < horizon && isSkyPixel(analysis, pixel));
+        }
+    },
+    {
+        terms: ['cloud', 'clouds'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.5);
+            return maskWhere(analysis, (pixel, _x, y) => y < horizon && analysis.sat[pixel] < 0.18 && analysis.val[pixel] > 0.7);
+        }
+    },
+    {
+        terms: ['sun', 'moon', 'light', 'lights', 'lamp', 'highlight', 'highlights', 'glow', 'reflection'],
+        locate: (analysis) => {
+            const sorted = Float32Array.from(analysis.val).sort();
+            const threshold = Math.max(0.85, sorted[Math.floor(sorted.length * 0.98)]);
+            return maskWhere(analysis, (pixel) => analysis.val[pixel] >= threshold);
+        }
+    },
+    {
+        terms: ['shadow', 'shadows', 'darkness', 'silhouette'],
+        locate: (analysis) => maskWhere(analysis, (pixel) => analysis.val[pixel] < 0.2)
+    },
+    {
+        terms: ['water', 'sea', 'ocean', 'lake', 'river', 'pond', 'waves', 'pool'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.5);
+            return maskWhere(analysis, (pixel, _x, y) => {
+                const h = analysis.hue[pixel];
+                return y >= horizon && h >= 165 && h < 250 && analysis.sat[pixel] > 0.15;
+            });
+        }
+    },
+    {
+        terms: ['grass', 'lawn', 'field', 'meadow', 'turf'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.55);
+            return maskWhere(analysis, (pixel, _x, y) => y >= horizon && isGreen(analysis, pixel));
+        }
+    },
+    {
+        terms: ['tree', 'trees', 'forest', 'foliage', 'leaves', 'leaf', 'plant', 'plants', 'bush', 'bushes', 'vegetation', 'greenery', 'jungle'],
+        locate: (analysis) => maskWhere(analysis, (pixel) => isGreen(analysis, pixel))
+    },
+    {
+        terms: ['sand', 'beach', 'desert', 'dune', 'dunes'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.55);
+            return maskWhere(analysis, (pixel, _x, y) => {
+                const h = analysis.hue[pixel];
+                return y >= horizon && h >= 20 && h < 60 && analysis.sat[pixel] > 0.12 && analysis.sat[pixel] < 0.65 && analysis.val[pixel] > 0.45;
+            });
+        }
+    },
+    {
+        terms: ['snow', 'ice', 'frost'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.5);
+            return maskWhere(analysis, (pixel, _x, y) => y >= horizon && analysis.sat[pixel] < 0.15 && analysis.val[pixel] > 0.8);
+        }
+    },
+    {
+        terms: ['road', 'street', 'pavement', 'sidewalk', 'asphalt', 'concrete', 'path'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.55);
+            return maskWhere(analysis, (pixel, _x, y) => y >= horizon && analysis.sat[pixel] < 0.15 && analysis.val[pixel] > 0.2 && analysis.val[pixel] < 0.75);
+        }
+    },
+    {
+        terms: ['ground', 'floor', 'land', 'terrain', 'soil', 'dirt'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.65);
+            return [{ x: 0, y: horizon, width: analysis.width, height: analysis.height - horizon }];
+        }
+    },
+    {
+        terms: ['mountain', 'mountains', 'hill', 'hills', 'horizon', 'skyline', 'cliff', 'cliffs'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.5);
+            const top = Math.max(0, horizon - Math.round(analysis.height * 0.3));
+            return maskWhere(analysis, (pixel, _x, y) => y >= top && y < horizon + analysis.height * 0.05 && !isSkyPixel(analysis, pixel));
+        }
+    },
+    {
+        terms: ['building', 'buildings', 'house', 'houses', 'city', 'architecture', 'tower', 'wall', 'walls'],
+        locate: (analysis) => {
+            const horizon = horizonRow(analysis, 0.7);
+            return maskWhere(analysis, (pixel, _x, y) => y < horizon && !isSkyPixel(analysis, pixel) && !isGreen(analysis, pixel));
+        }
+    }
+];
+
+const wordsOf = (query: string) => query.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+
+const toSource = (analysis: ImageAnalysis, box: RegionBounds): RegionBounds => ({
+    x: Math.round(box.x / analysis.scale),
+    y: Math.round(box.y / analysis.scale),
+    width: Math.max(1, Math.round(box.width / analysis.scale)),
+    height: Math.max(1, Math.round(box.height / analysis.scale))
+});
+
+/**
+ * Offline vision model built from classic image heuristics: saliency, skin tone,
+ * horizon detection and colour clustering. Understands the vocabulary above plus
+ * colour words; anything else falls back to the most salient region.
+ */
+export class HeuristicVisionProvider implements VisionProvider {
+    name = 'heuristic';
+
+    async locate(params: VisionLocateParams): Promise<RegionBounds[] | null> {
+        const analysis = await analyze(params.image);
+        const words = wordsOf(params.query);
+        const limit = params.limit ?? 8;
+
+        const entry = VOCABULARY.find((candidate) => candidate.terms.some((term) => words.includes(term)));
+        const color = words.map((word) => COLOR_SYNONYMS[word]).find(Boolean);
+        let evidence: Mask | RegionBounds[] | null = entry ? entry.locate(analysis) : null;
+        if (!evidence && color) evidence = colorMask(analysis, color);
+        if (!evidence) evidence = salientMask(analysis);
+
+        let boxes: RegionBounds[];
+        if (Array.isArray(evidence)) {
+            boxes = evidence;
+        } else {
+            if (params.regionHint) {
+                const hint = params.regionHint;
+                const x0 = hint.x * analysis.scale;
+                const y0 = hint.y * analysis.scale;
+                const x1 = (hint.x + hint.width) * analysis.scale;
+                const y1 = (hint.y + hint.height) * analysis.scale;
+                const mask = evidence;
+                evidence = maskWhere(analysis, (pixel, x, y) => Boolean(mask[pixel]) && x >= x0 && x < x1 && y >= y0 && y < y1);
+            }
+            const found = blobs(analysis, evidence);
+            if (!found.length) return null;
+            if (params.multiple) {
+                boxes = found;
+            } else {
+                // One region: the largest blob plus any blob at least a quarter of its size (a sky split by a tree).
+                const kept = found.filter((blob) => blob.size >= found[0].size * 0.25);
+                const x0 = Math.min(...kept.map((b) => b.x));
+                const y0 = Math.min(...kept.map((b) => b.y));
+                const x1 = Math.max(...kept.map((b) => b.x + b.width));
+                const y1 = Math.max(...kept.map((b) => b.y + b.height));
+                boxes = [{ x: x0, y: y0, width: x1 - x0, height: y1 - y0 }];
+            }
+        }
+
+        if (!boxes.length) return null;
+        return (params.multiple ? boxes.slice(0, limit) : boxes.slice(0, 1)).map((box) => toSource(analysis, box));
+    }
+
+    async describe(image: Buffer): Promise<VisionDescription | null> {
+        const analysis = await analyze(image);
+        const count = analysis.width * analysis.height;
+        let satSum = 0;
+        let hueX = 0;
+        let hueY = 0;
+        for (let pixel = 0; pixel < count; pixel += 1) {
+            satSum += analysis.sat[pixel];
+            const radians = (analysis.hue[pixel] * Math.PI) / 180;
+            hueX += Math.cos(radians) * analysis.sat[pixel];
+            hueY += Math.sin(radians) * analysis.sat[pixel];
+        }
+        const meanSat = satSum / count;
+        const meanHue = ((Math.atan2(hueY, hueX) * 180) / Math.PI + 360) % 360;
+        const textured = analysis.edgeDensity > 0.08;
+
+        let artStyle: string;
+        if (meanSat < 0.06) artStyle = textured ? 'Black and white photograph' : 'Monochrome illustration';
+        else if (meanSat < 0.35 && meanHue >= 20 && meanHue < 50 && analysis.clusters.every((c) => c.name !== 'blue' && c.name !== 'green')) artStyle = 'Vintage sepia tone';
+        else if (analysis.quantizationError < 10 && !textured) artStyle = 'Flat illustration / vector art';
+        else if (meanSat > 0.55) artStyle = textured ? 'Vivid, high-saturation photograph' : 'Vivid illustration / cartoon';
+        else artStyle = textured ? 'Photorealistic' : 'Soft painterly';
+
+        const skinShare = analysis.skin.reduce((sum, value) => sum + value, 0) / count;
+        const faces = faceBoxes(analysis);
+        let greenShare = 0;
+        let skyShare = 0;
+        const horizon = analysis.horizon;
+        for (let pixel = 0; pixel < count; pixel += 1) {
+            if (isGreen(analysis, pixel)) greenShare += 1 / count;
+            if (horizon !== null && Math.floor(pixel / analysis.width) < horizon && isSkyPixel(analysis, pixel)) skyShare += 1 / count;
+        }
+        const background = [...analysis.clusters].sort((a, b) => b.share - a.share)[0];
+
+        let subjectMatter: string;
+        if (faces.length >= 3) subjectMatter = 'Group of people';
+        else if (faces.length > 0 && skinShare > 0.04) subjectMatter = 'Portrait / person';
+        else if (horizon !== null && skyShare > 0.15) subjectMatter = greenShare > 0.15 ? 'Landscape with sky and greenery' : 'Landscape / outdoor scene';
+        else if (greenShare > 0.35) subjectMatter = 'Nature / foliage';
+        else if (background && background.share > 0.45) subjectMatter = `Single subject on a ${background.name} background`;
+        else subjectMatter = 'General scene';
+
+        return { artStyle, subjectMatter };
+    }
+}
@@ -0,0 +1,22 @@
+import { registerVisionProvider } from './provider';
+import { GeminiVisionProvider } from './gemini';
+import { HeuristicVisionProvider } from './heuristic';
+
+// Register vision backends on import, mirroring `lib/ai`.
+(() => {
+  try {
+    registerVisionProvider(new GeminiVisionProvider());
+  } catch (error) {
+    console.warn('[Vision] Failed to initialize GeminiVisionProvider', error);
+  }
+
+  try {
+    registerVisionProvider(new HeuristicVisionProvider());
+  } catch (error) {
+    console.warn('[Vision] Failed to initialize HeuristicVisionProvider', error);
+  }
+})();
+
+export * from './provider';
+export * from './gemini';
+export * from './heuristic';
@@ -0,0 +1,49 @@
+import type { RegionBounds } from '../segmentation';
+
+export interface VisionLocateParams {
+    image: Buffer;
+    query: string;
+    width: number;
+    height: number;
+    regionHint?: RegionBounds | null;
+    multiple?: boolean; // Return one box per instance ("all faces") instead of the single best match
+    limit?: number;
+}
+
+export interface VisionDescription {
+    artStyle: string;
+    subjectMatter: string;
+}
+
+export interface VisionProvider {
+    name: string;
+    /** Rough boxes (source pixels) for the query, best first. `null` means "cannot answer", not "nothing found". */
+    locate(params: VisionLocateParams): Promise<RegionBounds[] | null>;
+    describe(image: Buffer): Promise<VisionDescription | null>;
+}
+
+const providers: Map<string, VisionProvider> = new Map();
+
+export const registerVisionProvider = (provider: VisionProvider) => {
+    providers.set(provider.name.toLowerCase(), provider);
+};
+
+export const getVisionProvider = (name: string): VisionProvider | undefined => {
+    return providers.get(name.toLowerCase());
+};
+
+export const getDefaultVisionProvider = (): VisionProvider => {
+    const configured = process.env.VISION_PROVIDER && providers.get(process.env.VISION_PROVIDER.toLowerCase());
+    if (configured) return configured;
+
+    const gemini = providers.get('gemini');
+    if (gemini && process.env.GEMINI_API_KEY) return gemini;
+
+    // Without a key, the offline heuristic model keeps semantic features working.
+    const heuristic = providers.get('heuristic');
+    if (heuristic) return heuristic;
+
+    const fallback = Array.from(providers.values())[0];
+    if (!fallback) throw new Error("No Vision Providers Registered");
+    return fallback;
+};
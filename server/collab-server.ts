@@ -0,0 +1,358 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage } from 'node:http';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { FieldWrite, LayerStackCrdt } from '../lib/collab/crdt';
+import {
+    CLOSE_UNAUTHORIZED,
+    ClientMessage,
+    CursorPosition,
+    LOCK_LEASE_MS,
+    LayerLease,
+    PresenceUser,
+    ServerMessage,
+    isLayerOp
+} from '../lib/collab/ops';
+import { RoomTokenClaims, verifyRoomToken } from '../lib/collab/tokens';
+
+/**
+ * Collaboration room server. Each room (one per project id) holds a replica of the layer-stack
+ * CRDT and a sequence counter: every op a client sends is merged into the replica, stamped with
+ * the next `seq` and broadcast to everyone in the room. Merging is order-independent, so the
+ * sequence only gives clients a shared delivery order; joiners and reconnecting clients get the
+ * full CRDT state in their `welcome` and merge it with whatever they edited offline.
+ *
+ * Clients join with a room token from `/api/collab/token` (see `lib/collab/tokens.ts`; both
+ * processes need the same COLLAB_TOKEN_SECRET). Identity and role come from the token, and ops
+ * from viewers are rejected. Connections are closed when their token expires.
+ *
+ * Rooms also keep a table of soft layer locks: editors lease the layers they are working on,
+ * and leases end when released, when not renewed within LOCK_LEASE_MS, or on disconnect.
+ * Clients decline edits to layers leased by someone else, and the server enforces it: writes to
+ * such layers are dropped and overruled (see `LayerStackCrdt.overrule`), so the sender rolls back.
+ *
+ *   npm run collab            # builds and listens on COLLAB_PORT (default 4001)
+ *   ws://localhost:4001/rooms/<roomId>
+ */
+
+const PORT = Number(process.env.COLLAB_PORT || 4001);
+const HOST = process.env.COLLAB_HOST || '0.0.0.0';
+const HEARTBEAT_MS = 30_000;
+const HELLO_TIMEOUT_MS = 10_000;
+const ROOM_IDLE_MS = Number(process.env.COLLAB_ROOM_IDLE_MS || 10 * 60_000); // Keep empty rooms for reconnects
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+const MAX_TIMER_MS = 2 ** 31 - 1;
+const LOCK_SWEEP_MS = 1_000;
+const MAX_LOCKS_PER_MESSAGE = 256;
+
+interface RoomClient {
+    id: string;
+    socket: WebSocket;
+    user: PresenceUser;
+    alive: boolean;
+}
+
+interface HeldLock {
+    lease: LayerLease;
+    expiresAt: number;
+}
+
+interface Room {
+    id: string;
+    seq: number;
+    state: LayerStackCrdt;
+    clients: Map<string, RoomClient>;
+    locks: Map<string, HeldLock>;
+    idleTimer: NodeJS.Timeout | null;
+}
+
+const rooms = new Map<string, Room>();
+
+const getRoom = (roomId: string): Room => {
+    let room = rooms.get(roomId);
+    if (!room) {
+        room = { id: roomId, seq: 0, state: new LayerStackCrdt('server'), clients: new Map(), locks: new Map(), idleTimer: null };
+        rooms.set(roomId, room);
+        console.log(`[Collab] Opened room ${roomId}`);
+    }
+    if (room.idleTimer) {
+        clearTimeout(room.idleTimer);
+        room.idleTimer = null;
+    }
+    return room;
+};
+
+const releaseRoomIfEmpty = (room: Room) => {
+    if (room.clients.size > 0 || room.idleTimer) return;
+    room.idleTimer = setTimeout(() => {
+        if (room.clients.size === 0) {
+            rooms.delete(room.id);
+            console.log(`[Collab] Closed idle room ${room.id}`);
+        }
+    }, ROOM_IDLE_MS);
+    room.idleTimer.unref();
+};
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, message: ServerMessage, except?: string) => {
+    const data = JSON.stringify(message);
+    room.clients.forEach((client) => {
+        if (client.id !== except && client.socket.readyState === WebSocket.OPEN) client.socket.send(data);
+    });
+};
+
+const presenceOf = (room: Room) => Array.from(room.clients.values(), (client) => client.user);
+
+// Only the cursor color is taken from the client; who they are and what they may do is signed.
+const userFromClaims = (claims: RoomTokenClaims, value: any): PresenceUser => ({
+    id: claims.userId.slice(0, 128),
+    name: claims.name.trim().slice(0, 64) || 'Anonymous',
+    color: typeof value?.color === 'string' && value.color.length <= 64 ? value.color : '#3b82f6',
+    role: claims.role
+});
+
+const leasesOf = (room: Room) => Array.from(room.locks.values(), (held) => held.lease);
+
+const layerIdsOf = (value: unknown): string[] =>
+    Array.isArray(value)
+        ? value.filter((id): id is string => typeof id === 'string' && id.length > 0 && id.length <= 128).slice(0, MAX_LOCKS_PER_MESSAGE)
+        : [];
+
+const acquireLocks = (room: Room, client: RoomClient, layerIds: string[]) => {
+    const now = Date.now();
+    let changed = false;
+    layerIds.forEach((layerId) => {
+        const held = room.locks.get(layerId);
+        if (held && held.lease.clientId !== client.id && held.expiresAt > now) return;
+        if (held?.lease.clientId !== client.id) changed = true;
+        const { id: userId, name, color } = client.user;
+        room.locks.set(layerId, { lease: { layerId, clientId: client.id, userId, name, color }, expiresAt: now + LOCK_LEASE_MS });
+    });
+    if (changed) broadcast(room, { type: 'locks', locks: leasesOf(room) });
+};
+
+// The client holding an unexpired lease on `layerId`, if it is not `clientId`.
+const leaseHolderOtherThan = (room: Room, layerId: string, clientId: string) => {
+    const held = room.locks.get(layerId);
+    return held && held.lease.clientId !== clientId && held.expiresAt > Date.now() ? held.lease : null;
+};
+
+// Without `layerIds`, releases everything the client holds.
+const releaseLocks = (room: Room, clientId: string, layerIds?: string[]) => {
+    let changed = false;
+    room.locks.forEach((held, layerId) => {
+        if (held.lease.clientId !== clientId || (layerIds && !layerIds.includes(layerId))) return;
+        room.locks.delete(layerId);
+        changed = true;
+    });
+    if (changed) broadcast(room, { type: 'locks', locks: leasesOf(room) });
+};
+
+const sanitizeCursor = (value: any): CursorPosition | null =>
+    value && Number.isFinite(value.x) && Number.isFinite(value.y) ? { x: Number(value.x), y: Number(value.y) } : null;
+
+const parseMessage = (data: RawData): ClientMessage | null => {
+    try {
+        const message = JSON.parse(data.toString());
+        return message && typeof message.type === 'string' ? message : null;
+    } catch {
+        return null;
+    }
+};
+
+const roomIdFromRequest = (req: IncomingMessage): string | null => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = url.pathname.match(/^\/rooms\/([A-Za-z0-9_-]{1,128})\/?$/);
+    return match ? match[1] : null;
+};
+
+const handleConnection = (socket: WebSocket, roomId: string) => {
+    const clientId = randomUUID();
+    let client: RoomClient | null = null;
+    let room: Room | null = null;
+
+    // Nothing but `hello` is accepted until the client has identified itself.
+    const helloTimer = setTimeout(() => socket.close(4001, 'Expected hello'), HELLO_TIMEOUT_MS);
+    let expiryTimer: NodeJS.Timeout | null = null;
+
+    socket.on('message', (data) => {
+        const message = parseMessage(data);
+        if (!message) {
+            send(socket, { type: 'error', message: 'Malformed message' });
+            return;
+        }
+
+        if (!client || !room) {
+            if (message.type !== 'hello') {
+                socket.close(4001, 'Expected hello');
+                return;
+            }
+            const claims = verifyRoomToken(message.token, roomId);
+            if (!claims) {
+                socket.close(CLOSE_UNAUTHORIZED, 'Invalid or expired token');
+                return;
+            }
+            clearTimeout(helloTimer);
+            const remainingMs = Math.min(claims.exp * 1000 - Date.now(), MAX_TIMER_MS);
+            expiryTimer = setTimeout(() => socket.close(CLOSE_UNAUTHORIZED, 'Token expired'), remainingMs);
+            room = getRoom(roomId);
+            client = { id: clientId, socket, user: userFromClaims(claims, message.user), alive: true };
+            room.clients.set(clientId, client);
+            send(socket, {
+                type: 'welcome',
+                clientId,
+                seq: room.seq,
+                user: client.user,
+                state: room.state.toSnapshot(),
+                users: presenceOf(room),
+                locks: leasesOf(room)
+            });
+            broadcast(room, { type: 'presence', users: presenceOf(room) }, clientId);
+            return;
+        }
+
+        switch (message.type) {
+            case 'op': {
+                if (client.user.role !== 'editor') {
+                    send(socket, { type: 'error', message: 'Viewers cannot edit this room', clientSeq: message.clientSeq });
+                    return;
+                }
+                if (!isLayerOp(message.op)) {
+                    send(socket, { type: 'error', message: 'Invalid op', clientSeq: message.clientSeq });
+                    return;
+                }
+                const clientSeq = Number(message.clientSeq) || 0;
+                const accepted: FieldWrite[] = [];
+                const rejected: FieldWrite[] = [];
+                for (const write of message.op.writes) {
+                    (leaseHolderOtherThan(room, write.layerId, clientId) ? rejected : accepted).push(write);
+                }
+                if (accepted.length > 0) {
+                    room.seq += 1;
+                    room.state.merge(accepted);
+                    broadcast(room, { type: 'op', seq: room.seq, clientId, clientSeq, op: { writes: accepted } });
+                }
+                if (rejected.length > 0) {
+                    // The sender already applied these locally; put the room's values back over them.
+                    room.seq += 1;
+                    broadcast(room, { type: 'op', seq: room.seq, clientId: 'server', clientSeq: 0, op: { writes: room.state.overrule(rejected) } });
+                    const holder = leaseHolderOtherThan(room, rejected[0].layerId, clientId);
+                    send(socket, {
+                        type: 'error',
+                        message: `Layer is being edited by ${holder?.name ?? 'someone else'}`,
+                        clientSeq: accepted.length === 0 ? clientSeq : undefined
+                    });
+                }
+                return;
+            }
+            case 'lock': {
+                if (client.user.role !== 'editor') {
+                    send(socket, { type: 'error', message: 'Viewers cannot lock layers' });
+                    return;
+                }
+                acquireLocks(room, client, layerIdsOf(message.layerIds));
+                return;
+            }
+            case 'unlock':
+                releaseLocks(room, clientId, layerIdsOf(message.layerIds));
+                return;
+            case 'notify': {
+                if (typeof message.topic !== 'string' || !message.topic || message.topic.length > 64) {
+                    send(socket, { type: 'error', message: 'Invalid topic' });
+                    return;
+                }
+                broadcast(room, { type: 'notify', topic: message.topic, userId: client.user.id }, clientId);
+                return;
+            }
+            case 'cursor': {
+                const cursor = sanitizeCursor(message.cursor);
+                client.user = { ...client.user, cursor: cursor ?? undefined };
+                broadcast(room, { type: 'cursor', userId: client.user.id, cursor }, clientId);
+                return;
+            }
+            default:
+                send(socket, { type: 'error', message: `Unexpected ${message.type}` });
+        }
+    });
+
+    socket.on('pong', () => {
+        if (client) client.alive = true;
+    });
+
+    socket.on('close', () => {
+        clearTimeout(helloTimer);
+        if (expiryTimer) clearTimeout(expiryTimer);
+        if (!client || !room) return;
+        room.clients.delete(clientId);
+        releaseLocks(room, clientId);
+        broadcast(room, { type: 'presence', users: presenceOf(room) });
+        releaseRoomIfEmpty(room);
+    });
+
+    socket.on('error', (error) => console.warn(`[Collab] Socket error in room ${roomId}`, error));
+};
+
+const server = createServer((req, res) => {
+    if (req.url === '/health') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: true, rooms: rooms.size }));
+        return;
+    }
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('Upgrade to a WebSocket at /rooms/<roomId>');
+});
+
+const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on('upgrade', (req, socket, head) => {
+    const roomId = roomIdFromRequest(req);
+    if (!roomId) {
+        socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
+        socket.destroy();
+        return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, roomId));
+});
+
+// Drop connections that stopped answering pings (closed laptops, dead proxies).
+const heartbeat = setInterval(() => {
+    rooms.forEach((room) => {
+        room.clients.forEach((client) => {
+            if (!client.alive) {
+                client.socket.terminate();
+                return;
+            }
+            client.alive = false;
+            client.socket.ping();
+        });
+    });
+}, HEARTBEAT_MS);
+
+// Leases that were not renewed in time belong to clients that went idle.
+const lockSweep = setInterval(() => {
+    const now = Date.now();
+    rooms.forEach((room) => {
+        let changed = false;
+        room.locks.forEach((held, layerId) => {
+            if (held.expiresAt > now) return;
+            room.locks.delete(layerId);
+            changed = true;
+        });
+        if (changed) broadcast(room, { type: 'locks', locks: leasesOf(room) });
+    });
+}, LOCK_SWEEP_MS);
+
+const shutdown = () => {
+    clearInterval(heartbeat);
+    clearInterval(lockSweep);
+    wss.clients.forEach((socket) => socket.close(1001, 'Server shutting down'));
+    server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+server.listen(PORT, HOST, () => {
+    console.log(`[Collab] Room server listening on ws://${HOST}:${PORT}/rooms/<roomId>`);
+});